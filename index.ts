@@ -67,6 +67,7 @@ import {
 	getFallbackToGpt52OnUnsupportedGpt53,
 	getUnsupportedCodexPolicy,
 	getUnsupportedCodexFallbackChain,
+	getQuotaExhaustionFallbackChain,
 	getTokenRefreshSkewMs,
 	getSessionRecovery,
 	getAutoResume,
@@ -76,8 +77,38 @@ import {
 	getEmptyResponseMaxRetries,
 	getEmptyResponseRetryDelayMs,
 	getPidOffsetEnabled,
+	getCrossProcessRotation,
+	getRotationStrategy,
+	getHybridSelectionWeights,
+	getRoutingRules,
+	getModelAliases,
+	getSessionAffinity,
+	getSessionAffinityTtlMs,
+	getSessionAffinityMaxEntries,
+	getQuotaForecastHorizonMs,
+	getCreditsAwareRouting,
+	getCreditFloor,
+	getTokenBucketCalibration,
+	getTokenBucketOverrides,
+	getMaxInFlightPerAccount,
+	getInFlightQueueTimeoutMs,
+	getProactiveRefresh,
+	getProactiveRefreshIntervalMs,
+	getHedgedRequests,
+	getHedgeDelayMs,
+	getRequestDeadlineMs,
+	getCircuitBreakerFailureThreshold,
+	getCircuitBreakerFailureWindowMs,
+	getCircuitBreakerResetTimeoutMs,
+	getCircuitBreakerHalfOpenMaxAttempts,
+	getPreflightContextGuard,
+	getContextOverflowStrategy,
+	getToolOutputClipBytes,
+	getToolOutputClipKeepRecent,
 	getFetchTimeoutMs,
 	getStreamStallTimeoutMs,
+	getParallelProbing,
+	getParallelProbingMaxConcurrency,
 	getCodexTuiV2,
 	getCodexTuiColorProfile,
 	getCodexTuiGlyphMode,
@@ -104,10 +135,17 @@ import {
 	clearCorrelationId,
 } from "./lib/logger.js";
 import { checkAndNotify } from "./lib/auto-update-checker.js";
-import { handleContextOverflow } from "./lib/context-overflow.js";
+import {
+	createContextOverflowResponse,
+	describeContextTrim,
+	handleContextOverflow,
+	trimToolOutputsForRetry,
+} from "./lib/context-overflow.js";
+import { createSyntheticResponse } from "./lib/synthetic-response.js";
 import {
 	AccountManager,
 	type AccountSelectionExplainability,
+	type ManagedAccount,
         extractAccountEmail,
         extractAccountId,
         formatAccountLabel,
@@ -131,9 +169,11 @@ import {
 	getWorkspaceIdentityKey,
 	StorageError,
 	formatStorageErrorHint,
+	appendQuotaHistory,
 	type AccountStorageV3,
 	type FlaggedAccountMetadataV1,
 } from "./lib/storage.js";
+import { normalizeAccountPriority } from "./lib/storage/migrations.js";
 import {
 	createCodexHeaders,
 	extractRequestUrl,
@@ -142,6 +182,7 @@ import {
 	isDeactivatedWorkspaceError,
 	getUnsupportedCodexModelInfo,
 	resolveUnsupportedCodexFallbackModel,
+	resolveQuotaExhaustionFallbackModel,
         refreshAndUpdateToken,
         rewriteUrlForCodex,
 	shouldRefreshToken,
@@ -161,14 +202,55 @@ import {
 	RATE_LIMIT_SHORT_RETRY_THRESHOLD_MS,
 	resetRateLimitBackoff,
 } from "./lib/request/rate-limit-backoff.js";
-import { isEmptyResponse } from "./lib/request/response-handler.js";
-import { getCircuitBreaker } from "./lib/circuit-breaker.js";
+import {
+	isEmptyResponse,
+	observeInputTokenUsage,
+} from "./lib/request/response-handler.js";
+import {
+	configureCircuitBreakers,
+	getCircuitBreaker,
+	type CanAttemptResult,
+	type CircuitBreaker,
+} from "./lib/circuit-breaker.js";
+import {
+	createProbeCandidates,
+	getTopCandidates,
+	probeAccountsInParallel,
+} from "./lib/parallel-probe.js";
+import {
+	configureRotationCoordinator,
+	releaseWhenBodySettles,
+} from "./lib/rotation-coordinator.js";
 import {
 	RetryBudgetTracker,
 	resolveRetryBudgetLimits,
 	type RetryBudgetClass,
 } from "./lib/request/retry-budget.js";
-import { addJitter } from "./lib/rotation.js";
+import {
+	addJitter,
+	configureAccountSelection,
+	configureTokenBuckets,
+	filterToPreferredTier,
+} from "./lib/rotation.js";
+import { configureRoutingRules } from "./lib/routing-rules.js";
+import { configureModelAliases } from "./lib/request/helpers/model-map.js";
+import { configureSessionAffinity } from "./lib/session-affinity.js";
+import { configureQuotaForecast } from "./lib/quota-forecast.js";
+import { configureCreditsRouting } from "./lib/credits.js";
+import {
+	configureAccountConcurrency,
+	getAccountConcurrencyLimiter,
+} from "./lib/account-concurrency.js";
+import { configureProactiveRefresh } from "./lib/proactive-refresh.js";
+import { raceWithHedge } from "./lib/hedged-request.js";
+import {
+	RequestDeadline,
+	createDeadlineExceededResponse,
+	formatDeadlineBreakdown,
+	type DeadlinePhase,
+} from "./lib/request/request-deadline.js";
+import { ContextWindowExceededError, RequestDeadlineError } from "./lib/errors.js";
+import { getTokenEstimateCalibration } from "./lib/request/token-estimator.js";
 import { setUiRuntimeOptions, type UiRuntimeOptions } from "./lib/ui/runtime.js";
 import { formatUiBadge, formatUiHeader, formatUiItem, formatUiKeyValue, formatUiSection } from "./lib/ui/format.js";
 import {
@@ -258,6 +340,17 @@ export const OpenAIOAuthPlugin: Plugin = async ({ client }: PluginInput) => {
 		authRefreshFailures: 0,
 		emptyResponseRetries: 0,
 		accountRotations: 0,
+		parallelProbeRaces: 0,
+		parallelProbeWins: 0,
+		parallelProbeCancelled: 0,
+		hedgedRequests: 0,
+		hedgeWins: 0,
+		hedgeCancelled: 0,
+		toolOutputClipMaxBytes: 0,
+		toolOutputClippedRequests: 0,
+		toolOutputClippedOutputs: 0,
+		toolOutputBytesSaved: 0,
+		lastToolOutputBytesSaved: null,
 		cumulativeLatencyMs: 0,
 		retryBudgetExhaustions: 0,
 		retryBudgetUsage: createRetryBudgetUsage(),
@@ -624,6 +717,7 @@ export const OpenAIOAuthPlugin: Plugin = async ({ client }: PluginInput) => {
 					accountLabel: formatAccountLabel(account, account.index),
 				});
 				if (!snapshot) return;
+				await appendQuotaHistory(account, snapshot);
 				await writeTuiQuotaSnapshot(snapshot);
 			} catch (error) {
 				logDebug(
@@ -921,6 +1015,18 @@ export const OpenAIOAuthPlugin: Plugin = async ({ client }: PluginInput) => {
 			);
 		};
 
+		const resolveUnsupportedFallbackSettings = () => {
+			const pluginConfig = loadPluginConfig();
+			const unsupportedCodexPolicy = getUnsupportedCodexPolicy(pluginConfig);
+			return {
+				unsupportedCodexPolicy,
+				fallbackOnUnsupportedCodexModel: unsupportedCodexPolicy === "fallback",
+				fallbackToGpt52OnUnsupportedGpt53:
+					getFallbackToGpt52OnUnsupportedGpt53(pluginConfig),
+				customChain: getUnsupportedCodexFallbackChain(pluginConfig),
+			};
+		};
+
 		const supportsInteractiveMenus = (): boolean => {
 			if (!process.stdin.isTTY || !process.stdout.isTTY) return false;
 			if (process.env.OPENCODE_TUI === "1") return false;
@@ -1404,6 +1510,7 @@ export const OpenAIOAuthPlugin: Plugin = async ({ client }: PluginInput) => {
 			renderSetupChecklistOutput,
 			runSetupWizard,
 			invalidateAccountManagerCache,
+			resolveUnsupportedFallbackSettings,
 			upsertFlaggedAccountRecord,
 		};
 
@@ -1540,9 +1647,23 @@ export const OpenAIOAuthPlugin: Plugin = async ({ client }: PluginInput) => {
 					getFallbackToGpt52OnUnsupportedGpt53(pluginConfig);
 				const unsupportedCodexFallbackChain =
 					getUnsupportedCodexFallbackChain(pluginConfig);
+				const quotaExhaustionFallbackChain =
+					getQuotaExhaustionFallbackChain(pluginConfig);
 				const toastDurationMs = getToastDurationMs(pluginConfig);
 				const fetchTimeoutMs = getFetchTimeoutMs(pluginConfig);
 				const streamStallTimeoutMs = getStreamStallTimeoutMs(pluginConfig);
+				const parallelProbingEnabled = getParallelProbing(pluginConfig);
+				const parallelProbingMaxConcurrency = getParallelProbingMaxConcurrency(pluginConfig);
+				const hedgedRequestsEnabled = getHedgedRequests(pluginConfig);
+				const hedgeDelayMs = getHedgeDelayMs(pluginConfig);
+				const requestDeadlineMs = getRequestDeadlineMs(pluginConfig);
+				const preflightContextGuard = getPreflightContextGuard(pluginConfig);
+				const contextOverflowStrategy = getContextOverflowStrategy(pluginConfig);
+				const toolOutputClipPolicy = {
+					maxBytes: getToolOutputClipBytes(pluginConfig),
+					keepRecent: getToolOutputClipKeepRecent(pluginConfig),
+				};
+				runtimeMetrics.toolOutputClipMaxBytes = toolOutputClipPolicy.maxBytes;
 
 				const sessionRecoveryEnabled = getSessionRecovery(pluginConfig);
 				const autoResumeEnabled = getAutoResume(pluginConfig);
@@ -1550,6 +1671,47 @@ export const OpenAIOAuthPlugin: Plugin = async ({ client }: PluginInput) => {
 				const emptyResponseMaxRetries = getEmptyResponseMaxRetries(pluginConfig);
 				const emptyResponseRetryDelayMs = getEmptyResponseRetryDelayMs(pluginConfig);
 				const pidOffsetEnabled = getPidOffsetEnabled(pluginConfig);
+				await configureRotationCoordinator(getCrossProcessRotation(pluginConfig));
+				configureAccountSelection({
+					strategy: getRotationStrategy(pluginConfig),
+					weights: getHybridSelectionWeights(pluginConfig),
+				});
+				configureTokenBuckets({
+					calibrate: getTokenBucketCalibration(pluginConfig),
+					overrides: getTokenBucketOverrides(pluginConfig),
+				});
+				configureRoutingRules(getRoutingRules(pluginConfig));
+				for (const conflict of configureModelAliases(getModelAliases(pluginConfig))) {
+					logWarn(conflict);
+				}
+				configureSessionAffinity({
+					enabled: getSessionAffinity(pluginConfig),
+					ttlMs: getSessionAffinityTtlMs(pluginConfig),
+					maxEntries: getSessionAffinityMaxEntries(pluginConfig),
+				});
+				configureQuotaForecast({
+					horizonMs: getQuotaForecastHorizonMs(pluginConfig),
+				});
+				configureCreditsRouting({
+					enabled: getCreditsAwareRouting(pluginConfig),
+					floor: getCreditFloor(pluginConfig),
+				});
+				configureAccountConcurrency({
+					maxInFlight: getMaxInFlightPerAccount(pluginConfig),
+					queueTimeoutMs: getInFlightQueueTimeoutMs(pluginConfig),
+				});
+				configureProactiveRefresh({
+					enabled: getProactiveRefresh(pluginConfig),
+					intervalMs: getProactiveRefreshIntervalMs(pluginConfig),
+					skewMs: tokenRefreshSkewMs,
+					getAccountManager: () => cachedAccountManager,
+				});
+				configureCircuitBreakers({
+					failureThreshold: getCircuitBreakerFailureThreshold(pluginConfig),
+					failureWindowMs: getCircuitBreakerFailureWindowMs(pluginConfig),
+					resetTimeoutMs: getCircuitBreakerResetTimeoutMs(pluginConfig),
+					halfOpenMaxAttempts: getCircuitBreakerHalfOpenMaxAttempts(pluginConfig),
+				});
 				const effectiveUserConfig = fastSessionEnabled
 					? applyFastSessionDefaults(userConfig)
 					: userConfig;
@@ -1705,19 +1867,57 @@ export const OpenAIOAuthPlugin: Plugin = async ({ client }: PluginInput) => {
 								const parsedBody =
 									Object.keys(originalBody).length > 0 ? originalBody : undefined;
 
-								const transformation = await transformRequestForCodex(
-									baseInit,
-									url,
-									effectiveUserConfig,
-									codexMode,
-									parsedBody,
-									{
-									fastSession: fastSessionEnabled,
-									fastSessionStrategy,
-									fastSessionMaxInputItems,
-									requestTransformMode,
-								},
-							);
+								let transformation: Awaited<ReturnType<typeof transformRequestForCodex>>;
+								try {
+									transformation = await transformRequestForCodex(
+										baseInit,
+										url,
+										effectiveUserConfig,
+										codexMode,
+										parsedBody,
+										{
+											fastSession: fastSessionEnabled,
+											fastSessionStrategy,
+											fastSessionMaxInputItems,
+											requestTransformMode,
+											contextGuard: preflightContextGuard,
+											toolOutputClip: toolOutputClipPolicy,
+										},
+									);
+								} catch (error) {
+									// Pre-flight guard: answer before any account spends quota on it.
+									if (error instanceof ContextWindowExceededError) {
+										logWarn(`Pre-flight context guard: ${error.message}`);
+										runtimeMetrics.lastError = error.message;
+										runtimeMetrics.lastErrorCategory = "context-preflight";
+										return createContextOverflowResponse(error.model, error.message, isStreaming);
+									}
+									throw error;
+								}
+								const toolOutputClip = transformation?.toolOutputClip;
+								if (toolOutputClip && toolOutputClipPolicy.maxBytes > 0) {
+									runtimeMetrics.lastToolOutputBytesSaved = toolOutputClip.bytesSaved;
+									if (toolOutputClip.clippedOutputs > 0) {
+										runtimeMetrics.toolOutputClippedRequests++;
+										runtimeMetrics.toolOutputClippedOutputs += toolOutputClip.clippedOutputs;
+										runtimeMetrics.toolOutputBytesSaved += toolOutputClip.bytesSaved;
+										logDebug(
+											`Clipped ${toolOutputClip.clippedOutputs} tool output(s), ${toolOutputClip.bytesSaved} bytes saved`,
+										);
+									}
+								}
+								const tokenEstimate = transformation?.tokenEstimate;
+								// Feeds estimated vs. actual input tokens to the estimator's calibration.
+								const observeTokenUsage = (response: Response): Response =>
+									tokenEstimate
+										? observeInputTokenUsage(response, (inputTokens) => {
+												getTokenEstimateCalibration().record(
+													transformation?.body.model ?? null,
+													tokenEstimate.total,
+													inputTokens,
+												);
+											})
+										: response;
 										let requestInit = transformation?.updatedInit ?? baseInit;
 										let transformedBody: RequestBody | undefined = transformation?.body;
 										const promptCacheKey = transformedBody?.prompt_cache_key;
@@ -1744,6 +1944,7 @@ export const OpenAIOAuthPlugin: Plugin = async ({ client }: PluginInput) => {
 								runtimeMetrics.promptCacheMissingRequests++;
 							}
 							const retryBudget = new RetryBudgetTracker(retryBudgetLimits);
+							const deadline = new RequestDeadline(requestDeadlineMs);
 							const consumeRetryBudget = (
 								bucket: RetryBudgetClass,
 								reason: string,
@@ -1767,12 +1968,21 @@ export const OpenAIOAuthPlugin: Plugin = async ({ client }: PluginInput) => {
 							};
 
 					const abortSignal = requestInit?.signal ?? init?.signal ?? null;
-					const sleep = (ms: number): Promise<void> =>
-						new Promise((resolve, reject) => {
+					// Sleeps count against requestDeadlineMs; one that would end past the
+					// deadline fails the request up front instead.
+					const sleep = (ms: number, phase: DeadlinePhase = "backoff"): Promise<void> =>
+						new Promise<void>((resolve, reject) => {
 							if (abortSignal?.aborted) {
 								reject(new Error("Aborted"));
 								return;
 							}
+							try {
+								deadline.assertCanWait(ms, phase);
+							} catch (deadlineError) {
+								reject(deadlineError);
+								return;
+							}
+							const sleepStartedAt = Date.now();
 
 							const timeout = setTimeout(() => {
 								cleanup();
@@ -1787,6 +1997,7 @@ export const OpenAIOAuthPlugin: Plugin = async ({ client }: PluginInput) => {
 							const cleanup = () => {
 								clearTimeout(timeout);
 								abortSignal?.removeEventListener("abort", onAbort);
+								deadline.record(phase, Date.now() - sleepStartedAt);
 							};
 
 							abortSignal?.addEventListener("abort", onAbort, { once: true });
@@ -1797,6 +2008,7 @@ export const OpenAIOAuthPlugin: Plugin = async ({ client }: PluginInput) => {
 						message: string,
 						intervalMs: number = 5000,
 					): Promise<void> => {
+						deadline.assertCanWait(totalMs, "rateLimitWait");
 						const startTime = Date.now();
 						const endTime = startTime + totalMs;
 						
@@ -1815,7 +2027,7 @@ export const OpenAIOAuthPlugin: Plugin = async ({ client }: PluginInput) => {
 							
 							const sleepTime = Math.min(intervalMs, remaining);
 							if (sleepTime > 0) {
-								await sleep(sleepTime);
+								await sleep(sleepTime, "rateLimitWait");
 							} else {
 								break;
 							}
@@ -1824,18 +2036,404 @@ export const OpenAIOAuthPlugin: Plugin = async ({ client }: PluginInput) => {
 
 							let allRateLimitedRetries = 0;
 							let emptyResponseRetries = 0;
+							let contextOverflowRetried = false;
 							const attemptedUnsupportedFallbackModels = new Set<string>();
 							if (model) {
 								attemptedUnsupportedFallbackModels.add(model);
 							}
+							const attemptedQuotaFallbackModels = new Set<string>();
+							if (model) {
+								attemptedQuotaFallbackModels.add(model);
+							}
+							// Points the outgoing body at a fallback model, refreshing its
+							// instructions and the backend model identity message.
+							const rewriteRequestModel = async (nextModel: string): Promise<void> => {
+								const nextInstructions = await getCodexInstructions(nextModel);
+
+								if (transformedBody && typeof transformedBody === "object") {
+									transformedBody = {
+										...transformedBody,
+										model: nextModel,
+										instructions: nextInstructions,
+										input: upsertBackendModelIdentityMessage(
+											transformedBody.input,
+											nextModel,
+										),
+									};
+								} else {
+									let fallbackBody: Record<string, unknown> = {
+										model: nextModel,
+										instructions: nextInstructions,
+									};
+									if (requestInit?.body && typeof requestInit.body === "string") {
+										try {
+											const parsed = JSON.parse(requestInit.body) as Record<string, unknown>;
+											fallbackBody = {
+												...parsed,
+												model: nextModel,
+												instructions: nextInstructions,
+											};
+											if (Array.isArray(fallbackBody.input)) {
+												fallbackBody.input = upsertBackendModelIdentityMessage(
+													fallbackBody.input,
+													nextModel,
+												);
+											}
+										} catch {
+											// Keep minimal fallback body if parsing fails.
+										}
+									}
+									transformedBody = fallbackBody as RequestBody;
+								}
+
+								requestInit = {
+									...(requestInit ?? {}),
+									body: JSON.stringify(transformedBody),
+								};
+							};
+
+							// Parallel probes and hedges send the request to accounts outside the
+							// sequential loop. Only accounts that can be sent without a token
+							// refresh take part, and the route is captured when the race starts
+							// because fallbacks rewrite the model between attempts.
+							type RaceRoute = {
+								family: ModelFamily;
+								model: string | undefined;
+								quotaKey: string;
+							};
+							type RaceCandidate = {
+								account: ManagedAccount;
+								accountAuth: OAuthAuthDetails;
+								accountId: string;
+							};
+							type RaceResponse = {
+								response: Response;
+								release: () => void;
+								latencyMs: number;
+								accountId: string;
+							};
+
+							const pickRaceCandidates = (
+								route: RaceRoute,
+								attempted: Set<number>,
+								limit: number,
+							): RaceCandidate[] => {
+								const limiter = getAccountConcurrencyLimiter();
+								// Races stay in the preferred priority tier, so reserve and
+								// lower-priority accounts only run once that tier is exhausted.
+								const eligible = new Set(
+									filterToPreferredTier(
+										accountManager
+											.getSelectionExplainability(route.family, route.model)
+											.filter((entry) => entry.eligible),
+									).map((entry) => entry.index),
+								);
+								const candidates: RaceCandidate[] = [];
+								for (const ranked of getTopCandidates(
+									accountManager,
+									route.family,
+									route.model ?? null,
+									accountManager.getAccountCount(),
+								)) {
+									if (candidates.length >= limit) break;
+									if (attempted.has(ranked.index) || !eligible.has(ranked.index)) continue;
+									if (!limiter.hasCapacity(ranked.index)) continue;
+									const account = accountManager.getAccountByIndex(ranked.index);
+									if (!account) continue;
+									const accountAuth = accountManager.toAuthDetails(account) as OAuthAuthDetails;
+									if (shouldRefreshToken(accountAuth, tokenRefreshSkewMs)) continue;
+									const accountId = resolveRequestAccountId(
+										account.accountId,
+										account.accountIdSource,
+										extractAccountId(accountAuth.access),
+									);
+									if (!accountId) continue;
+									candidates.push({ account, accountAuth, accountId });
+								}
+								return candidates;
+							};
+
+							// Accounts for an attempt that failed with an error response or a
+							// network error, once its in-flight slot and token are handed back.
+							// A 429 or 5xx also marks the account as attempted so the
+							// sequential path skips it.
+							const recordRaceFailure = async (
+								account: ManagedAccount,
+								route: RaceRoute,
+								attempted: Set<number>,
+								breaker: CircuitBreaker,
+								breakerCheck: CanAttemptResult,
+								failure: { response: Response } | { error: unknown },
+							): Promise<void> => {
+								runtimeMetrics.failedRequests++;
+								if (!("response" in failure)) {
+									runtimeMetrics.networkErrors++;
+									accountManager.recordFailure(account, route.family, route.model);
+									breaker.recordFailure();
+									attempted.add(account.index);
+									return;
+								}
+								const { response } = failure;
+								if (response.status !== 429 && response.status < 500) {
+									// Anything else is about the request, not the account; the
+									// sequential path retries it and reports the error.
+									if (breakerCheck.state === "half-open") breaker.releaseAttempt();
+									void response.body?.cancel().catch(() => {});
+									return;
+								}
+								attempted.add(account.index);
+								const { rateLimit } = await handleErrorResponse(response, {
+									requestCorrelationId,
+									threadId: threadIdCandidate,
+								});
+								if (rateLimit) {
+									runtimeMetrics.rateLimitedResponses++;
+									const { delayMs } = getRateLimitBackoff(
+										account.index,
+										route.quotaKey,
+										rateLimit.retryAfterMs,
+									);
+									accountManager.markRateLimitedWithReason(
+										account,
+										delayMs,
+										route.family,
+										parseRateLimitReason(rateLimit.code),
+										route.model,
+									);
+									accountManager.recordRateLimit(account, route.family, route.model);
+									account.lastSwitchReason = "rate-limit";
+									if (breakerCheck.state === "half-open") breaker.releaseAttempt();
+								} else {
+									runtimeMetrics.serverErrors++;
+									accountManager.recordFailure(account, route.family, route.model);
+									breaker.recordFailure();
+								}
+								accountManager.saveToDiskDebounced();
+							};
+
+							// Resolves with an OK response that still holds the account's token,
+							// in-flight slot and breaker attempt. Every failure is accounted for
+							// through recordRaceFailure and rethrown. `onCancelled` fires when `signal`
+							// aborts the attempt because another one won.
+							const sendRaceAttempt = async (
+								candidate: RaceCandidate,
+								route: RaceRoute,
+								attempted: Set<number>,
+								signal: AbortSignal,
+								onCancelled: () => void,
+							): Promise<RaceResponse> => {
+								const { account, accountAuth, accountId } = candidate;
+								if (!accountManager.consumeToken(account, route.family, route.model)) {
+									throw new Error("Local token bucket depleted");
+								}
+								const releaseSlot = getAccountConcurrencyLimiter().tryAcquire(account.index);
+								if (!releaseSlot) {
+									accountManager.refundToken(account, route.family, route.model);
+									throw new Error("In-flight limit reached");
+								}
+								const breaker = getCircuitBreaker(`${accountId}:${route.family}`);
+								const breakerCheck = breaker.canAttempt();
+								if (!breakerCheck.allowed) {
+									releaseSlot();
+									accountManager.refundToken(account, route.family, route.model);
+									throw new Error("Circuit open");
+								}
+								const releaseCoordinator = accountManager.beginRequest(account);
+								const release = (): void => {
+									releaseCoordinator();
+									releaseSlot();
+								};
+								const headers = createCodexHeaders(
+									requestInit,
+									accountId,
+									accountAuth.access,
+									{
+										model: route.model,
+										promptCacheKey,
+										organizationId: account.organizationId,
+									},
+								);
+
+								const fetchController = new AbortController();
+								const fetchTimeoutId = setTimeout(
+									() => fetchController.abort(new Error("Request timeout")),
+									deadline.clampTimeout(fetchTimeoutMs),
+								);
+								const onAbort = (): void => fetchController.abort(new Error("Aborted"));
+								signal.addEventListener("abort", onAbort, { once: true });
+								abortSignal?.addEventListener("abort", onAbort, { once: true });
+								if (abortSignal?.aborted || signal.aborted) onAbort();
+
+								const fetchStart = performance.now();
+								let response: Response;
+								try {
+									runtimeMetrics.totalRequests++;
+									response = await fetch(url, {
+										...requestInit,
+										headers,
+										signal: fetchController.signal,
+									});
+								} catch (error) {
+									release();
+									accountManager.refundToken(account, route.family, route.model);
+									if (signal.aborted || abortSignal?.aborted) {
+										// No outcome to report; hand the half-open probe slot back.
+										if (breakerCheck.state === "half-open") breaker.releaseAttempt();
+										if (signal.aborted) onCancelled();
+									} else {
+										await recordRaceFailure(account, route, attempted, breaker, breakerCheck, {
+											error,
+										});
+									}
+									throw error;
+								} finally {
+									clearTimeout(fetchTimeoutId);
+									signal.removeEventListener("abort", onAbort);
+									abortSignal?.removeEventListener("abort", onAbort);
+								}
+								const latencyMs = Math.round(performance.now() - fetchStart);
+								logRequest(LOG_STAGES.RESPONSE, {
+									status: response.status,
+									ok: response.ok,
+									statusText: response.statusText,
+									latencyMs,
+									headers: Object.fromEntries(response.headers.entries()),
+								});
+								void recordPromptQuotaHeaders(
+									response,
+									account,
+									accountManager.getAccountCount(),
+								);
+								accountManager.recordQuotaUsage(
+									account,
+									response.headers,
+									route.family,
+									route.model,
+								);
+								if (response.ok) {
+									return { response, release, latencyMs, accountId };
+								}
+
+								release();
+								accountManager.refundToken(account, route.family, route.model);
+								await recordRaceFailure(account, route, attempted, breaker, breakerCheck, {
+									response,
+								});
+								throw new Error(`HTTP ${response.status}`);
+							};
+
+							// Returns what a losing OK response holds. The account did answer, so
+							// its breaker counts the success, but the request is not charged to it.
+							const discardRaceResponse = (
+								account: ManagedAccount,
+								route: RaceRoute,
+								raced: RaceResponse,
+							): void => {
+								raced.release();
+								accountManager.refundToken(account, route.family, route.model);
+								getCircuitBreaker(`${raced.accountId}:${route.family}`).recordSuccess();
+								void raced.response.body?.cancel().catch(() => {});
+							};
+
+							const finishRaceWinner = async (
+								account: ManagedAccount,
+								route: RaceRoute,
+								raced: RaceResponse,
+							): Promise<Response> => {
+								const { response, release, latencyMs } = raced;
+								runtimeMetrics.lastSelectedAccountIndex = account.index;
+								resetRateLimitBackoff(account.index, route.quotaKey);
+								runtimeMetrics.cumulativeLatencyMs += latencyMs;
+								const successResponse = await handleSuccessResponse(observeTokenUsage(response), true, {
+									streamStallTimeoutMs,
+								});
+								if (!successResponse.ok) {
+									release();
+									runtimeMetrics.failedRequests++;
+									runtimeMetrics.lastError = `HTTP ${successResponse.status}`;
+									runtimeMetrics.lastErrorCategory = "http";
+									return successResponse;
+								}
+								accountManager.recordSuccess(account, route.family, route.model);
+								getCircuitBreaker(`${raced.accountId}:${route.family}`).recordSuccess();
+								runtimeMetrics.successfulRequests++;
+								runtimeMetrics.lastError = null;
+								runtimeMetrics.lastErrorCategory = null;
+								return releaseWhenBodySettles(successResponse, release);
+							};
+
+							// Parallel probing: after a 429 rotation, race the best-ranked untried
+							// accounts instead of walking them one by one. The first OK stream
+							// wins; the rest are aborted with their local tokens refunded. Null
+							// when no probe succeeds, leaving untried accounts to the sequential
+							// path.
+							const probeAfterRateLimit = async (
+								attempted: Set<number>,
+							): Promise<Response | null> => {
+								const route: RaceRoute = { family: modelFamily, model, quotaKey };
+								const candidates = pickRaceCandidates(
+									route,
+									attempted,
+									parallelProbingMaxConcurrency,
+								);
+								if (candidates.length < 2) return null;
+								const byIndex = new Map(
+									candidates.map((candidate) => [candidate.account.index, candidate]),
+								);
+
+								runtimeMetrics.parallelProbeRaces++;
+								logDebug(
+									`Parallel probe across accounts ${candidates.map((candidate) => candidate.account.index + 1).join(", ")}`,
+								);
+								const result = await probeAccountsInParallel<RaceResponse>(
+									createProbeCandidates(candidates.map((candidate) => candidate.account)),
+									async (account, signal) => {
+										const candidate = byIndex.get(account.index);
+										if (!candidate) throw new Error("Unknown probe candidate");
+										return sendRaceAttempt(candidate, route, attempted, signal, () => {
+											runtimeMetrics.parallelProbeCancelled++;
+										});
+									},
+									{
+										onDiscard: (account, late) => {
+											discardRaceResponse(account, route, late);
+											runtimeMetrics.parallelProbeCancelled++;
+										},
+									},
+								);
+								if (abortSignal?.aborted) {
+									throw abortSignal.reason instanceof Error
+										? abortSignal.reason
+										: new Error("Aborted");
+								}
+								if (!result?.response) {
+									logDebug("Parallel probe found no healthy account");
+									return null;
+								}
+
+								attempted.add(result.account.index);
+								runtimeMetrics.parallelProbeWins++;
+								logDebug(`Parallel probe won by account ${result.account.index + 1}`);
+								return finishRaceWinner(result.account, route, result.response);
+							};
 
 							while (true) {
 						let accountCount = accountManager.getAccountCount();
 						const attempted = new Set<number>();
+						let probeNextAttempt = false;
 						let restartAccountTraversalWithFallback = false;
 						let restartAccountTraversalAfterWorkspaceDeactivation = false;
 
 while (attempted.size < Math.max(1, accountCount)) {
+				deadline.check();
+				if (probeNextAttempt) {
+					probeNextAttempt = false;
+					const probed = await deadline.track("upstream", () =>
+						probeAfterRateLimit(attempted),
+					);
+					if (probed) return probed;
+					if (attempted.size >= Math.max(1, accountCount)) break;
+				}
 				const selectionExplainability = accountManager.getSelectionExplainability(
 					modelFamily,
 					model,
@@ -1855,7 +2453,11 @@ while (attempted.size < Math.max(1, accountCount)) {
 					fallbackTo,
 					fallbackReason,
 				};
-				const account = accountManager.getCurrentOrNextForFamilyHybrid(modelFamily, model, { pidOffsetEnabled });
+				const account = accountManager.getCurrentOrNextForFamilyHybrid(modelFamily, model, {
+					pidOffsetEnabled,
+					sessionKey: promptCacheKey,
+					ignoreSessionAffinity: attempted.size > 0,
+				});
 				if (!account || attempted.has(account.index)) {
 					break;
 				}
@@ -1883,9 +2485,9 @@ while (attempted.size < Math.max(1, accountCount)) {
 											let accountAuth = accountManager.toAuthDetails(account) as OAuthAuthDetails;
 								try {
 						if (shouldRefreshToken(accountAuth, tokenRefreshSkewMs)) {
-							accountAuth = (await refreshAndUpdateToken(
-								accountAuth,
-								client,
+							const expiringAuth = accountAuth;
+							accountAuth = (await deadline.track("tokenRefresh", () =>
+								refreshAndUpdateToken(expiringAuth, client),
 							)) as OAuthAuthDetails;
 							accountManager.updateFromAuth(account, accountAuth);
 							accountManager.clearAuthFailures(account);
@@ -1899,19 +2501,9 @@ while (attempted.size < Math.max(1, accountCount)) {
 						`Auth refresh failed for account ${account.index + 1}`,
 					)
 				) {
-					return new Response(
-						JSON.stringify({
-							error: {
-								message:
-									"Auth refresh retry budget exhausted for this request. Try again or switch accounts.",
-							},
-						}),
-						{
-							status: 503,
-							headers: {
-								"content-type": "application/json; charset=utf-8",
-							},
-						},
+					return createSyntheticResponse(
+						"[Plugin Notice] Auth refresh retry budget exhausted for this request. Try again or switch accounts.",
+						{ model, stream: isStreaming, errorType: "retry_budget_exhausted" },
 					);
 				}
 				runtimeMetrics.authRefreshFailures++;
@@ -2037,6 +2629,7 @@ while (attempted.size < Math.max(1, accountCount)) {
 							// rotation path instead of hammering a degraded endpoint.
 							const circuitBreakerKey = `${accountId}:${modelFamily}`;
 							const circuitBreaker = getCircuitBreaker(circuitBreakerKey);
+							const concurrencyLimiter = getAccountConcurrencyLimiter();
 
 							while (true) {
 								let response: Response;
@@ -2062,9 +2655,39 @@ while (attempted.size < Math.max(1, accountCount)) {
 									break;
 								}
 
+								// Wait for a slot under maxInFlightPerAccount. Selection already
+								// steered away from saturated accounts, so a wait here means every
+								// candidate is at its limit.
+								const releaseSlot = await deadline.track("queue", () =>
+									concurrencyLimiter.acquire(account.index, {
+										signal: abortSignal,
+										timeoutMs: deadline.remainingMs(),
+									}),
+								);
+								if (!releaseSlot) {
+									accountManager.refundToken(account, modelFamily, model);
+									// Nothing was sent, so a half-open probe slot goes back unused.
+									if (breakerCheck.state === "half-open") circuitBreaker.releaseAttempt();
+									if (abortSignal?.aborted) {
+										throw abortSignal.reason instanceof Error
+											? abortSignal.reason
+											: new Error("Aborted by user");
+									}
+									deadline.check("queue");
+									const limitMessage = `Timed out waiting for an in-flight slot on account ${account.index + 1}`;
+									logWarn(limitMessage);
+									runtimeMetrics.failedRequests++;
+									runtimeMetrics.lastError = limitMessage;
+									runtimeMetrics.lastErrorCategory = "concurrency";
+									return createSyntheticResponse(
+										"[Plugin Notice] All accounts are at their in-flight request limit (maxInFlightPerAccount). Try again in a moment.",
+										{ model, stream: isStreaming, errorType: "in_flight_limit" },
+									);
+								}
+
 								// Merge user AbortSignal with timeout (Node 18 compatible - no AbortSignal.any)
 								const fetchController = new AbortController();
-								const requestTimeoutMs = fetchTimeoutMs;
+								const requestTimeoutMs = deadline.clampTimeout(fetchTimeoutMs);
 								const fetchTimeoutId = setTimeout(
 									() => fetchController.abort(new Error("Request timeout")),
 									requestTimeoutMs,
@@ -2081,25 +2704,146 @@ while (attempted.size < Math.max(1, accountCount)) {
 								abortSignal.addEventListener("abort", onUserAbort, { once: true });
 							}
 
+							// Shared with peer processes when crossProcessRotation is on so
+							// their selection steers away from accounts we are using.
+							const releaseCoordinator = accountManager.beginRequest(account);
+							const releaseInFlight = (): void => {
+								releaseCoordinator();
+								releaseSlot();
+							};
 							try {
 								// Request metrics are tracked at the fetch boundary, so retries and
 								// account rotation are counted consistently. These increments are
 								// in-memory only and run on Node's single-threaded event loop, so no
 								// filesystem locking or token-redaction concerns are introduced here.
 								runtimeMetrics.totalRequests++;
-								response = await fetch(url, {
+								const primaryFetch = fetch(url, {
 									...requestInit,
 									headers,
 									signal: fetchController.signal,
 								});
+								if (hedgedRequestsEnabled && isStreaming) {
+									// Hedge: if this account has not answered within hedgeDelayMs,
+									// send the same request to the best untried account and keep
+									// whichever answers first. A hedge is not a retry, so it
+									// never draws on the retry budget; the loser's local token is
+									// refunded so only the winner is charged.
+									const route: RaceRoute = { family: modelFamily, model, quotaKey };
+									let hedgeAccount: ManagedAccount | null = null;
+									// How the primary ended. When the hedge wins, a primary that
+									// was still pending is cancelled; one that had already failed
+									// is accounted for against this account.
+									let primarySettled: { response: Response } | { error: unknown } | null =
+										null;
+									let primaryCancelled = false;
+									const racing = raceWithHedge<{
+										response: Response;
+										hedge: RaceResponse | null;
+									}>(
+										{
+											result: primaryFetch.then(
+												(primary) => {
+													primarySettled = { response: primary };
+													return { response: primary, hedge: null };
+												},
+												(error: unknown) => {
+													primarySettled = { error };
+													throw error;
+												},
+											),
+											abort: () => {
+												primaryCancelled = primarySettled === null;
+												fetchController.abort(new Error("Hedged request won"));
+											},
+										},
+										{
+											delayMs: hedgeDelayMs,
+											launch: () => {
+												const [candidate] = pickRaceCandidates(route, attempted, 1);
+												if (!candidate) return null;
+												hedgeAccount = candidate.account;
+												runtimeMetrics.hedgedRequests++;
+												logDebug(
+													`Hedging account ${account.index + 1} with account ${candidate.account.index + 1} after ${hedgeDelayMs}ms`,
+												);
+												const hedgeController = new AbortController();
+												return {
+													result: sendRaceAttempt(
+														candidate,
+														route,
+														attempted,
+														hedgeController.signal,
+														() => {
+															runtimeMetrics.hedgeCancelled++;
+														},
+													).then((hedge) => ({ response: hedge.response, hedge })),
+													abort: () => hedgeController.abort(new Error("Primary request won")),
+												};
+											},
+											// Only a successful answer wins. A primary that fails while the
+											// hedge is still running waits for it, and is only used when
+											// the hedge fails too (a failed hedge has already thrown).
+											accept: ({ response }) => response.ok,
+											onDiscard: (late, source) => {
+												if (source === "hedge" && late.hedge && hedgeAccount) {
+													runtimeMetrics.hedgeCancelled++;
+													discardRaceResponse(hedgeAccount, route, late.hedge);
+												} else if (late.response.ok || primaryCancelled) {
+													// A failed primary keeps its body for the accounting below.
+													void late.response.body?.cancel().catch(() => {});
+												}
+											},
+										},
+									);
+									const raced = await deadline.track("upstream", () => racing);
+									if (raced.source === "hedge" && raced.value.hedge && hedgeAccount) {
+										releaseInFlight();
+										accountManager.refundToken(account, modelFamily, model);
+										const primaryOutcome = primarySettled as
+											| { response: Response }
+											| { error: unknown }
+											| null;
+										if (
+											!primaryCancelled &&
+											primaryOutcome &&
+											("error" in primaryOutcome || !primaryOutcome.response.ok)
+										) {
+											await recordRaceFailure(
+												account,
+												route,
+												attempted,
+												circuitBreaker,
+												breakerCheck,
+												primaryOutcome,
+											);
+										} else {
+											if (primaryCancelled) runtimeMetrics.hedgeCancelled++;
+											if (breakerCheck.state === "half-open") circuitBreaker.releaseAttempt();
+										}
+										runtimeMetrics.hedgeWins++;
+										return await finishRaceWinner(hedgeAccount, route, raced.value.hedge);
+									}
+									response = raced.value.response;
+								} else {
+									response = await deadline.track("upstream", () => primaryFetch);
+								}
 							} catch (networkError) {
+								releaseInFlight();
+								// A cancelled or timed-out attempt says nothing about this
+								// account, so it hands back a half-open probe slot unused.
 								if (abortSignal?.aborted && fetchController.signal.aborted) {
 									accountManager.refundToken(account, modelFamily, model);
+									if (breakerCheck.state === "half-open") circuitBreaker.releaseAttempt();
 									if (networkError instanceof Error) {
 										throw networkError;
 									}
 									throw new Error(String(networkError));
 								}
+								if (deadline.expired()) {
+									accountManager.refundToken(account, modelFamily, model);
+									if (breakerCheck.state === "half-open") circuitBreaker.releaseAttempt();
+									throw deadline.exceeded("upstream");
+								}
 								const errorMsg = networkError instanceof Error ? networkError.message : String(networkError);
 								logWarn(`Network error for account ${account.index + 1}: ${errorMsg}`);
 								if (
@@ -2109,19 +2853,9 @@ while (attempted.size < Math.max(1, accountCount)) {
 									)
 								) {
 									accountManager.refundToken(account, modelFamily, model);
-									return new Response(
-										JSON.stringify({
-											error: {
-												message:
-													"Network retry budget exhausted for this request. Try again in a moment.",
-											},
-										}),
-										{
-											status: 503,
-											headers: {
-												"content-type": "application/json; charset=utf-8",
-											},
-										},
+									return createSyntheticResponse(
+										"[Plugin Notice] Network retry budget exhausted for this request. Try again in a moment.",
+										{ model, stream: isStreaming, errorType: "retry_budget_exhausted" },
 									);
 								}
 								runtimeMetrics.failedRequests++;
@@ -2152,10 +2886,42 @@ while (attempted.size < Math.max(1, accountCount)) {
 								headers: Object.fromEntries(response.headers.entries()),
 							});
 							void recordPromptQuotaHeaders(response, account, accountCount);
+							accountManager.recordQuotaUsage(account, response.headers, modelFamily, model);
 
 								if (!response.ok) {
-									const contextOverflowResult = await handleContextOverflow(response, model);
+									releaseInFlight();
+									const contextOverflowResult = await handleContextOverflow(response, model, isStreaming);
 									if (contextOverflowResult.handled) {
+										// The account answered; an overflow is about the request, and
+										// a half-open probe slot must be free for the retry.
+										circuitBreaker.recordSuccess();
+										// trim-and-retry: shrink old tool outputs in place and resend
+										// once on the same account; a second overflow gets the notice.
+										if (
+											contextOverflowStrategy === "trim-and-retry" &&
+											!contextOverflowRetried &&
+											Array.isArray(transformedBody?.input)
+										) {
+											const trimmed = trimToolOutputsForRetry(transformedBody.input);
+											if (trimmed.dropped + trimmed.shortened > 0) {
+												contextOverflowRetried = true;
+												transformedBody = { ...transformedBody, input: trimmed.input };
+												requestInit = {
+													...(requestInit ?? {}),
+													body: JSON.stringify(transformedBody),
+												};
+												const trimSummary = describeContextTrim(trimmed);
+												logWarn(
+													`Context overflow on ${model ?? "unknown model"}: ${trimSummary}. Retrying once.`,
+												);
+												await showToast(
+													`Context too long: ${trimSummary}. Retrying once.`,
+													"warning",
+													{ duration: toastDurationMs },
+												);
+												continue;
+											}
+										}
 										return contextOverflowResult.response;
 									}
 
@@ -2163,6 +2929,8 @@ while (attempted.size < Math.max(1, accountCount)) {
 						await handleErrorResponse(response, {
 							requestCorrelationId,
 							threadId: threadIdCandidate,
+							model,
+							stream: isStreaming,
 						});
 
 			const workspaceDeactivated = isDeactivatedWorkspaceError(errorBody, response.status);
@@ -2278,48 +3046,7 @@ while (attempted.size < Math.max(1, accountCount)) {
 				fallbackFrom = previousModel;
 				fallbackTo = model;
 				fallbackReason = "fallback-unsupported-model-entitlement";
-				const fallbackInstructions = await getCodexInstructions(model);
-
-				if (transformedBody && typeof transformedBody === "object") {
-					transformedBody = {
-						...transformedBody,
-						model,
-						instructions: fallbackInstructions,
-						input: upsertBackendModelIdentityMessage(
-							transformedBody.input,
-							model,
-						),
-					};
-				} else {
-					let fallbackBody: Record<string, unknown> = {
-						model,
-						instructions: fallbackInstructions,
-					};
-					if (requestInit?.body && typeof requestInit.body === "string") {
-						try {
-							const parsed = JSON.parse(requestInit.body) as Record<string, unknown>;
-							fallbackBody = {
-								...parsed,
-								model,
-								instructions: fallbackInstructions,
-							};
-							if (Array.isArray(fallbackBody.input)) {
-								fallbackBody.input = upsertBackendModelIdentityMessage(
-									fallbackBody.input,
-									model,
-								);
-							}
-						} catch {
-							// Keep minimal fallback body if parsing fails.
-						}
-					}
-					transformedBody = fallbackBody as RequestBody;
-				}
-
-				requestInit = {
-					...(requestInit ?? {}),
-					body: JSON.stringify(transformedBody),
-				};
+				await rewriteRequestModel(model);
 				if (runtimeMetrics.lastSelectionSnapshot) {
 					runtimeMetrics.lastSelectionSnapshot = {
 						...runtimeMetrics.lastSelectionSnapshot,
@@ -2497,6 +3224,7 @@ while (attempted.size < Math.max(1, accountCount)) {
 						logWarn(
 							`Rate limited. Rotating account ${account.index + 1} (${account.email ?? "unknown"}).`,
 						);
+				probeNextAttempt = parallelProbingEnabled && isStreaming;
 
 																														if (
 																															accountManager.getAccountCount() > 1 &&
@@ -2522,9 +3250,12 @@ while (attempted.size < Math.max(1, accountCount)) {
 
 					resetRateLimitBackoff(account.index, quotaKey);
 					runtimeMetrics.cumulativeLatencyMs += fetchLatencyMs;
-					const successResponse = await handleSuccessResponse(response, isStreaming, {
+					const successResponse = await handleSuccessResponse(observeTokenUsage(response), isStreaming, {
 						streamStallTimeoutMs,
 					});
+					if (!isStreaming || !successResponse.ok) {
+						releaseInFlight();
+					}
 
 					if (!successResponse.ok) {
 						runtimeMetrics.failedRequests++;
@@ -2573,7 +3304,9 @@ while (attempted.size < Math.max(1, accountCount)) {
 					runtimeMetrics.successfulRequests++;
 					runtimeMetrics.lastError = null;
 					runtimeMetrics.lastErrorCategory = null;
-						return successResponse;
+						return isStreaming
+							? releaseWhenBodySettles(successResponse, releaseInFlight)
+							: successResponse;
 																								}
 						if (restartAccountTraversalWithFallback) {
 							break;
@@ -2593,6 +3326,65 @@ while (attempted.size < Math.max(1, accountCount)) {
 										const waitMs = accountManager.getMinWaitTimeForFamily(modelFamily, model);
 										const count = accountManager.getAccountCount();
 
+								const quotaFallbackModel =
+									count > 0 && waitMs > 0
+										? resolveQuotaExhaustionFallbackModel({
+												requestedModel: requestedModel ?? undefined,
+												chain: quotaExhaustionFallbackChain,
+												attemptedModels: attemptedQuotaFallbackModels,
+												isExhausted: (candidate) =>
+													accountManager.getMinWaitTimeForFamily(
+														getModelFamily(candidate),
+														candidate,
+													) > 0,
+											})
+										: undefined;
+								if (quotaFallbackModel) {
+									const previousModel = model ?? modelFamily;
+									attemptedQuotaFallbackModels.add(previousModel);
+									attemptedQuotaFallbackModels.add(quotaFallbackModel);
+									model = quotaFallbackModel;
+									modelFamily = getModelFamily(model);
+									quotaKey = `${modelFamily}:${model}`;
+									fallbackApplied = true;
+									fallbackFrom = previousModel;
+									fallbackTo = model;
+									fallbackReason = "fallback-quota-exhausted";
+									await rewriteRequestModel(model);
+									if (runtimeMetrics.lastSelectionSnapshot) {
+										runtimeMetrics.lastSelectionSnapshot = {
+											...runtimeMetrics.lastSelectionSnapshot,
+											family: modelFamily,
+											model,
+											requestedModel,
+											effectiveModel: model,
+											quotaKey,
+											fallbackApplied,
+											fallbackFrom,
+											fallbackTo,
+											fallbackReason,
+										};
+									}
+									runtimeMetrics.lastError = `Model fallback: ${previousModel} -> ${model}`;
+									runtimeMetrics.lastErrorCategory = "model-fallback";
+									logWarn(
+										`All ${count} account(s) are rate-limited for ${previousModel}. Falling back to ${model}.`,
+										{
+											requestedModel,
+											effectiveModel: model,
+											waitMs,
+											fallbackApplied: true,
+											fallbackReason,
+										},
+									);
+									await showToast(
+										`All accounts are rate-limited for ${previousModel}. Retrying with ${model}.`,
+										"warning",
+										{ duration: toastDurationMs },
+									);
+									continue;
+								}
+
 								if (
 									retryAllAccountsRateLimited &&
 									count > 0 &&
@@ -2625,29 +3417,72 @@ while (attempted.size < Math.max(1, accountCount)) {
 									entitlementModel.length > 0
 										? ` The backend rejected '${entitlementModel}' as not entitled for Codex OAuth on every pooled account.`
 										: "";
+								const routingRuleReasons = (
+									runtimeMetrics.lastSelectionSnapshot?.explainability ?? []
+								)
+									.filter((entry) => entry.enabled)
+									.map((entry) =>
+										entry.reasons.find((reason) => reason.startsWith("routing-rule:")),
+									);
+								const blockedByRoutingRules =
+									routingRuleReasons.length > 0 &&
+									routingRuleReasons.every((reason) => reason !== undefined);
+								const enabledExplainability = (
+									runtimeMetrics.lastSelectionSnapshot?.explainability ?? []
+								).filter((entry) => entry.enabled);
+								const scheduledOpenings = enabledExplainability
+									.map((entry) => entry.availableAt)
+									.filter((availableAt): availableAt is number => typeof availableAt === "number");
+								const blockedBySchedule =
+									!blockedByRoutingRules &&
+									scheduledOpenings.length > 0 &&
+									enabledExplainability.every(
+										(entry) =>
+											typeof entry.availableAt === "number" ||
+											entry.reasons.some((reason) => reason.startsWith("routing-rule:")),
+									);
+								const nextScheduledOpening =
+									scheduledOpenings.length > 0 ? Math.min(...scheduledOpenings) : null;
 								const message =
 									count === 0
 										? "No Codex accounts configured. Run `opencode auth login`."
+										: blockedByRoutingRules
+											? `No account satisfies routingRules for '${model ?? modelFamily}' (${Array.from(new Set(routingRuleReasons)).join(", ")}). Tag an account with \`codex-tag\` or adjust \`routingRules\`.`
+										: blockedBySchedule && nextScheduledOpening !== null
+											? `All ${count} account(s) are outside their availability schedule. The next one becomes available in ${formatWaitTime(nextScheduledOpening - Date.now())}. See \`codex-list\` for per-account availability.`
 										: waitMs > 0
 											? `All ${count} account(s) are rate-limited. Try again in ${waitLabel} or add another account with \`opencode auth login\`.`
 											: wasEntitlementExhaustion
 												? `All ${count} account(s) returned 'model not supported' for the requested model.${entitlementDetail} If this is a GPT-5.5 request during the rollout period, set \`unsupportedCodexPolicy: "fallback"\` (or \`CODEX_AUTH_UNSUPPORTED_MODEL_POLICY=fallback\`) to auto-fallback to gpt-5.4. See \`codex-health\` for per-account details.`
 												: `All ${count} account(s) failed (server errors or auth issues). Check account health with \`codex-health\`.`;
+								const errorCategory =
+									blockedByRoutingRules
+										? "routing-rule"
+										: blockedBySchedule
+											? "availability-schedule"
+										: waitMs > 0
+											? "rate-limit"
+											: wasEntitlementExhaustion
+												? "unsupported-model"
+												: "account-failure";
 								runtimeMetrics.failedRequests++;
 								runtimeMetrics.lastError = message;
-								runtimeMetrics.lastErrorCategory =
-									waitMs > 0
-										? "rate-limit"
-										: wasEntitlementExhaustion
-											? "unsupported-model"
-											: "account-failure";
-								return new Response(JSON.stringify({ error: { message } }), {
-									status: waitMs > 0 ? 429 : 503,
-											headers: {
-												"content-type": "application/json; charset=utf-8",
-											},
-										});
+								runtimeMetrics.lastErrorCategory = errorCategory;
+								return createSyntheticResponse(`[Plugin Notice] ${message}`, {
+									model,
+									stream: isStreaming,
+									errorType: count === 0 ? "no_accounts" : errorCategory.replace(/-/g, "_"),
+								});
 									}
+						} catch (error) {
+							if (error instanceof RequestDeadlineError) {
+								logWarn(`${error.message}: ${formatDeadlineBreakdown(error.breakdown)}`);
+								runtimeMetrics.failedRequests++;
+								runtimeMetrics.lastError = error.message;
+								runtimeMetrics.lastErrorCategory = "deadline";
+								return createDeadlineExceededResponse(error);
+							}
+							throw error;
 						} finally {
 							clearCorrelationId();
 						}
@@ -3392,6 +4227,8 @@ while (attempted.size < Math.max(1, accountCount)) {
 											status,
 											isCurrentAccount: index === activeIndex,
 											enabled: account.enabled !== false,
+											priority: account.priority,
+											reserve: account.reserve === true,
 										};
 									});
 
@@ -3460,6 +4297,44 @@ while (attempted.size < Math.max(1, accountCount)) {
 											continue;
 										}
 
+										if (
+											typeof menuResult.priorityAccountIndex === "number" &&
+											typeof menuResult.priorityValue === "number"
+										) {
+											const target = workingStorage.accounts[menuResult.priorityAccountIndex];
+											if (target) {
+												const priority = normalizeAccountPriority(menuResult.priorityValue);
+												if (priority === undefined) {
+													delete target.priority;
+												} else {
+													target.priority = priority;
+												}
+												await saveAccounts(workingStorage);
+												invalidateAccountManagerCache();
+												console.log(
+													`\n${target.email ?? `Account ${menuResult.priorityAccountIndex + 1}`} priority set to ${priority ?? 0}.\n`,
+												);
+											}
+											continue;
+										}
+
+										if (typeof menuResult.reserveAccountIndex === "number") {
+											const target = workingStorage.accounts[menuResult.reserveAccountIndex];
+											if (target) {
+												if (target.reserve === true) {
+													delete target.reserve;
+												} else {
+													target.reserve = true;
+												}
+												await saveAccounts(workingStorage);
+												invalidateAccountManagerCache();
+												console.log(
+													`\n${target.email ?? `Account ${menuResult.reserveAccountIndex + 1}`} ${target.reserve === true ? "marked as reserve" : "returned to normal rotation"}.\n`,
+												);
+											}
+											continue;
+										}
+
 										if (typeof menuResult.refreshAccountIndex === "number") {
 											refreshAccountIndex = menuResult.refreshAccountIndex;
 											startFresh = false;
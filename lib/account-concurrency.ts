@@ -0,0 +1,240 @@
+/**
+ * Per-account in-flight request limit.
+ *
+ * The backend answers a burst of parallel requests on one account (parallel
+ * subagents, mostly) with `concurrent` 429s. With `maxInFlightPerAccount` set,
+ * the selector steers new requests to accounts below the limit, and when
+ * every candidate is at the limit the request waits in a FIFO queue for a
+ * slot on the account it was given, for up to `inFlightQueueTimeoutMs`.
+ *
+ * Slots are keyed by account index, like the rotation trackers, and are
+ * in-process only; `crossProcessRotation` covers other processes.
+ */
+
+/**
+ * Safety net for slots whose release is never invoked (e.g. an exception
+ * escaping the request pipeline), matching the rotation coordinator's.
+ */
+const SLOT_MAX_HOLD_MS = 15 * 60_000;
+
+export interface AccountConcurrencyConfig {
+	/** Requests in flight per account before new ones queue; 0 disables the limit */
+	maxInFlight: number;
+	/** How long a queued request waits for a slot */
+	queueTimeoutMs: number;
+}
+
+export const DEFAULT_ACCOUNT_CONCURRENCY_CONFIG: AccountConcurrencyConfig = {
+	maxInFlight: 0,
+	queueTimeoutMs: 30_000,
+};
+
+export interface AccountConcurrencyStats {
+	maxInFlight: number;
+	queueTimeoutMs: number;
+	inFlight: number;
+	/** Requests waiting for a slot right now */
+	queueDepth: number;
+	peakQueueDepth: number;
+	/** Requests that had to wait, including ones that timed out */
+	queuedRequests: number;
+	timeouts: number;
+	averageWaitMs: number;
+	maxWaitMs: number;
+	accounts: Array<{ index: number; inFlight: number; queued: number }>;
+}
+
+interface QueuedAcquire {
+	grant: () => void;
+}
+
+export class AccountConcurrencyLimiter {
+	private readonly inFlight = new Map<number, number>();
+	private readonly queues = new Map<number, QueuedAcquire[]>();
+	private config: AccountConcurrencyConfig;
+	private peakQueueDepth = 0;
+	private queuedRequests = 0;
+	private timeouts = 0;
+	private totalWaitMs = 0;
+	private maxWaitMs = 0;
+
+	constructor(config: Partial<AccountConcurrencyConfig> = {}) {
+		this.config = { ...DEFAULT_ACCOUNT_CONCURRENCY_CONFIG, ...config };
+	}
+
+	configure(config: Partial<AccountConcurrencyConfig>): void {
+		this.config = { ...DEFAULT_ACCOUNT_CONCURRENCY_CONFIG, ...config };
+		// A raised (or removed) limit frees slots for anything already queued.
+		for (const accountIndex of this.queues.keys()) this.drainQueue(accountIndex);
+	}
+
+	get enabled(): boolean {
+		return this.config.maxInFlight > 0;
+	}
+
+	get maxInFlight(): number {
+		return this.config.maxInFlight;
+	}
+
+	getInFlight(accountIndex: number): number {
+		return this.inFlight.get(accountIndex) ?? 0;
+	}
+
+	hasCapacity(accountIndex: number): boolean {
+		return !this.enabled || this.getInFlight(accountIndex) < this.config.maxInFlight;
+	}
+
+	/** Takes a slot without waiting. Returns the release callback, or null when saturated. */
+	tryAcquire(accountIndex: number): (() => void) | null {
+		if (!this.hasCapacity(accountIndex) || this.getQueue(accountIndex).length > 0) {
+			return null;
+		}
+		return this.take(accountIndex);
+	}
+
+	/**
+	 * Takes a slot, waiting in FIFO order while the account is saturated.
+	 * Resolves to the release callback, or null when the wait hits
+	 * `queueTimeoutMs` (or the shorter `timeoutMs`) or `signal` aborts.
+	 */
+	acquire(
+		accountIndex: number,
+		options: { signal?: AbortSignal | null; timeoutMs?: number } = {},
+	): Promise<(() => void) | null> {
+		const immediate = this.tryAcquire(accountIndex);
+		if (immediate) return Promise.resolve(immediate);
+		if (options.signal?.aborted) return Promise.resolve(null);
+
+		const queue = this.getQueue(accountIndex);
+		const queuedAt = Date.now();
+		this.queuedRequests++;
+		return new Promise((resolve) => {
+			let settled = false;
+			const finish = (release: (() => void) | null): void => {
+				if (settled) return;
+				settled = true;
+				clearTimeout(timer);
+				options.signal?.removeEventListener("abort", onAbort);
+				const index = queue.indexOf(entry);
+				if (index !== -1) queue.splice(index, 1);
+				const waitedMs = Date.now() - queuedAt;
+				this.totalWaitMs += waitedMs;
+				this.maxWaitMs = Math.max(this.maxWaitMs, waitedMs);
+				resolve(release);
+			};
+			const entry: QueuedAcquire = {
+				grant: () => finish(this.take(accountIndex)),
+			};
+			const timer = setTimeout(() => {
+				this.timeouts++;
+				finish(null);
+			}, Math.max(0, Math.min(this.config.queueTimeoutMs, options.timeoutMs ?? Infinity)));
+			const onAbort = (): void => finish(null);
+			options.signal?.addEventListener("abort", onAbort, { once: true });
+			queue.push(entry);
+			this.peakQueueDepth = Math.max(this.peakQueueDepth, this.getQueueDepth());
+		});
+	}
+
+	getStats(): AccountConcurrencyStats {
+		const indices = new Set([...this.inFlight.keys(), ...this.queues.keys()]);
+		const accounts = [...indices]
+			.sort((a, b) => a - b)
+			.map((index) => ({
+				index,
+				inFlight: this.getInFlight(index),
+				queued: this.queues.get(index)?.length ?? 0,
+			}))
+			.filter((entry) => entry.inFlight > 0 || entry.queued > 0);
+		const completedWaits = this.queuedRequests - this.getQueueDepth();
+		return {
+			maxInFlight: this.config.maxInFlight,
+			queueTimeoutMs: this.config.queueTimeoutMs,
+			inFlight: accounts.reduce((sum, entry) => sum + entry.inFlight, 0),
+			queueDepth: this.getQueueDepth(),
+			peakQueueDepth: this.peakQueueDepth,
+			queuedRequests: this.queuedRequests,
+			timeouts: this.timeouts,
+			averageWaitMs: completedWaits > 0 ? Math.round(this.totalWaitMs / completedWaits) : 0,
+			maxWaitMs: this.maxWaitMs,
+			accounts,
+		};
+	}
+
+	clear(): void {
+		this.inFlight.clear();
+		this.queues.clear();
+		this.peakQueueDepth = 0;
+		this.queuedRequests = 0;
+		this.timeouts = 0;
+		this.totalWaitMs = 0;
+		this.maxWaitMs = 0;
+	}
+
+	private getQueue(accountIndex: number): QueuedAcquire[] {
+		let queue = this.queues.get(accountIndex);
+		if (!queue) {
+			queue = [];
+			this.queues.set(accountIndex, queue);
+		}
+		return queue;
+	}
+
+	private getQueueDepth(): number {
+		let depth = 0;
+		for (const queue of this.queues.values()) depth += queue.length;
+		return depth;
+	}
+
+	private take(accountIndex: number): () => void {
+		this.inFlight.set(accountIndex, this.getInFlight(accountIndex) + 1);
+		let released = false;
+		const release = (): void => {
+			if (released) return;
+			released = true;
+			clearTimeout(holdTimer);
+			const remaining = this.getInFlight(accountIndex) - 1;
+			if (remaining > 0) this.inFlight.set(accountIndex, remaining);
+			else this.inFlight.delete(accountIndex);
+			this.drainQueue(accountIndex);
+		};
+		const holdTimer = setTimeout(release, SLOT_MAX_HOLD_MS);
+		holdTimer.unref?.();
+		return release;
+	}
+
+	private drainQueue(accountIndex: number): void {
+		const queue = this.queues.get(accountIndex);
+		while (queue && queue.length > 0 && this.hasCapacity(accountIndex)) {
+			queue[0]?.grant();
+		}
+		if (queue && queue.length === 0) this.queues.delete(accountIndex);
+	}
+}
+
+let accountConcurrencyLimiter: AccountConcurrencyLimiter | null = null;
+
+export function getAccountConcurrencyLimiter(): AccountConcurrencyLimiter {
+	if (!accountConcurrencyLimiter) {
+		accountConcurrencyLimiter = new AccountConcurrencyLimiter();
+	}
+	return accountConcurrencyLimiter;
+}
+
+export function configureAccountConcurrency(config: Partial<AccountConcurrencyConfig>): void {
+	getAccountConcurrencyLimiter().configure(config);
+}
+
+/**
+ * `off`, or `max=2 in-flight=3 queued=1 (peak 4) waits=5 avg=120ms
+ * max-wait=900ms timeouts=0`.
+ */
+export function formatConcurrencyStats(stats: AccountConcurrencyStats): string {
+	if (stats.maxInFlight <= 0) return "off";
+	return (
+		`max=${stats.maxInFlight} in-flight=${stats.inFlight} ` +
+		`queued=${stats.queueDepth} (peak ${stats.peakQueueDepth}) ` +
+		`waits=${stats.queuedRequests} avg=${stats.averageWaitMs}ms ` +
+		`max-wait=${stats.maxWaitMs}ms timeouts=${stats.timeouts}`
+	);
+}
@@ -21,7 +21,7 @@ import {
 	AccountPersistence,
 } from "./accounts/persistence.js";
 import { AccountRecovery } from "./accounts/recovery.js";
-import { AccountRotation } from "./accounts/rotation.js";
+import { AccountRotation, type AccountSelectionOptions } from "./accounts/rotation.js";
 import {
 	AccountState,
 	type AccountSelectionExplainability,
@@ -29,6 +29,11 @@ import {
 } from "./accounts/state.js";
 import { formatWaitTime, type RateLimitReason } from "./accounts/rate-limits.js";
 import { nowMs } from "./utils.js";
+import {
+	formatAvailabilityTime,
+	getNextAvailabilityTime,
+	type AccountAvailabilitySchedule,
+} from "./availability.js";
 
 export type { AccountSelectionExplainability, ManagedAccount } from "./accounts/state.js";
 
@@ -91,6 +96,7 @@ export class AccountManager {
 		const stored = await loadAccounts();
 		const manager = new AccountManager(authFallback, stored);
 		await manager.recovery.hydrateFromCodexCli();
+		await manager.persistence.restoreRotationState();
 		return manager;
 	}
 
@@ -116,6 +122,10 @@ export class AccountManager {
 		return this.state.getAccountsSnapshot();
 	}
 
+	getAccountByIndex(index: number): ManagedAccount | null {
+		return this.state.getAccountByIndex(index);
+	}
+
 	getSelectionExplainability(
 		family: ModelFamily,
 		model?: string | null,
@@ -200,11 +210,19 @@ export class AccountManager {
 	getCurrentOrNextForFamilyHybrid(
 		family: ModelFamily,
 		model?: string | null,
-		options?: HybridSelectionOptions,
+		options?: AccountSelectionOptions,
 	): ManagedAccount | null {
 		return this.rotation.getCurrentOrNextForFamilyHybrid(family, model, options);
 	}
 
+	previewSelectionForFamily(
+		family: ModelFamily,
+		model?: string | null,
+		options?: HybridSelectionOptions,
+	): ManagedAccount | null {
+		return this.rotation.previewSelectionForFamily(family, model, options);
+	}
+
 	recordSuccess(
 		account: ManagedAccount,
 		family: ModelFamily,
@@ -229,6 +247,15 @@ export class AccountManager {
 		this.rotation.recordFailure(account, family, model);
 	}
 
+	recordQuotaUsage(
+		account: ManagedAccount,
+		headers: Headers,
+		family?: ModelFamily,
+		model?: string | null,
+	): void {
+		this.rotation.recordQuotaUsage(account, headers, family, model);
+	}
+
 	consumeToken(
 		account: ManagedAccount,
 		family: ModelFamily,
@@ -245,6 +272,10 @@ export class AccountManager {
 		return this.rotation.refundToken(account, family, model);
 	}
 
+	beginRequest(account: ManagedAccount): () => void {
+		return this.rotation.beginRequest(account);
+	}
+
 	markRateLimited(
 		account: ManagedAccount,
 		retryAfterMs: number,
@@ -364,3 +395,19 @@ export function formatCooldown(
 	const reason = account.cooldownReason ? ` (${account.cooldownReason})` : "";
 	return `${formatWaitTime(remaining)}${reason}`;
 }
+
+/**
+ * When an off-schedule account's next availability window opens, e.g.
+ * `Mon 09:00 Europe/Berlin (in 14h 30m)`. Null when it has no schedule or is
+ * inside a window now.
+ */
+export function formatAvailability(
+	account: { availability?: AccountAvailabilitySchedule },
+	now = nowMs(),
+): string | null {
+	const availableAt = getNextAvailabilityTime(account.availability, now);
+	if (availableAt === null || availableAt <= now) return null;
+	const minutes = Math.ceil((availableAt - now) / 60_000);
+	const wait = minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`;
+	return `${formatAvailabilityTime(availableAt, account.availability?.timezone)} (in ${wait})`;
+}
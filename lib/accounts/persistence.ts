@@ -9,8 +9,17 @@
 
 import { createLogger } from "../logger.js";
 import { MODEL_FAMILIES, type ModelFamily } from "../prompts/codex.js";
+import { getHealthTracker, getTokenTracker } from "../rotation.js";
 import { registerCleanup, unregisterCleanup } from "../shutdown.js";
-import { saveAccounts, type AccountStorageV3 } from "../storage.js";
+import {
+	getRotationStateAccountKey,
+	loadRotationState,
+	saveAccounts,
+	saveRotationState,
+	type AccountStorageV3,
+	type PersistedTokenBucketCalibrationV1,
+	type RotationStateStorageV1,
+} from "../storage.js";
 import { clampNonNegativeInt } from "./rate-limits.js";
 import type { AccountState } from "./state.js";
 
@@ -22,6 +31,102 @@ const log = createLogger("accounts");
  */
 const SHUTDOWN_FLUSH_TIMEOUT_MS = 5_000;
 
+async function withShutdownTimeout(work: Promise<void>, label: string): Promise<void> {
+	let timeoutTimer: ReturnType<typeof setTimeout> | null = null;
+	try {
+		await Promise.race([
+			work,
+			new Promise<void>((_resolve, reject) => {
+				timeoutTimer = setTimeout(() => {
+					reject(new Error(`${label} timed out after ${SHUTDOWN_FLUSH_TIMEOUT_MS}ms`));
+				}, SHUTDOWN_FLUSH_TIMEOUT_MS);
+			}),
+		]);
+	} finally {
+		if (timeoutTimer) clearTimeout(timeoutTimer);
+	}
+}
+
+/**
+ * The health and token-bucket trackers are process-wide singletons, so the
+ * rotation-state flush is registered once per process rather than once per
+ * manager. It always snapshots against the most recently loaded account
+ * list, which is what maps tracker indices back to stable account keys.
+ */
+let rotationStateSource: AccountState | null = null;
+let rotationStateFlushHandler: (() => Promise<void>) | null = null;
+
+function buildRotationStateSnapshot(state: AccountState, now: number): RotationStateStorageV1 {
+	const keysByIndex = new Map<number, string>();
+	for (const account of state.accounts) {
+		keysByIndex.set(account.index, getRotationStateAccountKey(account));
+	}
+
+	const tokenBucketCalibrations: PersistedTokenBucketCalibrationV1[] = [];
+	const storage: RotationStateStorageV1 = {
+		version: 1,
+		savedAt: now,
+		health: [],
+		tokenBuckets: [],
+		tokenBucketCalibrations,
+	};
+	for (const entry of getHealthTracker().snapshot()) {
+		const account = keysByIndex.get(entry.accountIndex);
+		if (!account) continue;
+		storage.health.push({
+			account,
+			quotaKey: entry.quotaKey,
+			score: entry.score,
+			lastUpdated: entry.lastUpdated,
+			consecutiveFailures: entry.consecutiveFailures,
+		});
+	}
+	for (const entry of getTokenTracker().snapshot()) {
+		const account = keysByIndex.get(entry.accountIndex);
+		if (!account) continue;
+		storage.tokenBuckets.push({
+			account,
+			quotaKey: entry.quotaKey,
+			tokens: entry.tokens,
+			lastRefill: entry.lastRefill,
+		});
+	}
+	for (const entry of getTokenTracker().snapshotCalibrations()) {
+		const account = keysByIndex.get(entry.accountIndex);
+		if (!account) continue;
+		tokenBucketCalibrations.push({
+			account,
+			quotaKey: entry.quotaKey,
+			maxTokens: entry.maxTokens,
+			tokensPerMinute: entry.tokensPerMinute,
+			samples: entry.samples,
+			updatedAt: entry.updatedAt,
+		});
+	}
+	return storage;
+}
+
+function ensureRotationStateFlushRegistered(): void {
+	if (rotationStateFlushHandler) return;
+	const handler = async (): Promise<void> => {
+		rotationStateFlushHandler = null;
+		const source = rotationStateSource;
+		if (!source || source.accounts.length === 0) return;
+		try {
+			await withShutdownTimeout(
+				saveRotationState(buildRotationStateSnapshot(source, Date.now())),
+				"Rotation state flush",
+			);
+		} catch (error) {
+			log.warn("Rotation state flush failed", {
+				error: error instanceof Error ? error.message : String(error),
+			});
+		}
+	};
+	rotationStateFlushHandler = handler;
+	registerCleanup(handler);
+}
+
 export class AccountPersistence {
 	private saveDebounceTimer: ReturnType<typeof setTimeout> | null = null;
 	private pendingSave: Promise<void> | null = null;
@@ -47,6 +152,10 @@ export class AccountPersistence {
 				accountLabel: account.accountLabel,
 				accountTags: account.accountTags,
 				accountNote: account.accountNote,
+				priority: account.priority,
+				reserve: account.reserve,
+				availability: account.availability,
+				creditFloor: account.creditFloor,
 				email: account.email,
 				refreshToken: account.refreshToken,
 				accessToken: account.access,
@@ -96,6 +205,55 @@ export class AccountPersistence {
 		}, delayMs);
 	}
 
+	/**
+	 * Restores persisted health scores and token buckets for the accounts in
+	 * this manager and arms the process-wide shutdown flush. Passive recovery
+	 * and bucket refill are computed from the stored timestamps, so the time
+	 * the plugin was not running counts towards recovery automatically.
+	 */
+	async restoreRotationState(): Promise<void> {
+		rotationStateSource = this.state;
+		ensureRotationStateFlushRegistered();
+
+		const persisted = await loadRotationState();
+		if (!persisted) return;
+
+		const indexByKey = new Map<string, number>();
+		for (const account of this.state.accounts) {
+			indexByKey.set(getRotationStateAccountKey(account), account.index);
+		}
+
+		const now = Date.now();
+		const restoredHealth = getHealthTracker().restore(
+			persisted.health.flatMap((entry) => {
+				const accountIndex = indexByKey.get(entry.account);
+				return accountIndex === undefined ? [] : [{ ...entry, accountIndex }];
+			}),
+			now,
+		);
+		const restoredCalibrations = getTokenTracker().restoreCalibrations(
+			(persisted.tokenBucketCalibrations ?? []).flatMap((entry) => {
+				const accountIndex = indexByKey.get(entry.account);
+				return accountIndex === undefined ? [] : [{ ...entry, accountIndex }];
+			}),
+		);
+		const restoredBuckets = getTokenTracker().restore(
+			persisted.tokenBuckets.flatMap((entry) => {
+				const accountIndex = indexByKey.get(entry.account);
+				return accountIndex === undefined ? [] : [{ ...entry, accountIndex }];
+			}),
+			now,
+		);
+		if (restoredHealth > 0 || restoredBuckets > 0 || restoredCalibrations > 0) {
+			log.debug("Restored rotation state", {
+				health: restoredHealth,
+				tokenBuckets: restoredBuckets,
+				tokenBucketCalibrations: restoredCalibrations,
+				downtimeMs: persisted.savedAt > 0 ? Math.max(0, now - persisted.savedAt) : undefined,
+			});
+		}
+	}
+
 	async flushPendingSave(): Promise<void> {
 		if (this.saveDebounceTimer) {
 			clearTimeout(this.saveDebounceTimer);
@@ -124,26 +282,12 @@ export class AccountPersistence {
 			// this the guard above returns early and the next pending save
 			// goes unprotected on shutdown.
 			this.shutdownHandler = null;
-			let timeoutTimer: ReturnType<typeof setTimeout> | null = null;
 			try {
-				await Promise.race([
-					this.flushPendingSave(),
-					new Promise<void>((_resolve, reject) => {
-						timeoutTimer = setTimeout(() => {
-							reject(
-								new Error(
-									`flushPendingSave timed out after ${SHUTDOWN_FLUSH_TIMEOUT_MS}ms`,
-								),
-							);
-						}, SHUTDOWN_FLUSH_TIMEOUT_MS);
-					}),
-				]);
+				await withShutdownTimeout(this.flushPendingSave(), "flushPendingSave");
 			} catch (error) {
 				log.warn("Shutdown flush failed", {
 					error: error instanceof Error ? error.message : String(error),
 				});
-			} finally {
-				if (timeoutTimer) clearTimeout(timeoutTimer);
 			}
 		};
 		this.shutdownHandler = handler;
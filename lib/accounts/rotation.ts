@@ -7,15 +7,36 @@
  * module is the manager-facing wrapper that wires it to `AccountState`).
  */
 
+import { getAccountConcurrencyLimiter } from "../account-concurrency.js";
+import { isAccountAvailableAt } from "../availability.js";
+import {
+	getCreditLimitedUntil,
+	getCreditsTracker,
+	parseCreditsFromHeaders,
+} from "../credits.js";
 import type { ModelFamily } from "../prompts/codex.js";
 import {
+	QUOTA_PRESSURE_RESCORE_PERCENT,
+	compareSelectionTier,
+	getAccountSelectionConfig,
 	getHealthTracker,
+	getQuotaUsageTracker,
 	getTokenTracker,
 	selectHybridAccount,
+	selectLeastQuotaUsedAccount,
+	selectWeightedAccount,
 	type AccountWithMetrics,
 	type HybridSelectionOptions,
 } from "../rotation.js";
-import type { CooldownReason } from "../storage.js";
+import { getQuotaForecastTracker } from "../quota-forecast.js";
+import { getRotationCoordinator, type RotationCoordinator } from "../rotation-coordinator.js";
+import { getRoutingRuleExclusion } from "../routing-rules.js";
+import {
+	SESSION_AFFINITY_MIN_HEALTH,
+	getSessionAffinityTracker,
+} from "../session-affinity.js";
+import { getRotationStateAccountKey, type CooldownReason } from "../storage.js";
+import { parseQuotaLimitsFromHeaders } from "../tui-quota-cache.js";
 import { nowMs } from "../utils.js";
 import {
 	clearExpiredRateLimits,
@@ -25,31 +46,47 @@ import {
 } from "./rate-limits.js";
 import type { AccountState, ManagedAccount } from "./state.js";
 
+export interface AccountSelectionOptions extends HybridSelectionOptions {
+	/** Session `prompt_cache_key`; pins the session to the account it gets */
+	sessionKey?: string;
+	/** Skip the pinned account, e.g. when it already failed this request */
+	ignoreSessionAffinity?: boolean;
+}
+
 export class AccountRotation {
 	constructor(private readonly state: AccountState) {}
 
+	/**
+	 * First usable account from the family cursor. `skip` holds indices to
+	 * pass over, e.g. accounts forecast to run out of quota.
+	 */
 	getCurrentOrNextForFamily(
 		family: ModelFamily,
 		model?: string | null,
+		skip?: ReadonlySet<number>,
 	): ManagedAccount | null {
 		const count = this.state.accounts.length;
 		if (count === 0) return null;
 
 		const cursor = this.state.cursorByFamily[family];
+		const tier = this.getPreferredTier(family, model);
 
 		for (let i = 0; i < count; i++) {
 			const idx = (cursor + i) % count;
 			const account = this.state.accounts[idx];
 			if (!account) continue;
-			if (account.enabled === false) continue;
+			if (!this.isRoutable(account, family, model)) continue;
+			if (skip?.has(idx)) continue;
 
 			clearExpiredRateLimits(account);
 			if (
 				isRateLimitedForFamily(account, family, model) ||
-				this.state.isAccountCoolingDown(account)
+				this.state.isAccountCoolingDown(account) ||
+				this.isCreditLimited(account)
 			) {
 				continue;
 			}
+			if (tier && compareSelectionTier(account, tier) < 0) continue;
 
 			this.state.cursorByFamily[family] = (idx + 1) % count;
 			this.state.currentAccountIndexByFamily[family] = idx;
@@ -65,20 +102,23 @@ export class AccountRotation {
 		if (count === 0) return null;
 
 		const cursor = this.state.cursorByFamily[family];
+		const tier = this.getPreferredTier(family, model);
 
 		for (let i = 0; i < count; i++) {
 			const idx = (cursor + i) % count;
 			const account = this.state.accounts[idx];
 			if (!account) continue;
-			if (account.enabled === false) continue;
+			if (!this.isRoutable(account, family, model)) continue;
 
 			clearExpiredRateLimits(account);
 			if (
 				isRateLimitedForFamily(account, family, model) ||
-				this.state.isAccountCoolingDown(account)
+				this.state.isAccountCoolingDown(account) ||
+				this.isCreditLimited(account)
 			) {
 				continue;
 			}
+			if (tier && compareSelectionTier(account, tier) < 0) continue;
 
 			this.state.cursorByFamily[family] = (idx + 1) % count;
 			account.lastUsed = nowMs();
@@ -88,7 +128,65 @@ export class AccountRotation {
 		return null;
 	}
 
+	/**
+	 * Request-path selection. A session with a live affinity pin keeps its
+	 * account while that account stays usable; otherwise this dispatches on
+	 * the configured `rotationStrategy` (see `configureAccountSelection`) and
+	 * pins the session to the result. The name predates the other strategies
+	 * and is kept for callers.
+	 */
 	getCurrentOrNextForFamilyHybrid(
+		family: ModelFamily,
+		model?: string | null,
+		options?: AccountSelectionOptions,
+	): ManagedAccount | null {
+		const affinity = getSessionAffinityTracker();
+		const sessionKey = affinity.enabled ? options?.sessionKey : undefined;
+		if (sessionKey && !options?.ignoreSessionAffinity) {
+			const pinned = this.getSessionAccount(sessionKey, family, model);
+			if (pinned) {
+				affinity.recordHit();
+				// Each use extends the pin and marks the session most recently used.
+				affinity.remember(sessionKey, getRotationStateAccountKey(pinned));
+				this.state.currentAccountIndexByFamily[family] = pinned.index;
+				pinned.lastUsed = nowMs();
+				return pinned;
+			}
+			affinity.recordMiss();
+		}
+
+		const account = this.selectByStrategy(family, model, options);
+		if (account && sessionKey) {
+			affinity.remember(sessionKey, getRotationStateAccountKey(account));
+		}
+		return account;
+	}
+
+	/**
+	 * The account request-path selection would return right now, without
+	 * moving cursors, touching `lastUsed`, or consulting session affinity.
+	 * `weighted` draws at random, so its preview is one possible outcome.
+	 */
+	previewSelectionForFamily(
+		family: ModelFamily,
+		model?: string | null,
+		options?: HybridSelectionOptions,
+	): ManagedAccount | null {
+		const cursorByFamily = { ...this.state.cursorByFamily };
+		const currentAccountIndexByFamily = { ...this.state.currentAccountIndexByFamily };
+		const lastUsed = this.state.accounts.map((account) => account.lastUsed);
+		try {
+			return this.selectByStrategy(family, model, options);
+		} finally {
+			Object.assign(this.state.cursorByFamily, cursorByFamily);
+			Object.assign(this.state.currentAccountIndexByFamily, currentAccountIndexByFamily);
+			this.state.accounts.forEach((account, index) => {
+				account.lastUsed = lastUsed[index] ?? account.lastUsed;
+			});
+		}
+	}
+
+	private selectByStrategy(
 		family: ModelFamily,
 		model?: string | null,
 		options?: HybridSelectionOptions,
@@ -96,17 +194,52 @@ export class AccountRotation {
 		const count = this.state.accounts.length;
 		if (count === 0) return null;
 
+		const coordinator = getRotationCoordinator();
+		if (coordinator) {
+			this.applyPeerState(coordinator);
+		}
+		const getPeerInFlight = (account: ManagedAccount): number =>
+			coordinator ? coordinator.getPeerInFlight(getRotationStateAccountKey(account)) : 0;
+
+		const { strategy, weights } = getAccountSelectionConfig();
+		const quotaTracker = getQuotaUsageTracker();
+		const tier = this.getPreferredTier(family, model);
+		if (strategy === "round-robin") {
+			// Round-robin ignores quota forecasts but still steers around saturated accounts.
+			return this.getCurrentOrNextForFamily(
+				family,
+				model,
+				this.getConcurrencySkips(family, model, tier),
+			);
+		}
+
 		const currentIndex = this.state.currentAccountIndexByFamily[family];
-		if (currentIndex >= 0 && currentIndex < count) {
+		const selectionSkips = this.getSelectionSkips(family, model, tier);
+		if (
+			(strategy === "hybrid" || strategy === "sticky-until-limited") &&
+			currentIndex >= 0 &&
+			currentIndex < count
+		) {
 			const currentAccount = this.state.accounts[currentIndex];
 			if (currentAccount) {
-				if (currentAccount.enabled === false) {
-					// Fall through to hybrid selection.
+				if (!this.isRoutable(currentAccount, family, model)) {
+					// Fall through to selection.
 				} else {
 					clearExpiredRateLimits(currentAccount);
+					// Under hybrid, a peer already working this account or a nearly
+					// exhausted quota window is a reason to re-score rather than
+					// stick, otherwise sessions started from the same persisted
+					// active index never spread out and the next 429 is certain.
 					if (
 						!isRateLimitedForFamily(currentAccount, family, model) &&
-						!this.state.isAccountCoolingDown(currentAccount)
+						!this.state.isAccountCoolingDown(currentAccount) &&
+						!this.isCreditLimited(currentAccount) &&
+						(!tier || compareSelectionTier(currentAccount, tier) >= 0) &&
+						!selectionSkips.has(currentAccount.index) &&
+						(strategy === "sticky-until-limited" ||
+							(getPeerInFlight(currentAccount) === 0 &&
+								(quotaTracker.getUsedPercent(currentAccount.index) ?? 0) <
+									QUOTA_PRESSURE_RESCORE_PERCENT))
 					) {
 						currentAccount.lastUsed = nowMs();
 						return currentAccount;
@@ -115,6 +248,10 @@ export class AccountRotation {
 			}
 		}
 
+		if (strategy === "sticky-until-limited") {
+			return this.getCurrentOrNextForFamily(family, model, selectionSkips);
+		}
+
 		const quotaKey = model ? `${family}:${model}` : family;
 		const healthTracker = getHealthTracker();
 		const tokenTracker = getTokenTracker();
@@ -122,27 +259,46 @@ export class AccountRotation {
 		const accountsWithMetrics: AccountWithMetrics[] = this.state.accounts
 			.map((account): AccountWithMetrics | null => {
 				if (!account) return null;
-				if (account.enabled === false) return null;
+				if (!this.isRoutable(account, family, model)) return null;
 				clearExpiredRateLimits(account);
 				const isAvailable =
 					!isRateLimitedForFamily(account, family, model) &&
-					!this.state.isAccountCoolingDown(account);
+					!this.state.isAccountCoolingDown(account) &&
+					!this.isCreditLimited(account) &&
+					!selectionSkips.has(account.index);
 				return {
 					index: account.index,
 					isAvailable,
 					lastUsed: account.lastUsed,
+					peerInFlight: getPeerInFlight(account),
+					quotaUsedPercent: quotaTracker.getUsedPercent(account.index),
+					priority: account.priority,
+					reserve: account.reserve,
 				};
 			})
 			.filter((a): a is AccountWithMetrics => a !== null);
 
-		const selected = selectHybridAccount(
-			accountsWithMetrics,
-			healthTracker,
-			tokenTracker,
-			quotaKey,
-			{},
-			options,
-		);
+		let selected: AccountWithMetrics | null;
+		if (strategy === "least-quota-used") {
+			selected = selectLeastQuotaUsedAccount(accountsWithMetrics, tokenTracker, quotaKey);
+		} else if (strategy === "weighted") {
+			selected = selectWeightedAccount(
+				accountsWithMetrics,
+				healthTracker,
+				tokenTracker,
+				quotaKey,
+				weights,
+			);
+		} else {
+			selected = selectHybridAccount(
+				accountsWithMetrics,
+				healthTracker,
+				tokenTracker,
+				quotaKey,
+				weights,
+				options,
+			);
+		}
 		if (!selected) return null;
 
 		const account = this.state.accounts[selected.index];
@@ -182,6 +338,30 @@ export class AccountRotation {
 		getHealthTracker().recordFailure(account.index, quotaKey);
 	}
 
+	/**
+	 * Feeds the `x-codex-primary-*` / `x-codex-secondary-*` usage windows and
+	 * `x-codex-credits-*` balance from a response into selection for `account`.
+	 * With `family`, the first window also calibrates that family's token
+	 * bucket.
+	 */
+	recordQuotaUsage(
+		account: ManagedAccount,
+		headers: Headers,
+		family?: ModelFamily,
+		model?: string | null,
+	): void {
+		getCreditsTracker().record(account.index, parseCreditsFromHeaders(headers));
+		const windows = parseQuotaLimitsFromHeaders(headers);
+		if (windows.length === 0) return;
+		getQuotaUsageTracker().record(account.index, windows);
+		getQuotaForecastTracker().record(account.index, windows);
+		const [primary] = windows;
+		if (family && primary) {
+			const quotaKey = model ? `${family}:${model}` : family;
+			getTokenTracker().recordUsageObserved(account.index, quotaKey, primary);
+		}
+	}
+
 	consumeToken(
 		account: ManagedAccount,
 		family: ModelFamily,
@@ -224,15 +404,24 @@ export class AccountRotation {
 		const retryMs = Math.max(0, Math.floor(retryAfterMs));
 		const resetAt = nowMs() + retryMs;
 
+		const coordinator = getRotationCoordinator();
+		const accountKey = coordinator ? getRotationStateAccountKey(account) : null;
+
 		const baseKey = getQuotaKey(family);
 		account.rateLimitResetTimes[baseKey] = resetAt;
+		if (coordinator && accountKey) coordinator.noteRateLimit(accountKey, baseKey, resetAt);
 
 		if (model) {
 			const modelKey = getQuotaKey(family, model);
 			account.rateLimitResetTimes[modelKey] = resetAt;
+			if (coordinator && accountKey) coordinator.noteRateLimit(accountKey, modelKey, resetAt);
 		}
 
 		account.lastRateLimitReason = reason;
+		getTokenTracker().recordRateLimitObserved(
+			account.index,
+			model ? `${family}:${model}` : family,
+		);
 	}
 
 	markAccountCoolingDown(
@@ -243,6 +432,213 @@ export class AccountRotation {
 		const ms = Math.max(0, Math.floor(cooldownMs));
 		account.coolingDownUntil = nowMs() + ms;
 		account.cooldownReason = reason;
+		getRotationCoordinator()?.noteCooldown(
+			getRotationStateAccountKey(account),
+			account.coolingDownUntil,
+			reason,
+		);
+	}
+
+	/**
+	 * Registers an in-flight request on `account` with the cross-process
+	 * coordinator. Returns a release callback (a no-op when coordination is off).
+	 */
+	beginRequest(account: ManagedAccount): () => void {
+		const coordinator = getRotationCoordinator();
+		if (!coordinator) return () => {};
+		return coordinator.beginRequest(getRotationStateAccountKey(account));
+	}
+
+	/**
+	 * The account `sessionKey` is pinned to, if it can still serve
+	 * `family`/`model`: not rate-limited, cooling down, out of credits, below
+	 * the preferred tier, skipped by {@link getSelectionSkips}, or under
+	 * {@link SESSION_AFFINITY_MIN_HEALTH}.
+	 */
+	private getSessionAccount(
+		sessionKey: string,
+		family: ModelFamily,
+		model?: string | null,
+	): ManagedAccount | null {
+		const accountKey = getSessionAffinityTracker().lookup(sessionKey);
+		if (!accountKey) return null;
+		const account = this.state.accounts.find(
+			(candidate) => candidate && getRotationStateAccountKey(candidate) === accountKey,
+		);
+		if (!account || !this.isRoutable(account, family, model)) return null;
+		clearExpiredRateLimits(account);
+		if (
+			isRateLimitedForFamily(account, family, model) ||
+			this.state.isAccountCoolingDown(account) ||
+			this.isCreditLimited(account)
+		) {
+			return null;
+		}
+		const tier = this.getPreferredTier(family, model);
+		if (tier && compareSelectionTier(account, tier) < 0) return null;
+		if (this.getSelectionSkips(family, model, tier).has(account.index)) return null;
+		const quotaKey = model ? `${family}:${model}` : family;
+		if (getHealthTracker().getScore(account.index, quotaKey) < SESSION_AFFINITY_MIN_HEALTH) {
+			return null;
+		}
+		return account;
+	}
+
+	/**
+	 * Enabled, inside its availability schedule, and not excluded from
+	 * `family`/`model` by `routingRules`.
+	 */
+	private isRoutable(
+		account: ManagedAccount,
+		family: ModelFamily,
+		model?: string | null,
+	): boolean {
+		if (account.enabled === false) return false;
+		if (!isAccountAvailableAt(account.availability, nowMs())) return false;
+		return getRoutingRuleExclusion(account.accountTags, family, model) === null;
+	}
+
+	/**
+	 * Plan windows exhausted with no spendable credits above the account's
+	 * floor. Always false unless `creditsAwareRouting` is on.
+	 */
+	private isCreditLimited(account: ManagedAccount): boolean {
+		return getCreditLimitedUntil(account, nowMs()) !== undefined;
+	}
+
+	/**
+	 * The most preferred priority/reserve tier among accounts that can serve
+	 * `family` right now, or null when none can. Accounts below this tier are
+	 * skipped so reserves stay untouched while anything else is usable.
+	 */
+	private getPreferredTier(
+		family: ModelFamily,
+		model?: string | null,
+	): ManagedAccount | null {
+		let best: ManagedAccount | null = null;
+		for (const account of this.state.accounts) {
+			if (!account || !this.isRoutable(account, family, model)) continue;
+			clearExpiredRateLimits(account);
+			if (
+				isRateLimitedForFamily(account, family, model) ||
+				this.state.isAccountCoolingDown(account) ||
+				this.isCreditLimited(account)
+			) {
+				continue;
+			}
+			if (!best || compareSelectionTier(account, best) > 0) best = account;
+		}
+		return best;
+	}
+
+	/**
+	 * Accounts forecast to exhaust a quota window within the forecast horizon,
+	 * while at least one other usable account in `tier` is not. Empty when
+	 * every candidate is running out, so the forecast only reorders selection
+	 * and never leaves a request without an account.
+	 */
+	private getForecastExhaustionSkips(
+		family: ModelFamily,
+		model: string | null | undefined,
+		tier: ManagedAccount | null,
+	): Set<number> {
+		const forecast = getQuotaForecastTracker();
+		const skips = new Set<number>();
+		if (forecast.horizonMs <= 0) return skips;
+		const now = nowMs();
+		let hasHeadroom = false;
+		for (const account of this.state.accounts) {
+			if (!account || !this.isRoutable(account, family, model)) continue;
+			if (
+				isRateLimitedForFamily(account, family, model) ||
+				this.state.isAccountCoolingDown(account) ||
+				this.isCreditLimited(account) ||
+				(tier && compareSelectionTier(account, tier) < 0)
+			) {
+				continue;
+			}
+			if (forecast.isExhaustingSoon(account.index, now)) {
+				skips.add(account.index);
+			} else {
+				hasHeadroom = true;
+			}
+		}
+		return hasHeadroom ? skips : new Set();
+	}
+
+	/** Forecast skips plus {@link getConcurrencySkips}. */
+	private getSelectionSkips(
+		family: ModelFamily,
+		model: string | null | undefined,
+		tier: ManagedAccount | null,
+	): Set<number> {
+		const skips = this.getForecastExhaustionSkips(family, model, tier);
+		return new Set([...skips, ...this.getConcurrencySkips(family, model, tier, skips)]);
+	}
+
+	/**
+	 * Accounts at `maxInFlightPerAccount`, while at least one other usable
+	 * account in `tier` (outside `skips`) still has a free slot. When every
+	 * candidate is saturated nothing is skipped and the request queues for a
+	 * slot on the account it gets.
+	 */
+	private getConcurrencySkips(
+		family: ModelFamily,
+		model: string | null | undefined,
+		tier: ManagedAccount | null,
+		skips: ReadonlySet<number> = new Set(),
+	): Set<number> {
+		const limiter = getAccountConcurrencyLimiter();
+		if (!limiter.enabled) return new Set();
+		const saturated = new Set<number>();
+		let hasCapacity = false;
+		for (const account of this.state.accounts) {
+			if (!account || skips.has(account.index) || !this.isRoutable(account, family, model)) {
+				continue;
+			}
+			if (
+				isRateLimitedForFamily(account, family, model) ||
+				this.state.isAccountCoolingDown(account) ||
+				this.isCreditLimited(account) ||
+				(tier && compareSelectionTier(account, tier) < 0)
+			) {
+				continue;
+			}
+			if (limiter.hasCapacity(account.index)) {
+				hasCapacity = true;
+			} else {
+				saturated.add(account.index);
+			}
+		}
+		return hasCapacity ? saturated : new Set();
+	}
+
+	/**
+	 * Folds rate-limit resets and cooldowns observed by peer processes into the
+	 * local account state so this process skips them without hitting a 429.
+	 */
+	private applyPeerState(coordinator: RotationCoordinator): void {
+		const now = nowMs();
+		for (const account of this.state.accounts) {
+			if (!account) continue;
+			const peer = coordinator.getPeerState(getRotationStateAccountKey(account));
+			if (!peer) continue;
+			for (const [quotaKey, resetAt] of Object.entries(peer.rateLimitResetTimes)) {
+				if (resetAt <= now) continue;
+				const existing = account.rateLimitResetTimes[quotaKey];
+				if (typeof existing !== "number" || existing < resetAt) {
+					account.rateLimitResetTimes[quotaKey] = resetAt;
+				}
+			}
+			if (
+				peer.coolingDownUntil !== undefined &&
+				peer.coolingDownUntil > now &&
+				(account.coolingDownUntil ?? 0) < peer.coolingDownUntil
+			) {
+				account.coolingDownUntil = peer.coolingDownUntil;
+				account.cooldownReason = peer.cooldownReason;
+			}
+		}
 	}
 
 	/**
@@ -265,14 +661,15 @@ export class AccountRotation {
 
 	getMinWaitTimeForFamily(family: ModelFamily, model?: string | null): number {
 		const now = nowMs();
-		const enabledAccounts = this.state.accounts.filter(
-			(account) => account.enabled !== false,
+		const enabledAccounts = this.state.accounts.filter((account) =>
+			this.isRoutable(account, family, model),
 		);
 		const available = enabledAccounts.filter((account) => {
 			clearExpiredRateLimits(account);
 			return (
 				!isRateLimitedForFamily(account, family, model) &&
-				!this.state.isAccountCoolingDown(account)
+				!this.state.isAccountCoolingDown(account) &&
+				!this.isCreditLimited(account)
 			);
 		});
 		if (available.length > 0) return 0;
@@ -298,6 +695,11 @@ export class AccountRotation {
 			if (typeof account.coolingDownUntil === "number") {
 				waitTimes.push(Math.max(0, account.coolingDownUntil - now));
 			}
+
+			const creditLimitedUntil = getCreditLimitedUntil(account, now);
+			if (creditLimitedUntil !== undefined) {
+				waitTimes.push(Math.max(0, creditLimitedUntil - now));
+			}
 		}
 
 		return waitTimes.length > 0 ? Math.min(...waitTimes) : 0;
@@ -25,7 +25,26 @@ import {
 	shouldUpdateAccountIdFromToken,
 } from "../auth/token-utils.js";
 import { getMissingRequiredOAuthScopes } from "../auth/scopes.js";
-import { getHealthTracker, getTokenTracker } from "../rotation.js";
+import {
+	QUOTA_PRESSURE_RESCORE_PERCENT,
+	compareSelectionTier,
+	filterToPreferredTier,
+	getAccountSelectionConfig,
+	getHealthTracker,
+	getQuotaUsageTracker,
+	getTokenTracker,
+	scoreHybridAccount,
+	scoreQuotaUsage,
+	type RotationStrategy,
+} from "../rotation.js";
+import { getRoutingRuleExclusion } from "../routing-rules.js";
+import { formatForecastDuration, getQuotaForecastTracker } from "../quota-forecast.js";
+import { getAccountConcurrencyLimiter } from "../account-concurrency.js";
+import {
+	getNextAvailabilityTime,
+	type AccountAvailabilitySchedule,
+} from "../availability.js";
+import { getCreditLimitedUntil } from "../credits.js";
 import { logWarn } from "../logger.js";
 
 export interface ManagedAccount {
@@ -36,6 +55,10 @@ export interface ManagedAccount {
 	accountLabel?: string;
 	accountTags?: string[];
 	accountNote?: string;
+	priority?: number;
+	reserve?: boolean;
+	availability?: AccountAvailabilitySchedule;
+	creditFloor?: number;
 	email?: string;
 	refreshToken: string;
 	enabled?: boolean;
@@ -63,6 +86,25 @@ export interface AccountSelectionExplainability {
 	coolingDownUntil?: number;
 	cooldownReason?: CooldownReason;
 	lastUsed: number;
+	/** Strategy in effect when the snapshot was taken */
+	strategy: RotationStrategy;
+	/**
+	 * Value the strategy ranks accounts by (hybrid score, or quota percent left
+	 * for `least-quota-used`). Absent for order-based strategies.
+	 */
+	selectionScore?: number;
+	/** Highest live used percent from the usage headers, when known */
+	quotaUsedPercent?: number;
+	/** Quota component of the hybrid score (zero or negative) */
+	quotaScore: number;
+	priority: number;
+	reserve: boolean;
+	/** Next time the account's availability schedule opens, while it is closed */
+	availableAt?: number;
+	/** When the plan windows reset, while exhausted without credits above the floor */
+	creditLimitedUntil?: number;
+	/** Requests this process has in flight on the account */
+	inFlight: number;
 }
 
 function initFamilyState(defaultValue: number): Record<ModelFamily, number> {
@@ -154,6 +196,10 @@ export class AccountState {
 						accountNote: missingOAuthScopes.length > 0
 							? appendReauthNote(account.accountNote, missingOAuthScopes)
 							: account.accountNote,
+						priority: account.priority,
+						reserve: account.reserve,
+						availability: account.availability,
+						creditFloor: account.creditFloor,
 						email: matchesFallback
 							? fallbackAccountEmail ?? sanitizeEmail(account.email)
 							: sanitizeEmail(account.email),
@@ -295,6 +341,11 @@ export class AccountState {
 		return index;
 	}
 
+	/** The live account at `index`, for callers that ranked a snapshot. */
+	getAccountByIndex(index: number): ManagedAccount | null {
+		return this.accounts[index] ?? null;
+	}
+
 	getAccountsSnapshot(): ManagedAccount[] {
 		return this.accounts.map((account) => ({
 			...account,
@@ -313,8 +364,12 @@ export class AccountState {
 		const currentIndex = this.currentAccountIndexByFamily[family];
 		const healthTracker = getHealthTracker();
 		const tokenTracker = getTokenTracker();
+		const { strategy, weights } = getAccountSelectionConfig();
+		const quotaTracker = getQuotaUsageTracker();
+		const forecastTracker = getQuotaForecastTracker();
+		const concurrencyLimiter = getAccountConcurrencyLimiter();
 
-		return this.accounts.map((account) => {
+		const entries = this.accounts.map((account): AccountSelectionExplainability => {
 			clearExpiredRateLimits(account);
 			const enabled = account.enabled !== false;
 			const reasons: string[] = [];
@@ -340,7 +395,19 @@ export class AccountState {
 					: undefined;
 
 			if (!enabled) reasons.push("disabled");
+			const routingRuleExclusion = getRoutingRuleExclusion(
+				account.accountTags,
+				family,
+				model,
+			);
+			if (routingRuleExclusion) reasons.push(routingRuleExclusion);
+			const nextAvailableAt = getNextAvailabilityTime(account.availability, now);
+			const availableAt =
+				nextAvailableAt !== null && nextAvailableAt > now ? nextAvailableAt : undefined;
+			if (availableAt !== undefined) reasons.push("outside-schedule");
 			if (rateLimitedUntil !== undefined) reasons.push("rate-limited");
+			const creditLimitedUntil = getCreditLimitedUntil(account, now);
+			if (creditLimitedUntil !== undefined) reasons.push("credits-below-floor");
 			if (coolingDownUntil !== undefined) {
 				reasons.push(
 					account.cooldownReason ? `cooldown:${account.cooldownReason}` : "cooldown",
@@ -352,11 +419,49 @@ export class AccountState {
 
 			const eligible =
 				enabled &&
+				routingRuleExclusion === null &&
+				availableAt === undefined &&
 				rateLimitedUntil === undefined &&
+				creditLimitedUntil === undefined &&
 				coolingDownUntil === undefined &&
 				tokensAvailable >= 1;
 			if (reasons.length === 0) reasons.push("eligible");
 
+			const quotaUsedPercent = quotaTracker.getUsedPercent(account.index, now);
+			if (
+				quotaUsedPercent !== undefined &&
+				quotaUsedPercent >= QUOTA_PRESSURE_RESCORE_PERCENT
+			) {
+				reasons.push(`quota-${Math.round(quotaUsedPercent)}%`);
+			}
+			if (forecastTracker.isExhaustingSoon(account.index, now)) {
+				const remaining = forecastTracker.getTimeToExhaustion(account.index, now) ?? 0;
+				reasons.push(`quota-forecast:${formatForecastDuration(remaining)}`);
+			}
+			const inFlight = concurrencyLimiter.getInFlight(account.index);
+			if (!concurrencyLimiter.hasCapacity(account.index)) {
+				reasons.push(`in-flight-limit:${inFlight}/${concurrencyLimiter.maxInFlight}`);
+			}
+
+			let selectionScore: number | undefined;
+			if (strategy === "hybrid" || strategy === "weighted") {
+				selectionScore = scoreHybridAccount(
+					{
+						index: account.index,
+						isAvailable: eligible,
+						lastUsed: account.lastUsed,
+						quotaUsedPercent,
+					},
+					healthTracker,
+					tokenTracker,
+					quotaKey,
+					weights,
+					now,
+				);
+			} else if (strategy === "least-quota-used") {
+				selectionScore = 100 - (quotaUsedPercent ?? 0);
+			}
+
 			return {
 				index: account.index,
 				enabled,
@@ -369,8 +474,27 @@ export class AccountState {
 				coolingDownUntil,
 				cooldownReason: coolingDownUntil !== undefined ? account.cooldownReason : undefined,
 				lastUsed: account.lastUsed,
+				strategy,
+				selectionScore,
+				quotaUsedPercent,
+				quotaScore: scoreQuotaUsage(quotaUsedPercent, weights),
+				priority: account.priority ?? 0,
+				reserve: account.reserve === true,
+				availableAt,
+				creditLimitedUntil,
+				inFlight,
 			};
 		});
+
+		const preferredTier = filterToPreferredTier(entries.filter((entry) => entry.eligible))[0];
+		if (preferredTier) {
+			for (const entry of entries) {
+				if (entry.eligible && compareSelectionTier(entry, preferredTier) < 0) {
+					entry.reasons.push(entry.reserve ? "reserve-standby" : "lower-priority");
+				}
+			}
+		}
+		return entries;
 	}
 
 	setActiveIndex(index: number): ManagedAccount | null {
@@ -0,0 +1,233 @@
+/**
+ * Per-account availability schedules.
+ *
+ * An account may carry an `availability` schedule: weekly windows (days plus
+ * a local `HH:MM` start and end) evaluated in an IANA timezone. Outside every
+ * window the account is ineligible for selection, so work seats can be kept
+ * to business hours and personal accounts to evenings. Accounts without a
+ * schedule are always available.
+ *
+ * A window whose end is earlier than its start runs past midnight and belongs
+ * to the day it opens on; equal start and end cover the whole day.
+ */
+
+export const AVAILABILITY_DAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"] as const;
+
+export type AvailabilityDay = (typeof AVAILABILITY_DAYS)[number];
+
+export interface AvailabilityWindow {
+	/** Days the window opens on; every day when omitted */
+	days?: AvailabilityDay[];
+	/** Local opening time, `HH:MM` */
+	start: string;
+	/** Local closing time, `HH:MM` (`24:00` allowed) */
+	end: string;
+}
+
+export interface AccountAvailabilitySchedule {
+	/** IANA timezone the windows are read in; the host timezone when omitted */
+	timezone?: string;
+	windows: AvailabilityWindow[];
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY;
+const TIME_OF_DAY_PATTERN = /^(\d{1,2}):(\d{2})$/;
+
+function parseTimeOfDay(value: unknown): number | null {
+	if (typeof value !== "string") return null;
+	const match = TIME_OF_DAY_PATTERN.exec(value.trim());
+	if (!match) return null;
+	const hours = Number(match[1]);
+	const minutes = Number(match[2]);
+	if (minutes > 59 || hours > 24 || (hours === 24 && minutes !== 0)) return null;
+	return hours * 60 + minutes;
+}
+
+function formatTimeOfDay(minutes: number): string {
+	const hours = Math.floor(minutes / 60);
+	return `${String(hours).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+}
+
+function normalizeDay(value: unknown): AvailabilityDay | null {
+	if (typeof value === "number" && Number.isInteger(value)) {
+		return AVAILABILITY_DAYS[value] ?? null;
+	}
+	if (typeof value !== "string") return null;
+	const prefix = value.trim().toLowerCase().slice(0, 3);
+	return AVAILABILITY_DAYS.find((day) => day === prefix) ?? null;
+}
+
+export function isValidTimeZone(timezone: string): boolean {
+	try {
+		new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Coerces a stored schedule into canonical form. Days may be names (`mon`,
+ * `Monday`) or numbers (0 = Sunday). Malformed windows are dropped and an
+ * unknown timezone falls back to the host timezone; a schedule left with no
+ * windows is discarded, leaving the account always available.
+ */
+export function normalizeAvailabilitySchedule(
+	value: unknown,
+): AccountAvailabilitySchedule | undefined {
+	if (!value || typeof value !== "object" || Array.isArray(value)) return undefined;
+	const raw = value as { timezone?: unknown; windows?: unknown };
+	const windows: AvailabilityWindow[] = [];
+	for (const entry of Array.isArray(raw.windows) ? raw.windows : []) {
+		if (!entry || typeof entry !== "object") continue;
+		const { days, start, end } = entry as { days?: unknown; start?: unknown; end?: unknown };
+		const startMinutes = parseTimeOfDay(start);
+		const endMinutes = parseTimeOfDay(end);
+		if (startMinutes === null || endMinutes === null || startMinutes === MINUTES_PER_DAY) {
+			continue;
+		}
+		const window: AvailabilityWindow = {
+			start: formatTimeOfDay(startMinutes),
+			end: formatTimeOfDay(endMinutes),
+		};
+		if (Array.isArray(days)) {
+			const selected = new Set(days.map(normalizeDay));
+			const normalizedDays = AVAILABILITY_DAYS.filter((day) => selected.has(day));
+			if (normalizedDays.length === 0) continue;
+			if (normalizedDays.length < AVAILABILITY_DAYS.length) window.days = normalizedDays;
+		}
+		windows.push(window);
+	}
+	if (windows.length === 0) return undefined;
+
+	const schedule: AccountAvailabilitySchedule = { windows };
+	const timezone = typeof raw.timezone === "string" ? raw.timezone.trim() : "";
+	if (timezone && isValidTimeZone(timezone)) schedule.timezone = timezone;
+	return schedule;
+}
+
+const wallClockFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function getWallClockFormatter(timezone: string | undefined): Intl.DateTimeFormat {
+	const key = timezone ?? "";
+	let formatter = wallClockFormatters.get(key);
+	if (!formatter) {
+		formatter = new Intl.DateTimeFormat("en-US", {
+			timeZone: timezone,
+			hourCycle: "h23",
+			weekday: "short",
+			year: "numeric",
+			month: "2-digit",
+			day: "2-digit",
+			hour: "2-digit",
+			minute: "2-digit",
+			second: "2-digit",
+		});
+		wallClockFormatters.set(key, formatter);
+	}
+	return formatter;
+}
+
+interface WallClock {
+	/** Minutes since Sunday 00:00 local time */
+	minuteOfWeek: number;
+	/** Milliseconds past the start of the local minute */
+	msIntoMinute: number;
+	/** Local time minus UTC */
+	offsetMs: number;
+}
+
+function readWallClock(timestamp: number, timezone: string | undefined): WallClock {
+	const parts: Record<string, string> = {};
+	for (const part of getWallClockFormatter(timezone).formatToParts(timestamp)) {
+		parts[part.type] = part.value;
+	}
+	const hour = Number(parts.hour);
+	const minute = Number(parts.minute);
+	const second = Number(parts.second);
+	const dayIndex = Math.max(0, AVAILABILITY_DAYS.indexOf(normalizeDay(parts.weekday) ?? "sun"));
+	const wholeSecond = Math.floor(timestamp / 1000) * 1000;
+	const localAsUtc = Date.UTC(
+		Number(parts.year),
+		Number(parts.month) - 1,
+		Number(parts.day),
+		hour,
+		minute,
+		second,
+	);
+	return {
+		minuteOfWeek: dayIndex * MINUTES_PER_DAY + hour * 60 + minute,
+		msIntoMinute: second * 1000 + (timestamp - wholeSecond),
+		offsetMs: localAsUtc - wholeSecond,
+	};
+}
+
+/** Each window as [opening minute of week, length in minutes] per day it opens. */
+function getWindowSpans(window: AvailabilityWindow): Array<[number, number]> {
+	const start = parseTimeOfDay(window.start);
+	const end = parseTimeOfDay(window.end);
+	if (start === null || end === null) return [];
+	const length = end > start ? end - start : end + MINUTES_PER_DAY - start;
+	const days = window.days && window.days.length > 0 ? window.days : AVAILABILITY_DAYS;
+	return days.map((day) => [AVAILABILITY_DAYS.indexOf(day) * MINUTES_PER_DAY + start, length]);
+}
+
+export function isAccountAvailableAt(
+	schedule: AccountAvailabilitySchedule | undefined,
+	now = Date.now(),
+): boolean {
+	if (!schedule || schedule.windows.length === 0) return true;
+	const { minuteOfWeek } = readWallClock(now, schedule.timezone);
+	return schedule.windows.some((window) =>
+		getWindowSpans(window).some(
+			([start, length]) =>
+				(minuteOfWeek - start + MINUTES_PER_WEEK) % MINUTES_PER_WEEK < length,
+		),
+	);
+}
+
+/**
+ * When the account next enters one of its windows: `now` while it is inside
+ * one, null when it has no schedule.
+ */
+export function getNextAvailabilityTime(
+	schedule: AccountAvailabilitySchedule | undefined,
+	now = Date.now(),
+): number | null {
+	if (!schedule || schedule.windows.length === 0) return null;
+	if (isAccountAvailableAt(schedule, now)) return now;
+	const clock = readWallClock(now, schedule.timezone);
+	let minutesUntilOpen: number | null = null;
+	for (const window of schedule.windows) {
+		for (const [start] of getWindowSpans(window)) {
+			const delta = (start - clock.minuteOfWeek + MINUTES_PER_WEEK) % MINUTES_PER_WEEK;
+			if (minutesUntilOpen === null || delta < minutesUntilOpen) minutesUntilOpen = delta;
+		}
+	}
+	if (minutesUntilOpen === null) return null;
+	const candidate = now - clock.msIntoMinute + minutesUntilOpen * 60_000;
+	// Windows are wall-clock times, so shift by any DST change before opening.
+	return candidate + clock.offsetMs - readWallClock(candidate, schedule.timezone).offsetMs;
+}
+
+/** `Mon 09:00` in the schedule's timezone, suffixed with the zone when set. */
+export function formatAvailabilityTime(timestamp: number, timezone?: string): string {
+	const parts: Record<string, string> = {};
+	for (const part of getWallClockFormatter(timezone).formatToParts(timestamp)) {
+		parts[part.type] = part.value;
+	}
+	const label = `${parts.weekday} ${parts.hour}:${parts.minute}`;
+	return timezone ? `${label} ${timezone}` : label;
+}
+
+/** One-line summary such as `mon,tue 09:00-17:00; sat 10:00-14:00 (Europe/Berlin)`. */
+export function formatAvailabilitySchedule(schedule: AccountAvailabilitySchedule): string {
+	const windows = schedule.windows
+		.map((window) => {
+			const days = window.days && window.days.length > 0 ? window.days.join(",") : "daily";
+			return `${days} ${window.start}-${window.end}`;
+		})
+		.join("; ");
+	return schedule.timezone ? `${windows} (${schedule.timezone})` : windows;
+}
@@ -46,6 +46,15 @@ export class CircuitBreaker {
 		this.config = { ...DEFAULT_CIRCUIT_BREAKER_CONFIG, ...config };
 	}
 
+	/**
+	 * Replaces the thresholds in place. State and recorded failures are kept;
+	 * a shorter window or higher threshold only takes effect on the next
+	 * recorded failure, and an open breaker uses the new reset timeout.
+	 */
+	configure(config: Partial<CircuitBreakerConfig>): void {
+		this.config = { ...DEFAULT_CIRCUIT_BREAKER_CONFIG, ...config };
+	}
+
 	/**
 	 * Non-throwing gate check used by the request pipeline.
 	 *
@@ -138,6 +147,18 @@ export class CircuitBreaker {
 		}
 	}
 
+	/**
+	 * Hands back the half-open probe slot taken by {@link canAttempt} for a call
+	 * that ended without an outcome for this key (cancelled by a hedge or
+	 * parallel probe, or answered with a 429 or client error). Without it the
+	 * breaker would deny every caller with `probe-in-flight` until reset.
+	 */
+	releaseAttempt(): void {
+		if (this.state === "half-open" && this.halfOpenAttempts > 0) {
+			this.halfOpenAttempts -= 1;
+		}
+	}
+
 	getState(): CircuitState {
 		return this.state;
 	}
@@ -157,6 +178,16 @@ export class CircuitBreaker {
 		return Math.max(0, this.config.resetTimeoutMs - elapsed);
 	}
 
+	/** Timestamps of the failures still inside the window, oldest first. */
+	getFailureTimestamps(): number[] {
+		this.pruneFailures(Date.now());
+		return [...this.failures];
+	}
+
+	getLastStateChange(): number {
+		return this.lastStateChange;
+	}
+
 	private pruneFailures(now: number): void {
 		const cutoff = now - this.config.failureWindowMs;
 		this.failures = this.failures.filter((timestamp) => timestamp >= cutoff);
@@ -184,6 +215,22 @@ export class CircuitBreaker {
 
 const MAX_CIRCUIT_BREAKERS = 100;
 const circuitBreakers = new Map<string, CircuitBreaker>();
+let circuitBreakerConfig: CircuitBreakerConfig = { ...DEFAULT_CIRCUIT_BREAKER_CONFIG };
+
+/**
+ * Sets the thresholds used by registry breakers, including ones already
+ * created. Called with the plugin config on every loader run.
+ */
+export function configureCircuitBreakers(config: Partial<CircuitBreakerConfig>): void {
+	circuitBreakerConfig = { ...DEFAULT_CIRCUIT_BREAKER_CONFIG, ...config };
+	for (const breaker of circuitBreakers.values()) {
+		breaker.configure(circuitBreakerConfig);
+	}
+}
+
+export function getCircuitBreakerConfig(): CircuitBreakerConfig {
+	return { ...circuitBreakerConfig };
+}
 
 export function getCircuitBreaker(key: string, config?: Partial<CircuitBreakerConfig>): CircuitBreaker {
 	let breaker = circuitBreakers.get(key);
@@ -193,7 +240,7 @@ export function getCircuitBreaker(key: string, config?: Partial<CircuitBreakerCo
 			// istanbul ignore next -- defensive: firstKey always exists when size >= MAX_CIRCUIT_BREAKERS
 			if (firstKey) circuitBreakers.delete(firstKey);
 		}
-		breaker = new CircuitBreaker(config);
+		breaker = new CircuitBreaker({ ...circuitBreakerConfig, ...config });
 		circuitBreakers.set(key, breaker);
 	}
 	return breaker;
@@ -205,10 +252,45 @@ export function resetAllCircuitBreakers(): void {
 	}
 }
 
+/** Closes the breaker registered under `key`. Returns false when there is none. */
+export function resetCircuitBreaker(key: string): boolean {
+	const breaker = circuitBreakers.get(key);
+	if (!breaker) return false;
+	breaker.reset();
+	return true;
+}
+
 export function clearCircuitBreakers(): void {
 	circuitBreakers.clear();
 }
 
+/**
+ * Per-breaker state for the `codex-breakers` tool. Unlike
+ * {@link getCircuitBreakerSummary} this carries the raw keys, which embed
+ * account IDs, so it must not go into diagnostic snapshots.
+ */
+export interface CircuitBreakerDetails {
+	key: string;
+	state: CircuitState;
+	/** Failures inside `failureWindowMs`, oldest first */
+	failureTimestamps: number[];
+	/** Milliseconds until an open breaker admits a half-open probe; 0 otherwise */
+	timeUntilHalfOpenMs: number;
+	lastStateChange: number;
+}
+
+export function getCircuitBreakerDetails(): CircuitBreakerDetails[] {
+	return [...circuitBreakers.entries()]
+		.map(([key, breaker]) => ({
+			key,
+			state: breaker.getState(),
+			failureTimestamps: breaker.getFailureTimestamps(),
+			timeUntilHalfOpenMs: breaker.getTimeUntilReset(),
+			lastStateChange: breaker.getLastStateChange(),
+		}))
+		.sort((a, b) => a.key.localeCompare(b.key));
+}
+
 /**
  * Aggregate state counts across all registered circuit breakers, grouped by
  * the key prefix (substring before the first `:`). Today the only prefix is
@@ -4,6 +4,7 @@ import type { AccountIdSource } from "./types.js";
 import {
 	showAuthMenu,
 	showAccountDetails,
+	promptAccountPriority,
 	isTTY,
 	type AccountStatus,
 } from "./ui/auth-menu.js";
@@ -58,6 +59,8 @@ export interface ExistingAccountInfo {
 	status?: AccountStatus;
 	isCurrentAccount?: boolean;
 	enabled?: boolean;
+	priority?: number;
+	reserve?: boolean;
 }
 
 export interface LoginMenuOptions {
@@ -69,6 +72,9 @@ export interface LoginMenuResult {
 	deleteAccountIndex?: number;
 	refreshAccountIndex?: number;
 	toggleAccountIndex?: number;
+	priorityAccountIndex?: number;
+	priorityValue?: number;
+	reserveAccountIndex?: number;
 	deleteAll?: boolean;
 }
 
@@ -171,6 +177,18 @@ export async function promptLoginMode(
 				if (accountAction === "toggle") {
 					return { mode: "manage", toggleAccountIndex: action.account.index };
 				}
+				if (accountAction === "priority") {
+					const priority = await promptAccountPriority(action.account);
+					if (priority === null) continue;
+					return {
+						mode: "manage",
+						priorityAccountIndex: action.account.index,
+						priorityValue: priority,
+					};
+				}
+				if (accountAction === "reserve") {
+					return { mode: "manage", reserveAccountIndex: action.account.index };
+				}
 				continue;
 			}
 			case "delete-all":
@@ -1,13 +1,21 @@
 import { readFileSync, existsSync } from "node:fs";
 import { join } from "node:path";
 import { homedir } from "node:os";
-import type { PluginConfig } from "./types.js";
+import type { ConfigOptions, PluginConfig } from "./types.js";
 import {
 	normalizeRetryBudgetValue,
 	type RetryBudgetOverrides,
 	type RetryProfile,
 } from "./request/retry-budget.js";
 import { logWarn } from "./logger.js";
+import {
+	ROTATION_STRATEGIES,
+	type HybridSelectionConfig,
+	type RotationStrategy,
+	type TokenBucketOverrides,
+} from "./rotation.js";
+import type { RoutingRules } from "./routing-rules.js";
+import type { ModelAlias } from "./request/helpers/model-map.js";
 import {
 	PluginConfigSchema,
 	getValidationErrors,
@@ -22,6 +30,9 @@ const TUI_GLYPH_MODES = new Set(["ascii", "unicode", "auto"]);
 const REQUEST_TRANSFORM_MODES = new Set(["native", "legacy"]);
 const UNSUPPORTED_CODEX_POLICIES = new Set(["strict", "fallback"]);
 const RETRY_PROFILES = new Set(["conservative", "balanced", "aggressive"]);
+const PREFLIGHT_CONTEXT_GUARD_MODES = new Set(["off", "reject", "trim"]);
+const CONTEXT_OVERFLOW_STRATEGIES = new Set(["notice", "trim-and-retry"]);
+const ROTATION_STRATEGY_VALUES = new Set<string>(ROTATION_STRATEGIES);
 
 export type UnsupportedCodexPolicy = "strict" | "fallback";
 
@@ -48,6 +59,7 @@ const DEFAULT_CONFIG: PluginConfig = {
 	fallbackOnUnsupportedCodexModel: false,
 	fallbackToGpt52OnUnsupportedGpt53: true,
 	unsupportedCodexFallbackChain: {},
+	quotaExhaustionFallbackChain: {},
 	tokenRefreshSkewMs: 60_000,
 	rateLimitToastDebounceMs: 60_000,
 	toastDurationMs: 5_000,
@@ -60,6 +72,34 @@ const DEFAULT_CONFIG: PluginConfig = {
 	emptyResponseMaxRetries: 2,
 	emptyResponseRetryDelayMs: 1_000,
 	pidOffsetEnabled: false,
+	crossProcessRotation: false,
+	rotationStrategy: "hybrid",
+	hybridSelectionWeights: {},
+	routingRules: {},
+	sessionAffinity: true,
+	sessionAffinityTtlMs: 1_800_000,
+	sessionAffinityMaxEntries: 512,
+	quotaForecastHorizonMs: 900_000,
+	creditsAwareRouting: false,
+	creditFloor: 0,
+	tokenBucketCalibration: true,
+	tokenBucketOverrides: {},
+	maxInFlightPerAccount: 0,
+	inFlightQueueTimeoutMs: 30_000,
+	proactiveRefresh: true,
+	proactiveRefreshIntervalMs: 300_000,
+	hedgedRequests: false,
+	hedgeDelayMs: 2_000,
+	requestDeadlineMs: 0,
+	circuitBreakerFailureThreshold: 3,
+	circuitBreakerFailureWindowMs: 60_000,
+	circuitBreakerResetTimeoutMs: 30_000,
+	circuitBreakerHalfOpenMaxAttempts: 1,
+	preflightContextGuard: "off",
+	contextOverflowStrategy: "notice",
+	toolOutputClipBytes: 0,
+	toolOutputClipKeepRecent: 3,
+	modelAliases: {},
 	fetchTimeoutMs: 60_000,
 	streamStallTimeoutMs: 45_000,
 };
@@ -431,10 +471,9 @@ export function getFallbackToGpt52OnUnsupportedGpt53(pluginConfig: PluginConfig)
 	);
 }
 
-export function getUnsupportedCodexFallbackChain(
-	pluginConfig: PluginConfig,
+function normalizeModelFallbackChain(
+	chain: Record<string, string[]> | undefined,
 ): Record<string, string[]> {
-	const chain = pluginConfig.unsupportedCodexFallbackChain;
 	if (!chain || typeof chain !== "object") {
 		return {};
 	}
@@ -466,6 +505,22 @@ export function getUnsupportedCodexFallbackChain(
 	return normalized;
 }
 
+export function getUnsupportedCodexFallbackChain(
+	pluginConfig: PluginConfig,
+): Record<string, string[]> {
+	return normalizeModelFallbackChain(pluginConfig.unsupportedCodexFallbackChain);
+}
+
+/**
+ * Models to fall back to when every account is rate-limited for the
+ * requested model (`model -> [fallback1, fallback2, ...]`). Empty by default.
+ */
+export function getQuotaExhaustionFallbackChain(
+	pluginConfig: PluginConfig,
+): Record<string, string[]> {
+	return normalizeModelFallbackChain(pluginConfig.quotaExhaustionFallbackChain);
+}
+
 export function getTokenRefreshSkewMs(pluginConfig: PluginConfig): number {
 	return resolveNumberSetting(
 		"CODEX_AUTH_TOKEN_REFRESH_SKEW_MS",
@@ -568,6 +623,335 @@ export function getPidOffsetEnabled(pluginConfig: PluginConfig): boolean {
 	);
 }
 
+export function getCrossProcessRotation(pluginConfig: PluginConfig): boolean {
+	return resolveBooleanSetting(
+		"CODEX_AUTH_CROSS_PROCESS_ROTATION",
+		pluginConfig.crossProcessRotation,
+		false,
+	);
+}
+
+export function getRotationStrategy(pluginConfig: PluginConfig): RotationStrategy {
+	return resolveStringSetting(
+		"CODEX_AUTH_ROTATION_STRATEGY",
+		pluginConfig.rotationStrategy,
+		"hybrid",
+		ROTATION_STRATEGY_VALUES,
+	);
+}
+
+export function getHybridSelectionWeights(
+	pluginConfig: PluginConfig,
+): Partial<HybridSelectionConfig> {
+	const source = pluginConfig.hybridSelectionWeights;
+	if (!isRecord(source)) return {};
+
+	const normalized: Partial<HybridSelectionConfig> = {};
+	for (const key of [
+		"healthWeight",
+		"tokenWeight",
+		"freshnessWeight",
+		"peerLoadWeight",
+		"quotaWeight",
+	] as const) {
+		const value = source[key];
+		if (typeof value === "number" && Number.isFinite(value) && value >= 0) {
+			normalized[key] = value;
+		}
+	}
+	return normalized;
+}
+
+function normalizeRoutingTags(value: unknown): string[] {
+	if (!Array.isArray(value)) return [];
+	const tags = value
+		.filter((tag): tag is string => typeof tag === "string")
+		.map((tag) => tag.trim().toLowerCase())
+		.filter((tag) => tag.length > 0);
+	return Array.from(new Set(tags));
+}
+
+export function getRoutingRules(pluginConfig: PluginConfig): RoutingRules {
+	const source = pluginConfig.routingRules;
+	if (!isRecord(source)) return {};
+
+	const normalized: RoutingRules = {};
+	for (const [rawKey, rawRule] of Object.entries(source)) {
+		const key = rawKey.trim().toLowerCase();
+		if (!key || !isRecord(rawRule)) continue;
+		const requireTags = normalizeRoutingTags(rawRule.requireTags);
+		const excludeTags = normalizeRoutingTags(rawRule.excludeTags);
+		if (requireTags.length === 0 && excludeTags.length === 0) continue;
+		normalized[key] = {
+			...(requireTags.length > 0 ? { requireTags } : {}),
+			...(excludeTags.length > 0 ? { excludeTags } : {}),
+		};
+	}
+	return normalized;
+}
+
+export function getSessionAffinity(pluginConfig: PluginConfig): boolean {
+	return resolveBooleanSetting(
+		"CODEX_AUTH_SESSION_AFFINITY",
+		pluginConfig.sessionAffinity,
+		true,
+	);
+}
+
+export function getSessionAffinityTtlMs(pluginConfig: PluginConfig): number {
+	return resolveNumberSetting(
+		"CODEX_AUTH_SESSION_AFFINITY_TTL_MS",
+		pluginConfig.sessionAffinityTtlMs,
+		1_800_000,
+		{ min: 60_000 },
+	);
+}
+
+export function getSessionAffinityMaxEntries(pluginConfig: PluginConfig): number {
+	return resolveNumberSetting(
+		"CODEX_AUTH_SESSION_AFFINITY_MAX_ENTRIES",
+		pluginConfig.sessionAffinityMaxEntries,
+		512,
+		{ min: 1 },
+	);
+}
+
+export function getQuotaForecastHorizonMs(pluginConfig: PluginConfig): number {
+	return resolveNumberSetting(
+		"CODEX_AUTH_QUOTA_FORECAST_HORIZON_MS",
+		pluginConfig.quotaForecastHorizonMs,
+		900_000,
+		{ min: 0 },
+	);
+}
+
+export function getCreditsAwareRouting(pluginConfig: PluginConfig): boolean {
+	return resolveBooleanSetting(
+		"CODEX_AUTH_CREDITS_AWARE_ROUTING",
+		pluginConfig.creditsAwareRouting,
+		false,
+	);
+}
+
+export function getCreditFloor(pluginConfig: PluginConfig): number {
+	return resolveNumberSetting(
+		"CODEX_AUTH_CREDIT_FLOOR",
+		pluginConfig.creditFloor,
+		0,
+		{ min: 0 },
+	);
+}
+
+export function getTokenBucketCalibration(pluginConfig: PluginConfig): boolean {
+	return resolveBooleanSetting(
+		"CODEX_AUTH_TOKEN_BUCKET_CALIBRATION",
+		pluginConfig.tokenBucketCalibration,
+		true,
+	);
+}
+
+/**
+ * Per-family token bucket sizes, keyed by lowercase model family. Entries
+ * without a usable `maxTokens` or `tokensPerMinute` are dropped.
+ */
+export function getTokenBucketOverrides(pluginConfig: PluginConfig): TokenBucketOverrides {
+	const source = pluginConfig.tokenBucketOverrides;
+	if (!isRecord(source)) return {};
+
+	const normalized: TokenBucketOverrides = {};
+	for (const [rawKey, rawOverride] of Object.entries(source)) {
+		const key = rawKey.trim().toLowerCase();
+		if (!key || !isRecord(rawOverride)) continue;
+		const { maxTokens, tokensPerMinute } = rawOverride;
+		const override: TokenBucketOverrides[string] = {};
+		if (typeof maxTokens === "number" && Number.isFinite(maxTokens) && maxTokens >= 1) {
+			override.maxTokens = maxTokens;
+		}
+		if (typeof tokensPerMinute === "number" && Number.isFinite(tokensPerMinute) && tokensPerMinute > 0) {
+			override.tokensPerMinute = tokensPerMinute;
+		}
+		if (Object.keys(override).length > 0) normalized[key] = override;
+	}
+	return normalized;
+}
+
+export function getMaxInFlightPerAccount(pluginConfig: PluginConfig): number {
+	return Math.floor(
+		resolveNumberSetting(
+			"CODEX_AUTH_MAX_IN_FLIGHT_PER_ACCOUNT",
+			pluginConfig.maxInFlightPerAccount,
+			0,
+			{ min: 0 },
+		),
+	);
+}
+
+export function getInFlightQueueTimeoutMs(pluginConfig: PluginConfig): number {
+	return resolveNumberSetting(
+		"CODEX_AUTH_IN_FLIGHT_QUEUE_TIMEOUT_MS",
+		pluginConfig.inFlightQueueTimeoutMs,
+		30_000,
+		{ min: 0 },
+	);
+}
+
+export function getProactiveRefresh(pluginConfig: PluginConfig): boolean {
+	return resolveBooleanSetting(
+		"CODEX_AUTH_PROACTIVE_REFRESH",
+		pluginConfig.proactiveRefresh,
+		true,
+	);
+}
+
+export function getProactiveRefreshIntervalMs(pluginConfig: PluginConfig): number {
+	return resolveNumberSetting(
+		"CODEX_AUTH_PROACTIVE_REFRESH_INTERVAL_MS",
+		pluginConfig.proactiveRefreshIntervalMs,
+		300_000,
+		{ min: 10_000 },
+	);
+}
+
+export function getHedgedRequests(pluginConfig: PluginConfig): boolean {
+	return resolveBooleanSetting(
+		"CODEX_AUTH_HEDGED_REQUESTS",
+		pluginConfig.hedgedRequests,
+		false,
+	);
+}
+
+export function getHedgeDelayMs(pluginConfig: PluginConfig): number {
+	return resolveNumberSetting(
+		"CODEX_AUTH_HEDGE_DELAY_MS",
+		pluginConfig.hedgeDelayMs,
+		2_000,
+		{ min: 250 },
+	);
+}
+
+export function getRequestDeadlineMs(pluginConfig: PluginConfig): number {
+	return resolveNumberSetting(
+		"CODEX_AUTH_REQUEST_DEADLINE_MS",
+		pluginConfig.requestDeadlineMs,
+		0,
+		{ min: 0 },
+	);
+}
+
+export function getCircuitBreakerFailureThreshold(pluginConfig: PluginConfig): number {
+	return resolveNumberSetting(
+		"CODEX_AUTH_CIRCUIT_BREAKER_FAILURE_THRESHOLD",
+		pluginConfig.circuitBreakerFailureThreshold,
+		3,
+		{ min: 1 },
+	);
+}
+
+export function getCircuitBreakerFailureWindowMs(pluginConfig: PluginConfig): number {
+	return resolveNumberSetting(
+		"CODEX_AUTH_CIRCUIT_BREAKER_FAILURE_WINDOW_MS",
+		pluginConfig.circuitBreakerFailureWindowMs,
+		60_000,
+		{ min: 1_000 },
+	);
+}
+
+export function getCircuitBreakerResetTimeoutMs(pluginConfig: PluginConfig): number {
+	return resolveNumberSetting(
+		"CODEX_AUTH_CIRCUIT_BREAKER_RESET_TIMEOUT_MS",
+		pluginConfig.circuitBreakerResetTimeoutMs,
+		30_000,
+		{ min: 1_000 },
+	);
+}
+
+export function getCircuitBreakerHalfOpenMaxAttempts(pluginConfig: PluginConfig): number {
+	return resolveNumberSetting(
+		"CODEX_AUTH_CIRCUIT_BREAKER_HALF_OPEN_MAX_ATTEMPTS",
+		pluginConfig.circuitBreakerHalfOpenMaxAttempts,
+		1,
+		{ min: 1 },
+	);
+}
+
+export function getPreflightContextGuard(
+	pluginConfig: PluginConfig,
+): "off" | "reject" | "trim" {
+	return resolveStringSetting(
+		"CODEX_AUTH_PREFLIGHT_CONTEXT_GUARD",
+		pluginConfig.preflightContextGuard,
+		"off",
+		PREFLIGHT_CONTEXT_GUARD_MODES,
+	);
+}
+
+export function getContextOverflowStrategy(
+	pluginConfig: PluginConfig,
+): "notice" | "trim-and-retry" {
+	return resolveStringSetting(
+		"CODEX_AUTH_CONTEXT_OVERFLOW_STRATEGY",
+		pluginConfig.contextOverflowStrategy,
+		"notice",
+		CONTEXT_OVERFLOW_STRATEGIES,
+	);
+}
+
+export function getToolOutputClipBytes(pluginConfig: PluginConfig): number {
+	return resolveNumberSetting(
+		"CODEX_AUTH_TOOL_OUTPUT_CLIP_BYTES",
+		pluginConfig.toolOutputClipBytes,
+		0,
+		{ min: 0 },
+	);
+}
+
+export function getToolOutputClipKeepRecent(pluginConfig: PluginConfig): number {
+	return resolveNumberSetting(
+		"CODEX_AUTH_TOOL_OUTPUT_CLIP_KEEP_RECENT",
+		pluginConfig.toolOutputClipKeepRecent,
+		3,
+		{ min: 0 },
+	);
+}
+
+const REASONING_EFFORTS = new Set(["none", "minimal", "low", "medium", "high", "xhigh"]);
+const REASONING_SUMMARIES = new Set(["auto", "concise", "detailed", "off", "on"]);
+const TEXT_VERBOSITIES = new Set(["low", "medium", "high"]);
+
+function normalizeAliasOptions(value: unknown): ConfigOptions | undefined {
+	if (!isRecord(value)) return undefined;
+	const options: ConfigOptions = {};
+	if (typeof value.reasoningEffort === "string" && REASONING_EFFORTS.has(value.reasoningEffort)) {
+		options.reasoningEffort = value.reasoningEffort as ConfigOptions["reasoningEffort"];
+	}
+	if (typeof value.reasoningSummary === "string" && REASONING_SUMMARIES.has(value.reasoningSummary)) {
+		options.reasoningSummary = value.reasoningSummary as ConfigOptions["reasoningSummary"];
+	}
+	if (typeof value.textVerbosity === "string" && TEXT_VERBOSITIES.has(value.textVerbosity)) {
+		options.textVerbosity = value.textVerbosity as ConfigOptions["textVerbosity"];
+	}
+	if (Array.isArray(value.include)) {
+		options.include = value.include.filter((entry): entry is string => typeof entry === "string");
+	}
+	return Object.keys(options).length > 0 ? options : undefined;
+}
+
+export function getModelAliases(pluginConfig: PluginConfig): Record<string, ModelAlias> {
+	const source = pluginConfig.modelAliases;
+	if (!isRecord(source)) return {};
+
+	const normalized: Record<string, ModelAlias> = {};
+	for (const [rawKey, rawAlias] of Object.entries(source)) {
+		const key = rawKey.trim();
+		if (!key || !isRecord(rawAlias)) continue;
+		const model = typeof rawAlias.model === "string" ? rawAlias.model.trim() : "";
+		if (!model) continue;
+		const options = normalizeAliasOptions(rawAlias.options);
+		normalized[key] = { model, ...(options ? { options } : {}) };
+	}
+	return normalized;
+}
+
 export function getFetchTimeoutMs(pluginConfig: PluginConfig): number {
 	return resolveNumberSetting(
 		"CODEX_AUTH_FETCH_TIMEOUT_MS",
@@ -18,6 +18,8 @@ export const LEGACY_ACCOUNTS_FILE_NAME = "openai-codex-accounts.json";
 export const FLAGGED_ACCOUNTS_FILE_NAME = "oc-codex-multi-auth-flagged-accounts.json";
 export const LEGACY_FLAGGED_ACCOUNTS_FILE_NAME = "openai-codex-flagged-accounts.json";
 export const LEGACY_BLOCKED_ACCOUNTS_FILE_NAME = "openai-codex-blocked-accounts.json";
+export const ROTATION_STATE_FILE_NAME = "oc-codex-multi-auth-rotation-state.json";
+export const QUOTA_HISTORY_DIR_NAME = "oc-codex-multi-auth-quota-history";
 
 /** Base URL for ChatGPT backend API */
 export const CODEX_BASE_URL = "https://chatgpt.com/backend-api";
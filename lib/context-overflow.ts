@@ -2,11 +2,20 @@
  * Context Overflow Handler
  * 
  * Handles "Prompt too long" / context length exceeded errors by returning
- * a synthetic SSE response that advises the user to use /compact or /clear.
+ * a synthetic response that advises the user to use /compact or /clear.
  * This prevents the OpenCode session from getting locked on 400 errors.
  */
 
 import { logDebug } from "./logger.js";
+import { createSyntheticResponse } from "./synthetic-response.js";
+import type { InputItem } from "./types.js";
+
+/** Tool outputs above this size are shortened on a trim-and-retry */
+const LARGE_TOOL_OUTPUT_CHARS = 8_000;
+/** How much of a shortened tool output is kept */
+const SHORTENED_TOOL_OUTPUT_HEAD_CHARS = 1_000;
+/** Latest tool outputs a trim-and-retry never touches; the model is working from them */
+const RECENT_TOOL_OUTPUTS_KEPT = 2;
 
 /**
  * Error patterns that indicate context overflow
@@ -48,66 +57,23 @@ Then retry your request.
 Alternatively, you can switch to a model with a larger context window.`;
 
 /**
- * Creates a synthetic SSE response for context overflow errors.
- * This returns a 200 OK with the error message as assistant text,
- * preventing the session from getting locked.
+ * Creates a synthetic response for context overflow errors.
+ * This returns a 200 OK with the notice as the assistant's reply,
+ * preventing the session from getting locked. `detail` (e.g. the pre-flight
+ * guard's token estimate) is shown under the notice's first line.
  */
-export function createContextOverflowResponse(model: string = "unknown"): Response {
-  const messageId = `msg_synthetic_overflow_${Date.now()}`;
-  const events: string[] = [];
-
-  // message_start
-  events.push(`event: message_start\ndata: ${JSON.stringify({
-    type: "message_start",
-    message: {
-      id: messageId,
-      type: "message",
-      role: "assistant",
-      content: [],
-      model,
-      usage: { input_tokens: 0, output_tokens: 0 },
-    },
-  })}\n\n`);
-
-  // content_block_start
-  events.push(`event: content_block_start\ndata: ${JSON.stringify({
-    type: "content_block_start",
-    index: 0,
-    content_block: { type: "text", text: "" },
-  })}\n\n`);
-
-  // content_block_delta (the actual message)
-  events.push(`event: content_block_delta\ndata: ${JSON.stringify({
-    type: "content_block_delta",
-    index: 0,
-    delta: { type: "text_delta", text: CONTEXT_OVERFLOW_MESSAGE },
-  })}\n\n`);
-
-  // content_block_stop
-  events.push(`event: content_block_stop\ndata: ${JSON.stringify({
-    type: "content_block_stop",
-    index: 0,
-  })}\n\n`);
-
-  // message_delta (end_turn)
-  events.push(`event: message_delta\ndata: ${JSON.stringify({
-    type: "message_delta",
-    delta: { stop_reason: "end_turn" },
-    usage: { output_tokens: 0 },
-  })}\n\n`);
-
-  // message_stop
-  events.push(`event: message_stop\ndata: ${JSON.stringify({
-    type: "message_stop",
-  })}\n\n`);
-
-  return new Response(events.join(""), {
-    status: 200,
-    headers: {
-      "Content-Type": "text/event-stream",
-      "X-Codex-Plugin-Synthetic": "true",
-      "X-Codex-Plugin-Error-Type": "context_overflow",
-    },
+export function createContextOverflowResponse(
+  model: string = "unknown",
+  detail?: string,
+  stream: boolean = true,
+): Response {
+  const message = detail
+    ? CONTEXT_OVERFLOW_MESSAGE.replace("\n\n", `\n\n${detail}.\n\n`)
+    : CONTEXT_OVERFLOW_MESSAGE;
+  return createSyntheticResponse(message, {
+    model,
+    stream,
+    errorType: "context_overflow",
   });
 }
 
@@ -117,6 +83,7 @@ export function createContextOverflowResponse(model: string = "unknown"): Respon
 export async function handleContextOverflow(
   response: Response,
   model?: string,
+  stream: boolean = true,
 ): Promise<{ handled: true; response: Response } | { handled: false }> {
   if (response.status !== 400) {
     return { handled: false };
@@ -128,7 +95,7 @@ export async function handleContextOverflow(
 		logDebug("Context overflow detected, returning synthetic response");
       return {
         handled: true,
-        response: createContextOverflowResponse(model),
+        response: createContextOverflowResponse(model, undefined, stream),
       };
     }
   } catch {
@@ -137,3 +104,84 @@ export async function handleContextOverflow(
 
   return { handled: false };
 }
+
+export interface ContextTrimResult {
+  input: InputItem[];
+  /** Older tool outputs replaced by a removal marker */
+  dropped: number;
+  /** Large tool outputs cut down to their first characters */
+  shortened: number;
+  removedChars: number;
+}
+
+function toolOutputText(output: unknown): string {
+  if (typeof output === "string") return output;
+  try {
+    return JSON.stringify(output) ?? "";
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * Frees context for a single `contextOverflowStrategy: "trim-and-retry"`
+ * retry. Every `function_call_output` except the latest
+ * RECENT_TOOL_OUTPUTS_KEPT is a candidate, wherever the latest user message
+ * falls: in an agent loop the outputs that overflow the window usually belong
+ * to the current turn. Only `output` is rewritten, so every call keeps its
+ * output and `normalizeOrphanedToolOutputs` sees the same pairs:
+ * - the oldest half of the candidates are replaced by a one-line removal marker
+ * - the rest are cut to their first characters when they are large
+ */
+export function trimToolOutputsForRetry(input: InputItem[]): ContextTrimResult {
+  const outputs: number[] = [];
+  input.forEach((item, index) => {
+    if (item?.type === "function_call_output") outputs.push(index);
+  });
+  const candidates = outputs.slice(0, Math.max(0, outputs.length - RECENT_TOOL_OUTPUTS_KEPT));
+  const dropCount = Math.ceil(candidates.length / 2);
+  const next = [...input];
+  let dropped = 0;
+  let shortened = 0;
+  let removedChars = 0;
+
+  candidates.forEach((index, position) => {
+    const item = input[index] as InputItem;
+    const text = toolOutputText(item.output);
+    if (position < dropCount) {
+      const marker = `[Tool output removed to fit the context window (${text.length} characters)]`;
+      if (text.length <= marker.length) return;
+      next[index] = { ...item, output: marker };
+      removedChars += text.length - marker.length;
+      dropped++;
+      return;
+    }
+    if (text.length > LARGE_TOOL_OUTPUT_CHARS) {
+      const removed = text.length - SHORTENED_TOOL_OUTPUT_HEAD_CHARS;
+      next[index] = {
+        ...item,
+        output: `${text.slice(0, SHORTENED_TOOL_OUTPUT_HEAD_CHARS)}\n[... ${removed} characters of tool output removed to fit the context window]`,
+      };
+      removedChars += removed;
+      shortened++;
+    }
+  });
+
+  return { input: next, dropped, shortened, removedChars };
+}
+
+/** `removed 3 old tool outputs and shortened 1 large one (~120k characters)` */
+export function describeContextTrim(result: ContextTrimResult): string {
+  const parts: string[] = [];
+  if (result.dropped > 0) {
+    parts.push(`removed ${result.dropped} old tool output${result.dropped === 1 ? "" : "s"}`);
+  }
+  if (result.shortened > 0) {
+    parts.push(`shortened ${result.shortened} large one${result.shortened === 1 ? "" : "s"}`);
+  }
+  const size =
+    result.removedChars >= 1_000
+      ? `~${Math.round(result.removedChars / 1_000)}k`
+      : String(result.removedChars);
+  return `${parts.join(" and ")} (${size} characters)`;
+}
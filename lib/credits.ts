@@ -0,0 +1,178 @@
+/**
+ * Credits-aware routing.
+ *
+ * Accounts can keep working past their plan's 5h / weekly windows by spending
+ * credits. The usage endpoint (`codex-limits`) and the `x-codex-credits-*`
+ * response headers report whether an account has credits and its balance.
+ * With `creditsAwareRouting` on, an account whose plan windows are exhausted
+ * stays selectable only while it has credits above its floor (the account's
+ * `creditFloor`, else the global one); below that it is treated as limited
+ * until the window resets. Accounts with plan headroom are unaffected.
+ */
+
+import type { UsageCredits } from "./codex-usage.js";
+import { getQuotaUsageTracker } from "./rotation.js";
+
+export interface CreditsRoutingConfig {
+	enabled: boolean;
+	/** Balance at or below which an exhausted account is treated as limited */
+	floor: number;
+}
+
+export const DEFAULT_CREDITS_ROUTING_CONFIG: CreditsRoutingConfig = {
+	enabled: false,
+	floor: 0,
+};
+
+export interface AccountCredits {
+	hasCredits: boolean;
+	unlimited: boolean;
+	/** Numeric balance, when the backend reports one */
+	balance?: number;
+}
+
+interface CreditsEntry extends AccountCredits {
+	observedAt: number;
+}
+
+function parseBoolean(value: unknown): boolean | undefined {
+	if (typeof value === "boolean") return value;
+	if (typeof value !== "string") return undefined;
+	const normalized = value.trim().toLowerCase();
+	if (normalized === "true" || normalized === "1") return true;
+	if (normalized === "false" || normalized === "0") return false;
+	return undefined;
+}
+
+export function parseCreditBalance(value: unknown): number | undefined {
+	if (typeof value === "number") return Number.isFinite(value) ? value : undefined;
+	if (typeof value !== "string") return undefined;
+	const trimmed = value.trim().replace(/,/g, "");
+	if (!/^-?\d+(\.\d+)?$/.test(trimmed)) return undefined;
+	const parsed = Number(trimmed);
+	return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/** Credits from a `/wham/usage` payload, or null when none are reported. */
+export function normalizeUsageCredits(
+	credits: UsageCredits | undefined,
+): AccountCredits | null {
+	if (!credits) return null;
+	const balance = parseCreditBalance(credits.balance);
+	return {
+		hasCredits: credits.has_credits === true || (balance !== undefined && balance > 0),
+		unlimited: credits.unlimited === true,
+		balance,
+	};
+}
+
+/** Credits from `x-codex-credits-*` response headers, or null when absent. */
+export function parseCreditsFromHeaders(headers: Headers): AccountCredits | null {
+	const hasCredits = parseBoolean(headers.get("x-codex-credits-has-credits"));
+	const unlimited = parseBoolean(headers.get("x-codex-credits-unlimited"));
+	const balance = parseCreditBalance(headers.get("x-codex-credits-balance"));
+	if (hasCredits === undefined && unlimited === undefined && balance === undefined) {
+		return null;
+	}
+	return {
+		hasCredits: hasCredits ?? (balance !== undefined && balance > 0),
+		unlimited: unlimited ?? false,
+		balance,
+	};
+}
+
+export class CreditsTracker {
+	private readonly entries = new Map<number, CreditsEntry>();
+	private config: CreditsRoutingConfig;
+
+	constructor(config: Partial<CreditsRoutingConfig> = {}) {
+		this.config = { ...DEFAULT_CREDITS_ROUTING_CONFIG, ...config };
+	}
+
+	configure(config: Partial<CreditsRoutingConfig>): void {
+		this.config = { ...DEFAULT_CREDITS_ROUTING_CONFIG, ...config };
+	}
+
+	get enabled(): boolean {
+		return this.config.enabled;
+	}
+
+	get floor(): number {
+		return this.config.floor;
+	}
+
+	record(accountIndex: number, credits: AccountCredits | null, now: number = Date.now()): void {
+		if (!credits) return;
+		this.entries.set(accountIndex, { ...credits, observedAt: now });
+	}
+
+	get(accountIndex: number): (AccountCredits & { observedAt: number }) | undefined {
+		return this.entries.get(accountIndex);
+	}
+
+	/**
+	 * True when the account can keep working on credits: unlimited, a balance
+	 * above `floor`, or credits without a reported balance while the floor is
+	 * zero. Unknown credits count as none.
+	 */
+	hasSpendableCredits(accountIndex: number, floor: number = this.config.floor): boolean {
+		const entry = this.entries.get(accountIndex);
+		if (!entry) return false;
+		if (entry.unlimited) return true;
+		if (typeof entry.balance === "number") return entry.balance > floor;
+		return entry.hasCredits && floor <= 0;
+	}
+
+	reset(accountIndex: number): void {
+		this.entries.delete(accountIndex);
+	}
+
+	clear(): void {
+		this.entries.clear();
+	}
+}
+
+let creditsTracker: CreditsTracker | null = null;
+
+export function getCreditsTracker(): CreditsTracker {
+	if (!creditsTracker) {
+		creditsTracker = new CreditsTracker();
+	}
+	return creditsTracker;
+}
+
+export function configureCreditsRouting(config: Partial<CreditsRoutingConfig>): void {
+	getCreditsTracker().configure(config);
+}
+
+/**
+ * When credits-aware routing is on and the account's plan windows are
+ * exhausted without spendable credits above its floor: the time the windows
+ * reset. Otherwise `undefined`.
+ */
+export function getCreditLimitedUntil(
+	account: { index: number; creditFloor?: number },
+	now: number = Date.now(),
+): number | undefined {
+	const tracker = getCreditsTracker();
+	if (!tracker.enabled) return undefined;
+	const exhaustedUntil = getQuotaUsageTracker().getExhaustedUntil(account.index, now);
+	if (exhaustedUntil === undefined) return undefined;
+	const floor = account.creditFloor ?? tracker.floor;
+	return tracker.hasSpendableCredits(account.index, floor) ? undefined : exhaustedUntil;
+}
+
+/**
+ * `12.5`, `12.5 (floor 5)`, `3 (at or below floor 5)`, `unlimited`,
+ * `available`, `none`, or `unknown` when nothing has been reported.
+ */
+export function formatCreditsStatus(credits: AccountCredits | undefined, floor = 0): string {
+	if (!credits) return "unknown";
+	if (credits.unlimited) return "unlimited";
+	if (typeof credits.balance === "number") {
+		if (credits.balance <= floor) return `${credits.balance} (at or below floor ${floor})`;
+		return floor > 0 ? `${credits.balance} (floor ${floor})` : `${credits.balance}`;
+	}
+	if (!credits.hasCredits) return "none";
+	return floor > 0 ? `available (floor ${floor})` : "available";
+}
@@ -18,6 +18,8 @@
  * instead of parsing message strings.
  */
 
+import type { DeadlineBreakdown } from "./request/request-deadline.js";
+
 /**
  * Error codes for categorizing errors.
  *
@@ -305,3 +307,53 @@ export class ConfigError extends CodexError {
 		});
 	}
 }
+
+/**
+ * Options for creating a RequestDeadlineError.
+ */
+export interface RequestDeadlineErrorOptions {
+	breakdown: DeadlineBreakdown;
+}
+
+/**
+ * Error thrown when a request runs past `requestDeadlineMs` while rotating
+ * accounts. {@link breakdown} records where the time went; the fetch handler
+ * turns it into a 504 instead of letting it escape to the host.
+ */
+export class RequestDeadlineError extends CodexError {
+	override readonly name = "RequestDeadlineError";
+	readonly breakdown: DeadlineBreakdown;
+
+	constructor(message: string, options: RequestDeadlineErrorOptions) {
+		super(message, {
+			code: ErrorCode.TIMEOUT,
+			context: { ...options.breakdown },
+		});
+		this.breakdown = options.breakdown;
+	}
+}
+
+/**
+ * Error thrown by the pre-flight context guard when a request's estimated
+ * input does not fit the model's input budget. The fetch handler answers it
+ * with the context-overflow notice without contacting the backend.
+ */
+export class ContextWindowExceededError extends CodexError {
+	override readonly name = "ContextWindowExceededError";
+	readonly model: string;
+	readonly estimatedTokens: number;
+	readonly limitTokens: number;
+
+	constructor(model: string, estimatedTokens: number, limitTokens: number) {
+		super(
+			`Estimated ${estimatedTokens} input tokens exceed the ${limitTokens}-token input window of ${model}`,
+			{
+				code: ErrorCode.REQUEST_ERROR,
+				context: { model, estimatedTokens, limitTokens },
+			},
+		);
+		this.model = model;
+		this.estimatedTokens = estimatedTokens;
+		this.limitTokens = limitTokens;
+	}
+}
@@ -0,0 +1,118 @@
+/**
+ * Hedged requests.
+ *
+ * For latency-sensitive turns the same request can be sent to a second
+ * account when the first has not answered within `hedgeDelayMs`. Whichever
+ * attempt answers first with an acceptable response wins and the other is
+ * aborted. Accounting (local tokens, in-flight slots, circuit breakers) stays
+ * with the caller: it gets the winner back and every late loser through
+ * `onDiscard`.
+ */
+
+export type HedgeSource = "primary" | "hedge";
+
+export interface HedgeAttempt<T> {
+	result: Promise<T>;
+	/** Cancels the attempt once the race is decided the other way */
+	abort: () => void;
+}
+
+export interface HedgeOptions<T> {
+	/** How long the primary gets before the hedge is launched */
+	delayMs: number;
+	/** Starts the hedge; null when no account can take it */
+	launch: () => HedgeAttempt<T> | null;
+	/** Whether a settled value may win; rejected values never do */
+	accept: (value: T) => boolean;
+	/** Called with the fulfilled value of an attempt that lost the race */
+	onDiscard: (value: T, source: HedgeSource) => void;
+}
+
+export interface HedgeResult<T> {
+	source: HedgeSource;
+	value: T;
+	/** Whether a hedge was launched at all */
+	hedged: boolean;
+}
+
+type Settled<T> = { ok: true; value: T } | { ok: false; error: unknown };
+
+function settle<T>(promise: Promise<T>): Promise<Settled<T>> {
+	return promise.then(
+		(value) => ({ ok: true as const, value }),
+		(error: unknown) => ({ ok: false as const, error }),
+	);
+}
+
+function unwrap<T>(outcome: Settled<T>): T {
+	if (!outcome.ok) throw outcome.error;
+	return outcome.value;
+}
+
+/**
+ * Races `primary` against a hedge launched after `delayMs`.
+ *
+ * The first acceptable response wins. When neither attempt is acceptable the
+ * primary's outcome is returned (or rethrown) so the caller's normal error
+ * handling applies to the account it selected.
+ */
+export async function raceWithHedge<T>(
+	primary: HedgeAttempt<T>,
+	options: HedgeOptions<T>,
+): Promise<HedgeResult<T>> {
+	const primaryOutcome = settle(primary.result);
+	let delayTimer: ReturnType<typeof setTimeout> | undefined;
+	const early = await Promise.race([
+		primaryOutcome,
+		new Promise<null>((resolve) => {
+			delayTimer = setTimeout(() => resolve(null), Math.max(0, options.delayMs));
+		}),
+	]);
+	clearTimeout(delayTimer);
+	if (early) {
+		return { source: "primary", value: unwrap(early), hedged: false };
+	}
+
+	const hedge = options.launch();
+	if (!hedge) {
+		return { source: "primary", value: unwrap(await primaryOutcome), hedged: false };
+	}
+	const hedgeOutcome = settle(hedge.result);
+
+	const discardWhenSettled = (
+		attempt: HedgeAttempt<T>,
+		outcome: Promise<Settled<T>>,
+		source: HedgeSource,
+	): void => {
+		attempt.abort();
+		void outcome.then((settled) => {
+			if (settled.ok) options.onDiscard(settled.value, source);
+		});
+	};
+
+	const first = await Promise.race([
+		primaryOutcome.then((outcome) => ({ source: "primary" as const, outcome })),
+		hedgeOutcome.then((outcome) => ({ source: "hedge" as const, outcome })),
+	]);
+	if (first.outcome.ok && options.accept(first.outcome.value)) {
+		if (first.source === "primary") {
+			discardWhenSettled(hedge, hedgeOutcome, "hedge");
+		} else {
+			discardWhenSettled(primary, primaryOutcome, "primary");
+		}
+		return { source: first.source, value: first.outcome.value, hedged: true };
+	}
+
+	// The first answer was a failure; give the other attempt its chance.
+	const otherSource: HedgeSource = first.source === "primary" ? "hedge" : "primary";
+	const other = await (otherSource === "primary" ? primaryOutcome : hedgeOutcome);
+	if (other.ok && options.accept(other.value)) {
+		if (first.outcome.ok) options.onDiscard(first.outcome.value, first.source);
+		return { source: otherSource, value: other.value, hedged: true };
+	}
+
+	const hedgeSettled = first.source === "hedge" ? first.outcome : other;
+	if (hedgeSettled.ok) options.onDiscard(hedgeSettled.value, "hedge");
+	const primarySettled = first.source === "primary" ? first.outcome : other;
+	return { source: "primary", value: unwrap(primarySettled), hedged: true };
+}
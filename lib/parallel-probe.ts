@@ -22,9 +22,14 @@ export interface ProbeResult<T> {
 	error?: Error;
 }
 
-export interface ParallelProbeOptions {
+export interface ParallelProbeOptions<T = unknown> {
 	maxConcurrency: number;
 	timeoutMs: number;
+	/**
+	 * Called with a success that settled after the winner was chosen, so the
+	 * caller can release whatever the discarded response holds.
+	 */
+	onDiscard: (account: ManagedAccount, response: T) => void;
 }
 
 /**
@@ -47,6 +52,7 @@ export function getTopCandidates(
 	const accountsWithMetrics: (AccountWithMetrics & { account: ManagedAccount })[] = [];
 
 	for (const account of accounts) {
+		if (account.enabled === false) continue;
 		clearExpiredRateLimits(account);
 		const isRateLimited = isRateLimitedForFamily(account, modelFamily, model);
 		const isCoolingDown = account.coolingDownUntil !== undefined && account.coolingDownUntil > Date.now();
@@ -84,7 +90,7 @@ export function getTopCandidates(
 export async function probeAccountsInParallel<T>(
 	candidates: ProbeCandidate[],
 	probeFn: (account: ManagedAccount, signal: AbortSignal) => Promise<T>,
-	_options: Partial<ParallelProbeOptions> = {},
+	options: Partial<ParallelProbeOptions<T>> = {},
 ): Promise<ProbeResult<T> | null> {
 	if (candidates.length === 0) {
 		return null;
@@ -121,6 +127,8 @@ export async function probeAccountsInParallel<T>(
 							}
 						}
 						resolve(winner);
+					} else {
+						options.onDiscard?.(account, response);
 					}
 				})
 				.catch((_error) => {
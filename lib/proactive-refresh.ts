@@ -8,11 +8,15 @@
  * - Reduces mid-request auth failures
  * - Improves user experience with seamless token rotation
  * - Works alongside the existing reactive refresh in fetch-helpers
+ * - Runs from a jittered background scheduler started by the plugin loader
  */
 
 import { queuedRefresh } from "./refresh-queue.js";
 import { createLogger } from "./logger.js";
-import type { ManagedAccount } from "./accounts.js";
+import { addJitter } from "./rotation.js";
+import { registerCleanup, unregisterCleanup } from "./shutdown.js";
+import { withAccountStorageTransaction } from "./storage.js";
+import type { AccountManager, ManagedAccount } from "./accounts.js";
 import type { TokenResult } from "./types.js";
 
 const log = createLogger("proactive-refresh");
@@ -213,3 +217,274 @@ export function applyRefreshResult(
 		account.refreshToken = result.refresh;
 	}
 }
+
+/** Spread applied to the scheduler interval so processes sharing a pool do not refresh in lockstep. */
+const SCHEDULER_JITTER_FACTOR = 0.2;
+
+export interface ProactiveRefreshSchedulerConfig {
+	enabled: boolean;
+	/** Base delay between background runs */
+	intervalMs: number;
+	/** Same skew the inline path uses (`tokenRefreshSkewMs`) */
+	skewMs: number;
+	/** Live pool to refresh; null until the loader has built one */
+	getAccountManager: () => AccountManager | null;
+}
+
+export interface ProactiveRefreshRunStats {
+	ranAt: number;
+	durationMs: number;
+	/** Enabled accounts inspected */
+	checked: number;
+	/** Accounts inside the refresh window */
+	due: number;
+	refreshed: number;
+	failed: number;
+	/** Stored accounts rewritten with the new tokens */
+	persisted: number;
+	error?: string;
+}
+
+export interface ProactiveRefreshSchedulerStats {
+	intervalMs: number;
+	bufferMs: number;
+	runs: number;
+	totalRefreshed: number;
+	totalFailed: number;
+	nextRunAt: number | null;
+	lastRun: ProactiveRefreshRunStats | null;
+}
+
+interface PersistableRefresh {
+	previousRefreshToken: string;
+	result: Extract<TokenResult, { type: "success" }>;
+}
+
+/**
+ * Rewrites the stored copies of freshly refreshed accounts inside one storage
+ * transaction, matching on the refresh token the account had before the run.
+ */
+async function persistRefreshResults(updates: PersistableRefresh[]): Promise<number> {
+	return withAccountStorageTransaction(async (current, persist) => {
+		if (!current) return 0;
+		let persisted = 0;
+		const accounts = current.accounts.map((stored) => {
+			const update = updates.find(
+				(candidate) => candidate.previousRefreshToken === stored.refreshToken,
+			);
+			if (!update) return stored;
+			persisted++;
+			return {
+				...stored,
+				refreshToken: update.result.refresh,
+				accessToken: update.result.access,
+				expiresAt: update.result.expires,
+			};
+		});
+		if (persisted > 0) {
+			await persist({ ...current, accounts });
+		}
+		return persisted;
+	});
+}
+
+/**
+ * Refreshes soon-to-expire accounts in the background so the first request
+ * after an idle period does not pay for the token exchange inline.
+ *
+ * Each run refreshes every enabled account whose token would fall inside the
+ * inline refresh skew before the next run could fire, so the request path
+ * only refreshes when a run failed or the process slept through one.
+ */
+export class ProactiveRefreshScheduler {
+	private config: ProactiveRefreshSchedulerConfig;
+	private timer: ReturnType<typeof setTimeout> | null = null;
+	private running: Promise<ProactiveRefreshRunStats | null> | null = null;
+	private active = false;
+	private nextRunAt: number | null = null;
+	private runs = 0;
+	private totalRefreshed = 0;
+	private totalFailed = 0;
+	private lastRun: ProactiveRefreshRunStats | null = null;
+
+	constructor(config: ProactiveRefreshSchedulerConfig) {
+		this.config = config;
+	}
+
+	configure(config: ProactiveRefreshSchedulerConfig): void {
+		const intervalChanged = config.intervalMs !== this.config.intervalMs;
+		this.config = config;
+		if (this.active && intervalChanged && !this.running) this.schedule();
+	}
+
+	get bufferMs(): number {
+		const latestNextRunMs = this.config.intervalMs * (1 + SCHEDULER_JITTER_FACTOR);
+		return Math.max(0, this.config.skewMs) + latestNextRunMs;
+	}
+
+	start(): void {
+		if (this.active) return;
+		this.active = true;
+		this.schedule();
+	}
+
+	stop(): void {
+		this.active = false;
+		this.nextRunAt = null;
+		if (this.timer) {
+			clearTimeout(this.timer);
+			this.timer = null;
+		}
+	}
+
+	/** Runs one pass now; concurrent callers share the pass already in progress. */
+	runOnce(): Promise<ProactiveRefreshRunStats | null> {
+		if (!this.running) {
+			this.running = this.run().finally(() => {
+				this.running = null;
+			});
+		}
+		return this.running;
+	}
+
+	getStats(): ProactiveRefreshSchedulerStats {
+		return {
+			intervalMs: this.config.intervalMs,
+			bufferMs: this.bufferMs,
+			runs: this.runs,
+			totalRefreshed: this.totalRefreshed,
+			totalFailed: this.totalFailed,
+			nextRunAt: this.nextRunAt,
+			lastRun: this.lastRun ? { ...this.lastRun } : null,
+		};
+	}
+
+	private schedule(): void {
+		if (this.timer) clearTimeout(this.timer);
+		const delayMs = addJitter(this.config.intervalMs, SCHEDULER_JITTER_FACTOR);
+		this.nextRunAt = Date.now() + delayMs;
+		this.timer = setTimeout(() => {
+			this.timer = null;
+			void this.runOnce().finally(() => {
+				if (this.active) this.schedule();
+			});
+		}, delayMs);
+		this.timer.unref?.();
+	}
+
+	private async run(): Promise<ProactiveRefreshRunStats | null> {
+		const accountManager = this.config.getAccountManager();
+		if (!accountManager) return null;
+
+		const startedAt = Date.now();
+		const stats: ProactiveRefreshRunStats = {
+			ranAt: startedAt,
+			durationMs: 0,
+			checked: 0,
+			due: 0,
+			refreshed: 0,
+			failed: 0,
+			persisted: 0,
+		};
+
+		try {
+			const accounts = accountManager
+				.getAccountsSnapshot()
+				.filter((account) => account.enabled !== false);
+			stats.checked = accounts.length;
+			const results = await refreshExpiringAccounts(accounts, this.bufferMs);
+			stats.due = results.size;
+			const updates: PersistableRefresh[] = [];
+			for (const [index, outcome] of results) {
+				const tokenResult = outcome.tokenResult;
+				if (outcome.reason !== "success" || tokenResult?.type !== "success") {
+					stats.failed++;
+					continue;
+				}
+				const before = accounts.find((account) => account.index === index);
+				const live = accountManager.getAccountByIndex(index);
+				// Skip accounts removed, reordered or refreshed inline while we waited.
+				if (!before || !live || live.refreshToken !== before.refreshToken) continue;
+				applyRefreshResult(live, tokenResult);
+				updates.push({ previousRefreshToken: before.refreshToken, result: tokenResult });
+				stats.refreshed++;
+			}
+			if (updates.length > 0) {
+				stats.persisted = await persistRefreshResults(updates);
+			}
+		} catch (error) {
+			stats.error = error instanceof Error ? error.message : String(error);
+			log.warn("Background token refresh run failed", { error: stats.error });
+		}
+
+		stats.durationMs = Date.now() - startedAt;
+		this.runs++;
+		this.totalRefreshed += stats.refreshed;
+		this.totalFailed += stats.failed;
+		this.lastRun = stats;
+		return stats;
+	}
+}
+
+let schedulerInstance: ProactiveRefreshScheduler | null = null;
+let schedulerCleanup: (() => void) | null = null;
+
+/** Returns the running scheduler, or `null` when background refresh is off. */
+export function getProactiveRefreshScheduler(): ProactiveRefreshScheduler | null {
+	return schedulerInstance;
+}
+
+/**
+ * Starts, reconfigures or stops the process-wide scheduler. Starting is
+ * idempotent; the scheduler stops itself on shutdown.
+ */
+export function configureProactiveRefresh(config: ProactiveRefreshSchedulerConfig): void {
+	if (config.enabled) {
+		if (schedulerInstance) {
+			schedulerInstance.configure(config);
+			return;
+		}
+		const scheduler = new ProactiveRefreshScheduler(config);
+		schedulerInstance = scheduler;
+		schedulerCleanup = () => {
+			schedulerCleanup = null;
+			if (schedulerInstance === scheduler) {
+				schedulerInstance = null;
+			}
+			scheduler.stop();
+		};
+		registerCleanup(schedulerCleanup);
+		scheduler.start();
+		return;
+	}
+	const existing = schedulerInstance;
+	schedulerInstance = null;
+	if (schedulerCleanup) {
+		unregisterCleanup(schedulerCleanup);
+		schedulerCleanup = null;
+	}
+	existing?.stop();
+}
+
+/**
+ * `off`, or `runs=3 last=2m ago checked=4 refreshed=1 failed=0 next=in 4m`.
+ */
+export function formatProactiveRefreshStats(
+	stats: ProactiveRefreshSchedulerStats | null,
+	now = Date.now(),
+): string {
+	if (!stats) return "off";
+	const minutes = (ms: number): string => `${Math.max(0, Math.round(ms / 60_000))}m`;
+	const parts = [`runs=${stats.runs}`];
+	if (stats.lastRun) {
+		parts.push(
+			`last=${minutes(now - stats.lastRun.ranAt)} ago`,
+			`checked=${stats.lastRun.checked}`,
+			`refreshed=${stats.lastRun.refreshed}`,
+			`failed=${stats.lastRun.failed}`,
+		);
+		if (stats.lastRun.error) parts.push(`error=${stats.lastRun.error}`);
+	}
+	if (stats.nextRunAt !== null) parts.push(`next=in ${minutes(stats.nextRunAt - now)}`);
+	return parts.join(" ");
+}
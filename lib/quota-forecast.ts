@@ -0,0 +1,209 @@
+/**
+ * Quota exhaustion forecasting.
+ *
+ * Every Codex response reports how much of the 5h and weekly windows the
+ * account has used. Successive readings give a burn rate per window and, from
+ * it, the time until the window is used up at the current pace. Selection
+ * moves off an account forecast to run out within `horizonMs` (while another
+ * account in the same tier has headroom), and `codex-limits` /
+ * `codex-dashboard` report the forecast.
+ *
+ * Only the last `QUOTA_FORECAST_LOOKBACK_MS` of readings count, so the pace
+ * follows recent use; a window that resets (used percent drops, or its reset
+ * time passes) starts a new series.
+ */
+
+import type { QuotaUsageWindow } from "./rotation.js";
+
+/** Readings older than this do not contribute to the burn rate. */
+export const QUOTA_FORECAST_LOOKBACK_MS = 30 * 60_000;
+
+/** Readings must span at least this long before a pace is reported. */
+export const QUOTA_FORECAST_MIN_SPAN_MS = 2 * 60_000;
+
+const MAX_SAMPLES_PER_WINDOW = 64;
+
+export interface QuotaForecastConfig {
+	/** Rotate away when a window is forecast to run out within this long; 0 disables */
+	horizonMs: number;
+}
+
+export const DEFAULT_QUOTA_FORECAST_CONFIG: QuotaForecastConfig = {
+	horizonMs: 15 * 60_000,
+};
+
+export interface QuotaWindowForecast {
+	/** `5h`, `weekly`, or the window length such as `2h` */
+	window: string;
+	windowMinutes?: number;
+	usedPercent: number;
+	/** Share of the window consumed per hour at the recent pace */
+	percentPerHour: number;
+	/** Projected time the window reaches 100%; absent when it resets first or use is flat */
+	exhaustsAt?: number;
+	resetAtMs?: number;
+}
+
+interface QuotaSample {
+	at: number;
+	usedPercent: number;
+	resetAtMs?: number;
+}
+
+interface QuotaSeries {
+	windowMinutes?: number;
+	samples: QuotaSample[];
+}
+
+function describeWindow(windowMinutes: number | undefined, position: number): string {
+	if (windowMinutes === 300) return "5h";
+	if (windowMinutes === 10080) return "weekly";
+	if (!windowMinutes || windowMinutes <= 0) return position === 0 ? "primary" : "secondary";
+	if (windowMinutes % 1440 === 0) return `${windowMinutes / 1440}d`;
+	if (windowMinutes % 60 === 0) return `${windowMinutes / 60}h`;
+	return `${windowMinutes}m`;
+}
+
+export class QuotaForecastTracker {
+	private readonly series = new Map<number, Map<string, QuotaSeries>>();
+	private config: QuotaForecastConfig;
+
+	constructor(config: Partial<QuotaForecastConfig> = {}) {
+		this.config = { ...DEFAULT_QUOTA_FORECAST_CONFIG, ...config };
+	}
+
+	configure(config: Partial<QuotaForecastConfig>): void {
+		this.config = { ...DEFAULT_QUOTA_FORECAST_CONFIG, ...config };
+	}
+
+	get horizonMs(): number {
+		return this.config.horizonMs;
+	}
+
+	record(accountIndex: number, windows: QuotaUsageWindow[], now: number = Date.now()): void {
+		windows.forEach((window, position) => {
+			if (typeof window.usedPercent !== "number" || !Number.isFinite(window.usedPercent)) {
+				return;
+			}
+			const key = describeWindow(window.windowMinutes, position);
+			let byWindow = this.series.get(accountIndex);
+			if (!byWindow) {
+				byWindow = new Map();
+				this.series.set(accountIndex, byWindow);
+			}
+			const existing = byWindow.get(key);
+			const last = existing?.samples[existing.samples.length - 1];
+			const usedPercent = Math.max(0, Math.min(100, window.usedPercent));
+			const hasReset =
+				last !== undefined &&
+				(usedPercent < last.usedPercent ||
+					(typeof last.resetAtMs === "number" && last.resetAtMs <= now));
+			const series: QuotaSeries =
+				existing && !hasReset ? existing : { windowMinutes: window.windowMinutes, samples: [] };
+			series.samples.push({ at: now, usedPercent, resetAtMs: window.resetAtMs });
+			series.samples = series.samples
+				.filter((sample) => now - sample.at <= QUOTA_FORECAST_LOOKBACK_MS)
+				.slice(-MAX_SAMPLES_PER_WINDOW);
+			byWindow.set(key, series);
+		});
+	}
+
+	/**
+	 * Per-window forecasts for the account, for windows with enough recent
+	 * readings to have a pace.
+	 */
+	getForecast(accountIndex: number, now: number = Date.now()): QuotaWindowForecast[] {
+		const byWindow = this.series.get(accountIndex);
+		if (!byWindow) return [];
+		const forecasts: QuotaWindowForecast[] = [];
+		for (const [window, series] of byWindow) {
+			const recent = series.samples.filter(
+				(sample) => now - sample.at <= QUOTA_FORECAST_LOOKBACK_MS,
+			);
+			const first = recent[0];
+			const last = recent[recent.length - 1];
+			if (!first || !last || last.at - first.at < QUOTA_FORECAST_MIN_SPAN_MS) continue;
+			if (typeof last.resetAtMs === "number" && last.resetAtMs <= now) continue;
+
+			const percentPerMs = Math.max(0, (last.usedPercent - first.usedPercent) / (last.at - first.at));
+			const forecast: QuotaWindowForecast = {
+				window,
+				windowMinutes: series.windowMinutes,
+				usedPercent: last.usedPercent,
+				percentPerHour: percentPerMs * 3_600_000,
+				resetAtMs: last.resetAtMs,
+			};
+			if (last.usedPercent >= 100) {
+				forecast.exhaustsAt = last.at;
+			} else if (percentPerMs > 0) {
+				const exhaustsAt = last.at + (100 - last.usedPercent) / percentPerMs;
+				if (typeof last.resetAtMs !== "number" || exhaustsAt < last.resetAtMs) {
+					forecast.exhaustsAt = exhaustsAt;
+				}
+			}
+			forecasts.push(forecast);
+		}
+		return forecasts;
+	}
+
+	/** Milliseconds until the account's first window runs out, when one is forecast to. */
+	getTimeToExhaustion(accountIndex: number, now: number = Date.now()): number | undefined {
+		let soonest: number | undefined;
+		for (const forecast of this.getForecast(accountIndex, now)) {
+			if (typeof forecast.exhaustsAt !== "number") continue;
+			const remaining = Math.max(0, forecast.exhaustsAt - now);
+			if (soonest === undefined || remaining < soonest) soonest = remaining;
+		}
+		return soonest;
+	}
+
+	/** True when a window is forecast to run out within the configured horizon. */
+	isExhaustingSoon(accountIndex: number, now: number = Date.now()): boolean {
+		if (this.config.horizonMs <= 0) return false;
+		const remaining = this.getTimeToExhaustion(accountIndex, now);
+		return remaining !== undefined && remaining <= this.config.horizonMs;
+	}
+
+	reset(accountIndex: number): void {
+		this.series.delete(accountIndex);
+	}
+
+	clear(): void {
+		this.series.clear();
+	}
+}
+
+/** `~40m` / `~2h 5m` for a forecast duration. */
+export function formatForecastDuration(ms: number): string {
+	const minutes = Math.max(1, Math.round(ms / 60_000));
+	if (minutes < 60) return `~${minutes}m`;
+	const hours = Math.floor(minutes / 60);
+	const rest = minutes % 60;
+	return rest > 0 ? `~${hours}h ${rest}m` : `~${hours}h`;
+}
+
+/**
+ * One-line summary such as `5h: runs out in ~40m at the current pace (12%/h)`.
+ */
+export function formatQuotaForecast(forecast: QuotaWindowForecast, now: number = Date.now()): string {
+	const pace = `${forecast.percentPerHour.toFixed(1)}%/h`;
+	if (typeof forecast.exhaustsAt === "number") {
+		if (forecast.exhaustsAt <= now) return `${forecast.window}: exhausted`;
+		return `${forecast.window}: runs out in ${formatForecastDuration(forecast.exhaustsAt - now)} at the current pace (${pace})`;
+	}
+	if (forecast.percentPerHour <= 0) return `${forecast.window}: no recent usage`;
+	return `${forecast.window}: resets before running out (${pace})`;
+}
+
+let quotaForecastTracker: QuotaForecastTracker | null = null;
+
+export function getQuotaForecastTracker(): QuotaForecastTracker {
+	if (!quotaForecastTracker) {
+		quotaForecastTracker = new QuotaForecastTracker();
+	}
+	return quotaForecastTracker;
+}
+
+export function configureQuotaForecast(config: Partial<QuotaForecastConfig>): void {
+	getQuotaForecastTracker().configure(config);
+}
@@ -12,16 +12,26 @@ import {
 	getModelFamily,
 } from "../prompts/codex.js";
 import {
+	clipToolOutputs,
 	transformRequestBody,
 	normalizeModel,
 	upsertBackendModelIdentityMessage,
+	type ToolOutputClipPolicy,
+	type ToolOutputClipStats,
 } from "./request-transformer.js";
 import { GPT_55_MODEL_ID } from "./helpers/model-map.js";
 import { convertSseToJson, ensureContentType } from "./response-handler.js";
+import {
+	applyContextWindowGuard,
+	estimateRequestTokens,
+	type ContextGuardMode,
+	type TokenEstimate,
+} from "./token-estimator.js";
 import type { OAuthAuthDetails, UserConfig, RequestBody } from "../types.js";
-import { CodexAuthError } from "../errors.js";
+import { CodexAuthError, ContextWindowExceededError } from "../errors.js";
 import { DEACTIVATED_WORKSPACE_ERROR_CODE } from "../error-sentinels.js";
 import { isRecord } from "../utils.js";
+import { createSyntheticResponse, isSyntheticResponse } from "../synthetic-response.js";
 import {
         CODEX_BASE_URL,
         HTTP_STATUS,
@@ -249,6 +259,74 @@ export function resolveUnsupportedCodexFallbackModel(
 	return undefined;
 }
 
+/**
+ * Walks the fallback chain `requestedModel` would follow if every model in it
+ * were rejected as unsupported, using the same policy and toggles as the
+ * request path. Returns the fallback models in order (empty when none apply).
+ */
+export function resolveUnsupportedCodexFallbackChain(
+	options: Omit<ResolveUnsupportedCodexFallbackOptions, "errorBody" | "attemptedModels">,
+): string[] {
+	const chain: string[] = [];
+	const attempted = new Set<string>();
+	let current = canonicalizeModelName(options.requestedModel);
+	while (current) {
+		attempted.add(current);
+		const next = resolveUnsupportedCodexFallbackModel({
+			...options,
+			requestedModel: current,
+			errorBody: {
+				error: {
+					code: CHATGPT_CODEX_UNSUPPORTED_MODEL_CODE,
+					unsupported_model: current,
+				},
+			},
+			attemptedModels: attempted,
+		});
+		if (!next) break;
+		chain.push(next);
+		current = next;
+	}
+	return chain;
+}
+
+export interface ResolveQuotaExhaustionFallbackOptions {
+	/** Model the request originally asked for */
+	requestedModel: string | undefined;
+	chain: Record<string, string[]>;
+	attemptedModels?: Iterable<string>;
+	/** True when the candidate model is also rate-limited on every account */
+	isExhausted?: (model: string) => boolean;
+}
+
+/**
+ * Picks the next model from `quotaExhaustionFallbackChain` once every account
+ * is rate-limited for the model currently in use. The chain configured for the
+ * originally requested model is walked in order; models already tried, or
+ * that are rate-limited everywhere as well, are skipped.
+ */
+export function resolveQuotaExhaustionFallbackModel(
+	options: ResolveQuotaExhaustionFallbackOptions,
+): string | undefined {
+	const requestedModel = canonicalizeModelName(options.requestedModel);
+	if (!requestedModel) return undefined;
+
+	const attempted = new Set<string>([requestedModel]);
+	for (const model of options.attemptedModels ?? []) {
+		const normalized = canonicalizeModelName(model);
+		if (normalized) attempted.add(normalized);
+	}
+
+	for (const target of options.chain[requestedModel] ?? []) {
+		const normalizedTarget = canonicalizeModelName(target);
+		if (!normalizedTarget || attempted.has(normalizedTarget)) continue;
+		if (options.isExhausted?.(normalizedTarget)) continue;
+		return normalizedTarget;
+	}
+
+	return undefined;
+}
+
 /**
  * Returns true when the legacy `gpt-5.3-codex -> gpt-5.2-codex` edge is available.
  */
@@ -288,26 +366,21 @@ export function isEntitlementError(code: string, bodyText: string): boolean {
 }
 
 /**
- * Creates a user-friendly entitlement error response
+ * Creates a user-friendly entitlement notice, answered as the assistant's
+ * reply so the session is not locked on an error the user cannot retry away
  */
-export function createEntitlementErrorResponse(_bodyText: string): Response {
+export function createEntitlementErrorResponse(
+        _bodyText: string,
+        options: { model?: string; stream?: boolean } = {},
+): Response {
         const message = 
-                "This model is not included in your ChatGPT subscription. " +
+                "[Plugin Notice] This model is not included in your ChatGPT subscription. " +
                 "Please check that your account or workspace has access to Codex models (Plus/Pro/Business/Enterprise). " +
                 "If you recently subscribed or switched workspaces, try logging out and back in with `opencode auth login`.";
-        
-        const payload = {
-                error: {
-                        message,
-                        type: "entitlement_error",
-                        code: "usage_not_included",
-                },
-        };
 
-        return new Response(JSON.stringify(payload), {
-                status: 403, // Forbidden - not a rate limit
-                statusText: "Forbidden",
-                headers: { "content-type": "application/json; charset=utf-8" },
+        return createSyntheticResponse(message, {
+                ...options,
+                errorType: "entitlement_error",
         });
 }
 
@@ -321,6 +394,9 @@ export interface ErrorHandlingResult {
 export interface ErrorHandlingOptions {
 	requestCorrelationId?: string;
 	threadId?: string;
+	/** Model and streaming mode for plugin notices answering the request */
+	model?: string;
+	stream?: boolean;
 }
 
 export interface ErrorDiagnostics {
@@ -488,7 +564,8 @@ export function rewriteUrlForCodex(url: string): string {
  * @param userConfig - User configuration
  * @param codexMode - Enable CODEX_MODE (bridge prompt instead of tool remap)
  * @param parsedBody - Pre-parsed body to avoid double JSON.parse (optional)
- * @returns Transformed body and updated init, or undefined if no body
+ * @returns Transformed body, updated init, input-token estimate and tool-output clipping stats, or undefined if no body
+ * @throws ContextWindowExceededError when `options.contextGuard` refuses an oversized body
  */
 export async function transformRequestForCodex(
 	init: RequestInit | undefined,
@@ -501,8 +578,18 @@ export async function transformRequestForCodex(
 		fastSession?: boolean;
 		fastSessionStrategy?: "hybrid" | "always";
 		fastSessionMaxInputItems?: number;
+		contextGuard?: ContextGuardMode;
+		toolOutputClip?: ToolOutputClipPolicy;
 	},
-): Promise<{ body: RequestBody; updatedInit: RequestInit } | undefined> {
+): Promise<
+	| {
+			body: RequestBody;
+			updatedInit: RequestInit;
+			tokenEstimate: TokenEstimate;
+			toolOutputClip: ToolOutputClipStats;
+	  }
+	| undefined
+> {
 	const hasParsedBody =
 		parsedBody !== undefined &&
 		parsedBody !== null &&
@@ -522,6 +609,16 @@ export async function transformRequestForCodex(
 		const originalModel = body.model;
 		const requestTransformMode = options?.requestTransformMode ?? "legacy";
 
+		let toolOutputClip: ToolOutputClipStats = { clippedOutputs: 0, bytesSaved: 0 };
+		if (Array.isArray(body.input) && options?.toolOutputClip) {
+			const clipped = clipToolOutputs(body.input, options.toolOutputClip);
+			body.input = clipped.input;
+			toolOutputClip = {
+				clippedOutputs: clipped.clippedOutputs,
+				bytesSaved: clipped.bytesSaved,
+			};
+		}
+
 		if (requestTransformMode === "native") {
 			logRequest(LOG_STAGES.BEFORE_TRANSFORM, {
 				url,
@@ -541,6 +638,7 @@ export async function transformRequestForCodex(
 				normalizedModel,
 			);
 			body.input = upsertBackendModelIdentityMessage(body.input, normalizedModel);
+			const tokenEstimate = applyContextWindowGuard(body, options?.contextGuard ?? "off");
 
 			logRequest(LOG_STAGES.AFTER_TRANSFORM, {
 				url,
@@ -556,6 +654,8 @@ export async function transformRequestForCodex(
 			return {
 				body,
 				updatedInit: { ...(init ?? {}), body: JSON.stringify(body) },
+				tokenEstimate,
+				toolOutputClip,
 			};
 		}
 
@@ -589,6 +689,7 @@ export async function transformRequestForCodex(
 			options?.fastSession ?? false,
 			options?.fastSessionStrategy ?? "hybrid",
 			options?.fastSessionMaxInputItems ?? 30,
+			options?.contextGuard ?? "off",
 		);
 
 		// Log transformed request
@@ -610,8 +711,12 @@ export async function transformRequestForCodex(
 			return {
 				body: transformedBody,
 				updatedInit: { ...(init ?? {}), body: JSON.stringify(transformedBody) },
+				tokenEstimate: estimateRequestTokens(transformedBody),
+				toolOutputClip,
 			};
 	} catch (e) {
+		// An oversized request must not be sent untransformed instead.
+		if (e instanceof ContextWindowExceededError) throw e;
 		logError(`${ERROR_MESSAGES.REQUEST_PARSE_ERROR}`, e);
 		return undefined;
 	}
@@ -666,10 +771,10 @@ export async function handleErrorResponse(
         options?: ErrorHandlingOptions,
 ): Promise<ErrorHandlingResult> {
         const bodyText = await safeReadBody(response);
-        const mapped = mapUsageLimit404WithBody(response, bodyText);
+        const mapped = mapUsageLimit404WithBody(response, bodyText, options);
         
-        // Entitlement errors return a ready-to-use Response with 403 status
-        if (mapped && mapped.status === HTTP_STATUS.FORBIDDEN) {
+        // Entitlement errors return a ready-to-use synthetic notice
+        if (mapped && isSyntheticResponse(mapped)) {
                 return { response: mapped, rateLimit: undefined, errorBody: undefined };
         }
         
@@ -755,7 +860,11 @@ async function safeReadBody(response: Response): Promise<string> {
         }
 }
 
-function mapUsageLimit404WithBody(response: Response, bodyText: string): Response | null {
+function mapUsageLimit404WithBody(
+        response: Response,
+        bodyText: string,
+        options?: ErrorHandlingOptions,
+): Response | null {
         if (response.status !== HTTP_STATUS.NOT_FOUND) return null;
         if (!bodyText) return null;
 
@@ -769,7 +878,10 @@ function mapUsageLimit404WithBody(response: Response, bodyText: string): Respons
 
 	// Check for entitlement errors first - these should NOT be treated as rate limits
 	if (isEntitlementError(code, bodyText)) {
-		return createEntitlementErrorResponse(bodyText);
+		return createEntitlementErrorResponse(bodyText, {
+			model: options?.model,
+			stream: options?.stream,
+		});
 	}
 
 	const haystack = `${code} ${bodyText}`.toLowerCase();
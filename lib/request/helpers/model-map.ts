@@ -3,8 +3,11 @@
  *
  * Maps model config IDs to their normalized API model names.
  * Only includes exact config IDs that OpenCode will pass to the plugin.
+ * Users can add their own through `modelAliases` in the plugin config.
  */
 
+import type { ConfigOptions } from "../../types.js";
+
 /**
  * Map of config model IDs to normalized API model names
  *
@@ -203,24 +206,80 @@ export const MODEL_MAP: Record<string, string> = {
 	"gpt-5-nano": "gpt-5.4-nano",
 };
 
+function getBuiltInNormalizedModel(modelId: string): string | undefined {
+	if (Object.hasOwn(MODEL_MAP, modelId)) {
+		return MODEL_MAP[modelId];
+	}
+
+	const lowerModelId = modelId.toLowerCase();
+	const match = Object.keys(MODEL_MAP).find(
+		(key) => key.toLowerCase() === lowerModelId,
+	);
+
+	return match ? MODEL_MAP[match] : undefined;
+}
+
+/** A `modelAliases` entry from the plugin config. */
+export interface ModelAlias {
+	/** Model the alias sends; a built-in config ID is resolved through `MODEL_MAP` */
+	model: string;
+	/** Defaults `getModelConfig` applies to requests for the alias */
+	options?: ConfigOptions;
+}
+
+/** Registered aliases by lowercase ID, with `model` already normalized. */
+let customModelAliases = new Map<string, ModelAlias>();
+
+/**
+ * Replaces the user-defined aliases from the plugin config. Built-in IDs
+ * always win: an alias that shadows a `MODEL_MAP` key, or repeats another
+ * alias with different casing, is skipped. Returns one message per skipped
+ * alias for the caller to report.
+ */
+export function configureModelAliases(aliases: Record<string, ModelAlias>): string[] {
+	const next = new Map<string, ModelAlias>();
+	const conflicts: string[] = [];
+	for (const [alias, entry] of Object.entries(aliases)) {
+		const key = alias.toLowerCase();
+		const builtIn = getBuiltInNormalizedModel(alias);
+		if (builtIn !== undefined) {
+			conflicts.push(
+				`Model alias "${alias}" conflicts with the built-in model ID that maps to ${builtIn}; ignoring it.`,
+			);
+			continue;
+		}
+		if (next.has(key)) {
+			conflicts.push(`Model alias "${alias}" is defined more than once; keeping the first.`);
+			continue;
+		}
+		next.set(key, {
+			model: getBuiltInNormalizedModel(entry.model) ?? entry.model,
+			...(entry.options ? { options: { ...entry.options } } : {}),
+		});
+	}
+	customModelAliases = next;
+	return conflicts;
+}
+
+/** Config defaults attached to a user-defined alias, if `modelId` is one. */
+export function getModelAliasOptions(modelId: string): ConfigOptions | undefined {
+	return customModelAliases.get(modelId.toLowerCase())?.options;
+}
+
 /**
  * Get normalized model name from config ID
  *
+ * Built-in IDs are checked first, then user-defined `modelAliases`.
+ *
  * @param modelId - Model ID from config (e.g., "gpt-5.1-codex-low")
  * @returns Normalized model name (e.g., "gpt-5.1-codex") or undefined if not found
  */
 export function getNormalizedModel(modelId: string): string | undefined {
 	try {
-		if (Object.hasOwn(MODEL_MAP, modelId)) {
-			return MODEL_MAP[modelId];
-		}
-
-		const lowerModelId = modelId.toLowerCase();
-		const match = Object.keys(MODEL_MAP).find(
-			(key) => key.toLowerCase() === lowerModelId,
+		return (
+			getBuiltInNormalizedModel(modelId) ??
+			customModelAliases.get(modelId.toLowerCase())?.model
 		);
-
-		return match ? MODEL_MAP[match] : undefined;
 	} catch {
 		return undefined;
 	}
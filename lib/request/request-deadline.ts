@@ -0,0 +1,161 @@
+/**
+ * Whole-request deadline for the rotation loop.
+ *
+ * `fetchTimeoutMs` bounds one upstream attempt and `retryAllAccountsMaxWaitMs`
+ * one all-limited wait, but nothing bounds a prompt that walks every account,
+ * refreshes tokens and backs off in between. A `RequestDeadline` is created per
+ * request with `requestDeadlineMs`; the loop checks it between steps, clamps
+ * attempt timeouts to it and refuses sleeps that would overrun it. Time spent
+ * in each phase is recorded so the 504 can say where the budget went.
+ *
+ * The deadline covers getting a response, not reading it: once a response is
+ * handed back, a long stream is not cut off.
+ */
+
+import { RequestDeadlineError } from "../errors.js";
+
+export type DeadlinePhase =
+	| "upstream"
+	| "tokenRefresh"
+	| "queue"
+	| "backoff"
+	| "rateLimitWait";
+
+export interface DeadlineBreakdown {
+	budgetMs: number;
+	elapsedMs: number;
+	/** Phase the request was in when the deadline hit */
+	exceededIn: DeadlinePhase | "rotation";
+	/** Upstream attempts started, hedges and probes included */
+	attempts: number;
+	phases: Record<DeadlinePhase, number>;
+	/** Elapsed time not spent in any tracked phase (selection, transforms, toasts) */
+	otherMs: number;
+	/** Set when a sleep was refused because it would overrun the deadline */
+	refusedWaitMs?: number;
+}
+
+function createPhaseTotals(): Record<DeadlinePhase, number> {
+	return {
+		upstream: 0,
+		tokenRefresh: 0,
+		queue: 0,
+		backoff: 0,
+		rateLimitWait: 0,
+	};
+}
+
+export class RequestDeadline {
+	private readonly startedAt = Date.now();
+	private readonly phases = createPhaseTotals();
+	private attempts = 0;
+
+	/** `budgetMs` of 0 disables the deadline; every check then passes. */
+	constructor(private readonly budgetMs: number) {}
+
+	get enabled(): boolean {
+		return this.budgetMs > 0;
+	}
+
+	remainingMs(): number {
+		if (!this.enabled) return Number.POSITIVE_INFINITY;
+		return Math.max(0, this.startedAt + this.budgetMs - Date.now());
+	}
+
+	expired(): boolean {
+		return this.enabled && this.remainingMs() <= 0;
+	}
+
+	/** Shortens a per-attempt timeout so it cannot outlive the deadline. */
+	clampTimeout(timeoutMs: number): number {
+		return Math.min(timeoutMs, this.remainingMs());
+	}
+
+	/** Throws when the deadline has passed. */
+	check(phase: DeadlinePhase | "rotation" = "rotation"): void {
+		if (this.expired()) throw this.exceeded(phase);
+	}
+
+	/**
+	 * Throws instead of starting a wait that would end past the deadline;
+	 * sleeping first and failing afterwards would only add latency.
+	 */
+	assertCanWait(waitMs: number, phase: DeadlinePhase): void {
+		if (this.enabled && waitMs >= this.remainingMs()) {
+			throw this.exceeded(phase, waitMs);
+		}
+	}
+
+	record(phase: DeadlinePhase, elapsedMs: number): void {
+		this.phases[phase] += Math.max(0, elapsedMs);
+		if (phase === "upstream") this.attempts++;
+	}
+
+	/** Runs `work` and charges its duration to `phase`, even when it throws. */
+	async track<T>(phase: DeadlinePhase, work: () => Promise<T>): Promise<T> {
+		const startedAt = Date.now();
+		try {
+			return await work();
+		} finally {
+			this.record(phase, Date.now() - startedAt);
+		}
+	}
+
+	getBreakdown(
+		exceededIn: DeadlineBreakdown["exceededIn"],
+		refusedWaitMs?: number,
+	): DeadlineBreakdown {
+		const elapsedMs = Date.now() - this.startedAt;
+		const tracked = Object.values(this.phases).reduce((sum, value) => sum + value, 0);
+		return {
+			budgetMs: this.budgetMs,
+			elapsedMs,
+			exceededIn,
+			attempts: this.attempts,
+			phases: { ...this.phases },
+			otherMs: Math.max(0, elapsedMs - tracked),
+			...(refusedWaitMs !== undefined ? { refusedWaitMs } : {}),
+		};
+	}
+
+	exceeded(
+		exceededIn: DeadlineBreakdown["exceededIn"],
+		refusedWaitMs?: number,
+	): RequestDeadlineError {
+		const breakdown = this.getBreakdown(exceededIn, refusedWaitMs);
+		const message =
+			refusedWaitMs !== undefined
+				? `Request deadline of ${this.budgetMs}ms would be exceeded by a ${refusedWaitMs}ms ${exceededIn} wait after ${breakdown.elapsedMs}ms`
+				: `Request deadline of ${this.budgetMs}ms exceeded after ${breakdown.elapsedMs}ms (${exceededIn})`;
+		return new RequestDeadlineError(message, { breakdown });
+	}
+}
+
+/** `upstream=41000ms backoff=15000ms ... other=812ms`, skipping empty phases. */
+export function formatDeadlineBreakdown(breakdown: DeadlineBreakdown): string {
+	const parts = Object.entries(breakdown.phases)
+		.filter(([, value]) => value > 0)
+		.map(([phase, value]) => `${phase}=${value}ms`);
+	parts.push(`other=${breakdown.otherMs}ms`);
+	return parts.join(" ");
+}
+
+/** The 504 returned to the host when the deadline is exceeded. */
+export function createDeadlineExceededResponse(error: RequestDeadlineError): Response {
+	return new Response(
+		JSON.stringify({
+			error: {
+				message: `${error.message}. Time spent: ${formatDeadlineBreakdown(error.breakdown)}. Raise requestDeadlineMs or try again.`,
+				type: "request_deadline_exceeded",
+				code: "request_deadline_exceeded",
+				deadline: error.breakdown,
+			},
+		}),
+		{
+			status: 504,
+			headers: {
+				"content-type": "application/json; charset=utf-8",
+			},
+		},
+	);
+}
@@ -7,6 +7,7 @@ import { renderCodexOpenCodeBridge } from "../prompts/codex-opencode-bridge.js";
 import { getOpenCodeCodexPrompt } from "../prompts/opencode-codex.js";
 import {
 	GPT_55_MODEL_ID,
+	getModelAliasOptions,
 	getNormalizedModel,
 } from "./helpers/model-map.js";
 import {
@@ -15,6 +16,7 @@ import {
 	injectMissingToolOutputs,
 } from "./helpers/input-utils.js";
 import { cleanupToolDefinitions } from "./helpers/tool-utils.js";
+import { applyContextWindowGuard, type ContextGuardMode } from "./token-estimator.js";
 import type {
 	ConfigOptions,
 	InputItem,
@@ -178,7 +180,8 @@ export function normalizeModel(model: string | undefined): string {
 
 /**
  * Extract configuration for a specific model
- * Merges global options with model-specific options (model-specific takes precedence)
+ * Merges global options with model-specific options (model-specific takes precedence).
+ * Defaults from a plugin-config model alias sit between the two.
  * @param modelName - Model name (e.g., "gpt-5-codex")
  * @param userConfig - Full user configuration object
  * @returns Merged configuration for this model
@@ -236,11 +239,12 @@ export function getModelConfig(
 	const normalizedBaseModelName = normalizeModel(removeVariantSuffix(strippedModelName));
 	const baseModelName = removeVariantSuffix(strippedModelName);
 	const requestedVariant = getVariantFromModelName(strippedModelName);
+	const aliasOptions = getModelAliasOptions(strippedModelName) ?? {};
 
 	// 1) Honor exact per-model keys first (including variant-specific keys)
 	const directMatch = findModelEntry([modelName, strippedModelName]);
 	if (directMatch?.entry?.options) {
-		return { ...globalOptions, ...directMatch.entry.options };
+		return { ...globalOptions, ...aliasOptions, ...directMatch.entry.options };
 	}
 
 	// 2) Resolve to base model config (supports provider-prefixed names + aliases)
@@ -264,7 +268,7 @@ export function getModelConfig(
 	}
 
 	// Model-specific options override global options
-	return { ...globalOptions, ...baseOptions, ...variantOptions };
+	return { ...globalOptions, ...aliasOptions, ...baseOptions, ...variantOptions };
 }
 
 /**
@@ -835,6 +839,70 @@ export function trimInputForFastSession(
 	return trimmed.slice(trimmed.length - safeMax);
 }
 
+export interface ToolOutputClipPolicy {
+	/** Tool outputs above this many UTF-8 bytes are clipped; 0 disables clipping */
+	maxBytes: number;
+	/** The most recent tool outputs are always sent whole */
+	keepRecent: number;
+}
+
+export interface ToolOutputClipStats {
+	clippedOutputs: number;
+	bytesSaved: number;
+}
+
+const utf8Encoder = new TextEncoder();
+const utf8Decoder = new TextDecoder();
+
+function isUtf8Continuation(byte: number | undefined): boolean {
+	return byte !== undefined && (byte & 0xc0) === 0x80;
+}
+
+/**
+ * Clip oversized tool results that are resent on every turn (build logs,
+ * file dumps). A string `function_call_output` above `maxBytes` keeps its
+ * first and last `maxBytes / 2` bytes around a `[clipped N bytes]` marker;
+ * the latest `keepRecent` outputs, which the model is most likely still
+ * working from, are left whole. Only `output` changes, so call/output
+ * pairing is untouched.
+ */
+export function clipToolOutputs(
+	input: InputItem[],
+	policy: ToolOutputClipPolicy,
+): ToolOutputClipStats & { input: InputItem[] } {
+	const stats: ToolOutputClipStats = { clippedOutputs: 0, bytesSaved: 0 };
+	if (!(policy.maxBytes > 0)) return { input, ...stats };
+
+	let recentOutputs = 0;
+	const clipped = [...input];
+	for (let i = input.length - 1; i >= 0; i--) {
+		const item = input[i];
+		if (item?.type !== "function_call_output") continue;
+		recentOutputs++;
+		if (recentOutputs <= policy.keepRecent || typeof item.output !== "string") continue;
+
+		const bytes = utf8Encoder.encode(item.output);
+		if (bytes.length <= policy.maxBytes) continue;
+		// Cut on UTF-8 character boundaries.
+		let headEnd = Math.ceil(policy.maxBytes / 2);
+		while (headEnd > 0 && isUtf8Continuation(bytes[headEnd])) headEnd--;
+		let tailStart = bytes.length - Math.floor(policy.maxBytes / 2);
+		while (tailStart < bytes.length && isUtf8Continuation(bytes[tailStart])) tailStart++;
+
+		const removed = tailStart - headEnd;
+		const output =
+			utf8Decoder.decode(bytes.subarray(0, headEnd)) +
+			`\n[clipped ${removed} bytes]\n` +
+			utf8Decoder.decode(bytes.subarray(tailStart));
+		const saved = bytes.length - utf8Encoder.encode(output).length;
+		if (saved <= 0) continue;
+		clipped[i] = { ...item, output };
+		stats.clippedOutputs++;
+		stats.bytesSaved += saved;
+	}
+	return stats.clippedOutputs > 0 ? { input: clipped, ...stats } : { input, ...stats };
+}
+
 function isTrivialLatestPrompt(text: string): boolean {
 	const normalized = text.trim();
 	if (!normalized) return false;
@@ -1014,7 +1082,9 @@ export function addToolRemapMessage(
  * @param userConfig - User configuration from loader
  * @param codexMode - Enable CODEX_MODE (bridge prompt instead of tool remap) - defaults to true
  * @param fastSession - Force low-latency output settings for faster responses
+ * @param contextGuard - Pre-flight context-window guard: "off", "reject" or "trim"
  * @returns Transformed request body
+ * @throws ContextWindowExceededError when the guard finds the body too large for the model
  */
 export async function transformRequestBody(
 	body: RequestBody,
@@ -1024,6 +1094,7 @@ export async function transformRequestBody(
 	fastSession = false,
 	fastSessionStrategy: FastSessionStrategy = "hybrid",
 	fastSessionMaxInputItems = 30,
+	contextGuard: ContextGuardMode = "off",
 ): Promise<RequestBody> {
 	const originalModel = body.model;
 	const normalizedModel = normalizeModel(body.model);
@@ -1191,5 +1262,8 @@ export async function transformRequestBody(
 	// Remove unsupported parameters.
 	body.max_completion_tokens = undefined;
 
+	// Last, so the estimate sees exactly what will be sent.
+	applyContextWindowGuard(body, contextGuard);
+
 	return body;
 }
@@ -322,3 +322,61 @@ export function isEmptyResponse(body: unknown): boolean {
 
 	return false;
 }
+
+function readInputTokens(data: SSEEventData): number | null {
+	const responseRecord = toRecord(data.response);
+	const usage = toRecord(responseRecord?.usage);
+	const inputTokens = usage?.input_tokens;
+	return typeof inputTokens === "number" && Number.isFinite(inputTokens) ? inputTokens : null;
+}
+
+/**
+ * Passes an SSE response through unchanged while watching for the final
+ * `response.completed` event, and reports its `usage.input_tokens`. Used to
+ * calibrate the local token estimator; a stream without usage never calls
+ * `onInputTokens`.
+ */
+export function observeInputTokenUsage(
+	response: Response,
+	onInputTokens: (inputTokens: number) => void,
+): Response {
+	if (!response.body) return response;
+	const decoder = new TextDecoder();
+	let pending = "";
+	let reported = false;
+	const scanLine = (line: string): void => {
+		if (reported || !line.includes("response.")) return;
+		const payload = parseDataPayload(line.trim());
+		if (!payload) return;
+		try {
+			const data = JSON.parse(payload) as SSEEventData;
+			if (data.type !== "response.completed" && data.type !== "response.done") return;
+			const inputTokens = readInputTokens(data);
+			if (inputTokens === null) return;
+			reported = true;
+			onInputTokens(inputTokens);
+		} catch {
+			// Skip malformed JSON
+		}
+	};
+	const body = response.body.pipeThrough(
+		new TransformStream<Uint8Array, Uint8Array>({
+			transform(chunk, controller) {
+				controller.enqueue(chunk);
+				if (reported) return;
+				pending += decoder.decode(chunk, { stream: true });
+				const lines = pending.split(/\r?\n/);
+				pending = lines.pop() ?? "";
+				for (const line of lines) scanLine(line);
+			},
+			flush() {
+				if (!reported) scanLine(pending + decoder.decode());
+			},
+		}),
+	);
+	return new Response(body, {
+		status: response.status,
+		statusText: response.statusText,
+		headers: response.headers,
+	});
+}
@@ -0,0 +1,280 @@
+/**
+ * Local input-token estimation and the pre-flight context-window guard.
+ *
+ * Without it an oversized prompt is only noticed after a round-trip, when
+ * the backend answers 400 and `handleContextOverflow` turns that into a
+ * notice — by which point the selected account has spent a token bucket
+ * slot. The estimator walks the transformed `RequestBody` (instructions,
+ * input items, tool schemas) with a characters-per-token heuristic, and
+ * `applyContextWindowGuard` compares the result with the model's input
+ * budget before the request leaves the process.
+ *
+ * The heuristic drifts with content (code, JSON and encrypted reasoning all
+ * tokenize differently), so every completed response's `usage.input_tokens`
+ * is recorded against its estimate. Once enough samples exist the guard
+ * scales its estimates by the observed ratio.
+ */
+
+import { ContextWindowExceededError } from "../errors.js";
+import { logWarn } from "../logger.js";
+import type { InputItem, RequestBody } from "../types.js";
+
+const CHARS_PER_TOKEN = 4;
+/** Role/type framing the backend adds around every input item */
+const ITEM_OVERHEAD_TOKENS = 4;
+/** Flat charge for an image part; the real cost depends on size and detail */
+const IMAGE_TOKENS = 765;
+const CALIBRATION_MIN_SAMPLES = 5;
+const CALIBRATION_SMOOTHING = 0.2;
+const CALIBRATION_MIN_FACTOR = 0.5;
+const CALIBRATION_MAX_FACTOR = 2;
+
+export type ContextGuardMode = "off" | "reject" | "trim";
+
+export interface ModelContextWindow {
+	/** Total tokens the model accepts, input and output together */
+	contextTokens: number;
+	/** Output reserved by the backend; the input budget is what is left */
+	maxOutputTokens: number;
+}
+
+/**
+ * Context windows by normalized model id, in line with the `limit` blocks in
+ * `config/opencode-*.json`. Models not listed use the GPT-5 default, whose
+ * 272k input budget is what the 400k-context Codex models accept.
+ */
+const MODEL_CONTEXT_WINDOWS: Record<string, ModelContextWindow> = {
+	"gpt-5.5": { contextTokens: 1_050_000, maxOutputTokens: 128_000 },
+	"gpt-5.4": { contextTokens: 1_050_000, maxOutputTokens: 128_000 },
+	"gpt-5.4-pro": { contextTokens: 1_050_000, maxOutputTokens: 128_000 },
+};
+
+const DEFAULT_CONTEXT_WINDOW: ModelContextWindow = {
+	contextTokens: 400_000,
+	maxOutputTokens: 128_000,
+};
+
+export function getModelContextWindow(model: string | undefined): ModelContextWindow {
+	return (model && MODEL_CONTEXT_WINDOWS[model]) || DEFAULT_CONTEXT_WINDOW;
+}
+
+/** Largest input the backend accepts for `model`, in tokens. */
+export function getModelInputTokenLimit(model: string | undefined): number {
+	const window = getModelContextWindow(model);
+	return window.contextTokens - window.maxOutputTokens;
+}
+
+export interface TokenEstimate {
+	instructions: number;
+	input: number;
+	tools: number;
+	total: number;
+}
+
+function estimateTextTokens(text: string): number {
+	return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+function estimateValueTokens(value: unknown): number {
+	if (value === undefined || value === null) return 0;
+	if (typeof value === "string") return estimateTextTokens(value);
+	try {
+		return estimateTextTokens(JSON.stringify(value));
+	} catch {
+		return 0;
+	}
+}
+
+function estimateContentPart(part: unknown): number {
+	if (typeof part === "string") return estimateTextTokens(part);
+	if (!part || typeof part !== "object") return 0;
+	const record = part as Record<string, unknown>;
+	if (record.type === "input_image") return IMAGE_TOKENS;
+	if (typeof record.text === "string") return estimateTextTokens(record.text);
+	return estimateValueTokens(record);
+}
+
+/** Estimated tokens for one input item, framing included. */
+export function estimateInputItemTokens(item: InputItem): number {
+	let tokens = ITEM_OVERHEAD_TOKENS;
+	switch (item.type) {
+		case "message":
+			tokens += Array.isArray(item.content)
+				? item.content.reduce<number>((sum, part) => sum + estimateContentPart(part), 0)
+				: estimateValueTokens(item.content);
+			break;
+		case "function_call":
+			tokens += estimateValueTokens(item.name) + estimateValueTokens(item.arguments);
+			break;
+		case "function_call_output":
+			tokens += Array.isArray(item.output)
+				? item.output.reduce<number>((sum, part) => sum + estimateContentPart(part), 0)
+				: estimateValueTokens(item.output);
+			break;
+		default:
+			tokens += estimateValueTokens(item);
+	}
+	return tokens;
+}
+
+/** Heuristic input-token count for a request body as it will be sent. */
+export function estimateRequestTokens(body: RequestBody): TokenEstimate {
+	const instructions = estimateValueTokens(body.instructions);
+	const input = Array.isArray(body.input)
+		? body.input.reduce((sum, item) => sum + estimateInputItemTokens(item), 0)
+		: 0;
+	const tools = estimateValueTokens(body.tools);
+	return { instructions, input, tools, total: instructions + input + tools };
+}
+
+export interface TokenCalibrationStats {
+	samples: number;
+	/** Smoothed `actual / estimated` ratio; 1 until the first sample */
+	ratio: number;
+	/** Multiplier the guard applies; 1 until enough samples exist */
+	factor: number;
+	last: { model: string | null; estimated: number; actual: number } | null;
+}
+
+/**
+ * Estimated vs. actual input tokens, fed from `usage.input_tokens` on
+ * completed responses. In-process only, like the other runtime counters.
+ */
+export class TokenEstimateCalibration {
+	private samples = 0;
+	private ratio = 1;
+	private last: TokenCalibrationStats["last"] = null;
+
+	record(model: string | null, estimated: number, actual: number): void {
+		if (!(estimated > 0) || !(actual > 0)) return;
+		const sampleRatio = actual / estimated;
+		this.ratio =
+			this.samples === 0
+				? sampleRatio
+				: this.ratio + (sampleRatio - this.ratio) * CALIBRATION_SMOOTHING;
+		this.samples++;
+		this.last = { model, estimated, actual };
+	}
+
+	get factor(): number {
+		if (this.samples < CALIBRATION_MIN_SAMPLES) return 1;
+		return Math.min(CALIBRATION_MAX_FACTOR, Math.max(CALIBRATION_MIN_FACTOR, this.ratio));
+	}
+
+	getStats(): TokenCalibrationStats {
+		return {
+			samples: this.samples,
+			ratio: Number(this.ratio.toFixed(3)),
+			factor: Number(this.factor.toFixed(3)),
+			last: this.last ? { ...this.last } : null,
+		};
+	}
+
+	clear(): void {
+		this.samples = 0;
+		this.ratio = 1;
+		this.last = null;
+	}
+}
+
+let tokenEstimateCalibration: TokenEstimateCalibration | null = null;
+
+export function getTokenEstimateCalibration(): TokenEstimateCalibration {
+	if (!tokenEstimateCalibration) {
+		tokenEstimateCalibration = new TokenEstimateCalibration();
+	}
+	return tokenEstimateCalibration;
+}
+
+/** `no samples`, or `actual/estimated=1.12 over 37 requests (last 48210 est, 53990 actual)`. */
+export function formatTokenCalibrationStats(stats: TokenCalibrationStats): string {
+	if (stats.samples === 0 || !stats.last) return "no samples";
+	return (
+		`actual/estimated=${stats.ratio.toFixed(2)} over ${stats.samples} request${stats.samples === 1 ? "" : "s"} ` +
+		`(last ${stats.last.estimated} est, ${stats.last.actual} actual)`
+	);
+}
+
+function isPinnedMessage(item: InputItem): boolean {
+	return item.type === "message" && (item.role === "system" || item.role === "developer");
+}
+
+/**
+ * Drops the oldest conversation items until at least `excessTokens` are freed.
+ * System and developer messages, the latest user message and everything
+ * after it are kept, and a function call is always dropped together with
+ * its output so `normalizeOrphanedToolOutputs` has nothing to repair.
+ * Returns the trimmed input and the number of items removed.
+ */
+export function trimInputToTokenBudget(
+	input: InputItem[],
+	excessTokens: number,
+): { input: InputItem[]; removed: number; freedTokens: number } {
+	let lastUserIndex = -1;
+	for (let i = input.length - 1; i >= 0; i--) {
+		const item = input[i];
+		if (item?.type === "message" && item.role === "user") {
+			lastUserIndex = i;
+			break;
+		}
+	}
+	const dropped = new Set<number>();
+	let freedTokens = 0;
+	const limit = lastUserIndex === -1 ? input.length : lastUserIndex;
+	for (let i = 0; i < limit && freedTokens < excessTokens; i++) {
+		const item = input[i];
+		if (!item || dropped.has(i) || isPinnedMessage(item)) continue;
+		const group = [i];
+		const callId = typeof item.call_id === "string" ? item.call_id : undefined;
+		if (callId) {
+			for (let j = 0; j < input.length; j++) {
+				if (j !== i && input[j]?.call_id === callId) group.push(j);
+			}
+			// A pair reaching past the latest user message stays whole.
+			if (group.some((index) => index >= limit)) continue;
+		}
+		for (const index of group) {
+			dropped.add(index);
+			freedTokens += estimateInputItemTokens(input[index] as InputItem);
+		}
+	}
+	return {
+		input: input.filter((_, index) => !dropped.has(index)),
+		removed: dropped.size,
+		freedTokens,
+	};
+}
+
+/**
+ * Checks the body against the model's input budget. `reject` throws
+ * {@link ContextWindowExceededError}; `trim` first drops old conversation
+ * items and only throws when the kept items alone are still too large.
+ * Returns the (possibly trimmed) body's estimate.
+ */
+export function applyContextWindowGuard(
+	body: RequestBody,
+	mode: ContextGuardMode,
+): TokenEstimate {
+	const estimate = estimateRequestTokens(body);
+	if (mode === "off") return estimate;
+
+	const limit = getModelInputTokenLimit(body.model);
+	const factor = getTokenEstimateCalibration().factor;
+	const calibrated = (tokens: number) => Math.ceil(tokens * factor);
+	if (calibrated(estimate.total) <= limit) return estimate;
+
+	if (mode === "trim" && Array.isArray(body.input)) {
+		const excess = estimate.total - Math.floor(limit / factor);
+		const trimmed = trimInputToTokenBudget(body.input, excess);
+		if (trimmed.removed > 0) {
+			body.input = trimmed.input;
+			const trimmedEstimate = estimateRequestTokens(body);
+			logWarn(
+				`Pre-flight context guard dropped ${trimmed.removed} oldest input items (~${trimmed.freedTokens} tokens) to fit ${body.model}'s ${limit}-token input window`,
+			);
+			if (calibrated(trimmedEstimate.total) <= limit) return trimmedEstimate;
+			throw new ContextWindowExceededError(body.model, calibrated(trimmedEstimate.total), limit);
+		}
+	}
+	throw new ContextWindowExceededError(body.model, calibrated(estimate.total), limit);
+}
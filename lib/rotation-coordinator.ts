@@ -0,0 +1,458 @@
+/**
+ * Cross-process rotation coordinator.
+ *
+ * Several OpenCode sessions often share one per-project account pool. The
+ * health/token trackers in `lib/rotation.ts` are per-process, and
+ * `pidOffsetEnabled` is only a deterministic nudge, so peers still pile onto
+ * the same account and each discovers its 429 independently.
+ *
+ * Strategy: every participating process owns one small JSON file inside the
+ * `<storage>.peers/` directory next to the accounts file (the same sidecar
+ * family as the `<storage>.lock` worktree lock). The file carries that
+ * process's in-flight request counts plus the rate-limit resets and cooldowns
+ * it has observed, keyed by the hashed account identity from
+ * `getRotationStateAccountKey` so indices never need to agree across peers.
+ *
+ *   - Writers never contend: a process only ever writes its own file, using
+ *     the usual temp-file + rename, so no cross-process lock is required.
+ *   - Readers aggregate every other file on a short refresh interval and keep
+ *     the merged view in memory, because account selection is synchronous.
+ *   - Peers are dropped when their file is older than PEER_STALE_MS or, on
+ *     the same host, when their pid is gone (see `processAlive`). Readers
+ *     delete such files so crashed sessions do not accumulate.
+ *
+ * Coordination is advisory. Any I/O failure degrades to "no peers".
+ */
+
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import { join } from "node:path";
+import { createLogger } from "./logger.js";
+import { registerCleanup, unregisterCleanup } from "./shutdown.js";
+import { renameWithWindowsRetry } from "./storage/atomic-write.js";
+import { getStoragePath } from "./storage/state.js";
+import { processAlive } from "./storage/worktree-lock.js";
+import type { CooldownReason } from "./storage.js";
+
+const log = createLogger("rotation-coordinator");
+
+/** How often peer files are re-read while the coordinator is active. */
+export const PEER_REFRESH_INTERVAL_MS = 2_000;
+
+/** How often we re-publish our own file so peers can tell we are alive. */
+export const PEER_HEARTBEAT_INTERVAL_MS = 10_000;
+
+/** Peer files that have not been rewritten for this long are ignored. */
+export const PEER_STALE_MS = 30_000;
+
+const PUBLISH_DEBOUNCE_MS = 250;
+
+/**
+ * Safety net for release callbacks that are never invoked (e.g. an exception
+ * escaping the request pipeline). Long enough for any realistic stream.
+ */
+const IN_FLIGHT_MAX_HOLD_MS = 15 * 60_000;
+
+export interface PeerAccountState {
+	inFlight: number;
+	rateLimitResetTimes: Record<string, number>;
+	coolingDownUntil?: number;
+	cooldownReason?: CooldownReason;
+}
+
+interface PeerStateFileV1 {
+	version: 1;
+	pid: number;
+	hostname: string;
+	updatedAt: number;
+	accounts: Record<string, PeerAccountState>;
+}
+
+export function getPeerStateDirectory(storagePath: string = getStoragePath()): string {
+	return `${storagePath}.peers`;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function isCooldownReason(value: unknown): value is CooldownReason {
+	return value === "auth-failure" || value === "network-error";
+}
+
+function parsePeerStateFile(raw: string): PeerStateFileV1 | null {
+	let data: unknown;
+	try {
+		data = JSON.parse(raw) as unknown;
+	} catch {
+		return null;
+	}
+	if (!isRecord(data) || data.version !== 1) return null;
+	if (typeof data.pid !== "number" || typeof data.hostname !== "string") return null;
+	if (typeof data.updatedAt !== "number" || !isRecord(data.accounts)) return null;
+
+	const accounts: Record<string, PeerAccountState> = {};
+	for (const [key, value] of Object.entries(data.accounts)) {
+		if (!isRecord(value)) continue;
+		const rateLimitResetTimes: Record<string, number> = {};
+		if (isRecord(value.rateLimitResetTimes)) {
+			for (const [quotaKey, resetAt] of Object.entries(value.rateLimitResetTimes)) {
+				if (typeof resetAt === "number" && Number.isFinite(resetAt)) {
+					rateLimitResetTimes[quotaKey] = resetAt;
+				}
+			}
+		}
+		accounts[key] = {
+			inFlight:
+				typeof value.inFlight === "number" && value.inFlight > 0
+					? Math.floor(value.inFlight)
+					: 0,
+			rateLimitResetTimes,
+			coolingDownUntil:
+				typeof value.coolingDownUntil === "number" ? value.coolingDownUntil : undefined,
+			cooldownReason: isCooldownReason(value.cooldownReason) ? value.cooldownReason : undefined,
+		};
+	}
+
+	return {
+		version: 1,
+		pid: data.pid,
+		hostname: data.hostname,
+		updatedAt: data.updatedAt,
+		accounts,
+	};
+}
+
+export class RotationCoordinator {
+	private readonly local = new Map<string, PeerAccountState>();
+	private peers = new Map<string, PeerAccountState>();
+	private publishTimer: ReturnType<typeof setTimeout> | null = null;
+	private refreshTimer: ReturnType<typeof setInterval> | null = null;
+	private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+	private refreshing: Promise<void> | null = null;
+	private publishing: Promise<void> | null = null;
+	private stopped = false;
+	private readonly fileName = `${os.hostname()}-${process.pid}.json`;
+
+	/**
+	 * Starts the background refresh/heartbeat timers. Timers are unref'd so an
+	 * idle coordinator never keeps the process alive on its own.
+	 */
+	start(): void {
+		if (this.refreshTimer) return;
+		this.stopped = false;
+		this.refreshTimer = setInterval(() => {
+			void this.refresh();
+		}, PEER_REFRESH_INTERVAL_MS);
+		this.heartbeatTimer = setInterval(() => {
+			void this.publish();
+		}, PEER_HEARTBEAT_INTERVAL_MS);
+		this.refreshTimer.unref?.();
+		this.heartbeatTimer.unref?.();
+		void this.refresh();
+	}
+
+	async stop(): Promise<void> {
+		this.stopped = true;
+		if (this.refreshTimer) clearInterval(this.refreshTimer);
+		if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+		if (this.publishTimer) clearTimeout(this.publishTimer);
+		this.refreshTimer = null;
+		this.heartbeatTimer = null;
+		this.publishTimer = null;
+		// A write already past its `stopped` check must land before the unlink,
+		// or it would bring the file back.
+		await this.publishing;
+		try {
+			await fs.unlink(join(getPeerStateDirectory(), this.fileName));
+		} catch {
+			// Already gone, or never written.
+		}
+	}
+
+	/**
+	 * Records a request dispatched on `accountKey`. The returned release
+	 * function is idempotent and must be called once the request settles.
+	 */
+	beginRequest(accountKey: string): () => void {
+		const entry = this.getLocalEntry(accountKey);
+		entry.inFlight += 1;
+		this.schedulePublish();
+		let released = false;
+		const release = (): void => {
+			if (released) return;
+			released = true;
+			clearTimeout(holdTimer);
+			entry.inFlight = Math.max(0, entry.inFlight - 1);
+			this.schedulePublish();
+		};
+		const holdTimer = setTimeout(release, IN_FLIGHT_MAX_HOLD_MS);
+		holdTimer.unref?.();
+		return release;
+	}
+
+	noteRateLimit(accountKey: string, quotaKey: string, resetAt: number): void {
+		const entry = this.getLocalEntry(accountKey);
+		entry.rateLimitResetTimes[quotaKey] = Math.max(
+			entry.rateLimitResetTimes[quotaKey] ?? 0,
+			resetAt,
+		);
+		this.schedulePublish();
+	}
+
+	noteCooldown(accountKey: string, until: number, reason: CooldownReason): void {
+		const entry = this.getLocalEntry(accountKey);
+		if ((entry.coolingDownUntil ?? 0) <= until) {
+			entry.coolingDownUntil = until;
+			entry.cooldownReason = reason;
+		}
+		this.schedulePublish();
+	}
+
+	/** Aggregated state reported by live peers (never includes this process). */
+	getPeerState(accountKey: string): PeerAccountState | undefined {
+		return this.peers.get(accountKey);
+	}
+
+	getPeerInFlight(accountKey: string): number {
+		return this.peers.get(accountKey)?.inFlight ?? 0;
+	}
+
+	/** Re-reads peer files. Concurrent callers share one in-progress refresh. */
+	async refresh(): Promise<void> {
+		if (this.refreshing) return this.refreshing;
+		this.refreshing = this.readPeers()
+			.then((peers) => {
+				this.peers = peers;
+			})
+			.catch((error) => {
+				log.debug("Peer refresh failed", { error: String(error) });
+			})
+			.finally(() => {
+				this.refreshing = null;
+			});
+		return this.refreshing;
+	}
+
+	/** Writes this process's peer file. Overlapping calls are serialized. */
+	async publish(): Promise<void> {
+		if (this.publishTimer) {
+			clearTimeout(this.publishTimer);
+			this.publishTimer = null;
+		}
+		if (this.stopped) return;
+		const run = (this.publishing ?? Promise.resolve()).then(() => this.writeOwnFile());
+		this.publishing = run;
+		try {
+			await run;
+		} finally {
+			if (this.publishing === run) this.publishing = null;
+		}
+	}
+
+	private async writeOwnFile(): Promise<void> {
+		if (this.stopped) return;
+		const now = Date.now();
+		const accounts: Record<string, PeerAccountState> = {};
+		for (const [key, entry] of this.local) {
+			for (const [quotaKey, resetAt] of Object.entries(entry.rateLimitResetTimes)) {
+				if (resetAt <= now) delete entry.rateLimitResetTimes[quotaKey];
+			}
+			if (entry.coolingDownUntil !== undefined && entry.coolingDownUntil <= now) {
+				entry.coolingDownUntil = undefined;
+				entry.cooldownReason = undefined;
+			}
+			const isEmpty =
+				entry.inFlight === 0 &&
+				Object.keys(entry.rateLimitResetTimes).length === 0 &&
+				entry.coolingDownUntil === undefined;
+			if (isEmpty) {
+				this.local.delete(key);
+				continue;
+			}
+			accounts[key] = {
+				inFlight: entry.inFlight,
+				rateLimitResetTimes: { ...entry.rateLimitResetTimes },
+				coolingDownUntil: entry.coolingDownUntil,
+				cooldownReason: entry.cooldownReason,
+			};
+		}
+
+		const payload: PeerStateFileV1 = {
+			version: 1,
+			pid: process.pid,
+			hostname: os.hostname(),
+			updatedAt: now,
+			accounts,
+		};
+		const directory = getPeerStateDirectory();
+		const path = join(directory, this.fileName);
+		const tempPath = `${path}.${Math.random().toString(36).slice(2, 8)}.tmp`;
+		try {
+			await fs.mkdir(directory, { recursive: true });
+			await fs.writeFile(tempPath, JSON.stringify(payload), { encoding: "utf-8", mode: 0o600 });
+			if (this.stopped) {
+				await fs.unlink(tempPath);
+				return;
+			}
+			await renameWithWindowsRetry(tempPath, path);
+		} catch (error) {
+			try {
+				await fs.unlink(tempPath);
+			} catch {
+				// Ignore cleanup failures.
+			}
+			log.debug("Failed to publish peer state", { path, error: String(error) });
+		}
+	}
+
+	private getLocalEntry(accountKey: string): PeerAccountState {
+		let entry = this.local.get(accountKey);
+		if (!entry) {
+			entry = { inFlight: 0, rateLimitResetTimes: {} };
+			this.local.set(accountKey, entry);
+		}
+		return entry;
+	}
+
+	private schedulePublish(): void {
+		if (this.publishTimer) return;
+		this.publishTimer = setTimeout(() => {
+			this.publishTimer = null;
+			void this.publish();
+		}, PUBLISH_DEBOUNCE_MS);
+		this.publishTimer.unref?.();
+	}
+
+	private async readPeers(): Promise<Map<string, PeerAccountState>> {
+		const directory = getPeerStateDirectory();
+		const merged = new Map<string, PeerAccountState>();
+		let entries: string[];
+		try {
+			entries = await fs.readdir(directory);
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code === "ENOENT") return merged;
+			throw error;
+		}
+
+		const now = Date.now();
+		for (const name of entries) {
+			if (name === this.fileName || !name.endsWith(".json")) continue;
+			const path = join(directory, name);
+			let raw: string;
+			try {
+				raw = await fs.readFile(path, "utf-8");
+			} catch {
+				continue;
+			}
+			const peer = parsePeerStateFile(raw);
+			if (!peer) continue;
+			if (peer.pid === process.pid && peer.hostname === os.hostname()) continue;
+			if (now - peer.updatedAt > PEER_STALE_MS || !processAlive(peer.pid, peer.hostname)) {
+				// A live peer that was only slow rewrites its file on the next heartbeat.
+				try {
+					await fs.unlink(path);
+				} catch {
+					// Another peer may have removed it first.
+				}
+				continue;
+			}
+
+			for (const [accountKey, state] of Object.entries(peer.accounts)) {
+				const current = merged.get(accountKey) ?? { inFlight: 0, rateLimitResetTimes: {} };
+				current.inFlight += state.inFlight;
+				for (const [quotaKey, resetAt] of Object.entries(state.rateLimitResetTimes)) {
+					if (resetAt <= now) continue;
+					current.rateLimitResetTimes[quotaKey] = Math.max(
+						current.rateLimitResetTimes[quotaKey] ?? 0,
+						resetAt,
+					);
+				}
+				if (
+					state.coolingDownUntil !== undefined &&
+					state.coolingDownUntil > now &&
+					state.coolingDownUntil > (current.coolingDownUntil ?? 0)
+				) {
+					current.coolingDownUntil = state.coolingDownUntil;
+					current.cooldownReason = state.cooldownReason;
+				}
+				merged.set(accountKey, current);
+			}
+		}
+		return merged;
+	}
+}
+
+/**
+ * Wraps a streaming response so `release` fires once the body is fully read,
+ * errors, or is cancelled by the consumer. Bodiless responses release at once.
+ */
+export function releaseWhenBodySettles(response: Response, release: () => void): Response {
+	if (!response.body) {
+		release();
+		return response;
+	}
+	const reader = response.body.getReader();
+	const body = new ReadableStream<Uint8Array>({
+		async pull(controller) {
+			try {
+				const { done, value } = await reader.read();
+				if (done) {
+					release();
+					controller.close();
+					return;
+				}
+				controller.enqueue(value);
+			} catch (error) {
+				release();
+				controller.error(error);
+			}
+		},
+		async cancel(reason) {
+			release();
+			await reader.cancel(reason);
+		},
+	});
+	return new Response(body, {
+		status: response.status,
+		statusText: response.statusText,
+		headers: response.headers,
+	});
+}
+
+let coordinatorInstance: RotationCoordinator | null = null;
+let coordinatorCleanup: (() => Promise<void>) | null = null;
+
+/** Returns the active coordinator, or `null` when cross-process rotation is off. */
+export function getRotationCoordinator(): RotationCoordinator | null {
+	return coordinatorInstance;
+}
+
+/**
+ * Enables or disables the process-wide coordinator. Enabling is idempotent;
+ * disabling stops the timers and removes this process's peer file.
+ */
+export async function configureRotationCoordinator(enabled: boolean): Promise<void> {
+	if (enabled) {
+		if (coordinatorInstance) return;
+		const coordinator = new RotationCoordinator();
+		coordinatorInstance = coordinator;
+		coordinatorCleanup = async () => {
+			coordinatorCleanup = null;
+			if (coordinatorInstance === coordinator) {
+				coordinatorInstance = null;
+			}
+			await coordinator.stop();
+		};
+		registerCleanup(coordinatorCleanup);
+		coordinator.start();
+		return;
+	}
+	const existing = coordinatorInstance;
+	coordinatorInstance = null;
+	if (coordinatorCleanup) {
+		unregisterCleanup(coordinatorCleanup);
+		coordinatorCleanup = null;
+	}
+	await existing?.stop();
+}
@@ -44,6 +44,21 @@ interface HealthEntry {
   consecutiveFailures: number;
 }
 
+/** Serializable view of a single health entry, used for persistence. */
+export interface HealthScoreSnapshotEntry extends HealthEntry {
+  accountIndex: number;
+  quotaKey?: string;
+}
+
+function parseTrackerKey(key: string): { accountIndex: number; quotaKey?: string } | null {
+  const separator = key.indexOf(":");
+  const indexPart = separator === -1 ? key : key.slice(0, separator);
+  const accountIndex = Number.parseInt(indexPart, 10);
+  if (!Number.isInteger(accountIndex) || accountIndex < 0) return null;
+  const quotaKey = separator === -1 ? undefined : key.slice(separator + 1);
+  return { accountIndex, quotaKey: quotaKey || undefined };
+}
+
 /**
  * Tracks health scores for accounts to prioritize healthy accounts.
  * Accounts with higher health scores are preferred for selection.
@@ -124,6 +139,41 @@ export class HealthScoreTracker {
   clear(): void {
     this.entries.clear();
   }
+
+  /**
+   * Returns the raw (pre-recovery) entries so they can be persisted.
+   * Passive recovery is derived from `lastUpdated`, so storing the raw score
+   * lets downtime count towards recovery once the snapshot is restored.
+   */
+  snapshot(): HealthScoreSnapshotEntry[] {
+    const result: HealthScoreSnapshotEntry[] = [];
+    for (const [key, entry] of this.entries) {
+      const parsed = parseTrackerKey(key);
+      if (!parsed) continue;
+      result.push({ ...parsed, ...entry });
+    }
+    return result;
+  }
+
+  /**
+   * Restores persisted entries. Keys that already have live in-memory state
+   * are left untouched so a reload never rolls back fresher observations.
+   * @returns Number of entries restored
+   */
+  restore(entries: HealthScoreSnapshotEntry[], now: number = Date.now()): number {
+    let restored = 0;
+    for (const entry of entries) {
+      const key = this.getKey(entry.accountIndex, entry.quotaKey);
+      if (this.entries.has(key)) continue;
+      this.entries.set(key, {
+        score: Math.max(this.config.minScore, Math.min(entry.score, this.config.maxScore)),
+        lastUpdated: Math.min(entry.lastUpdated, now),
+        consecutiveFailures: Math.max(0, entry.consecutiveFailures),
+      });
+      restored += 1;
+    }
+    return restored;
+  }
 }
 
 // ============================================================================
@@ -144,40 +194,135 @@ export const DEFAULT_TOKEN_BUCKET_CONFIG: TokenBucketConfig = {
 
 const TOKEN_REFUND_WINDOW_MS = 30_000;
 
+/** How far each observation moves a learned bucket towards its estimate. */
+const TOKEN_BUCKET_LEARNING_RATE = 0.3;
+const TOKEN_BUCKET_MIN_MAX_TOKENS = 5;
+const TOKEN_BUCKET_MAX_MAX_TOKENS = 100;
+const TOKEN_BUCKET_MIN_TOKENS_PER_MINUTE = 0.5;
+const TOKEN_BUCKET_MAX_TOKENS_PER_MINUTE = 60;
+/** Used-percent headers are whole numbers, so smaller deltas are noise. */
+const TOKEN_BUCKET_MIN_USAGE_DELTA_PERCENT = 1;
+
 interface TokenBucketEntry {
   tokens: number;
   lastRefill: number;
   consumptions: number[];
 }
 
+/** Serializable view of a single token bucket, used for persistence. */
+export interface TokenBucketSnapshotEntry {
+  accountIndex: number;
+  quotaKey?: string;
+  tokens: number;
+  lastRefill: number;
+}
+
+/** Bucket size learned for one account and quota key. */
+export interface TokenBucketCalibration extends TokenBucketConfig {
+  /** Observations folded into the estimate */
+  samples: number;
+  updatedAt: number;
+}
+
+/** Serializable view of a learned bucket size, used for persistence. */
+export interface TokenBucketCalibrationSnapshotEntry extends TokenBucketCalibration {
+  accountIndex: number;
+  quotaKey?: string;
+}
+
+/**
+ * Bucket sizes pinned per model family (the part of the quota key before
+ * `:`). Pinned families are never calibrated.
+ */
+export type TokenBucketOverrides = Record<string, Partial<TokenBucketConfig>>;
+
+export interface TokenBucketTuning {
+  /** Learn bucket sizes from observed 429s and usage headers */
+  calibrate: boolean;
+  overrides: TokenBucketOverrides;
+}
+
+/** Requests counted since the last 429 and the last usage reading. */
+interface TokenBucketObservations {
+  requestsSinceRateLimit: number;
+  lastRateLimitAt?: number;
+  requestsSinceUsage: number;
+  lastUsedPercent?: number;
+}
+
+const clamp = (value: number, min: number, max: number): number =>
+  Math.max(min, Math.min(max, value));
+
 /**
  * Client-side token bucket for rate limiting requests per account.
  * Prevents sending requests to accounts that are likely to be rate-limited.
+ *
+ * Every account and quota key starts from the shared config. With
+ * calibration on, two signals move its bucket towards what the backend
+ * actually allows:
+ * - a 429 after N requests (since the previous 429) means the burst
+ *   capacity is about N, and N over the time between the two 429s is a
+ *   sustainable refill rate
+ * - a used-percent rise of D over N requests means each request costs D/N
+ *   percent, which gives the refill rate that spends the window evenly and
+ *   the number of requests left before it runs out
  */
 export class TokenBucketTracker {
   private buckets: Map<string, TokenBucketEntry> = new Map();
+  private calibrations: Map<string, TokenBucketCalibration> = new Map();
+  private observations: Map<string, TokenBucketObservations> = new Map();
   private config: TokenBucketConfig;
+  private tuning: TokenBucketTuning = { calibrate: true, overrides: {} };
 
   constructor(config: Partial<TokenBucketConfig> = {}) {
     this.config = { ...DEFAULT_TOKEN_BUCKET_CONFIG, ...config };
   }
 
+  configure(tuning: Partial<TokenBucketTuning>): void {
+    this.tuning = {
+      calibrate: tuning.calibrate ?? true,
+      overrides: { ...tuning.overrides },
+    };
+  }
+
   private getKey(accountIndex: number, quotaKey?: string): string {
     return quotaKey ? `${accountIndex}:${quotaKey}` : `${accountIndex}`;
   }
 
-  private refillTokens(entry: TokenBucketEntry): number {
+  private getOverride(quotaKey?: string): Partial<TokenBucketConfig> | undefined {
+    if (!quotaKey) return undefined;
+    const separator = quotaKey.indexOf(":");
+    const family = separator === -1 ? quotaKey : quotaKey.slice(0, separator);
+    return this.tuning.overrides[family];
+  }
+
+  /**
+   * Effective bucket size for `accountIndex` / `quotaKey`: the family
+   * override when configured, else the learned size, else the defaults.
+   */
+  getBucketConfig(accountIndex: number, quotaKey?: string): TokenBucketConfig {
+    const override = this.getOverride(quotaKey);
+    if (override) return { ...this.config, ...override };
+    const calibration = this.tuning.calibrate
+      ? this.calibrations.get(this.getKey(accountIndex, quotaKey))
+      : undefined;
+    if (!calibration) return this.config;
+    return { maxTokens: calibration.maxTokens, tokensPerMinute: calibration.tokensPerMinute };
+  }
+
+  private refillTokens(entry: TokenBucketEntry, config: TokenBucketConfig): number {
     const now = Date.now();
     const minutesSinceRefill = (now - entry.lastRefill) / (1000 * 60);
-    const tokensToAdd = minutesSinceRefill * this.config.tokensPerMinute;
-    return Math.min(entry.tokens + tokensToAdd, this.config.maxTokens);
+    const tokensToAdd = minutesSinceRefill * config.tokensPerMinute;
+    return Math.min(entry.tokens + tokensToAdd, config.maxTokens);
   }
 
   getTokens(accountIndex: number, quotaKey?: string): number {
     const key = this.getKey(accountIndex, quotaKey);
+    const config = this.getBucketConfig(accountIndex, quotaKey);
     const entry = this.buckets.get(key);
-    if (!entry) return this.config.maxTokens;
-    return this.refillTokens(entry);
+    if (!entry) return config.maxTokens;
+    return this.refillTokens(entry, config);
   }
 
   /**
@@ -185,8 +330,9 @@ export class TokenBucketTracker {
    */
   tryConsume(accountIndex: number, quotaKey?: string): boolean {
     const key = this.getKey(accountIndex, quotaKey);
+    const config = this.getBucketConfig(accountIndex, quotaKey);
     const entry = this.buckets.get(key);
-    const currentTokens = entry ? this.refillTokens(entry) : this.config.maxTokens;
+    const currentTokens = entry ? this.refillTokens(entry, config) : config.maxTokens;
 
     if (currentTokens < 1) {
       return false;
@@ -204,6 +350,9 @@ export class TokenBucketTracker {
       lastRefill: now,
       consumptions,
     });
+    const observations = this.getObservations(key);
+    observations.requestsSinceRateLimit += 1;
+    observations.requestsSinceUsage += 1;
     return true;
   }
 
@@ -226,12 +375,18 @@ export class TokenBucketTracker {
     if (validIndex === -1) return false;
 
     entry.consumptions.splice(validIndex, 1);
-    const currentTokens = this.refillTokens(entry);
+    const config = this.getBucketConfig(accountIndex, quotaKey);
+    const currentTokens = this.refillTokens(entry, config);
     this.buckets.set(key, {
-      tokens: Math.min(currentTokens + 1, this.config.maxTokens),
+      tokens: Math.min(currentTokens + 1, config.maxTokens),
       lastRefill: now,
       consumptions: entry.consumptions,
     });
+    const observations = this.observations.get(key);
+    if (observations) {
+      observations.requestsSinceRateLimit = Math.max(0, observations.requestsSinceRateLimit - 1);
+      observations.requestsSinceUsage = Math.max(0, observations.requestsSinceUsage - 1);
+    }
 
     return true;
   }
@@ -242,7 +397,9 @@ export class TokenBucketTracker {
   drain(accountIndex: number, quotaKey?: string, drainAmount: number = 10): void {
     const key = this.getKey(accountIndex, quotaKey);
     const entry = this.buckets.get(key);
-    const currentTokens = entry ? this.refillTokens(entry) : this.config.maxTokens;
+    const currentTokens = entry
+      ? this.refillTokens(entry, this.getBucketConfig(accountIndex, quotaKey))
+      : this.getBucketConfig(accountIndex, quotaKey).maxTokens;
     this.buckets.set(key, {
       tokens: Math.max(0, currentTokens - drainAmount),
       lastRefill: Date.now(),
@@ -250,13 +407,284 @@ export class TokenBucketTracker {
     });
   }
 
+  /**
+   * Calibrates from a 429 returned by the backend (not a local bucket miss):
+   * the requests sent since the previous 429 are what the account allowed.
+   */
+  recordRateLimitObserved(accountIndex: number, quotaKey?: string, now: number = Date.now()): void {
+    const key = this.getKey(accountIndex, quotaKey);
+    const observations = this.getObservations(key);
+    const requests = observations.requestsSinceRateLimit;
+    if (requests > 0) {
+      const minutes =
+        observations.lastRateLimitAt !== undefined
+          ? (now - observations.lastRateLimitAt) / 60_000
+          : 0;
+      this.learn(key, quotaKey, now, {
+        maxTokens: requests,
+        tokensPerMinute: minutes > 0 ? requests / minutes : undefined,
+      });
+    }
+    observations.requestsSinceRateLimit = 0;
+    observations.lastRateLimitAt = now;
+  }
+
+  /**
+   * Calibrates from a usage reading (`x-codex-primary-*` headers): the rise
+   * in used percent since the previous reading is spread over the requests
+   * sent in between, and the remaining headroom caps the bucket size. The
+   * refill rate is left to 429 observations; a window's long-run pace (hours
+   * or a week) says nothing about how fast a burst may go.
+   */
+  recordUsageObserved(
+    accountIndex: number,
+    quotaKey: string | undefined,
+    window: QuotaUsageWindow,
+    now: number = Date.now(),
+  ): void {
+    const { usedPercent } = window;
+    if (typeof usedPercent !== "number" || !Number.isFinite(usedPercent)) return;
+    const key = this.getKey(accountIndex, quotaKey);
+    const observations = this.getObservations(key);
+    const previous = observations.lastUsedPercent;
+    if (previous === undefined || usedPercent < previous) {
+      // First reading, or the window reset: start a new baseline.
+      observations.lastUsedPercent = usedPercent;
+      observations.requestsSinceUsage = 0;
+      return;
+    }
+
+    const delta = usedPercent - previous;
+    if (delta < TOKEN_BUCKET_MIN_USAGE_DELTA_PERCENT) return;
+    const requests = observations.requestsSinceUsage;
+    if (requests > 0) {
+      const percentPerRequest = delta / requests;
+      this.learn(key, quotaKey, now, {
+        maxTokens: (100 - usedPercent) / percentPerRequest,
+      });
+    }
+    observations.lastUsedPercent = usedPercent;
+    observations.requestsSinceUsage = 0;
+  }
+
+  getCalibration(accountIndex: number, quotaKey?: string): TokenBucketCalibration | undefined {
+    return this.calibrations.get(this.getKey(accountIndex, quotaKey));
+  }
+
+  private getObservations(key: string): TokenBucketObservations {
+    let observations = this.observations.get(key);
+    if (!observations) {
+      observations = { requestsSinceRateLimit: 0, requestsSinceUsage: 0 };
+      this.observations.set(key, observations);
+    }
+    return observations;
+  }
+
+  private learn(
+    key: string,
+    quotaKey: string | undefined,
+    now: number,
+    estimate: { maxTokens?: number; tokensPerMinute?: number },
+  ): void {
+    if (!this.tuning.calibrate || this.getOverride(quotaKey)) return;
+    const current = this.calibrations.get(key) ?? { ...this.config, samples: 0, updatedAt: now };
+    const blend = (value: number, target: number | undefined, min: number, max: number) =>
+      target === undefined || !Number.isFinite(target)
+        ? value
+        : clamp(value + (target - value) * TOKEN_BUCKET_LEARNING_RATE, min, max);
+    this.calibrations.set(key, {
+      maxTokens: blend(
+        current.maxTokens,
+        estimate.maxTokens,
+        TOKEN_BUCKET_MIN_MAX_TOKENS,
+        TOKEN_BUCKET_MAX_MAX_TOKENS,
+      ),
+      tokensPerMinute: blend(
+        current.tokensPerMinute,
+        estimate.tokensPerMinute,
+        TOKEN_BUCKET_MIN_TOKENS_PER_MINUTE,
+        TOKEN_BUCKET_MAX_TOKENS_PER_MINUTE,
+      ),
+      samples: current.samples + 1,
+      updatedAt: now,
+    });
+  }
+
   reset(accountIndex: number, quotaKey?: string): void {
     const key = this.getKey(accountIndex, quotaKey);
     this.buckets.delete(key);
+    this.calibrations.delete(key);
+    this.observations.delete(key);
   }
 
   clear(): void {
     this.buckets.clear();
+    this.calibrations.clear();
+    this.observations.clear();
+  }
+
+  /**
+   * Returns raw bucket levels for persistence. Refund bookkeeping is dropped:
+   * the refund window is far shorter than any realistic restart.
+   */
+  snapshot(): TokenBucketSnapshotEntry[] {
+    const result: TokenBucketSnapshotEntry[] = [];
+    for (const [key, entry] of this.buckets) {
+      const parsed = parseTrackerKey(key);
+      if (!parsed) continue;
+      result.push({ ...parsed, tokens: entry.tokens, lastRefill: entry.lastRefill });
+    }
+    return result;
+  }
+
+  /**
+   * Restores persisted buckets without overwriting live in-memory buckets.
+   * Refill for the elapsed downtime is applied lazily from `lastRefill`.
+   * @returns Number of buckets restored
+   */
+  restore(entries: TokenBucketSnapshotEntry[], now: number = Date.now()): number {
+    let restored = 0;
+    for (const entry of entries) {
+      const key = this.getKey(entry.accountIndex, entry.quotaKey);
+      if (this.buckets.has(key)) continue;
+      const { maxTokens } = this.getBucketConfig(entry.accountIndex, entry.quotaKey);
+      this.buckets.set(key, {
+        tokens: Math.max(0, Math.min(entry.tokens, maxTokens)),
+        lastRefill: Math.min(entry.lastRefill, now),
+        consumptions: [],
+      });
+      restored += 1;
+    }
+    return restored;
+  }
+
+  /** Learned bucket sizes for persistence. */
+  snapshotCalibrations(): TokenBucketCalibrationSnapshotEntry[] {
+    const result: TokenBucketCalibrationSnapshotEntry[] = [];
+    for (const [key, calibration] of this.calibrations) {
+      const parsed = parseTrackerKey(key);
+      if (!parsed) continue;
+      result.push({ ...parsed, ...calibration });
+    }
+    return result;
+  }
+
+  /**
+   * Restores learned bucket sizes, keeping any learned in this process.
+   * Restore these before {@link restore} so bucket levels are clamped to the
+   * learned capacity.
+   * @returns Number of calibrations restored
+   */
+  restoreCalibrations(entries: TokenBucketCalibrationSnapshotEntry[]): number {
+    let restored = 0;
+    for (const entry of entries) {
+      const key = this.getKey(entry.accountIndex, entry.quotaKey);
+      if (this.calibrations.has(key)) continue;
+      this.calibrations.set(key, {
+        maxTokens: clamp(entry.maxTokens, TOKEN_BUCKET_MIN_MAX_TOKENS, TOKEN_BUCKET_MAX_MAX_TOKENS),
+        tokensPerMinute: clamp(
+          entry.tokensPerMinute,
+          TOKEN_BUCKET_MIN_TOKENS_PER_MINUTE,
+          TOKEN_BUCKET_MAX_TOKENS_PER_MINUTE,
+        ),
+        samples: Math.max(0, Math.floor(entry.samples)),
+        updatedAt: entry.updatedAt,
+      });
+      restored += 1;
+    }
+    return restored;
+  }
+}
+
+// ============================================================================
+// Live Quota Usage
+// ============================================================================
+
+/** One usage window reported by `x-codex-primary-*` / `x-codex-secondary-*`. */
+export interface QuotaUsageWindow {
+  usedPercent?: number;
+  windowMinutes?: number;
+  resetAtMs?: number;
+}
+
+interface QuotaUsageEntry {
+  windows: QuotaUsageWindow[];
+  observedAt: number;
+}
+
+/** Readings without a reset time are trusted for this long. */
+const QUOTA_USAGE_MAX_AGE_MS = 60 * 60 * 1000;
+
+/**
+ * Under hybrid, the current account stops being sticky once any of its
+ * windows reaches this percentage, so selection re-scores before the 429.
+ */
+export const QUOTA_PRESSURE_RESCORE_PERCENT = 90;
+
+/**
+ * Latest server-reported quota usage per account, fed from the usage
+ * headers on every response. Windows that have reset, and readings that have
+ * gone stale, stop counting.
+ */
+export class QuotaUsageTracker {
+  private entries: Map<number, QuotaUsageEntry> = new Map();
+
+  record(accountIndex: number, windows: QuotaUsageWindow[], now: number = Date.now()): void {
+    const usable = windows.filter(
+      (window) => typeof window.usedPercent === "number" && Number.isFinite(window.usedPercent),
+    );
+    if (usable.length === 0) return;
+    this.entries.set(accountIndex, { windows: usable, observedAt: now });
+  }
+
+  /**
+   * Highest used percentage across the account's live windows, or
+   * `undefined` when nothing current is known.
+   */
+  getUsedPercent(accountIndex: number, now: number = Date.now()): number | undefined {
+    const entry = this.entries.get(accountIndex);
+    if (!entry) return undefined;
+
+    let highest: number | undefined;
+    for (const window of entry.windows) {
+      if (typeof window.resetAtMs === "number") {
+        if (window.resetAtMs <= now) continue;
+      } else if (now - entry.observedAt > QUOTA_USAGE_MAX_AGE_MS) {
+        continue;
+      }
+      const used = Math.max(0, Math.min(100, window.usedPercent ?? 0));
+      if (highest === undefined || used > highest) highest = used;
+    }
+    return highest;
+  }
+
+  /**
+   * When the account's plan windows stop being exhausted: the latest reset
+   * among live windows at 100%, or `undefined` when none is exhausted.
+   */
+  getExhaustedUntil(accountIndex: number, now: number = Date.now()): number | undefined {
+    const entry = this.entries.get(accountIndex);
+    if (!entry) return undefined;
+
+    let until: number | undefined;
+    for (const window of entry.windows) {
+      if ((window.usedPercent ?? 0) < 100) continue;
+      const resetAt =
+        typeof window.resetAtMs === "number"
+          ? window.resetAtMs
+          : entry.observedAt + QUOTA_USAGE_MAX_AGE_MS;
+      if (resetAt <= now) continue;
+      if (until === undefined || resetAt > until) until = resetAt;
+    }
+    return until;
+  }
+
+  reset(accountIndex: number): void {
+    this.entries.delete(accountIndex);
+  }
+
+  clear(): void {
+    this.entries.clear();
   }
 }
 
@@ -268,6 +696,44 @@ export interface AccountWithMetrics {
   index: number;
   isAvailable: boolean;
   lastUsed: number;
+  /** Requests other processes currently have in flight on this account */
+  peerInFlight?: number;
+  /** Highest live server-reported quota usage (0-100), when known */
+  quotaUsedPercent?: number;
+  /** Selection tier; higher tiers are used first (default 0) */
+  priority?: number;
+  /** Reserve accounts are only used when no other account is available */
+  reserve?: boolean;
+}
+
+/**
+ * Compares two accounts by selection tier: any non-reserve account beats any
+ * reserve account, then higher `priority` wins. Returns a positive number
+ * when `a` is preferred, negative when `b` is, and 0 for the same tier.
+ */
+export function compareSelectionTier(
+  a: { priority?: number; reserve?: boolean },
+  b: { priority?: number; reserve?: boolean },
+): number {
+  const aReserve = a.reserve === true;
+  const bReserve = b.reserve === true;
+  if (aReserve !== bReserve) return aReserve ? -1 : 1;
+  return (a.priority ?? 0) - (b.priority ?? 0);
+}
+
+/**
+ * Narrows `accounts` to those in the most preferred tier present.
+ */
+export function filterToPreferredTier<T extends { priority?: number; reserve?: boolean }>(
+  accounts: T[],
+): T[] {
+  let best: T | undefined;
+  for (const account of accounts) {
+    if (!best || compareSelectionTier(account, best) > 0) best = account;
+  }
+  if (!best) return accounts;
+  const tier = best;
+  return accounts.filter((account) => compareSelectionTier(account, tier) === 0);
 }
 
 export interface HybridSelectionConfig {
@@ -277,28 +743,89 @@ export interface HybridSelectionConfig {
   tokenWeight: number;
   /** Weight for freshness/last used (default: 0.1) */
   freshnessWeight: number;
+  /** Penalty per request a peer process has in flight (default: 25) */
+  peerLoadWeight: number;
+  /** Weight for the live quota usage penalty (default: 3) */
+  quotaWeight: number;
 }
 
 export const DEFAULT_HYBRID_SELECTION_CONFIG: HybridSelectionConfig = {
   healthWeight: 2,
   tokenWeight: 5,
   freshnessWeight: 2.0,
+  peerLoadWeight: 25,
+  quotaWeight: 3,
 };
 
 /**
  * Selects the best account using a hybrid scoring strategy.
  *
  * Score = (health * healthWeight) + (tokens * tokenWeight) + (freshness * freshnessWeight)
+ *         - (peerInFlight * peerLoadWeight) - (quotaUsed² / 100 * quotaWeight)
  *
  * Where:
  * - health: Account health score (0-100)
  * - tokens: Available tokens in bucket (0-maxTokens)
  * - freshness: Hours since last used (higher = more fresh for rotation)
+ * - peerInFlight: Requests other OpenCode processes have in flight on the account
+ * - quotaUsed: Live used percent from the usage headers (0 when unknown); the
+ *   square keeps half-used accounts competitive while pushing nearly
+ *   exhausted ones to the back
+ *
+ * Only available accounts in the most preferred tier (see
+ * {@link compareSelectionTier}) are scored.
  */
 export interface HybridSelectionOptions {
   pidOffsetEnabled?: boolean;
 }
 
+/**
+ * Quota component of the hybrid score (zero or negative).
+ */
+export function scoreQuotaUsage(
+  quotaUsedPercent: number | undefined,
+  config: Pick<HybridSelectionConfig, "quotaWeight">,
+): number {
+  if (quotaUsedPercent === undefined) return 0;
+  return -((quotaUsedPercent * quotaUsedPercent) / 100) * config.quotaWeight;
+}
+
+/**
+ * Computes the hybrid score for one account. Shared by the hybrid and
+ * weighted strategies and by selection explainability.
+ */
+export function scoreHybridAccount(
+  account: AccountWithMetrics,
+  healthTracker: HealthScoreTracker,
+  tokenTracker: TokenBucketTracker,
+  quotaKey: string | undefined,
+  config: HybridSelectionConfig,
+  now: number = Date.now(),
+): number {
+  const health = healthTracker.getScore(account.index, quotaKey);
+  const tokens = tokenTracker.getTokens(account.index, quotaKey);
+  const hoursSinceUsed = (now - account.lastUsed) / (1000 * 60 * 60);
+  return (
+    health * config.healthWeight +
+    tokens * config.tokenWeight +
+    hoursSinceUsed * config.freshnessWeight -
+    (account.peerInFlight ?? 0) * config.peerLoadWeight +
+    scoreQuotaUsage(account.quotaUsedPercent, config)
+  );
+}
+
+function selectLeastRecentlyUsed(accounts: AccountWithMetrics[]): AccountWithMetrics | null {
+  let leastRecentlyUsed: AccountWithMetrics | null = null;
+  let oldestTime = Infinity;
+  for (const account of accounts) {
+    if (account.lastUsed < oldestTime) {
+      oldestTime = account.lastUsed;
+      leastRecentlyUsed = account;
+    }
+  }
+  return leastRecentlyUsed;
+}
+
 export function selectHybridAccount(
   accounts: AccountWithMetrics[],
   healthTracker: HealthScoreTracker,
@@ -308,19 +835,10 @@ export function selectHybridAccount(
   options: HybridSelectionOptions = {},
 ): AccountWithMetrics | null {
   const cfg = { ...DEFAULT_HYBRID_SELECTION_CONFIG, ...config };
-  const available = accounts.filter((a) => a.isAvailable);
+  const available = filterToPreferredTier(accounts.filter((a) => a.isAvailable));
 
   if (available.length === 0) {
-    if (accounts.length === 0) return null;
-    let leastRecentlyUsed: AccountWithMetrics | null = null;
-    let oldestTime = Infinity;
-    for (const account of accounts) {
-      if (account.lastUsed < oldestTime) {
-        oldestTime = account.lastUsed;
-        leastRecentlyUsed = account;
-      }
-    }
-    return leastRecentlyUsed;
+    return selectLeastRecentlyUsed(accounts);
   }
   // istanbul ignore next -- defensive: available[0] always exists when length === 1
   if (available.length === 1) return available[0] ?? null;
@@ -334,14 +852,7 @@ export function selectHybridAccount(
   const pidBonus = options.pidOffsetEnabled ? (process.pid % 100) * 0.01 : 0;
 
   for (const account of available) {
-    const health = healthTracker.getScore(account.index, quotaKey);
-    const tokens = tokenTracker.getTokens(account.index, quotaKey);
-    const hoursSinceUsed = (now - account.lastUsed) / (1000 * 60 * 60);
-
-    let score =
-      health * cfg.healthWeight +
-      tokens * cfg.tokenWeight +
-      hoursSinceUsed * cfg.freshnessWeight;
+    let score = scoreHybridAccount(account, healthTracker, tokenTracker, quotaKey, cfg, now);
 
     // PID-based offset distributes selection across parallel agents
     if (options.pidOffsetEnabled) {
@@ -369,6 +880,129 @@ export function selectHybridAccount(
   return bestAccount;
 }
 
+/**
+ * Picks the available account that has consumed the least quota: lowest live
+ * used percent from the usage headers first, then most tokens left in its
+ * bucket. Accounts without header data count as 0% used. Ties go to the
+ * least recently used account.
+ */
+export function selectLeastQuotaUsedAccount(
+  accounts: AccountWithMetrics[],
+  tokenTracker: TokenBucketTracker,
+  quotaKey?: string,
+): AccountWithMetrics | null {
+  const available = filterToPreferredTier(accounts.filter((a) => a.isAvailable));
+  if (available.length === 0) return selectLeastRecentlyUsed(accounts);
+
+  let bestAccount: AccountWithMetrics | null = null;
+  let bestUsed = Infinity;
+  let bestTokens = -Infinity;
+  for (const account of available) {
+    const used = account.quotaUsedPercent ?? 0;
+    const tokens = tokenTracker.getTokens(account.index, quotaKey);
+    const better =
+      used < bestUsed ||
+      (used === bestUsed && tokens > bestTokens) ||
+      (used === bestUsed &&
+        tokens === bestTokens &&
+        bestAccount !== null &&
+        account.lastUsed < bestAccount.lastUsed);
+    if (better) {
+      bestUsed = used;
+      bestTokens = tokens;
+      bestAccount = account;
+    }
+  }
+  return bestAccount;
+}
+
+/**
+ * Picks an available account at random with probability proportional to its
+ * hybrid score, so healthy accounts take most traffic without starving the
+ * rest. Non-positive scores still get a minimal share.
+ */
+export function selectWeightedAccount(
+  accounts: AccountWithMetrics[],
+  healthTracker: HealthScoreTracker,
+  tokenTracker: TokenBucketTracker,
+  quotaKey?: string,
+  config: Partial<HybridSelectionConfig> = {},
+  random: () => number = Math.random,
+): AccountWithMetrics | null {
+  const cfg = { ...DEFAULT_HYBRID_SELECTION_CONFIG, ...config };
+  const available = filterToPreferredTier(accounts.filter((a) => a.isAvailable));
+  if (available.length === 0) return selectLeastRecentlyUsed(accounts);
+  // istanbul ignore next -- defensive: available[0] always exists when length === 1
+  if (available.length === 1) return available[0] ?? null;
+
+  const now = Date.now();
+  const weights = available.map((account) =>
+    Math.max(1, scoreHybridAccount(account, healthTracker, tokenTracker, quotaKey, cfg, now)),
+  );
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  let target = random() * total;
+  for (let i = 0; i < available.length; i++) {
+    target -= weights[i] ?? 0;
+    if (target < 0) return available[i] ?? null;
+  }
+  // istanbul ignore next -- floating-point guard when random() approaches 1
+  return available[available.length - 1] ?? null;
+}
+
+// ============================================================================
+// Strategy Configuration
+// ============================================================================
+
+export const ROTATION_STRATEGIES = [
+  "hybrid",
+  "round-robin",
+  "sticky-until-limited",
+  "least-quota-used",
+  "weighted",
+] as const;
+
+/**
+ * How `AccountRotation` picks an account for each request:
+ * - `hybrid`: stay on the current account while it is usable, otherwise pick
+ *   the best hybrid score
+ * - `round-robin`: advance to the next usable account on every request
+ * - `sticky-until-limited`: stay on the current account until it is limited,
+ *   then move to the next usable one in order
+ * - `least-quota-used`: always pick the account with the lowest live quota
+ *   usage, then the most tokens left
+ * - `weighted`: random pick weighted by hybrid score
+ */
+export type RotationStrategy = (typeof ROTATION_STRATEGIES)[number];
+
+export interface AccountSelectionConfig {
+  strategy: RotationStrategy;
+  weights: HybridSelectionConfig;
+}
+
+let accountSelectionConfig: AccountSelectionConfig = {
+  strategy: "hybrid",
+  weights: { ...DEFAULT_HYBRID_SELECTION_CONFIG },
+};
+
+/**
+ * Sets the process-wide selection strategy and hybrid weights. Omitted
+ * fields fall back to the defaults, so `configureAccountSelection({})`
+ * restores the built-in behaviour.
+ */
+export function configureAccountSelection(config: {
+  strategy?: RotationStrategy;
+  weights?: Partial<HybridSelectionConfig>;
+}): void {
+  accountSelectionConfig = {
+    strategy: config.strategy ?? "hybrid",
+    weights: { ...DEFAULT_HYBRID_SELECTION_CONFIG, ...config.weights },
+  };
+}
+
+export function getAccountSelectionConfig(): AccountSelectionConfig {
+  return accountSelectionConfig;
+}
+
 // ============================================================================
 // Utility Functions
 // ============================================================================
@@ -418,6 +1052,7 @@ export function exponentialBackoff(
 
 let healthTrackerInstance: HealthScoreTracker | null = null;
 let tokenTrackerInstance: TokenBucketTracker | null = null;
+let quotaUsageTrackerInstance: QuotaUsageTracker | null = null;
 
 export function getHealthTracker(config?: Partial<HealthScoreConfig>): HealthScoreTracker {
   if (!healthTrackerInstance) {
@@ -433,7 +1068,23 @@ export function getTokenTracker(config?: Partial<TokenBucketConfig>): TokenBucke
   return tokenTrackerInstance;
 }
 
+/**
+ * Sets whether token buckets calibrate themselves and which families use
+ * pinned sizes. `configureTokenBuckets({})` restores the defaults.
+ */
+export function configureTokenBuckets(tuning: Partial<TokenBucketTuning>): void {
+  getTokenTracker().configure(tuning);
+}
+
+export function getQuotaUsageTracker(): QuotaUsageTracker {
+  if (!quotaUsageTrackerInstance) {
+    quotaUsageTrackerInstance = new QuotaUsageTracker();
+  }
+  return quotaUsageTrackerInstance;
+}
+
 export function resetTrackers(): void {
   healthTrackerInstance?.clear();
   tokenTrackerInstance?.clear();
+  quotaUsageTrackerInstance?.clear();
 }
@@ -0,0 +1,60 @@
+/**
+ * Tag-based model routing rules.
+ *
+ * `routingRules` maps a model family (e.g. `gpt-5.4-pro`) or a normalized
+ * model ID from `MODEL_MAP` to the `accountTags` an account must carry
+ * (`requireTags`, all of them) or must not carry (`excludeTags`, any of them).
+ * When a request's family and model both have a rule, both apply.
+ *
+ * Rules are hard constraints: an excluded account is never selected for the
+ * model, even when every allowed account is rate-limited. Tags compare
+ * lowercase, matching how `codex-tag` stores them.
+ */
+
+import type { ModelFamily } from "./prompts/codex.js";
+
+export interface RoutingRule {
+	/** Tags an account must all carry to serve the model */
+	requireTags?: string[];
+	/** Tags that disqualify an account from serving the model */
+	excludeTags?: string[];
+}
+
+/** Keyed by model family or normalized model ID. */
+export type RoutingRules = Record<string, RoutingRule>;
+
+let activeRoutingRules: RoutingRules = {};
+
+export function configureRoutingRules(rules: RoutingRules | undefined): void {
+	activeRoutingRules = rules ?? {};
+}
+
+export function getConfiguredRoutingRules(): RoutingRules {
+	return activeRoutingRules;
+}
+
+/**
+ * Returns the selection explainability reason for the first rule that keeps
+ * an account tagged `accountTags` away from `model`, or null when no rule
+ * excludes it. Reasons look like `routing-rule:gpt-5.4-pro:missing-tag:pro`.
+ */
+export function getRoutingRuleExclusion(
+	accountTags: readonly string[] | undefined,
+	family: ModelFamily,
+	model?: string | null,
+): string | null {
+	const tags = new Set((accountTags ?? []).map((tag) => tag.trim().toLowerCase()));
+	const keys = model && model !== family ? [model, family] : [family];
+	for (const key of keys) {
+		if (!Object.hasOwn(activeRoutingRules, key)) continue;
+		const rule = activeRoutingRules[key];
+		if (!rule) continue;
+		for (const tag of rule.requireTags ?? []) {
+			if (!tags.has(tag)) return `routing-rule:${key}:missing-tag:${tag}`;
+		}
+		for (const tag of rule.excludeTags ?? []) {
+			if (tags.has(tag)) return `routing-rule:${key}:excluded-tag:${tag}`;
+		}
+	}
+	return null;
+}
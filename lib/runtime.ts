@@ -99,6 +99,13 @@ export type SerializedSelectionExplainability = {
 	coolingDownUntil: number | null;
 	cooldownReason: string | null;
 	lastUsed: number;
+	strategy: string | null;
+	selectionScore: number | null;
+	quotaUsedPercent: number | null;
+	quotaScore: number;
+	priority: number;
+	reserve: boolean;
+	availableAt: number | null;
 };
 
 export type RoutingVisibilitySnapshot = {
@@ -127,6 +134,19 @@ export type RuntimeMetrics = {
 	authRefreshFailures: number;
 	emptyResponseRetries: number;
 	accountRotations: number;
+	parallelProbeRaces: number;
+	parallelProbeWins: number;
+	parallelProbeCancelled: number;
+	hedgedRequests: number;
+	hedgeWins: number;
+	hedgeCancelled: number;
+	/** `toolOutputClipBytes`; 0 when clipping is off */
+	toolOutputClipMaxBytes: number;
+	/** Requests that had at least one tool output clipped */
+	toolOutputClippedRequests: number;
+	toolOutputClippedOutputs: number;
+	toolOutputBytesSaved: number;
+	lastToolOutputBytesSaved: number | null;
 	cumulativeLatencyMs: number;
 	retryBudgetExhaustions: number;
 	retryBudgetUsage: Record<RetryBudgetClass, number>;
@@ -174,6 +194,15 @@ export function serializeSelectionExplainability(
 			typeof entry.coolingDownUntil === "number" ? entry.coolingDownUntil : null,
 		cooldownReason: entry.cooldownReason ?? null,
 		lastUsed: entry.lastUsed,
+		strategy: entry.strategy ?? null,
+		selectionScore:
+			typeof entry.selectionScore === "number" ? entry.selectionScore : null,
+		quotaUsedPercent:
+			typeof entry.quotaUsedPercent === "number" ? entry.quotaUsedPercent : null,
+		quotaScore: typeof entry.quotaScore === "number" ? entry.quotaScore : 0,
+		priority: typeof entry.priority === "number" ? entry.priority : 0,
+		reserve: entry.reserve === true,
+		availableAt: typeof entry.availableAt === "number" ? entry.availableAt : null,
 	}));
 }
 
@@ -188,5 +217,11 @@ export function formatRoutingValue(
 export function formatExplainabilitySummary(
 	entry: SerializedSelectionExplainability,
 ): string {
-	return `Account ${entry.index}: ${entry.eligible ? "eligible" : "blocked"} | health=${Math.round(entry.healthScore)} | tokens=${entry.tokensAvailable.toFixed(1)} | ${entry.reasons.join(", ")}`;
+	const score =
+		entry.selectionScore === null ? "" : ` | score=${Math.round(entry.selectionScore)}`;
+	const quota =
+		entry.quotaUsedPercent === null
+			? ""
+			: ` | quota=${Math.round(entry.quotaUsedPercent)}% (${Math.round(entry.quotaScore)})`;
+	return `Account ${entry.index}: ${entry.eligible ? "eligible" : "blocked"} | health=${Math.round(entry.healthScore)} | tokens=${entry.tokensAvailable.toFixed(1)}${quota}${score} | ${entry.reasons.join(", ")}`;
 }
@@ -39,6 +39,10 @@ export const PluginConfigSchema = z.object({
 		z.string(),
 		z.array(z.string().min(1)),
 	).optional(),
+	quotaExhaustionFallbackChain: z.record(
+		z.string(),
+		z.array(z.string().min(1)),
+	).optional(),
 	tokenRefreshSkewMs: z.number().min(0).optional(),
 	rateLimitToastDebounceMs: z.number().min(0).optional(),
 	toastDurationMs: z.number().min(1000).optional(),
@@ -51,6 +55,69 @@ export const PluginConfigSchema = z.object({
 	emptyResponseMaxRetries: z.number().min(0).optional(),
 	emptyResponseRetryDelayMs: z.number().min(0).optional(),
 	pidOffsetEnabled: z.boolean().optional(),
+	crossProcessRotation: z.boolean().optional(),
+	rotationStrategy: z.enum([
+		"hybrid",
+		"round-robin",
+		"sticky-until-limited",
+		"least-quota-used",
+		"weighted",
+	]).optional(),
+	hybridSelectionWeights: z.object({
+		healthWeight: z.number().min(0).optional(),
+		tokenWeight: z.number().min(0).optional(),
+		freshnessWeight: z.number().min(0).optional(),
+		peerLoadWeight: z.number().min(0).optional(),
+		quotaWeight: z.number().min(0).optional(),
+	}).optional(),
+	routingRules: z.record(
+		z.string(),
+		z.object({
+			requireTags: z.array(z.string()).optional(),
+			excludeTags: z.array(z.string()).optional(),
+		}),
+	).optional(),
+	sessionAffinity: z.boolean().optional(),
+	sessionAffinityTtlMs: z.number().min(60_000).optional(),
+	sessionAffinityMaxEntries: z.number().int().min(1).optional(),
+	quotaForecastHorizonMs: z.number().min(0).optional(),
+	creditsAwareRouting: z.boolean().optional(),
+	creditFloor: z.number().min(0).optional(),
+	tokenBucketCalibration: z.boolean().optional(),
+	tokenBucketOverrides: z.record(
+		z.string(),
+		z.object({
+			maxTokens: z.number().min(1).optional(),
+			tokensPerMinute: z.number().positive().optional(),
+		}),
+	).optional(),
+	maxInFlightPerAccount: z.number().int().min(0).optional(),
+	inFlightQueueTimeoutMs: z.number().min(0).optional(),
+	proactiveRefresh: z.boolean().optional(),
+	proactiveRefreshIntervalMs: z.number().min(10_000).optional(),
+	hedgedRequests: z.boolean().optional(),
+	hedgeDelayMs: z.number().min(250).optional(),
+	requestDeadlineMs: z.number().min(0).optional(),
+	circuitBreakerFailureThreshold: z.number().int().min(1).optional(),
+	circuitBreakerFailureWindowMs: z.number().min(1_000).optional(),
+	circuitBreakerResetTimeoutMs: z.number().min(1_000).optional(),
+	circuitBreakerHalfOpenMaxAttempts: z.number().int().min(1).optional(),
+	preflightContextGuard: z.enum(["off", "reject", "trim"]).optional(),
+	contextOverflowStrategy: z.enum(["notice", "trim-and-retry"]).optional(),
+	toolOutputClipBytes: z.number().int().min(0).optional(),
+	toolOutputClipKeepRecent: z.number().int().min(0).optional(),
+	modelAliases: z.record(
+		z.string().min(1),
+		z.object({
+			model: z.string().min(1),
+			options: z.object({
+				reasoningEffort: z.enum(["none", "minimal", "low", "medium", "high", "xhigh"]).optional(),
+				reasoningSummary: z.enum(["auto", "concise", "detailed", "off", "on"]).optional(),
+				textVerbosity: z.enum(["low", "medium", "high"]).optional(),
+				include: z.array(z.string()).optional(),
+			}).optional(),
+		}),
+	).optional(),
 	fetchTimeoutMs: z.number().min(1_000).optional(),
 	streamStallTimeoutMs: z.number().min(1_000).optional(),
 });
@@ -103,6 +170,29 @@ const AccountNoteSchema = z.string().optional().transform((value) => {
 	return trimmed.length > 0 ? trimmed : undefined;
 });
 
+/**
+ * Selection priority: higher tiers are used first. Reserve accounts are only
+ * used when no non-reserve account is available.
+ */
+const AccountPrioritySchema = z.number().int().min(0).max(100).optional();
+
+/**
+ * Weekly availability windows. Outside every window the account is not
+ * selected. See `lib/availability.ts`.
+ */
+const AccountAvailabilitySchema = z
+	.object({
+		timezone: z.string().optional(),
+		windows: z.array(
+			z.object({
+				days: z.array(z.enum(["sun", "mon", "tue", "wed", "thu", "fri", "sat"])).optional(),
+				start: z.string().regex(/^\d{1,2}:\d{2}$/),
+				end: z.string().regex(/^\d{1,2}:\d{2}$/),
+			}),
+		),
+	})
+	.optional();
+
 /**
  * Account metadata V3 - current storage format.
  */
@@ -113,6 +203,10 @@ export const AccountMetadataV3Schema = z.object({
 	accountLabel: z.string().optional(),
 	accountTags: AccountTagsSchema,
 	accountNote: AccountNoteSchema,
+	priority: AccountPrioritySchema,
+	reserve: z.boolean().optional(),
+	availability: AccountAvailabilitySchema,
+	creditFloor: z.number().min(0).optional(),
 	email: z.string().optional(),
 	refreshToken: z.string().min(1), // Required, non-empty
 	accessToken: z.string().optional(),
@@ -161,6 +255,10 @@ export const AccountMetadataV1Schema = z.object({
 	accountLabel: z.string().optional(),
 	accountTags: AccountTagsSchema,
 	accountNote: AccountNoteSchema,
+	priority: AccountPrioritySchema,
+	reserve: z.boolean().optional(),
+	availability: AccountAvailabilitySchema,
+	creditFloor: z.number().min(0).optional(),
 	email: z.string().optional(),
 	refreshToken: z.string().min(1),
 	accessToken: z.string().optional(),
@@ -0,0 +1,134 @@
+/**
+ * Session-to-account affinity.
+ *
+ * The backend prompt cache is per account, so moving a conversation to a
+ * different account mid-session throws away every cached prefix. Requests
+ * carry a stable `prompt_cache_key` per session; this tracker pins that key to
+ * the account that served it (by `getRotationStateAccountKey`, so pins survive
+ * index shifts when accounts are added or removed) and the selector keeps
+ * returning that account until it is rate-limited, cooling down, or unhealthy.
+ *
+ * Entries expire `ttlMs` after their last use and the map is capped at
+ * `maxEntries`, evicting the least recently used session first.
+ */
+
+/** Health score below which a pinned account is abandoned. */
+export const SESSION_AFFINITY_MIN_HEALTH = 50;
+
+export interface SessionAffinityConfig {
+	enabled: boolean;
+	/** How long an idle session keeps its pin */
+	ttlMs: number;
+	/** Upper bound on pinned sessions */
+	maxEntries: number;
+}
+
+export const DEFAULT_SESSION_AFFINITY_CONFIG: SessionAffinityConfig = {
+	enabled: true,
+	ttlMs: 30 * 60_000,
+	maxEntries: 512,
+};
+
+export interface SessionAffinityStats {
+	enabled: boolean;
+	/** Requests served by their session's pinned account */
+	hits: number;
+	/** Keyed requests with no usable pin (new session, expired, or pinned account unusable) */
+	misses: number;
+	activeSessions: number;
+}
+
+interface AffinityEntry {
+	accountKey: string;
+	expiresAt: number;
+}
+
+export class SessionAffinityTracker {
+	private readonly entries = new Map<string, AffinityEntry>();
+	private config: SessionAffinityConfig;
+	private hits = 0;
+	private misses = 0;
+
+	constructor(config: Partial<SessionAffinityConfig> = {}) {
+		this.config = { ...DEFAULT_SESSION_AFFINITY_CONFIG, ...config };
+	}
+
+	configure(config: Partial<SessionAffinityConfig>): void {
+		this.config = { ...DEFAULT_SESSION_AFFINITY_CONFIG, ...config };
+		if (!this.config.enabled) {
+			this.entries.clear();
+			return;
+		}
+		this.evictOverflow();
+	}
+
+	get enabled(): boolean {
+		return this.config.enabled;
+	}
+
+	/** Pinned account key for `sessionKey`, or undefined when none is live. */
+	lookup(sessionKey: string, now = Date.now()): string | undefined {
+		const entry = this.entries.get(sessionKey);
+		if (!entry) return undefined;
+		if (entry.expiresAt <= now) {
+			this.entries.delete(sessionKey);
+			return undefined;
+		}
+		return entry.accountKey;
+	}
+
+	remember(sessionKey: string, accountKey: string, now = Date.now()): void {
+		if (!this.config.enabled) return;
+		// Re-insert so Map iteration order stays least-recently-used first.
+		this.entries.delete(sessionKey);
+		this.entries.set(sessionKey, { accountKey, expiresAt: now + this.config.ttlMs });
+		this.evictOverflow();
+	}
+
+	recordHit(): void {
+		this.hits++;
+	}
+
+	recordMiss(): void {
+		this.misses++;
+	}
+
+	getStats(now = Date.now()): SessionAffinityStats {
+		for (const [sessionKey, entry] of this.entries) {
+			if (entry.expiresAt <= now) this.entries.delete(sessionKey);
+		}
+		return {
+			enabled: this.config.enabled,
+			hits: this.hits,
+			misses: this.misses,
+			activeSessions: this.entries.size,
+		};
+	}
+
+	clear(): void {
+		this.entries.clear();
+		this.hits = 0;
+		this.misses = 0;
+	}
+
+	private evictOverflow(): void {
+		const maxEntries = Math.max(1, Math.floor(this.config.maxEntries));
+		for (const sessionKey of this.entries.keys()) {
+			if (this.entries.size <= maxEntries) break;
+			this.entries.delete(sessionKey);
+		}
+	}
+}
+
+let sessionAffinityTracker: SessionAffinityTracker | null = null;
+
+export function getSessionAffinityTracker(): SessionAffinityTracker {
+	if (!sessionAffinityTracker) {
+		sessionAffinityTracker = new SessionAffinityTracker();
+	}
+	return sessionAffinityTracker;
+}
+
+export function configureSessionAffinity(config: Partial<SessionAffinityConfig>): void {
+	getSessionAffinityTracker().configure(config);
+}
@@ -61,6 +61,37 @@ export {
   withFlaggedAccountStorageTransaction,
 } from "./storage/flagged.js";
 
+// --- Rotation state (health + token buckets) ---------------------------------
+export type {
+  PersistedHealthEntryV1,
+  PersistedTokenBucketEntryV1,
+  PersistedTokenBucketCalibrationV1,
+  RotationStateStorageV1,
+} from "./storage/rotation-state.js";
+export {
+  getRotationStatePath,
+  getRotationStateAccountKey,
+  loadRotationState,
+  saveRotationState,
+  clearRotationState,
+} from "./storage/rotation-state.js";
+
+// --- Quota history ledger ------------------------------------------------------
+export type {
+  QuotaHistoryEntryV1,
+  QuotaHistorySnapshot,
+  QuotaHistorySource,
+  QuotaHistoryStorageV1,
+  QuotaHistoryWindowV1,
+} from "./storage/quota-history.js";
+export {
+  QUOTA_HISTORY_RETENTION_MS,
+  getQuotaHistoryDir,
+  getQuotaHistoryPath,
+  loadQuotaHistory,
+  appendQuotaHistory,
+} from "./storage/quota-history.js";
+
 // --- Backups -----------------------------------------------------------------
 export { createTimestampedBackupPath } from "./storage/backup.js";
 
@@ -3,6 +3,10 @@
  * Extracted from storage.ts to reduce module size.
  */
 
+import {
+	normalizeAvailabilitySchedule,
+	type AccountAvailabilitySchedule,
+} from "../availability.js";
 import { MODEL_FAMILIES, type ModelFamily } from "../prompts/codex.js";
 import type { AccountIdSource } from "../types.js";
 
@@ -77,6 +81,14 @@ export interface AccountMetadataV1 {
 	accountLabel?: string;
 	accountTags?: string[];
 	accountNote?: string;
+	/** Selection tier, 0-100; higher is used first (default 0). */
+	priority?: number;
+	/** Only used when no non-reserve account is available. */
+	reserve?: boolean;
+	/** Weekly windows outside which the account is not selected. */
+	availability?: AccountAvailabilitySchedule;
+	/** Credit balance at or below which an exhausted account is treated as limited. */
+	creditFloor?: number;
 	email?: string;
 	refreshToken: string;
 	/** Optional cached access token (Codex CLI parity). */
@@ -107,6 +119,14 @@ export interface AccountMetadataV3 {
 	accountLabel?: string;
 	accountTags?: string[];
 	accountNote?: string;
+	/** Selection tier, 0-100; higher is used first (default 0). */
+	priority?: number;
+	/** Only used when no non-reserve account is available. */
+	reserve?: boolean;
+	/** Weekly windows outside which the account is not selected. */
+	availability?: AccountAvailabilitySchedule;
+	/** Credit balance at or below which an exhausted account is treated as limited. */
+	creditFloor?: number;
 	email?: string;
 	refreshToken: string;
 	/** Optional cached access token (Codex CLI parity). */
@@ -135,6 +155,48 @@ function nowMs(): number {
 	return Date.now();
 }
 
+export const MAX_ACCOUNT_PRIORITY = 100;
+
+/**
+ * Coerces a stored priority to an integer in 0-100. Files written before
+ * priorities existed, or edited by hand, fall back to the default tier.
+ */
+export function normalizeAccountPriority(value: unknown): number | undefined {
+	if (typeof value !== "number" || !Number.isFinite(value)) return undefined;
+	const clamped = Math.max(0, Math.min(MAX_ACCOUNT_PRIORITY, Math.round(value)));
+	return clamped === 0 ? undefined : clamped;
+}
+
+export function normalizeCreditFloor(value: unknown): number | undefined {
+	return typeof value === "number" && Number.isFinite(value) && value >= 0 ? value : undefined;
+}
+
+/**
+ * Drops malformed `priority` / `reserve` / `availability` / `creditFloor`
+ * values in place so selection never sees a non-numeric tier, a truthy
+ * non-boolean reserve flag, an unparseable schedule, or a negative floor.
+ */
+export function normalizeAccountRoutingFields<
+	T extends {
+		priority?: number;
+		reserve?: boolean;
+		availability?: AccountAvailabilitySchedule;
+		creditFloor?: number;
+	},
+>(account: T): T {
+	const priority = normalizeAccountPriority(account.priority);
+	if (priority === undefined) delete account.priority;
+	else account.priority = priority;
+	if (account.reserve !== true) delete account.reserve;
+	const availability = normalizeAvailabilitySchedule(account.availability);
+	if (availability === undefined) delete account.availability;
+	else account.availability = availability;
+	const creditFloor = normalizeCreditFloor(account.creditFloor);
+	if (creditFloor === undefined) delete account.creditFloor;
+	else account.creditFloor = creditFloor;
+	return account;
+}
+
 export function migrateV1ToV3(v1: AccountStorageV1): AccountStorageV3 {
 	const now = nowMs();
 	return {
@@ -153,6 +215,10 @@ export function migrateV1ToV3(v1: AccountStorageV1): AccountStorageV3 {
 				accountLabel: account.accountLabel,
 				accountTags: account.accountTags,
 				accountNote: account.accountNote,
+				priority: normalizeAccountPriority(account.priority),
+				reserve: account.reserve === true ? true : undefined,
+				availability: normalizeAvailabilitySchedule(account.availability),
+				creditFloor: normalizeCreditFloor(account.creditFloor),
 				email: account.email,
 				refreshToken: account.refreshToken,
 				accessToken: account.accessToken,
@@ -22,6 +22,7 @@ import {
   buildV2RecoveryHint,
   buildV2RejectionMessage,
   migrateV1ToV3,
+  normalizeAccountRoutingFields,
   UNKNOWN_V2_FORMAT_CODE,
   type AccountMetadataV3,
   type AccountStorageV1,
@@ -121,7 +122,9 @@ export function normalizeAccountStorage(
       isRecord(account) && typeof account.refreshToken === "string" && !!account.refreshToken.trim(),
   );
 
-  const deduplicatedAccounts = deduplicateAccountsForStorage(validAccounts);
+  const deduplicatedAccounts = deduplicateAccountsForStorage(validAccounts).map(
+    normalizeAccountRoutingFields,
+  );
 
   const activeIndex = (() => {
     if (deduplicatedAccounts.length === 0) return 0;
@@ -0,0 +1,206 @@
+/**
+ * Quota history ledger: a bounded, per-account record of usage readings.
+ *
+ * `lib/tui-quota-cache.ts` keeps only the latest snapshot for the TUI and
+ * `codex-limits` only shows live values. Every parsed snapshot (response
+ * headers and `fetchCodexUsage` results) is also appended here so
+ * `codex-usage-history` can show how usage trends across a week. Each
+ * account has its own file under `oc-codex-multi-auth-quota-history/` next to
+ * the active accounts file, named by the same hashed identity as the
+ * rotation-state sidecar, so refresh tokens never reach file names or
+ * contents.
+ *
+ * Files keep `QUOTA_HISTORY_RETENTION_MS` of entries, capped at
+ * `QUOTA_HISTORY_MAX_ENTRIES`. A reading identical to the previous one within
+ * `QUOTA_HISTORY_MIN_INTERVAL_MS` is dropped so a busy session does not
+ * rewrite the file on every response.
+ */
+
+import { promises as fs } from "node:fs";
+import { dirname, join } from "node:path";
+import { QUOTA_HISTORY_DIR_NAME } from "../constants.js";
+import { createLogger } from "../logger.js";
+import { renameWithWindowsRetry } from "./atomic-write.js";
+import { isRecord } from "./identity.js";
+import { getRotationStateAccountKey } from "./rotation-state.js";
+import { getStoragePath } from "./state.js";
+
+const log = createLogger("storage");
+
+export const QUOTA_HISTORY_RETENTION_MS = 14 * 24 * 60 * 60 * 1000;
+export const QUOTA_HISTORY_MAX_ENTRIES = 4000;
+export const QUOTA_HISTORY_MIN_INTERVAL_MS = 5 * 60 * 1000;
+
+export type QuotaHistorySource = "headers" | "usage";
+
+export interface QuotaHistoryWindowV1 {
+  windowMinutes?: number;
+  usedPercent: number;
+  resetAtMs?: number;
+}
+
+export interface QuotaHistoryEntryV1 {
+  at: number;
+  source: QuotaHistorySource;
+  planType?: string;
+  windows: QuotaHistoryWindowV1[];
+}
+
+export interface QuotaHistoryStorageV1 {
+  version: 1;
+  /** Hashed account identity, see `getRotationStateAccountKey` */
+  account: string;
+  entries: QuotaHistoryEntryV1[];
+}
+
+/** Anything shaped like a parsed quota snapshot (`TuiQuotaSnapshot`, usage payloads). */
+export interface QuotaHistorySnapshot {
+  fetchedAt?: number;
+  source: QuotaHistorySource;
+  planType?: string | null;
+  limits: ReadonlyArray<{ usedPercent?: number; windowMinutes?: number; resetAtMs?: number }>;
+}
+
+type QuotaHistoryAccount = Parameters<typeof getRotationStateAccountKey>[0];
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+export function getQuotaHistoryDir(): string {
+  return join(dirname(getStoragePath()), QUOTA_HISTORY_DIR_NAME);
+}
+
+export function getQuotaHistoryPath(account: QuotaHistoryAccount): string {
+  return join(getQuotaHistoryDir(), `${getRotationStateAccountKey(account)}.json`);
+}
+
+function normalizeWindows(value: unknown): QuotaHistoryWindowV1[] {
+  if (!Array.isArray(value)) return [];
+  const windows: QuotaHistoryWindowV1[] = [];
+  for (const raw of value) {
+    if (!isRecord(raw) || !isFiniteNumber(raw.usedPercent)) continue;
+    windows.push({
+      windowMinutes: isFiniteNumber(raw.windowMinutes) ? raw.windowMinutes : undefined,
+      usedPercent: Math.max(0, Math.min(100, raw.usedPercent)),
+      resetAtMs: isFiniteNumber(raw.resetAtMs) ? raw.resetAtMs : undefined,
+    });
+  }
+  return windows;
+}
+
+export function normalizeQuotaHistory(data: unknown): QuotaHistoryStorageV1 | null {
+  if (!isRecord(data) || data.version !== 1 || typeof data.account !== "string") {
+    return null;
+  }
+  const entries: QuotaHistoryEntryV1[] = [];
+  if (Array.isArray(data.entries)) {
+    for (const raw of data.entries) {
+      if (!isRecord(raw) || !isFiniteNumber(raw.at)) continue;
+      if (raw.source !== "headers" && raw.source !== "usage") continue;
+      const windows = normalizeWindows(raw.windows);
+      if (windows.length === 0) continue;
+      entries.push({
+        at: raw.at,
+        source: raw.source,
+        planType: typeof raw.planType === "string" ? raw.planType : undefined,
+        windows,
+      });
+    }
+  }
+  entries.sort((a, b) => a.at - b.at);
+  return { version: 1, account: data.account, entries };
+}
+
+/**
+ * Loads one account's history. Missing, unreadable, or malformed files
+ * resolve to `null`.
+ */
+export async function loadQuotaHistory(
+  account: QuotaHistoryAccount,
+): Promise<QuotaHistoryStorageV1 | null> {
+  const path = getQuotaHistoryPath(account);
+  try {
+    const content = await fs.readFile(path, "utf-8");
+    return normalizeQuotaHistory(JSON.parse(content) as unknown);
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code !== "ENOENT") {
+      log.warn("Failed to load quota history", { path, error: String(error) });
+    }
+    return null;
+  }
+}
+
+function isRepeatReading(previous: QuotaHistoryEntryV1 | undefined, next: QuotaHistoryEntryV1): boolean {
+  if (!previous || next.at - previous.at >= QUOTA_HISTORY_MIN_INTERVAL_MS) return false;
+  if (previous.windows.length !== next.windows.length) return false;
+  return previous.windows.every((window, index) => {
+    const other = next.windows[index];
+    return (
+      other !== undefined &&
+      other.windowMinutes === window.windowMinutes &&
+      Math.round(other.usedPercent) === Math.round(window.usedPercent)
+    );
+  });
+}
+
+async function saveQuotaHistoryUnlocked(path: string, storage: QuotaHistoryStorageV1): Promise<void> {
+  const uniqueSuffix = `${Date.now()}.${Math.random().toString(36).slice(2, 8)}`;
+  const tempPath = `${path}.${uniqueSuffix}.tmp`;
+  try {
+    await fs.mkdir(dirname(path), { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(storage), { encoding: "utf-8", mode: 0o600 });
+    await renameWithWindowsRetry(tempPath, path);
+  } catch (error) {
+    try {
+      await fs.unlink(tempPath);
+    } catch {
+      // Ignore cleanup failures.
+    }
+    throw error;
+  }
+}
+
+/** Appends per file are chained so concurrent responses do not drop entries. */
+const pendingAppends = new Map<string, Promise<void>>();
+
+/**
+ * Appends a parsed quota snapshot to the account's history. Never throws:
+ * history is diagnostic, so write failures are logged and dropped.
+ */
+export async function appendQuotaHistory(
+  account: QuotaHistoryAccount,
+  snapshot: QuotaHistorySnapshot,
+): Promise<void> {
+  const windows = normalizeWindows(snapshot.limits);
+  if (windows.length === 0) return;
+  const entry: QuotaHistoryEntryV1 = {
+    at: snapshot.fetchedAt ?? Date.now(),
+    source: snapshot.source,
+    planType: snapshot.planType ?? undefined,
+    windows,
+  };
+  const accountKey = getRotationStateAccountKey(account);
+  const path = getQuotaHistoryPath(account);
+
+  const previous = pendingAppends.get(path) ?? Promise.resolve();
+  const next = previous.then(async () => {
+    try {
+      const existing = await loadQuotaHistory(account);
+      const entries = existing?.entries ?? [];
+      if (isRepeatReading(entries[entries.length - 1], entry)) return;
+      entries.push(entry);
+      const cutoff = entry.at - QUOTA_HISTORY_RETENTION_MS;
+      const retained = entries.filter((item) => item.at >= cutoff).slice(-QUOTA_HISTORY_MAX_ENTRIES);
+      await saveQuotaHistoryUnlocked(path, { version: 1, account: accountKey, entries: retained });
+    } catch (error) {
+      log.warn("Failed to append quota history", { path, error: String(error) });
+    }
+  });
+  pendingAppends.set(path, next);
+  try {
+    await next;
+  } finally {
+    if (pendingAppends.get(path) === next) pendingAppends.delete(path);
+  }
+}
@@ -0,0 +1,203 @@
+/**
+ * Rotation-state sidecar: health scores, token-bucket levels, and learned
+ * token-bucket sizes.
+ *
+ * The trackers in `lib/rotation.ts` are in-memory singletons, so without this
+ * file every new OpenCode launch would forget which accounts were just
+ * rate-limited. The snapshot lives next to the active accounts file (so it
+ * follows per-project storage paths) and is keyed by a hashed account
+ * identity rather than by index, which keeps entries attached to the right
+ * account even if the account list is reordered between runs. Refresh tokens
+ * never reach this file — only their truncated SHA-256 fingerprint does.
+ */
+
+import { promises as fs } from "node:fs";
+import { createHash } from "node:crypto";
+import { dirname, join } from "node:path";
+import { ROTATION_STATE_FILE_NAME } from "../constants.js";
+import { createLogger } from "../logger.js";
+import { renameWithWindowsRetry } from "./atomic-write.js";
+import { getWorkspaceIdentityKey, isRecord } from "./identity.js";
+import { getStoragePath, withStorageLock } from "./state.js";
+
+const log = createLogger("storage");
+
+export interface PersistedHealthEntryV1 {
+  account: string;
+  quotaKey?: string;
+  score: number;
+  lastUpdated: number;
+  consecutiveFailures: number;
+}
+
+export interface PersistedTokenBucketEntryV1 {
+  account: string;
+  quotaKey?: string;
+  tokens: number;
+  lastRefill: number;
+}
+
+export interface PersistedTokenBucketCalibrationV1 {
+  account: string;
+  quotaKey?: string;
+  maxTokens: number;
+  tokensPerMinute: number;
+  samples: number;
+  updatedAt: number;
+}
+
+export interface RotationStateStorageV1 {
+  version: 1;
+  savedAt: number;
+  health: PersistedHealthEntryV1[];
+  tokenBuckets: PersistedTokenBucketEntryV1[];
+  /** Absent in files written before bucket calibration existed */
+  tokenBucketCalibrations?: PersistedTokenBucketCalibrationV1[];
+}
+
+export function getRotationStatePath(): string {
+  return join(dirname(getStoragePath()), ROTATION_STATE_FILE_NAME);
+}
+
+/**
+ * Stable, non-secret key used to attach persisted rotation state to an account.
+ */
+export function getRotationStateAccountKey(account: {
+  organizationId?: string;
+  accountId?: string;
+  refreshToken: string;
+}): string {
+  return createHash("sha256")
+    .update(getWorkspaceIdentityKey(account))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+const normalizeQuotaKey = (value: unknown): string | undefined =>
+  typeof value === "string" && value.trim().length > 0 ? value.trim() : undefined;
+
+export function normalizeRotationState(data: unknown): RotationStateStorageV1 | null {
+  if (!isRecord(data) || data.version !== 1) {
+    return null;
+  }
+
+  const health: PersistedHealthEntryV1[] = [];
+  if (Array.isArray(data.health)) {
+    for (const raw of data.health) {
+      if (!isRecord(raw) || typeof raw.account !== "string" || !raw.account) continue;
+      if (!isFiniteNumber(raw.score) || !isFiniteNumber(raw.lastUpdated)) continue;
+      health.push({
+        account: raw.account,
+        quotaKey: normalizeQuotaKey(raw.quotaKey),
+        score: raw.score,
+        lastUpdated: raw.lastUpdated,
+        consecutiveFailures:
+          isFiniteNumber(raw.consecutiveFailures) && raw.consecutiveFailures > 0
+            ? Math.floor(raw.consecutiveFailures)
+            : 0,
+      });
+    }
+  }
+
+  const tokenBuckets: PersistedTokenBucketEntryV1[] = [];
+  if (Array.isArray(data.tokenBuckets)) {
+    for (const raw of data.tokenBuckets) {
+      if (!isRecord(raw) || typeof raw.account !== "string" || !raw.account) continue;
+      if (!isFiniteNumber(raw.tokens) || !isFiniteNumber(raw.lastRefill)) continue;
+      tokenBuckets.push({
+        account: raw.account,
+        quotaKey: normalizeQuotaKey(raw.quotaKey),
+        tokens: raw.tokens,
+        lastRefill: raw.lastRefill,
+      });
+    }
+  }
+
+  const tokenBucketCalibrations: PersistedTokenBucketCalibrationV1[] = [];
+  if (Array.isArray(data.tokenBucketCalibrations)) {
+    for (const raw of data.tokenBucketCalibrations) {
+      if (!isRecord(raw) || typeof raw.account !== "string" || !raw.account) continue;
+      if (!isFiniteNumber(raw.maxTokens) || raw.maxTokens <= 0) continue;
+      if (!isFiniteNumber(raw.tokensPerMinute) || raw.tokensPerMinute <= 0) continue;
+      tokenBucketCalibrations.push({
+        account: raw.account,
+        quotaKey: normalizeQuotaKey(raw.quotaKey),
+        maxTokens: raw.maxTokens,
+        tokensPerMinute: raw.tokensPerMinute,
+        samples: isFiniteNumber(raw.samples) && raw.samples > 0 ? Math.floor(raw.samples) : 0,
+        updatedAt: isFiniteNumber(raw.updatedAt) ? raw.updatedAt : 0,
+      });
+    }
+  }
+
+  return {
+    version: 1,
+    savedAt: isFiniteNumber(data.savedAt) ? data.savedAt : 0,
+    health,
+    tokenBuckets,
+    tokenBucketCalibrations,
+  };
+}
+
+async function saveRotationStateUnlocked(storage: RotationStateStorageV1): Promise<void> {
+  const path = getRotationStatePath();
+  const uniqueSuffix = `${Date.now()}.${Math.random().toString(36).slice(2, 8)}`;
+  const tempPath = `${path}.${uniqueSuffix}.tmp`;
+
+  try {
+    await fs.mkdir(dirname(path), { recursive: true });
+    const content = JSON.stringify(storage, null, 2);
+    await fs.writeFile(tempPath, content, { encoding: "utf-8", mode: 0o600 });
+    await renameWithWindowsRetry(tempPath, path);
+  } catch (error) {
+    try {
+      await fs.unlink(tempPath);
+    } catch {
+      // Ignore cleanup failures.
+    }
+    log.error("Failed to save rotation state", { path, error: String(error) });
+    throw error;
+  }
+}
+
+/**
+ * Loads the rotation-state sidecar. Missing, unreadable, or malformed files
+ * resolve to `null` so callers can simply start with fresh trackers.
+ */
+export async function loadRotationState(): Promise<RotationStateStorageV1 | null> {
+  return withStorageLock(async () => {
+    const path = getRotationStatePath();
+    try {
+      const content = await fs.readFile(path, "utf-8");
+      return normalizeRotationState(JSON.parse(content) as unknown);
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      if (code !== "ENOENT") {
+        log.warn("Failed to load rotation state", { path, error: String(error) });
+      }
+      return null;
+    }
+  });
+}
+
+export async function saveRotationState(storage: RotationStateStorageV1): Promise<void> {
+  return withStorageLock(async () => {
+    await saveRotationStateUnlocked(storage);
+  });
+}
+
+export async function clearRotationState(): Promise<void> {
+  return withStorageLock(async () => {
+    try {
+      await fs.unlink(getRotationStatePath());
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      if (code !== "ENOENT") {
+        log.error("Failed to clear rotation state", { error: String(error) });
+      }
+    }
+  });
+}
@@ -86,7 +86,7 @@ function lockPath(storagePath: string): string {
  * Intentionally synchronous: `process.kill` is non-blocking and making this
  * async buys nothing while incurring a useless microtask per lock check.
  */
-function processAlive(pid: number, hostname: string): boolean {
+export function processAlive(pid: number, hostname: string): boolean {
 	if (hostname !== os.hostname()) {
 		return true;
 	}
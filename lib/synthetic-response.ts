@@ -0,0 +1,114 @@
+/**
+ * Plugin-generated replies in the Responses API shape.
+ *
+ * When the plugin answers a request itself (context overflow, an exhausted
+ * retry budget, a plan without Codex access) it returns a 200 whose body is
+ * an ordinary assistant turn carrying the notice, so the host shows the text
+ * instead of locking the session on an error status. Streaming callers get
+ * the event sequence the backend sends for a one-message turn, ending in
+ * `response.completed`; non-streaming callers get the final response object,
+ * the same thing `convertSseToJson` extracts from a real stream.
+ */
+
+export const SYNTHETIC_RESPONSE_HEADER = "X-Codex-Plugin-Synthetic";
+export const SYNTHETIC_ERROR_TYPE_HEADER = "X-Codex-Plugin-Error-Type";
+
+export interface SyntheticResponseOptions {
+	model?: string;
+	/** SSE events (default) or a single JSON response object */
+	stream?: boolean;
+	/** Reported in `X-Codex-Plugin-Error-Type`, e.g. `context_overflow` */
+	errorType?: string;
+}
+
+type ResponseStatus = "in_progress" | "completed";
+
+function buildMessageItem(id: string, text: string | null, status: ResponseStatus) {
+	return {
+		id,
+		type: "message",
+		status,
+		role: "assistant",
+		content: text === null ? [] : [{ type: "output_text", text, annotations: [] }],
+	};
+}
+
+function buildResponseObject(
+	ids: { response: string; message: string; createdAt: number },
+	model: string,
+	text: string | null,
+	status: ResponseStatus,
+) {
+	return {
+		id: ids.response,
+		object: "response",
+		created_at: ids.createdAt,
+		status,
+		model,
+		output: text === null ? [] : [buildMessageItem(ids.message, text, status)],
+		usage: { input_tokens: 0, output_tokens: 0, total_tokens: 0 },
+	};
+}
+
+function createIds() {
+	const now = Date.now();
+	return {
+		response: `resp_synthetic_${now}`,
+		message: `msg_synthetic_${now}`,
+		createdAt: Math.floor(now / 1000),
+	};
+}
+
+/** The completed response object for `text`, as a non-streaming caller sees it. */
+export function buildSyntheticResponseObject(text: string, model = "unknown") {
+	return buildResponseObject(createIds(), model, text, "completed");
+}
+
+/** SSE text for a single assistant message carrying `text`. */
+export function buildSyntheticResponseEvents(text: string, model = "unknown"): string {
+	const ids = createIds();
+	const part = { item_id: ids.message, output_index: 0, content_index: 0 };
+	const events: Array<Record<string, unknown>> = [
+		{ type: "response.created", response: buildResponseObject(ids, model, null, "in_progress") },
+		{ type: "response.output_item.added", output_index: 0, item: buildMessageItem(ids.message, null, "in_progress") },
+		{ type: "response.content_part.added", ...part, part: { type: "output_text", text: "", annotations: [] } },
+		{ type: "response.output_text.delta", ...part, delta: text },
+		{ type: "response.output_text.done", ...part, text },
+		{ type: "response.content_part.done", ...part, part: { type: "output_text", text, annotations: [] } },
+		{ type: "response.output_item.done", output_index: 0, item: buildMessageItem(ids.message, text, "completed") },
+		{ type: "response.completed", response: buildResponseObject(ids, model, text, "completed") },
+	];
+	return events
+		.map((event, index) => {
+			const data = { ...event, sequence_number: index };
+			return `event: ${String(event.type)}\ndata: ${JSON.stringify(data)}\n\n`;
+		})
+		.join("");
+}
+
+/**
+ * A 200 response answering the request with `text` as the assistant's
+ * reply, marked with {@link SYNTHETIC_RESPONSE_HEADER}.
+ */
+export function createSyntheticResponse(
+	text: string,
+	options: SyntheticResponseOptions = {},
+): Response {
+	const model = options.model ?? "unknown";
+	const stream = options.stream ?? true;
+	const headers: Record<string, string> = {
+		"Content-Type": stream ? "text/event-stream" : "application/json; charset=utf-8",
+		[SYNTHETIC_RESPONSE_HEADER]: "true",
+	};
+	if (options.errorType) {
+		headers[SYNTHETIC_ERROR_TYPE_HEADER] = options.errorType;
+	}
+	const body = stream
+		? buildSyntheticResponseEvents(text, model)
+		: JSON.stringify(buildSyntheticResponseObject(text, model));
+	return new Response(body, { status: 200, headers });
+}
+
+export function isSyntheticResponse(response: Response): boolean {
+	return response.headers.get(SYNTHETIC_RESPONSE_HEADER) === "true";
+}
@@ -0,0 +1,193 @@
+/**
+ * `codex-breakers` tool — per-account circuit breaker state and manual reset.
+ */
+
+import { tool, type ToolDefinition } from "@opencode-ai/plugin/tool";
+import { AccountManager, formatWaitTime } from "../accounts.js";
+import {
+	getCircuitBreakerConfig,
+	getCircuitBreakerDetails,
+	resetAllCircuitBreakers,
+	resetCircuitBreaker,
+	type CircuitBreakerDetails,
+	type CircuitState,
+} from "../circuit-breaker.js";
+import {
+	formatUiHeader,
+	formatUiItem,
+	formatUiKeyValue,
+	type UiTextTone,
+} from "../ui/format.js";
+import { normalizeToolOutputFormat, renderJsonOutput } from "../runtime.js";
+import type { ToolContext } from "./index.js";
+
+/** Breaker keys are `<accountId>:<modelFamily>`; see the request pipeline. */
+function splitBreakerKey(key: string): { accountId: string; family: string } {
+	const separator = key.lastIndexOf(":");
+	if (separator === -1) return { accountId: key, family: "" };
+	return { accountId: key.slice(0, separator), family: key.slice(separator + 1) };
+}
+
+function describeState(breaker: CircuitBreakerDetails): string {
+	if (breaker.state !== "open") return breaker.state;
+	return breaker.timeUntilHalfOpenMs > 0
+		? `open, half-open in ${formatWaitTime(breaker.timeUntilHalfOpenMs)}`
+		: "open, probe allowed on next request";
+}
+
+function stateTone(state: CircuitState): UiTextTone {
+	if (state === "open") return "danger";
+	if (state === "half-open") return "warning";
+	return "success";
+}
+
+export function createCodexBreakersTool(ctx: ToolContext): ToolDefinition {
+	const {
+		resolveUiRuntime,
+		formatCommandAccountLabel,
+		buildJsonAccountIdentity,
+		cachedAccountManagerRef,
+	} = ctx;
+	return tool({
+		description:
+			"List the per-account circuit breakers (state, recent failures, time until a half-open probe) and optionally reset them without restarting OpenCode.",
+		args: {
+			reset: tool.schema
+				.string()
+				.optional()
+				.describe(
+					'Reset breakers before listing: "all", an account number (resets every model family for that account), or a breaker key (listed with includeSensitive).',
+				),
+			format: tool.schema
+				.string()
+				.optional()
+				.describe('Output format: "text" (default) or "json".'),
+			includeSensitive: tool.schema
+				.boolean()
+				.optional()
+				.describe(
+					"Include breaker keys (which contain account IDs) in the listing and raw account identity in JSON output. Defaults to false.",
+				),
+		},
+		async execute({
+			reset,
+			format,
+			includeSensitive,
+		}: {
+			reset?: string;
+			format?: string;
+			includeSensitive?: boolean;
+		}) {
+			const ui = resolveUiRuntime();
+			const outputFormat = normalizeToolOutputFormat(format);
+			const manager =
+				cachedAccountManagerRef.current ?? (await AccountManager.loadFromDisk());
+			const accounts = manager.getAccountsSnapshot();
+			const findAccount = (accountId: string) =>
+				accounts.find((account) => account.accountId === accountId);
+
+			let resetMessage: string | null = null;
+			const resetTarget = reset?.trim();
+			if (resetTarget) {
+				const before = getCircuitBreakerDetails();
+				if (resetTarget.toLowerCase() === "all") {
+					resetAllCircuitBreakers();
+					resetMessage = `Reset ${before.length} circuit breaker${before.length === 1 ? "" : "s"}.`;
+				} else if (/^\d+$/.test(resetTarget)) {
+					const account = accounts[Number.parseInt(resetTarget, 10) - 1];
+					if (!account) {
+						return `Invalid account number: ${resetTarget}\n\nValid range: 1-${accounts.length}`;
+					}
+					const keys = before
+						.map((breaker) => breaker.key)
+						.filter((key) => splitBreakerKey(key).accountId === account.accountId);
+					for (const key of keys) resetCircuitBreaker(key);
+					resetMessage = `Reset ${keys.length} circuit breaker${keys.length === 1 ? "" : "s"} for ${formatCommandAccountLabel(account, account.index)}.`;
+				} else if (resetCircuitBreaker(resetTarget)) {
+					resetMessage = `Reset circuit breaker ${resetTarget}.`;
+				} else {
+					return `No circuit breaker with key: ${resetTarget}\n\nUse "all", an account number, or a key from codex-breakers.`;
+				}
+			}
+
+			const config = getCircuitBreakerConfig();
+			const breakers = getCircuitBreakerDetails();
+			const now = Date.now();
+			const rows = breakers.map((breaker) => {
+				const { accountId, family } = splitBreakerKey(breaker.key);
+				const account = findAccount(accountId);
+				const label = account
+					? formatCommandAccountLabel(account, account.index)
+					: "Unknown account";
+				return { breaker, family, account, label };
+			});
+
+			if (outputFormat === "json") {
+				return renderJsonOutput({
+					...(resetMessage ? { reset: resetMessage } : {}),
+					config,
+					breakers: rows.map(({ breaker, family, account, label }) => ({
+						...(includeSensitive === true ? { key: breaker.key } : {}),
+						account: account
+							? buildJsonAccountIdentity(account.index, {
+									includeSensitive: includeSensitive === true,
+									account,
+									label,
+								})
+							: null,
+						family,
+						state: breaker.state,
+						failureTimestamps: breaker.failureTimestamps,
+						failureCount: breaker.failureTimestamps.length,
+						timeUntilHalfOpenMs: breaker.timeUntilHalfOpenMs,
+						lastStateChange: breaker.lastStateChange,
+					})),
+				});
+			}
+
+			const thresholds =
+				`${config.failureThreshold} failures in ${formatWaitTime(config.failureWindowMs)}, ` +
+				`half-open after ${formatWaitTime(config.resetTimeoutMs)}, ` +
+				`${config.halfOpenMaxAttempts} probe${config.halfOpenMaxAttempts === 1 ? "" : "s"}`;
+			const describeFailures = (breaker: CircuitBreakerDetails): string => {
+				const latest = breaker.failureTimestamps[breaker.failureTimestamps.length - 1];
+				if (latest === undefined) return "no recent failures";
+				return `${breaker.failureTimestamps.length} recent failure${breaker.failureTimestamps.length === 1 ? "" : "s"}, last ${formatWaitTime(now - latest)} ago`;
+			};
+
+			if (ui.v2Enabled) {
+				const lines = [
+					...formatUiHeader(ui, "Circuit breakers"),
+					formatUiKeyValue(ui, "Thresholds", thresholds, "muted"),
+				];
+				if (resetMessage) lines.push(formatUiItem(ui, resetMessage, "success"));
+				lines.push("");
+				if (rows.length === 0) {
+					lines.push(formatUiItem(ui, "No circuit breakers yet. They are created on the first request per account and model family.", "muted"));
+				}
+				for (const { breaker, family, label } of rows) {
+					lines.push(
+						formatUiItem(ui, `${label} · ${family}: ${describeState(breaker)}`, stateTone(breaker.state)),
+					);
+					if (includeSensitive === true) {
+						lines.push(`  ${formatUiKeyValue(ui, "Key", breaker.key, "muted")}`);
+					}
+					lines.push(`  ${formatUiKeyValue(ui, "Failures", describeFailures(breaker), "muted")}`);
+				}
+				return lines.join("\n");
+			}
+
+			const lines = [`Circuit breakers (${thresholds}):`, ""];
+			if (resetMessage) lines.unshift(resetMessage, "");
+			if (rows.length === 0) {
+				lines.push("No circuit breakers yet. They are created on the first request per account and model family.");
+			}
+			for (const { breaker, family, label } of rows) {
+				lines.push(`${label} · ${family}: ${describeState(breaker)}`);
+				if (includeSensitive === true) lines.push(`  key: ${breaker.key}`);
+				lines.push(`  ${describeFailures(breaker)}`);
+			}
+			return lines.join("\n");
+		},
+	});
+}
@@ -7,6 +7,15 @@ import { tool, type ToolDefinition } from "@opencode-ai/plugin/tool";
 import { loadAccounts } from "../storage.js";
 import { AccountManager } from "../accounts.js";
 import { getRefreshQueueMetrics } from "../refresh-queue.js";
+import {
+	formatConcurrencyStats,
+	getAccountConcurrencyLimiter,
+} from "../account-concurrency.js";
+import {
+	formatProactiveRefreshStats,
+	getProactiveRefreshScheduler,
+} from "../proactive-refresh.js";
+import { formatQuotaForecast, getQuotaForecastTracker } from "../quota-forecast.js";
 import { recommendBeginnerNextAction } from "../ui/beginner.js";
 import {
 	formatUiBadge,
@@ -96,6 +105,10 @@ export function createCodexDashboardTool(ctx: ToolContext): ToolDefinition {
 
 			const now = Date.now();
 			const refreshMetrics = getRefreshQueueMetrics();
+			const concurrencyStats = getAccountConcurrencyLimiter().getStats();
+			const concurrencyText = formatConcurrencyStats(concurrencyStats);
+			const proactiveRefreshStats = getProactiveRefreshScheduler()?.getStats() ?? null;
+			const proactiveRefreshText = formatProactiveRefreshStats(proactiveRefreshStats, now);
 			const family = runtimeMetrics.lastSelectionSnapshot?.family ?? "codex";
 			const model =
 				runtimeMetrics.lastSelectionSnapshot?.effectiveModel ??
@@ -109,6 +122,14 @@ export function createCodexDashboardTool(ctx: ToolContext): ToolDefinition {
 				now,
 			);
 			const selectionLabel = model ? `${family}:${model}` : family;
+			const forecastTracker = getQuotaForecastTracker();
+			const quotaForecasts = storage.accounts
+				.map((account, index) => ({
+					account,
+					index,
+					forecasts: forecastTracker.getForecast(index, now),
+				}))
+				.filter((entry) => entry.forecasts.length > 0);
 			const routingVisibility = buildRoutingVisibilitySnapshot({
 				modelFamily: family,
 				effectiveModel: model ?? null,
@@ -133,6 +154,8 @@ export function createCodexDashboardTool(ctx: ToolContext): ToolDefinition {
 					beginnerSafeMode: beginnerSafeModeEnabled,
 					retryBudgetUsage: { ...runtimeMetrics.retryBudgetUsage },
 					refreshQueue: { ...refreshMetrics },
+					concurrency: concurrencyStats,
+					proactiveRefresh: proactiveRefreshStats,
 					routingVisibility,
 					accountEligibility: explainability.map((entry) => ({
 						...buildJsonAccountIdentity(entry.index, {
@@ -142,8 +165,23 @@ export function createCodexDashboardTool(ctx: ToolContext): ToolDefinition {
 						eligible: entry.eligible,
 						healthScore: entry.healthScore,
 						tokensAvailable: entry.tokensAvailable,
+						inFlight: entry.inFlight,
 						reasons: [...entry.reasons],
 					})),
+					quotaForecast: quotaForecasts.map(({ account, index, forecasts }) => ({
+						...buildJsonAccountIdentity(index, {
+							includeSensitive: includeSensitiveOutput,
+							account,
+						}),
+						windows: forecasts.map((forecast) => ({
+							window: forecast.window,
+							usedPercent: forecast.usedPercent,
+							percentPerHour: forecast.percentPerHour,
+							exhaustsAt: forecast.exhaustsAt ?? null,
+							resetAtMs: forecast.resetAtMs ?? null,
+						})),
+					})),
+					quotaForecastHorizonMs: forecastTracker.horizonMs,
 					recommendedNextAction,
 					lastError:
 						runtimeMetrics.lastError === null
@@ -184,6 +222,18 @@ export function createCodexDashboardTool(ctx: ToolContext): ToolDefinition {
 						`pending=${refreshMetrics.pending}, success=${refreshMetrics.succeeded}, failed=${refreshMetrics.failed}`,
 						"muted",
 					),
+					formatUiKeyValue(
+						ui,
+						"In-flight limit",
+						concurrencyText,
+						concurrencyStats.queueDepth > 0 ? "warning" : "muted",
+					),
+					formatUiKeyValue(
+						ui,
+						"Background refresh",
+						proactiveRefreshText,
+						(proactiveRefreshStats?.lastRun?.failed ?? 0) > 0 ? "warning" : "muted",
+					),
 					"",
 				];
 				appendRoutingVisibilityUi(ui, lines, routingVisibility);
@@ -206,6 +256,27 @@ export function createCodexDashboardTool(ctx: ToolContext): ToolDefinition {
 					);
 				}
 
+				lines.push("");
+				lines.push(...formatUiSection(ui, "Quota forecast"));
+				if (quotaForecasts.length === 0) {
+					lines.push(formatUiItem(ui, "No recent usage readings yet.", "muted"));
+				}
+				for (const { account, index, forecasts } of quotaForecasts) {
+					const label = formatCommandAccountLabel(account, index);
+					const exhausting = forecasts.some(
+						(forecast) =>
+							typeof forecast.exhaustsAt === "number" &&
+							forecast.exhaustsAt - now <= forecastTracker.horizonMs,
+					);
+					lines.push(
+						formatUiItem(
+							ui,
+							`${label}: ${forecasts.map((forecast) => formatQuotaForecast(forecast, now)).join("; ")}`,
+							exhausting ? "warning" : "normal",
+						),
+					);
+				}
+
 				lines.push("");
 				lines.push(...formatUiSection(ui, "Recommended next step"));
 				lines.push(formatUiItem(ui, recommendedNextAction, "accent"));
@@ -239,6 +310,8 @@ export function createCodexDashboardTool(ctx: ToolContext): ToolDefinition {
 				`Beginner safe mode: ${beginnerSafeModeEnabled ? "on" : "off"}`,
 				`Retry usage: auth=${runtimeMetrics.retryBudgetUsage.authRefresh}, network=${runtimeMetrics.retryBudgetUsage.network}, server=${runtimeMetrics.retryBudgetUsage.server}, short429=${runtimeMetrics.retryBudgetUsage.rateLimitShort}, global429=${runtimeMetrics.retryBudgetUsage.rateLimitGlobal}, empty=${runtimeMetrics.retryBudgetUsage.emptyResponse}`,
 				`Refresh queue: pending=${refreshMetrics.pending}, success=${refreshMetrics.succeeded}, failed=${refreshMetrics.failed}`,
+				`In-flight limit: ${concurrencyText}`,
+				`Background refresh: ${proactiveRefreshText}`,
 			];
 			lines.push("");
 			appendRoutingVisibilityText(lines, routingVisibility);
@@ -255,6 +328,18 @@ export function createCodexDashboardTool(ctx: ToolContext): ToolDefinition {
 				);
 			}
 
+			lines.push("");
+			lines.push("Quota forecast:");
+			if (quotaForecasts.length === 0) {
+				lines.push("  - no recent usage readings yet");
+			}
+			for (const { account, index, forecasts } of quotaForecasts) {
+				const label = formatCommandAccountLabel(account, index);
+				lines.push(
+					`  - ${label}: ${forecasts.map((forecast) => formatQuotaForecast(forecast, now)).join("; ")}`,
+				);
+			}
+
 			lines.push("");
 			lines.push(`Recommended next step: ${recommendedNextAction}`);
 
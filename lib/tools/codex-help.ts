@@ -51,6 +51,7 @@ export function createCodexHelpTool(ctx: ToolContext): ToolDefinition {
 						"Set account label: codex-label index=2 label=\"Work\"",
 						"Set account tags: codex-tag index=2 tags=\"work,team-a\"",
 						"Set account note: codex-note index=2 note=\"weekday primary\"",
+						"Set routing tier: codex-priority index=2 priority=10 (reserve=true for standby)",
 						"Filter by tag: codex-list tag=\"work\"",
 						"Remove account: codex-remove index=2 confirm=true",
 					],
@@ -74,6 +75,9 @@ export function createCodexHelpTool(ctx: ToolContext): ToolDefinition {
 						"Live dashboard: codex-dashboard",
 						"Runtime metrics: codex-metrics",
 						"Per-account status detail: codex-status",
+						"Preview routing for a model: codex-route model=\"gpt-5.4\"",
+						"Quota usage trend: codex-usage-history range=\"7d\"",
+						"Circuit breakers: codex-breakers (reset=\"all\" to clear)",
 					],
 				},
 				{
@@ -4,7 +4,7 @@
  */
 
 import { tool, type ToolDefinition } from "@opencode-ai/plugin/tool";
-import { loadAccounts } from "../storage.js";
+import { appendQuotaHistory, loadAccounts } from "../storage.js";
 import {
 	deduplicateUsageAccountIndices,
 	ensureCodexUsageAccessToken,
@@ -16,6 +16,12 @@ import {
 	resolveCodexUsageAccountId,
 } from "../codex-usage.js";
 import { PLUGIN_NAME } from "../constants.js";
+import {
+	formatCreditsStatus,
+	getCreditsTracker,
+	normalizeUsageCredits,
+} from "../credits.js";
+import { formatQuotaForecast, getQuotaForecastTracker } from "../quota-forecast.js";
 import { logWarn } from "../logger.js";
 import {
 	formatUiBadge,
@@ -36,7 +42,7 @@ export function createCodexLimitsTool(ctx: ToolContext): ToolDefinition {
 	} = ctx;
 	return tool({
 		description:
-			"Show live 5-hour and weekly Codex usage limits for all accounts.",
+			"Show live 5-hour and weekly Codex usage limits for all accounts, with a time-to-exhaustion forecast at the recent pace.",
 		args: {
 			format: tool.schema
 				.string()
@@ -150,6 +156,25 @@ export function createCodexLimitsTool(ctx: ToolContext): ToolDefinition {
 						organizationId: effectiveAccount.organizationId,
 					});
 					const usage = parseCodexUsagePayload(payload);
+					await appendQuotaHistory(effectiveAccount, {
+						fetchedAt: Date.now(),
+						source: "usage",
+						planType: usage.planType,
+						limits: [usage.primary, usage.secondary],
+					});
+					const forecastTracker = getQuotaForecastTracker();
+					forecastTracker.record(i, [usage.primary, usage.secondary]);
+					const forecasts = forecastTracker.getForecast(i);
+					const creditsTracker = getCreditsTracker();
+					const credits = normalizeUsageCredits(payload.credits);
+					creditsTracker.record(i, credits);
+					const creditFloor = effectiveAccount.creditFloor ?? creditsTracker.floor;
+					// Accounts without credits only get a line when credits-aware
+					// routing would act on it.
+					const creditsSummary =
+						credits && (usage.credits || creditsTracker.enabled)
+							? formatCreditsStatus(credits, creditFloor)
+							: null;
 					jsonAccounts.push({
 						...buildJsonAccountIdentity(displayIndex, {
 							includeSensitive: includeSensitiveOutput,
@@ -160,7 +185,23 @@ export function createCodexLimitsTool(ctx: ToolContext): ToolDefinition {
 						sharesActiveCredential,
 						planType: usage.planType,
 						credits: usage.credits,
+						creditStatus: credits
+							? {
+									hasCredits: credits.hasCredits,
+									unlimited: credits.unlimited,
+									balance: credits.balance ?? null,
+									floor: creditFloor,
+									spendable: creditsTracker.hasSpendableCredits(i, creditFloor),
+								}
+							: null,
 						limits: usage.limits,
+						forecast: forecasts.map((forecast) => ({
+							window: forecast.window,
+							usedPercent: forecast.usedPercent,
+							percentPerHour: forecast.percentPerHour,
+							exhaustsAt: forecast.exhaustsAt ?? null,
+							resetAtMs: forecast.resetAtMs ?? null,
+						})),
 					});
 
 					if (ui.v2Enabled) {
@@ -186,9 +227,14 @@ export function createCodexLimitsTool(ctx: ToolContext): ToolDefinition {
 								`  ${formatUiKeyValue(ui, "Plan", usage.planType, "muted")}`,
 							);
 						}
-						if (usage.credits) {
+						if (creditsSummary) {
 							lines.push(
-								`  ${formatUiKeyValue(ui, "Credits", usage.credits, "muted")}`,
+								`  ${formatUiKeyValue(ui, "Credits", creditsSummary, "muted")}`,
+							);
+						}
+						for (const forecast of forecasts) {
+							lines.push(
+								`  ${formatUiKeyValue(ui, "Forecast", formatQuotaForecast(forecast), typeof forecast.exhaustsAt === "number" ? "warning" : "muted")}`,
 							);
 						}
 					} else {
@@ -212,8 +258,11 @@ export function createCodexLimitsTool(ctx: ToolContext): ToolDefinition {
 						if (usage.planType) {
 							lines.push(`  Plan: ${usage.planType}`);
 						}
-						if (usage.credits) {
-							lines.push(`  Credits: ${usage.credits}`);
+						if (creditsSummary) {
+							lines.push(`  Credits: ${creditsSummary}`);
+						}
+						for (const forecast of forecasts) {
+							lines.push(`  Forecast: ${formatQuotaForecast(forecast)}`);
 						}
 					}
 				} catch (error) {
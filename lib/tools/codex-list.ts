@@ -5,7 +5,7 @@
 
 import { tool, type ToolDefinition } from "@opencode-ai/plugin/tool";
 import { getStoragePath, loadAccounts } from "../storage.js";
-import { formatCooldown } from "../accounts.js";
+import { formatAvailability, formatCooldown } from "../accounts.js";
 import { buildTableHeader, buildTableRow, type TableOptions } from "../table-formatter.js";
 import {
 	formatUiBadge,
@@ -71,6 +71,7 @@ export function createCodexListTool(ctx: ToolContext): ToolDefinition {
 				"codex-label",
 				"codex-tag",
 				"codex-note",
+				"codex-priority",
 				"codex-help",
 			];
 
@@ -163,11 +164,13 @@ export function createCodexListTool(ctx: ToolContext): ToolDefinition {
 					accounts: filteredEntries.map(({ account, index }) => {
 						const rateLimit = formatRateLimitEntry(account, now);
 						const cooldown = formatCooldown(account, now);
+						const nextAvailable = formatAvailability(account, now);
 						const statuses: string[] = [];
 						if (index === activeIndex) statuses.push("active");
 						if (account.enabled === false) statuses.push("disabled");
 						if (rateLimit) statuses.push("rate-limited");
 						if (cooldown) statuses.push("cooldown");
+						if (nextAvailable) statuses.push("off-schedule");
 						if (statuses.length === 0) statuses.push("ok");
 						return {
 							...buildJsonAccountIdentity(index, {
@@ -182,6 +185,8 @@ export function createCodexListTool(ctx: ToolContext): ToolDefinition {
 								? [...account.accountTags]
 								: [],
 							note: account.accountNote ?? null,
+							availability: account.availability ?? null,
+							nextAvailable,
 							statuses,
 						};
 					}),
@@ -216,6 +221,9 @@ export function createCodexListTool(ctx: ToolContext): ToolDefinition {
 					) {
 						badges.push(formatUiBadge(ui, "cooldown", "warning"));
 					}
+					const nextAvailable = formatAvailability(account, now);
+					if (nextAvailable)
+						badges.push(formatUiBadge(ui, "off-schedule", "warning"));
 					if (badges.length === 0) {
 						badges.push(formatUiBadge(ui, "ok", "success"));
 					}
@@ -228,6 +236,11 @@ export function createCodexListTool(ctx: ToolContext): ToolDefinition {
 							`  ${paintUiText(ui, `rate limit: ${rateLimit}`, "muted")}`,
 						);
 					}
+					if (nextAvailable) {
+						lines.push(
+							`  ${paintUiText(ui, `next available: ${nextAvailable}`, "muted")}`,
+						);
+					}
 				});
 
 				lines.push("");
@@ -280,6 +293,7 @@ export function createCodexListTool(ctx: ToolContext): ToolDefinition {
 				"",
 				...buildTableHeader(listTableOptions),
 			];
+			const offScheduleLines: string[] = [];
 
 			filteredEntries.forEach(({ account, index }) => {
 				const label = formatCommandAccountLabel(account, index);
@@ -293,6 +307,11 @@ export function createCodexListTool(ctx: ToolContext): ToolDefinition {
 				) {
 					statuses.push("cooldown");
 				}
+				const nextAvailable = formatAvailability(account, now);
+				if (nextAvailable) {
+					statuses.push("off-schedule");
+					offScheduleLines.push(`  Account ${index + 1}: ${nextAvailable}`);
+				}
 				const statusText =
 					statuses.length > 0 ? statuses.join(", ") : "ok";
 				lines.push(
@@ -303,6 +322,12 @@ export function createCodexListTool(ctx: ToolContext): ToolDefinition {
 				);
 			});
 
+			if (offScheduleLines.length > 0) {
+				lines.push("");
+				lines.push("Next availability (off-schedule accounts):");
+				lines.push(...offScheduleLines);
+			}
+
 			lines.push("");
 			lines.push(`Storage: ${storePath}`);
 			if (normalizedTag) {
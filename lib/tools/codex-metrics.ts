@@ -4,15 +4,45 @@
  */
 
 import { tool, type ToolDefinition } from "@opencode-ai/plugin/tool";
+import {
+	formatConcurrencyStats,
+	getAccountConcurrencyLimiter,
+} from "../account-concurrency.js";
 import { formatWaitTime } from "../accounts.js";
 import { getRefreshQueueMetrics } from "../refresh-queue.js";
+import { getSessionAffinityTracker } from "../session-affinity.js";
+import {
+	formatTokenCalibrationStats,
+	getTokenEstimateCalibration,
+} from "../request/token-estimator.js";
 import {
 	formatUiHeader,
 	formatUiKeyValue,
 } from "../ui/format.js";
-import { normalizeToolOutputFormat, renderJsonOutput } from "../runtime.js";
+import {
+	normalizeToolOutputFormat,
+	renderJsonOutput,
+	type RuntimeMetrics,
+} from "../runtime.js";
 import type { ToolContext } from "./index.js";
 
+/**
+ * `off`, or `>32768 bytes: 12 outputs in 5 requests, 1048576 bytes saved
+ * (last request 40960)`.
+ */
+function formatToolOutputClipping(metrics: RuntimeMetrics): string {
+	if (metrics.toolOutputClipMaxBytes <= 0) return "off";
+	return (
+		`>${metrics.toolOutputClipMaxBytes} bytes: ` +
+		`${metrics.toolOutputClippedOutputs} output${metrics.toolOutputClippedOutputs === 1 ? "" : "s"} ` +
+		`in ${metrics.toolOutputClippedRequests} request${metrics.toolOutputClippedRequests === 1 ? "" : "s"}, ` +
+		`${metrics.toolOutputBytesSaved} bytes saved` +
+		(metrics.lastToolOutputBytesSaved !== null
+			? ` (last request ${metrics.lastToolOutputBytesSaved})`
+			: "")
+	);
+}
+
 export function createCodexMetricsTool(ctx: ToolContext): ToolDefinition {
 	const {
 		resolveUiRuntime,
@@ -38,6 +68,15 @@ export function createCodexMetricsTool(ctx: ToolContext): ToolDefinition {
 			const total = runtimeMetrics.totalRequests;
 			const successful = runtimeMetrics.successfulRequests;
 			const refreshMetrics = getRefreshQueueMetrics();
+			const affinityStats = getSessionAffinityTracker().getStats(now);
+			const affinityText = affinityStats.enabled
+				? `hits=${affinityStats.hits} misses=${affinityStats.misses} sessions=${affinityStats.activeSessions}`
+				: "off";
+			const concurrencyStats = getAccountConcurrencyLimiter().getStats();
+			const concurrencyText = formatConcurrencyStats(concurrencyStats);
+			const tokenEstimateStats = getTokenEstimateCalibration().getStats();
+			const tokenEstimateText = formatTokenCalibrationStats(tokenEstimateStats);
+			const toolOutputClippingText = formatToolOutputClipping(runtimeMetrics);
 			const successRate =
 				total > 0 ? ((successful / total) * 100).toFixed(1) : "0.0";
 			const avgLatencyMs =
@@ -64,6 +103,16 @@ export function createCodexMetricsTool(ctx: ToolContext): ToolDefinition {
 						networkErrors: runtimeMetrics.networkErrors,
 						authRefreshFailures: runtimeMetrics.authRefreshFailures,
 						accountRotations: runtimeMetrics.accountRotations,
+						parallelProbes: {
+							races: runtimeMetrics.parallelProbeRaces,
+							wins: runtimeMetrics.parallelProbeWins,
+							cancelled: runtimeMetrics.parallelProbeCancelled,
+						},
+						hedgedRequests: {
+							sent: runtimeMetrics.hedgedRequests,
+							wins: runtimeMetrics.hedgeWins,
+							cancelled: runtimeMetrics.hedgeCancelled,
+						},
 						emptyResponseRetries: runtimeMetrics.emptyResponseRetries,
 						retryProfile: runtimeMetrics.retryProfile,
 						beginnerSafeMode: beginnerSafeModeEnabled,
@@ -71,6 +120,16 @@ export function createCodexMetricsTool(ctx: ToolContext): ToolDefinition {
 						retryBudgetUsage: { ...runtimeMetrics.retryBudgetUsage },
 						retryBudgetLimits: { ...runtimeMetrics.retryBudgetLimits },
 						refreshQueue: { ...refreshMetrics },
+						sessionAffinity: { ...affinityStats },
+						concurrency: concurrencyStats,
+						tokenEstimates: tokenEstimateStats,
+						toolOutputClipping: {
+							maxBytes: runtimeMetrics.toolOutputClipMaxBytes,
+							clippedRequests: runtimeMetrics.toolOutputClippedRequests,
+							clippedOutputs: runtimeMetrics.toolOutputClippedOutputs,
+							bytesSaved: runtimeMetrics.toolOutputBytesSaved,
+							lastRequestBytesSaved: runtimeMetrics.lastToolOutputBytesSaved,
+						},
 						lastRequestAt: runtimeMetrics.lastRequestAt,
 						lastRequestAgeMs:
 							runtimeMetrics.lastRequestAt !== null
@@ -110,6 +169,14 @@ export function createCodexMetricsTool(ctx: ToolContext): ToolDefinition {
 				`Network errors: ${runtimeMetrics.networkErrors}`,
 				`Auth refresh failures: ${runtimeMetrics.authRefreshFailures}`,
 				`Account rotations: ${runtimeMetrics.accountRotations}`,
+				`Parallel probes (races/wins/cancelled): ` +
+					`${runtimeMetrics.parallelProbeRaces}/` +
+					`${runtimeMetrics.parallelProbeWins}/` +
+					`${runtimeMetrics.parallelProbeCancelled}`,
+				`Hedged requests (sent/wins/cancelled): ` +
+					`${runtimeMetrics.hedgedRequests}/` +
+					`${runtimeMetrics.hedgeWins}/` +
+					`${runtimeMetrics.hedgeCancelled}`,
 				`Empty-response retries: ${runtimeMetrics.emptyResponseRetries}`,
 				`Retry profile: ${runtimeMetrics.retryProfile}`,
 				`Beginner safe mode: ${beginnerSafeModeEnabled ? "on" : "off"}`,
@@ -126,6 +193,10 @@ export function createCodexMetricsTool(ctx: ToolContext): ToolDefinition {
 					`${refreshMetrics.succeeded}/` +
 					`${refreshMetrics.failed}/` +
 					`${refreshMetrics.pending}`,
+				`Session affinity: ${affinityText}`,
+				`In-flight limit: ${concurrencyText}`,
+				`Input token estimates: ${tokenEstimateText}`,
+				`Tool output clipping: ${toolOutputClippingText}`,
 				`Last upstream request: ${lastRequest}`,
 			];
 
@@ -209,6 +280,18 @@ export function createCodexMetricsTool(ctx: ToolContext): ToolDefinition {
 						String(runtimeMetrics.accountRotations),
 						"accent",
 					),
+					formatUiKeyValue(
+						ui,
+						"Parallel probes",
+						`races=${runtimeMetrics.parallelProbeRaces} wins=${runtimeMetrics.parallelProbeWins} cancelled=${runtimeMetrics.parallelProbeCancelled}`,
+						"muted",
+					),
+					formatUiKeyValue(
+						ui,
+						"Hedged requests",
+						`sent=${runtimeMetrics.hedgedRequests} wins=${runtimeMetrics.hedgeWins} cancelled=${runtimeMetrics.hedgeCancelled}`,
+						"muted",
+					),
 					formatUiKeyValue(
 						ui,
 						"Empty-response retries",
@@ -251,6 +334,15 @@ export function createCodexMetricsTool(ctx: ToolContext): ToolDefinition {
 						`started=${refreshMetrics.started} dedup=${refreshMetrics.deduplicated} reuse=${refreshMetrics.rotationReused} success=${refreshMetrics.succeeded} failed=${refreshMetrics.failed} pending=${refreshMetrics.pending}`,
 						"muted",
 					),
+					formatUiKeyValue(ui, "Session affinity", affinityText, "muted"),
+					formatUiKeyValue(
+						ui,
+						"In-flight limit",
+						concurrencyText,
+						concurrencyStats.timeouts > 0 ? "warning" : "muted",
+					),
+					formatUiKeyValue(ui, "Input token estimates", tokenEstimateText, "muted"),
+					formatUiKeyValue(ui, "Tool output clipping", toolOutputClippingText, "muted"),
 					formatUiKeyValue(ui, "Last upstream request", lastRequest, "muted"),
 				];
 				if (runtimeMetrics.lastError) {
@@ -0,0 +1,182 @@
+/**
+ * `codex-priority` tool — set account priority tiers and reserve flags.
+ */
+
+import { tool, type ToolDefinition } from "@opencode-ai/plugin/tool";
+import { loadAccounts, saveAccounts } from "../storage.js";
+import {
+	MAX_ACCOUNT_PRIORITY,
+	normalizeAccountPriority,
+} from "../storage/migrations.js";
+import { AccountManager } from "../accounts.js";
+import { logWarn } from "../logger.js";
+import {
+	formatUiHeader,
+	formatUiItem,
+	formatUiKeyValue,
+} from "../ui/format.js";
+import type { ToolContext } from "./index.js";
+
+function describeRouting(priority: number | undefined, reserve: boolean | undefined): string {
+	const parts = [`priority ${priority ?? 0}`];
+	if (reserve === true) parts.push("reserve");
+	return parts.join(", ");
+}
+
+export function createCodexPriorityTool(ctx: ToolContext): ToolDefinition {
+	const {
+		resolveUiRuntime,
+		promptAccountIndexSelection,
+		supportsInteractiveMenus,
+		formatCommandAccountLabel,
+		getStatusMarker,
+		cachedAccountManagerRef,
+		accountManagerPromiseRef,
+	} = ctx;
+	return tool({
+		description:
+			"Set an account's routing priority (higher tiers are used first) or mark it as a reserve used only when all other accounts are unavailable.",
+		args: {
+			index: tool.schema
+				.number()
+				.optional()
+				.describe(
+					"Account number to update (1-based, e.g., 1 for first account)",
+				),
+			priority: tool.schema
+				.number()
+				.optional()
+				.describe(
+					`Priority tier from 0 to ${MAX_ACCOUNT_PRIORITY}. Higher tiers are preferred; 0 clears the priority.`,
+				),
+			reserve: tool.schema
+				.boolean()
+				.optional()
+				.describe(
+					"Mark the account as a reserve that is only used when every non-reserve account is unavailable.",
+				),
+		},
+		async execute({
+			index,
+			priority,
+			reserve,
+		}: {
+			index?: number;
+			priority?: number;
+			reserve?: boolean;
+		}) {
+			const ui = resolveUiRuntime();
+			if (priority === undefined && reserve === undefined) {
+				return "Nothing to update. Use: codex-priority index=2 priority=10 or codex-priority index=3 reserve=true";
+			}
+			if (
+				priority !== undefined &&
+				(!Number.isFinite(priority) ||
+					priority < 0 ||
+					priority > MAX_ACCOUNT_PRIORITY)
+			) {
+				return `Invalid priority: ${priority}\n\nValid range: 0-${MAX_ACCOUNT_PRIORITY}`;
+			}
+
+			const storage = await loadAccounts();
+			if (!storage || storage.accounts.length === 0) {
+				if (ui.v2Enabled) {
+					return [
+						...formatUiHeader(ui, "Set account priority"),
+						"",
+						formatUiItem(ui, "No accounts configured.", "warning"),
+						formatUiItem(ui, "Run: opencode auth login", "accent"),
+					].join("\n");
+				}
+				return "No Codex accounts configured. Run: opencode auth login";
+			}
+
+			let resolvedIndex = index;
+			if (resolvedIndex === undefined) {
+				const selectedIndex = await promptAccountIndexSelection(
+					ui,
+					storage,
+					"Set account priority",
+				);
+				if (selectedIndex === null) {
+					if (supportsInteractiveMenus()) {
+						return ui.v2Enabled
+							? [
+									...formatUiHeader(ui, "Set account priority"),
+									"",
+									formatUiItem(ui, "No account selected.", "warning"),
+								].join("\n")
+							: "No account selected.";
+					}
+					return "Missing account number. Use: codex-priority index=2 priority=10";
+				}
+				resolvedIndex = selectedIndex + 1;
+			}
+
+			const targetIndex = Math.floor((resolvedIndex ?? 0) - 1);
+			if (
+				!Number.isFinite(targetIndex) ||
+				targetIndex < 0 ||
+				targetIndex >= storage.accounts.length
+			) {
+				return `Invalid account number: ${resolvedIndex}\n\nValid range: 1-${storage.accounts.length}`;
+			}
+
+			const account = storage.accounts[targetIndex];
+			if (!account) return `Account ${resolvedIndex} not found.`;
+			const previousText = describeRouting(account.priority, account.reserve);
+			if (priority !== undefined) {
+				const normalizedPriority = normalizeAccountPriority(priority);
+				if (normalizedPriority === undefined) {
+					delete account.priority;
+				} else {
+					account.priority = normalizedPriority;
+				}
+			}
+			if (reserve !== undefined) {
+				if (reserve) {
+					account.reserve = true;
+				} else {
+					delete account.reserve;
+				}
+			}
+
+			try {
+				await saveAccounts(storage);
+			} catch (error) {
+				logWarn("Failed to save account priority update", {
+					error: String(error),
+				});
+				return "Priority update failed to persist. Changes may be lost on restart.";
+			}
+
+			if (cachedAccountManagerRef.current) {
+				const reloadedManager = await AccountManager.loadFromDisk();
+				cachedAccountManagerRef.current = reloadedManager;
+				accountManagerPromiseRef.current = Promise.resolve(reloadedManager);
+			}
+
+			const accountLabel = formatCommandAccountLabel(account, targetIndex);
+			const nextText = describeRouting(account.priority, account.reserve);
+			if (ui.v2Enabled) {
+				return [
+					...formatUiHeader(ui, "Set account priority"),
+					"",
+					formatUiItem(
+						ui,
+						`${getStatusMarker(ui, "ok")} Updated routing for ${accountLabel}`,
+						"success",
+					),
+					formatUiKeyValue(ui, "Previous", previousText, "muted"),
+					formatUiKeyValue(
+						ui,
+						"Current",
+						nextText,
+						account.reserve === true ? "warning" : "accent",
+					),
+				].join("\n");
+			}
+			return `Updated routing for ${accountLabel}\nPrevious: ${previousText}\nCurrent: ${nextText}`;
+		},
+	});
+}
@@ -0,0 +1,182 @@
+/**
+ * `codex-route` tool — dry-run account selection for a model.
+ */
+
+import { tool, type ToolDefinition } from "@opencode-ai/plugin/tool";
+import { AccountManager } from "../accounts.js";
+import { getModelFamily } from "../prompts/codex.js";
+import { resolveUnsupportedCodexFallbackChain } from "../request/fetch-helpers.js";
+import { normalizeModel } from "../request/request-transformer.js";
+import { getAccountSelectionConfig } from "../rotation.js";
+import {
+	formatUiHeader,
+	formatUiItem,
+	formatUiKeyValue,
+	formatUiSection,
+} from "../ui/format.js";
+import {
+	formatExplainabilitySummary,
+	normalizeToolOutputFormat,
+	renderJsonOutput,
+	serializeSelectionExplainability,
+} from "../runtime.js";
+import type { ToolContext } from "./index.js";
+
+export function createCodexRouteTool(ctx: ToolContext): ToolDefinition {
+	const {
+		resolveUiRuntime,
+		formatCommandAccountLabel,
+		buildJsonAccountIdentity,
+		resolveUnsupportedFallbackSettings,
+		cachedAccountManagerRef,
+	} = ctx;
+	return tool({
+		description:
+			"Preview which account a request for a model would use right now, with per-account selection reasons and the unsupported-model fallback chain. Sends no request and does not change rotation state.",
+		args: {
+			model: tool.schema
+				.string()
+				.describe("Model name as sent by OpenCode (e.g., gpt-5.4-pro, openai/gpt-5-codex-high)."),
+			format: tool.schema
+				.string()
+				.optional()
+				.describe('Output format: "text" (default) or "json".'),
+			includeSensitive: tool.schema
+				.boolean()
+				.optional()
+				.describe(
+					"Include raw account labels, emails, and account IDs in JSON output. Defaults to false.",
+				),
+		},
+		async execute({
+			model,
+			format,
+			includeSensitive,
+		}: {
+			model: string;
+			format?: string;
+			includeSensitive?: boolean;
+		}) {
+			const ui = resolveUiRuntime();
+			const outputFormat = normalizeToolOutputFormat(format);
+			const normalizedModel = normalizeModel(model);
+			const modelFamily = getModelFamily(normalizedModel);
+			const quotaKey = `${modelFamily}:${normalizedModel}`;
+			const strategy = getAccountSelectionConfig().strategy;
+			const fallbackSettings = resolveUnsupportedFallbackSettings();
+			const fallbackChain = resolveUnsupportedCodexFallbackChain({
+				requestedModel: normalizedModel,
+				fallbackOnUnsupportedCodexModel:
+					fallbackSettings.fallbackOnUnsupportedCodexModel,
+				fallbackToGpt52OnUnsupportedGpt53:
+					fallbackSettings.fallbackToGpt52OnUnsupportedGpt53,
+				customChain: fallbackSettings.customChain,
+			});
+
+			const manager =
+				cachedAccountManagerRef.current ?? (await AccountManager.loadFromDisk());
+			const now = Date.now();
+			const explainability = manager.getSelectionExplainability(
+				modelFamily,
+				normalizedModel,
+				now,
+			);
+			const selected =
+				manager.getAccountCount() > 0
+					? manager.previewSelectionForFamily(modelFamily, normalizedModel)
+					: null;
+			const selectedLabel = selected
+				? formatCommandAccountLabel(selected, selected.index)
+				: "none";
+			const fallbackText =
+				fallbackChain.length > 0
+					? [normalizedModel, ...fallbackChain].join(" -> ")
+					: "none";
+			const serialized = serializeSelectionExplainability(explainability);
+
+			if (outputFormat === "json") {
+				return renderJsonOutput({
+					dryRun: true,
+					requestedModel: model,
+					normalizedModel,
+					modelFamily,
+					quotaKey,
+					strategy,
+					selectedAccount: selected
+						? buildJsonAccountIdentity(selected.index, {
+								includeSensitive: includeSensitive === true,
+								account: selected,
+								label: selectedLabel,
+							})
+						: null,
+					unsupportedCodexPolicy: fallbackSettings.unsupportedCodexPolicy,
+					fallbackChain,
+					selectionExplainability: serialized,
+				});
+			}
+
+			if (ui.v2Enabled) {
+				const lines = [
+					...formatUiHeader(ui, "Route preview"),
+					formatUiKeyValue(ui, "Requested model", model, "muted"),
+					formatUiKeyValue(ui, "Normalized model", normalizedModel, "accent"),
+					formatUiKeyValue(ui, "Model family", modelFamily, "muted"),
+					formatUiKeyValue(ui, "Quota key", quotaKey, "muted"),
+					formatUiKeyValue(ui, "Selection strategy", strategy, "muted"),
+					formatUiKeyValue(
+						ui,
+						"Would select",
+						selectedLabel,
+						selected ? "success" : "warning",
+					),
+					formatUiKeyValue(
+						ui,
+						"Fallback chain",
+						`${fallbackText} (policy: ${fallbackSettings.unsupportedCodexPolicy})`,
+						"muted",
+					),
+					"",
+					...formatUiSection(ui, "Selection explainability"),
+				];
+				if (serialized.length === 0) {
+					lines.push(formatUiItem(ui, "No accounts configured.", "warning"));
+				}
+				for (const entry of serialized) {
+					lines.push(
+						formatUiItem(
+							ui,
+							formatExplainabilitySummary(entry),
+							entry.eligible ? "success" : "muted",
+						),
+					);
+				}
+				lines.push("");
+				lines.push(formatUiItem(ui, "Dry run: no request sent, rotation state unchanged.", "muted"));
+				return lines.join("\n");
+			}
+
+			const lines = [
+				"Route preview:",
+				"",
+				`Requested model: ${model}`,
+				`Normalized model: ${normalizedModel}`,
+				`Model family: ${modelFamily}`,
+				`Quota key: ${quotaKey}`,
+				`Selection strategy: ${strategy}`,
+				`Would select: ${selectedLabel}`,
+				`Fallback chain: ${fallbackText} (policy: ${fallbackSettings.unsupportedCodexPolicy})`,
+				"",
+				"Selection explainability:",
+			];
+			if (serialized.length === 0) {
+				lines.push("  - none");
+			}
+			for (const entry of serialized) {
+				lines.push(`  - ${formatExplainabilitySummary(entry)}`);
+			}
+			lines.push("");
+			lines.push("Dry run: no request sent, rotation state unchanged.");
+			return lines.join("\n");
+		},
+	});
+}
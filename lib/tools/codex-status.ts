@@ -5,7 +5,12 @@
 
 import { tool, type ToolDefinition } from "@opencode-ai/plugin/tool";
 import { loadAccounts } from "../storage.js";
-import { AccountManager, formatCooldown, formatWaitTime } from "../accounts.js";
+import {
+	AccountManager,
+	formatAvailability,
+	formatCooldown,
+	formatWaitTime,
+} from "../accounts.js";
 import { MODEL_FAMILIES } from "../prompts/codex.js";
 import { recommendBeginnerNextAction } from "../ui/beginner.js";
 import {
@@ -21,6 +26,7 @@ import {
 	formatUiSection,
 } from "../ui/format.js";
 import { normalizeToolOutputFormat, renderJsonOutput } from "../runtime.js";
+import { getAccountSelectionConfig } from "../rotation.js";
 import type { ToolContext } from "./index.js";
 
 export function createCodexStatusTool(ctx: ToolContext): ToolDefinition {
@@ -118,6 +124,22 @@ export function createCodexStatusTool(ctx: ToolContext): ToolDefinition {
 			const explainabilityByIndex = new Map(
 				explainability.map((entry) => [entry.index, entry]),
 			);
+			const selectionStrategy = getAccountSelectionConfig().strategy;
+			const formatScoreDetails = (entry: {
+				selectionScore?: number;
+				quotaUsedPercent?: number;
+				quotaScore: number;
+			}): string => {
+				const quota =
+					typeof entry.quotaUsedPercent === "number"
+						? ` | quota=${Math.round(entry.quotaUsedPercent)}% (${Math.round(entry.quotaScore)})`
+						: "";
+				const score =
+					typeof entry.selectionScore === "number"
+						? ` | score=${Math.round(entry.selectionScore)}`
+						: "";
+				return `${quota}${score}`;
+			};
 			const recommendedNextAction = recommendBeginnerNextAction({
 				accounts: toBeginnerAccountSnapshots(storage, activeIndex, now),
 				now,
@@ -132,6 +154,7 @@ export function createCodexStatusTool(ctx: ToolContext): ToolDefinition {
 						label: explainabilityModel
 							? `${explainabilityFamily}:${explainabilityModel}`
 							: explainabilityFamily,
+						strategy: selectionStrategy,
 					},
 					accounts: storage.accounts.map((account, index) => ({
 						...buildJsonAccountIdentity(index, {
@@ -142,6 +165,8 @@ export function createCodexStatusTool(ctx: ToolContext): ToolDefinition {
 						isActive: index === activeIndex,
 						rateLimit: formatRateLimitEntry(account, now) ?? null,
 						cooldown: formatCooldown(account, now) ?? null,
+						availability: account.availability ?? null,
+						nextAvailable: formatAvailability(account, now),
 						lastUsedAgeMs:
 							typeof account.lastUsed === "number" && account.lastUsed > 0
 								? Math.max(0, now - account.lastUsed)
@@ -195,6 +220,7 @@ export function createCodexStatusTool(ctx: ToolContext): ToolDefinition {
 							: explainabilityFamily,
 						"muted",
 					),
+					formatUiKeyValue(ui, "Selection strategy", selectionStrategy, "muted"),
 					"",
 					...formatUiSection(ui, "Accounts"),
 				];
@@ -212,6 +238,9 @@ export function createCodexStatusTool(ctx: ToolContext): ToolDefinition {
 						badges.push(formatUiBadge(ui, "rate-limited", "warning"));
 					if (cooldown !== "none")
 						badges.push(formatUiBadge(ui, "cooldown", "warning"));
+					const nextAvailable = formatAvailability(account, now);
+					if (nextAvailable)
+						badges.push(formatUiBadge(ui, "off-schedule", "warning"));
 					if (badges.length === 0)
 						badges.push(formatUiBadge(ui, "ok", "success"));
 
@@ -224,6 +253,11 @@ export function createCodexStatusTool(ctx: ToolContext): ToolDefinition {
 					lines.push(
 						`  ${formatUiKeyValue(ui, "cooldown", cooldown, cooldown === "none" ? "muted" : "warning")}`,
 					);
+					if (nextAvailable) {
+						lines.push(
+							`  ${formatUiKeyValue(ui, "next available", nextAvailable, "warning")}`,
+						);
+					}
 				});
 
 				lines.push("");
@@ -273,7 +307,7 @@ export function createCodexStatusTool(ctx: ToolContext): ToolDefinition {
 					lines.push(
 						formatUiItem(
 							ui,
-							`Account ${entry.index + 1}: ${state} | health=${Math.round(entry.healthScore)} | tokens=${entry.tokensAvailable.toFixed(1)} | ${reasons}`,
+							`Account ${entry.index + 1}: ${state} | health=${Math.round(entry.healthScore)} | tokens=${entry.tokensAvailable.toFixed(1)}${formatScoreDetails(entry)} | ${reasons}`,
 						),
 					);
 				}
@@ -298,6 +332,7 @@ export function createCodexStatusTool(ctx: ToolContext): ToolDefinition {
 
 			const lines: string[] = [
 				`Account Status (${storage.accounts.length} total):`,
+				`Selection strategy: ${selectionStrategy}`,
 				"",
 				...buildTableHeader(statusTableOptions),
 			];
@@ -327,6 +362,16 @@ export function createCodexStatusTool(ctx: ToolContext): ToolDefinition {
 				);
 			});
 
+			const offScheduleLines = storage.accounts.flatMap((account, index) => {
+				const nextAvailable = formatAvailability(account, now);
+				return nextAvailable ? [`  Account ${index + 1}: ${nextAvailable}`] : [];
+			});
+			if (offScheduleLines.length > 0) {
+				lines.push("");
+				lines.push("Next availability (off-schedule accounts):");
+				lines.push(...offScheduleLines);
+			}
+
 			lines.push("");
 			lines.push("Active index by model family:");
 			for (const family of MODEL_FAMILIES) {
@@ -369,7 +414,7 @@ export function createCodexStatusTool(ctx: ToolContext): ToolDefinition {
 				if (!details) continue;
 				const state = details.eligible ? "eligible" : "blocked";
 				lines.push(
-					`  Account ${index + 1}: ${state} | health=${Math.round(details.healthScore)} | tokens=${details.tokensAvailable.toFixed(1)} | ${details.reasons.join(", ")}`,
+					`  Account ${index + 1}: ${state} | health=${Math.round(details.healthScore)} | tokens=${details.tokensAvailable.toFixed(1)}${formatScoreDetails(details)} | ${details.reasons.join(", ")}`,
 				);
 			}
 
@@ -0,0 +1,257 @@
+/**
+ * `codex-usage-history` tool — quota usage trends from the history ledger.
+ */
+
+import { tool, type ToolDefinition } from "@opencode-ai/plugin/tool";
+import {
+	loadAccounts,
+	loadQuotaHistory,
+	QUOTA_HISTORY_RETENTION_MS,
+	type QuotaHistoryEntryV1,
+} from "../storage.js";
+import {
+	deduplicateUsageAccountIndices,
+	formatUsageLimitTitle,
+} from "../codex-usage.js";
+import {
+	formatUiBadge,
+	formatUiHeader,
+	formatUiItem,
+	formatUiKeyValue,
+} from "../ui/format.js";
+import { normalizeToolOutputFormat, renderJsonOutput } from "../runtime.js";
+import type { ToolContext } from "./index.js";
+
+const DEFAULT_RANGE = "24h";
+const RANGE_PATTERN = /^(\d+)\s*(h|d)$/i;
+const SPARKLINE_BUCKETS = 24;
+const SPARKLINE_LEVELS = ["▁", "▂", "▃", "▄", "▅", "▆", "▇", "█"];
+const SPARKLINE_GAP = "·";
+
+interface UsageHistoryPoint {
+	at: number;
+	usedPercent: number;
+	resetAtMs?: number;
+}
+
+interface UsageHistorySeries {
+	windowMinutes?: number;
+	title: string;
+	points: UsageHistoryPoint[];
+}
+
+function parseRange(value: string | undefined): number | null {
+	const match = RANGE_PATTERN.exec((value ?? DEFAULT_RANGE).trim());
+	if (!match) return null;
+	const amount = Number(match[1]);
+	const unitMs = match[2]?.toLowerCase() === "d" ? 24 * 60 * 60_000 : 60 * 60_000;
+	const rangeMs = amount * unitMs;
+	return rangeMs > 0 && rangeMs <= QUOTA_HISTORY_RETENTION_MS ? rangeMs : null;
+}
+
+function groupByWindow(entries: QuotaHistoryEntryV1[]): UsageHistorySeries[] {
+	const series = new Map<string, UsageHistorySeries>();
+	for (const entry of entries) {
+		entry.windows.forEach((window, position) => {
+			const key = window.windowMinutes !== undefined ? String(window.windowMinutes) : `#${position}`;
+			let existing = series.get(key);
+			if (!existing) {
+				existing = {
+					windowMinutes: window.windowMinutes,
+					title: formatUsageLimitTitle(window.windowMinutes),
+					points: [],
+				};
+				series.set(key, existing);
+			}
+			existing.points.push({
+				at: entry.at,
+				usedPercent: window.usedPercent,
+				resetAtMs: window.resetAtMs,
+			});
+		});
+	}
+	return [...series.values()];
+}
+
+/** Peak used percent per time bucket, drawn as block characters; `·` marks buckets with no readings. */
+function renderSparkline(points: UsageHistoryPoint[], since: number, until: number): string {
+	const bucketMs = (until - since) / SPARKLINE_BUCKETS;
+	const peaks: Array<number | undefined> = new Array(SPARKLINE_BUCKETS).fill(undefined);
+	for (const point of points) {
+		const bucket = Math.min(SPARKLINE_BUCKETS - 1, Math.floor((point.at - since) / bucketMs));
+		if (bucket < 0) continue;
+		peaks[bucket] = Math.max(peaks[bucket] ?? 0, point.usedPercent);
+	}
+	return peaks
+		.map((peak) => {
+			if (peak === undefined) return SPARKLINE_GAP;
+			const level = Math.min(SPARKLINE_LEVELS.length - 1, Math.floor((peak / 100) * SPARKLINE_LEVELS.length));
+			return SPARKLINE_LEVELS[level];
+		})
+		.join("");
+}
+
+function summarizeSeries(points: UsageHistoryPoint[]): string {
+	const latest = points[points.length - 1];
+	const peak = Math.max(...points.map((point) => point.usedPercent));
+	return `now ${Math.round(latest?.usedPercent ?? 0)}%, peak ${Math.round(peak)}%, ${points.length} reading${points.length === 1 ? "" : "s"}`;
+}
+
+export function createCodexUsageHistoryTool(ctx: ToolContext): ToolDefinition {
+	const {
+		resolveUiRuntime,
+		resolveActiveIndex,
+		formatCommandAccountLabel,
+		buildJsonAccountIdentity,
+	} = ctx;
+	return tool({
+		description:
+			"Show how Codex quota usage trended over a time range, per account: sparklines in text mode, raw readings in JSON mode.",
+		args: {
+			range: tool.schema
+				.string()
+				.optional()
+				.describe('Time range to show, e.g. "6h", "24h" (default), "7d", "14d".'),
+			index: tool.schema
+				.number()
+				.optional()
+				.describe("Only show this account (1-based). Defaults to all accounts."),
+			format: tool.schema
+				.string()
+				.optional()
+				.describe('Output format: "text" (default) or "json".'),
+			includeSensitive: tool.schema
+				.boolean()
+				.optional()
+				.describe(
+					"Include raw account labels, emails, and account IDs in JSON output. Defaults to false.",
+				),
+		},
+		async execute({
+			range,
+			index,
+			format,
+			includeSensitive,
+		}: {
+			range?: string;
+			index?: number;
+			format?: string;
+			includeSensitive?: boolean;
+		} = {}) {
+			const ui = resolveUiRuntime();
+			const outputFormat = normalizeToolOutputFormat(format);
+			const rangeMs = parseRange(range);
+			if (rangeMs === null) {
+				return `Invalid range: ${range}\n\nUse hours or days up to 14d, e.g. "6h", "24h", "7d".`;
+			}
+			const rangeLabel = (range ?? DEFAULT_RANGE).trim().toLowerCase();
+
+			const storage = await loadAccounts();
+			if (!storage || storage.accounts.length === 0) {
+				if (outputFormat === "json") {
+					return renderJsonOutput({
+						message: "No Codex accounts configured. Run: opencode auth login",
+						range: rangeLabel,
+						accounts: [],
+					});
+				}
+				return "No Codex accounts configured. Run: opencode auth login";
+			}
+
+			let indices = deduplicateUsageAccountIndices(storage);
+			if (index !== undefined) {
+				const targetIndex = Math.floor(index - 1);
+				if (!Number.isFinite(targetIndex) || targetIndex < 0 || targetIndex >= storage.accounts.length) {
+					return `Invalid account number: ${index}\n\nValid range: 1-${storage.accounts.length}`;
+				}
+				indices = [targetIndex];
+			}
+
+			const until = Date.now();
+			const since = until - rangeMs;
+			const activeIndex = resolveActiveIndex(storage, "codex");
+			const lines: string[] = ui.v2Enabled
+				? [...formatUiHeader(ui, `Codex usage history (last ${rangeLabel})`), ""]
+				: [
+						`Codex usage history (last ${rangeLabel}, ${indices.length} account${indices.length === 1 ? "" : "s"}):`,
+						"",
+					];
+			const jsonAccounts: Array<Record<string, unknown>> = [];
+
+			for (const i of indices) {
+				const account = storage.accounts[i];
+				if (!account) continue;
+				const label = formatCommandAccountLabel(account, i);
+				const isActive = i === activeIndex;
+				const history = await loadQuotaHistory(account);
+				const entries = (history?.entries ?? []).filter(
+					(entry) => entry.at >= since && entry.at <= until,
+				);
+				const series = groupByWindow(entries);
+
+				jsonAccounts.push({
+					...buildJsonAccountIdentity(i, {
+						includeSensitive: includeSensitive === true,
+						account,
+						label,
+					}),
+					isActive,
+					readings: entries.length,
+					windows: series.map((item) => ({
+						windowMinutes: item.windowMinutes ?? null,
+						title: item.title,
+						series: item.points.map((point) => ({
+							at: point.at,
+							usedPercent: point.usedPercent,
+							resetAtMs: point.resetAtMs ?? null,
+						})),
+					})),
+				});
+
+				if (ui.v2Enabled) {
+					const activeSuffix = isActive ? ` ${formatUiBadge(ui, "active", "accent")}` : "";
+					lines.push(formatUiItem(ui, `${label}${activeSuffix}`));
+					if (series.length === 0) {
+						lines.push(`  ${formatUiItem(ui, "No readings in this range.", "muted")}`);
+					}
+					for (const item of series) {
+						lines.push(
+							`  ${formatUiKeyValue(ui, item.title, `${renderSparkline(item.points, since, until)} ${summarizeSeries(item.points)}`, "muted")}`,
+						);
+					}
+				} else {
+					lines.push(`${i + 1}. ${label}${isActive ? " [active]" : ""}`);
+					if (series.length === 0) {
+						lines.push("  No readings in this range.");
+					}
+					for (const item of series) {
+						lines.push(
+							`  ${item.title}: ${renderSparkline(item.points, since, until)} ${summarizeSeries(item.points)}`,
+						);
+					}
+				}
+				lines.push("");
+			}
+
+			if (outputFormat === "json") {
+				return renderJsonOutput({
+					range: rangeLabel,
+					since,
+					until,
+					activeIndex: activeIndex + 1,
+					accounts: jsonAccounts,
+				});
+			}
+
+			if (jsonAccounts.every((item) => item.readings === 0)) {
+				lines.push(
+					ui.v2Enabled
+						? formatUiItem(ui, "Readings are recorded from response headers and codex-limits.", "muted")
+						: "Readings are recorded from response headers and codex-limits.",
+				);
+			}
+			while (lines[lines.length - 1] === "") lines.pop();
+			return lines.join("\n");
+		},
+	});
+}
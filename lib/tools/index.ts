@@ -39,10 +39,13 @@ import { createCodexListTool } from "./codex-list.js";
 import { createCodexSwitchTool } from "./codex-switch.js";
 import { createCodexStatusTool } from "./codex-status.js";
 import { createCodexLimitsTool } from "./codex-limits.js";
+import { createCodexUsageHistoryTool } from "./codex-usage-history.js";
 import { createCodexMetricsTool } from "./codex-metrics.js";
 import { createCodexDoctorTool } from "./codex-doctor.js";
 import { createCodexLabelTool } from "./codex-label.js";
 import { createCodexTagTool } from "./codex-tag.js";
+import { createCodexPriorityTool } from "./codex-priority.js";
+import { createCodexRouteTool } from "./codex-route.js";
 import { createCodexNoteTool } from "./codex-note.js";
 import { createCodexDashboardTool } from "./codex-dashboard.js";
 import { createCodexHealthTool } from "./codex-health.js";
@@ -51,6 +54,7 @@ import { createCodexRefreshTool } from "./codex-refresh.js";
 import { createCodexExportTool } from "./codex-export.js";
 import { createCodexImportTool } from "./codex-import.js";
 import { createCodexDiagTool } from "./codex-diag.js";
+import { createCodexBreakersTool } from "./codex-breakers.js";
 import { createCodexDiffTool } from "./codex-diff.js";
 import { createCodexKeychainTool } from "./codex-keychain.js";
 
@@ -80,7 +84,7 @@ export type MutableRef<T> = { current: T };
  *
  * The factory `create<Name>Tool(ctx)` returns a standard `tool({...})`
  * result. Keeping the surface in one type lets us evolve it without
- * threading dozens of arguments through 21 call sites.
+ * threading dozens of arguments through 25 call sites.
  *
  * The type lists the closure state and helpers used across the current
  * registry. Each tool only destructures the subset it uses.
@@ -203,6 +207,12 @@ export interface ToolContext {
 		state: Awaited<ReturnType<ToolContext["buildSetupChecklistState"]>>,
 	) => Promise<string>;
 	invalidateAccountManagerCache: () => void;
+	resolveUnsupportedFallbackSettings: () => {
+		unsupportedCodexPolicy: "strict" | "fallback";
+		fallbackOnUnsupportedCodexModel: boolean;
+		fallbackToGpt52OnUnsupportedGpt53: boolean;
+		customChain: Record<string, string[]>;
+	};
 	upsertFlaggedAccountRecord: (
 		accounts: FlaggedAccountMetadataV1[],
 		record: FlaggedAccountMetadataV1,
@@ -224,7 +234,9 @@ export function createToolRegistry(ctx: ToolContext): CodexToolRegistry {
 		"codex-list": createCodexListTool(ctx),
 		"codex-switch": createCodexSwitchTool(ctx),
 		"codex-status": createCodexStatusTool(ctx),
+		"codex-route": createCodexRouteTool(ctx),
 		"codex-limits": createCodexLimitsTool(ctx),
+		"codex-usage-history": createCodexUsageHistoryTool(ctx),
 		"codex-metrics": createCodexMetricsTool(ctx),
 		"codex-help": createCodexHelpTool(ctx),
 		"codex-setup": createCodexSetupTool(ctx),
@@ -232,6 +244,7 @@ export function createToolRegistry(ctx: ToolContext): CodexToolRegistry {
 		"codex-next": createCodexNextTool(ctx),
 		"codex-label": createCodexLabelTool(ctx),
 		"codex-tag": createCodexTagTool(ctx),
+		"codex-priority": createCodexPriorityTool(ctx),
 		"codex-note": createCodexNoteTool(ctx),
 		"codex-dashboard": createCodexDashboardTool(ctx),
 		"codex-health": createCodexHealthTool(ctx),
@@ -240,6 +253,7 @@ export function createToolRegistry(ctx: ToolContext): CodexToolRegistry {
 		"codex-export": createCodexExportTool(ctx),
 		"codex-import": createCodexImportTool(ctx),
 		"codex-diag": createCodexDiagTool(ctx),
+		"codex-breakers": createCodexBreakersTool(ctx),
 		"codex-diff": createCodexDiffTool(ctx),
 		"codex-keychain": createCodexKeychainTool(ctx),
 	};
@@ -191,15 +191,23 @@ function getSnapshotWriteKey(snapshot: TuiQuotaSnapshot): string {
 	});
 }
 
+/**
+ * Parses the primary/secondary usage windows from Codex response headers.
+ * Returns an empty list when the response carries no usage headers.
+ */
+export function parseQuotaLimitsFromHeaders(headers: Headers): TuiQuotaLimit[] {
+	if (!hasCodexQuotaHeaders(headers)) return [];
+	return [
+		parseLimit(headers, "x-codex-primary"),
+		parseLimit(headers, "x-codex-secondary"),
+	].filter(hasUsefulLimit);
+}
+
 export function parseTuiQuotaSnapshotFromHeaders(
 	headers: Headers,
 	input: Omit<TuiQuotaSnapshotInput, "source" | "limits">,
 ): TuiQuotaSnapshot | undefined {
-	if (!hasCodexQuotaHeaders(headers)) return undefined;
-	const limits = [
-		parseLimit(headers, "x-codex-primary"),
-		parseLimit(headers, "x-codex-secondary"),
-	].filter(hasUsefulLimit);
+	const limits = parseQuotaLimitsFromHeaders(headers);
 	if (limits.length === 0) return undefined;
 
 	const planTypeRaw = headers.get("x-codex-plan-type");
@@ -24,6 +24,8 @@ export interface AccountInfo {
 	status?: AccountStatus;
 	isCurrentAccount?: boolean;
 	enabled?: boolean;
+	priority?: number;
+	reserve?: boolean;
 }
 
 export interface AuthMenuOptions {
@@ -40,7 +42,17 @@ export type AuthMenuAction =
 	| { type: "delete-all" }
 	| { type: "cancel" };
 
-export type AccountAction = "back" | "delete" | "refresh" | "toggle" | "cancel";
+export type AccountAction =
+	| "back"
+	| "delete"
+	| "refresh"
+	| "toggle"
+	| "priority"
+	| "reserve"
+	| "cancel";
+
+/** Priority tiers offered by the account details menu. */
+export const ACCOUNT_PRIORITY_PRESETS = [0, 10, 25, 50, 100] as const;
 
 function formatRelativeTime(timestamp: number | undefined): string {
 	if (!timestamp) return "never";
@@ -155,8 +167,12 @@ export async function showAuthMenu(
 				account.enabled === false
 					? (ui.v2Enabled ? ` ${formatUiBadge(ui, "disabled", "danger")}` : ` ${ANSI.red}[disabled]${ANSI.reset}`)
 					: "";
+			const reserveBadge =
+				account.reserve === true
+					? (ui.v2Enabled ? ` ${formatUiBadge(ui, "reserve", "warning")}` : ` ${ANSI.yellow}[reserve]${ANSI.reset}`)
+					: "";
 			const statusSuffix = badge ? ` ${badge}` : "";
-			const label = `${accountTitle(account)}${currentBadge}${statusSuffix}${disabledBadge}`;
+			const label = `${accountTitle(account)}${currentBadge}${statusSuffix}${disabledBadge}${reserveBadge}`;
 			return {
 				label: ui.v2Enabled ? paintUiText(ui, label, "heading") : label,
 				hint: `used ${formatRelativeTime(account.lastUsed)}`,
@@ -195,7 +211,9 @@ export async function showAccountDetails(account: AccountInfo): Promise<AccountA
 				? ` ${formatUiBadge(ui, "disabled", "danger")}`
 				: ` ${ANSI.red}[disabled]${ANSI.reset}`)
 			: "");
-	const subtitle = `Added: ${formatDate(account.addedAt)} | Last used: ${formatRelativeTime(account.lastUsed)}`;
+	const subtitle =
+		`Added: ${formatDate(account.addedAt)} | Last used: ${formatRelativeTime(account.lastUsed)}` +
+		` | Priority: ${account.priority ?? 0}${account.reserve === true ? " (reserve)" : ""}`;
 
 	while (true) {
 		const action = await select<AccountAction>(
@@ -206,6 +224,12 @@ export async function showAccountDetails(account: AccountInfo): Promise<AccountA
 					value: "toggle",
 					color: account.enabled === false ? "green" : "yellow",
 				},
+				{ label: "Set priority", value: "priority", color: "cyan" },
+				{
+					label: account.reserve === true ? "Remove reserve flag" : "Mark as reserve",
+					value: "reserve",
+					color: "yellow",
+				},
 				{ label: "Refresh account", value: "refresh", color: "cyan" },
 				{ label: "Delete this account", value: "delete", color: "red" },
 			],
@@ -231,5 +255,24 @@ export async function showAccountDetails(account: AccountInfo): Promise<AccountA
 	}
 }
 
+export async function promptAccountPriority(account: AccountInfo): Promise<number | null> {
+	const ui = getUiRuntimeOptions();
+	const current = account.priority ?? 0;
+	return select<number>(
+		ACCOUNT_PRIORITY_PRESETS.map((priority) => ({
+			label: priority === 0 ? "0 (default)" : String(priority),
+			value: priority,
+			hint: priority === current ? "current" : undefined,
+		})),
+		{
+			message: `Priority for ${accountTitle(account)}`,
+			subtitle: "Higher tiers are selected first",
+			clearScreen: true,
+			variant: ui.v2Enabled ? "codex" : "legacy",
+			theme: ui.theme,
+		},
+	);
+}
+
 export { isTTY };
 
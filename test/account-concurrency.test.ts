@@ -0,0 +1,106 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+	AccountConcurrencyLimiter,
+	formatConcurrencyStats,
+} from "../lib/account-concurrency.js";
+
+describe("AccountConcurrencyLimiter", () => {
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("admits requests up to the limit per account", () => {
+		const limiter = new AccountConcurrencyLimiter({ maxInFlight: 2 });
+		const first = limiter.tryAcquire(0);
+		expect(first).not.toBeNull();
+		expect(limiter.tryAcquire(0)).not.toBeNull();
+		expect(limiter.tryAcquire(0)).toBeNull();
+		expect(limiter.hasCapacity(1)).toBe(true);
+
+		first?.();
+		first?.();
+		expect(limiter.getInFlight(0)).toBe(1);
+		expect(limiter.hasCapacity(0)).toBe(true);
+	});
+
+	it("never limits while maxInFlight is 0", () => {
+		const limiter = new AccountConcurrencyLimiter();
+		for (let i = 0; i < 10; i++) expect(limiter.tryAcquire(0)).not.toBeNull();
+		expect(limiter.getInFlight(0)).toBe(10);
+		expect(formatConcurrencyStats(limiter.getStats())).toBe("off");
+	});
+
+	it("hands released slots to queued requests in FIFO order", async () => {
+		const limiter = new AccountConcurrencyLimiter({ maxInFlight: 1 });
+		const release = limiter.tryAcquire(0);
+		const order: string[] = [];
+		const first = limiter.acquire(0).then((slot) => {
+			order.push("first");
+			return slot;
+		});
+		const second = limiter.acquire(0).then((slot) => {
+			order.push("second");
+			return slot;
+		});
+		expect(limiter.getStats().queueDepth).toBe(2);
+		expect(limiter.tryAcquire(0)).toBeNull();
+
+		release?.();
+		const firstSlot = await first;
+		expect(order).toEqual(["first"]);
+		firstSlot?.();
+		expect(await second).not.toBeNull();
+		expect(order).toEqual(["first", "second"]);
+
+		const stats = limiter.getStats();
+		expect(stats.queueDepth).toBe(0);
+		expect(stats.peakQueueDepth).toBe(2);
+		expect(stats.queuedRequests).toBe(2);
+		expect(stats.inFlight).toBe(1);
+		expect(stats.accounts).toEqual([{ index: 0, inFlight: 1, queued: 0 }]);
+	});
+
+	it("gives up after the queue timeout or an abort", async () => {
+		vi.useFakeTimers();
+		const limiter = new AccountConcurrencyLimiter({ maxInFlight: 1, queueTimeoutMs: 1_000 });
+		limiter.tryAcquire(0);
+
+		const timedOut = limiter.acquire(0);
+		await vi.advanceTimersByTimeAsync(1_000);
+		expect(await timedOut).toBeNull();
+
+		const controller = new AbortController();
+		const aborted = limiter.acquire(0, { signal: controller.signal });
+		controller.abort();
+		expect(await aborted).toBeNull();
+
+		const stats = limiter.getStats();
+		expect(stats.timeouts).toBe(1);
+		expect(stats.queueDepth).toBe(0);
+		expect(stats.maxWaitMs).toBe(1_000);
+		expect(formatConcurrencyStats(stats)).toBe(
+			"max=1 in-flight=1 queued=0 (peak 1) waits=2 avg=500ms max-wait=1000ms timeouts=1",
+		);
+	});
+
+	it("stops waiting at a caller timeout shorter than the queue timeout", async () => {
+		vi.useFakeTimers();
+		const limiter = new AccountConcurrencyLimiter({ maxInFlight: 1, queueTimeoutMs: 30_000 });
+		limiter.tryAcquire(0);
+
+		const waiting = limiter.acquire(0, { timeoutMs: 200 });
+		await vi.advanceTimersByTimeAsync(200);
+		expect(await waiting).toBeNull();
+		expect(limiter.getStats().maxWaitMs).toBe(200);
+	});
+
+	it("releases queued requests when the limit is raised", async () => {
+		const limiter = new AccountConcurrencyLimiter({ maxInFlight: 1 });
+		limiter.tryAcquire(0);
+		const waiting = limiter.acquire(0);
+
+		limiter.configure({ maxInFlight: 2 });
+		expect(await waiting).not.toBeNull();
+		expect(limiter.getInFlight(0)).toBe(2);
+	});
+});
@@ -7,10 +7,25 @@ import {
   sanitizeEmail,
   formatWaitTime,
   formatCooldown,
+  formatAvailability,
   shouldUpdateAccountIdFromToken,
   getAccountIdCandidates,
 } from "../lib/accounts.js";
-import { getHealthTracker, getTokenTracker, resetTrackers } from "../lib/rotation.js";
+import {
+  configureAccountSelection,
+  getHealthTracker,
+  getQuotaUsageTracker,
+  getTokenTracker,
+  resetTrackers,
+} from "../lib/rotation.js";
+import { configureRoutingRules } from "../lib/routing-rules.js";
+import { getSessionAffinityTracker } from "../lib/session-affinity.js";
+import { configureQuotaForecast, getQuotaForecastTracker } from "../lib/quota-forecast.js";
+import { configureCreditsRouting, getCreditsTracker } from "../lib/credits.js";
+import {
+  configureAccountConcurrency,
+  getAccountConcurrencyLimiter,
+} from "../lib/account-concurrency.js";
 import type { OAuthAuthDetails } from "../lib/types.js";
 import { SCOPE } from "../lib/auth/auth.js";
 
@@ -2249,6 +2264,680 @@ describe("AccountManager", () => {
       expect(byIndex.get(3)?.reasons).toEqual(["eligible"]);
     });
   });
+
+  describe("quota-aware routing", () => {
+    const quotaHeaders = (usedPercent: number) =>
+      new Headers({
+        "x-codex-primary-used-percent": String(usedPercent),
+        "x-codex-primary-window-minutes": "10080",
+        "x-codex-primary-reset-after-seconds": "86400",
+      });
+
+    const createManager = () => {
+      const now = Date.now();
+      return new AccountManager(undefined, {
+        version: 3 as const,
+        activeIndex: 0,
+        activeIndexByFamily: { codex: 0 },
+        accounts: [
+          { refreshToken: "token-1", addedAt: now, lastUsed: now },
+          { refreshToken: "token-2", addedAt: now, lastUsed: now },
+        ],
+      } as never);
+    };
+
+    beforeEach(() => {
+      resetTrackers();
+    });
+
+    afterEach(() => {
+      resetTrackers();
+    });
+
+    it("moves off the current account once its weekly window is nearly used", () => {
+      const manager = createManager();
+      const current = manager.getCurrentOrNextForFamilyHybrid("codex")!;
+      expect(current.index).toBe(0);
+
+      manager.recordQuotaUsage(current, quotaHeaders(50));
+      expect(manager.getCurrentOrNextForFamilyHybrid("codex")?.index).toBe(0);
+
+      manager.recordQuotaUsage(current, quotaHeaders(96));
+      expect(manager.getCurrentOrNextForFamilyHybrid("codex")?.index).toBe(1);
+    });
+
+    it("ignores responses without usage headers", () => {
+      const manager = createManager();
+      const current = manager.getCurrentOrNextForFamilyHybrid("codex")!;
+      manager.recordQuotaUsage(current, new Headers({ "content-type": "text/event-stream" }));
+
+      expect(getQuotaUsageTracker().getUsedPercent(0)).toBeUndefined();
+    });
+
+    it("exposes the quota component in selection explainability", () => {
+      const manager = createManager();
+      manager.recordQuotaUsage(manager.setActiveIndex(0)!, quotaHeaders(96));
+
+      const [pressured, fresh] = manager.getSelectionExplainability("codex");
+
+      expect(pressured?.quotaUsedPercent).toBe(96);
+      expect(pressured?.quotaScore).toBeLessThan(-250);
+      expect(pressured?.reasons).toContain("quota-96%");
+      expect(fresh?.quotaUsedPercent).toBeUndefined();
+      expect(fresh?.quotaScore).toBe(0);
+      expect(fresh?.selectionScore).toBeGreaterThan(pressured?.selectionScore ?? Infinity);
+    });
+  });
+
+  describe("priority tiers and reserve accounts", () => {
+    const createManager = (
+      tiers: Array<{ priority?: number; reserve?: boolean }>,
+    ) => {
+      const now = Date.now();
+      return new AccountManager(undefined, {
+        version: 3 as const,
+        activeIndex: 0,
+        activeIndexByFamily: { codex: 0 },
+        accounts: tiers.map((tier, index) => ({
+          refreshToken: `token-${index + 1}`,
+          addedAt: now,
+          lastUsed: now,
+          ...tier,
+        })),
+      } as never);
+    };
+
+    beforeEach(() => {
+      resetTrackers();
+    });
+
+    afterEach(() => {
+      resetTrackers();
+    });
+
+    it("leaves the sticky reserve account for the highest usable tier", () => {
+      const manager = createManager([{ reserve: true }, {}, { priority: 10 }]);
+
+      expect(manager.getCurrentOrNextForFamilyHybrid("codex")?.index).toBe(2);
+      expect(manager.getCurrentOrNextForFamily("codex")?.index).toBe(2);
+    });
+
+    it("drops to lower tiers and finally the reserve as accounts hit limits", () => {
+      const manager = createManager([{ reserve: true }, {}, { priority: 10 }]);
+
+      manager.markRateLimited(manager.setActiveIndex(2)!, 60_000, "codex");
+      expect(manager.getCurrentOrNextForFamilyHybrid("codex")?.index).toBe(1);
+
+      manager.markRateLimited(manager.setActiveIndex(1)!, 60_000, "codex");
+      expect(manager.getCurrentOrNextForFamilyHybrid("codex")?.index).toBe(0);
+    });
+
+    it("explains why standby accounts were passed over", () => {
+      const manager = createManager([{ reserve: true }, {}, { priority: 10 }]);
+
+      const [reserve, normal, preferred] = manager.getSelectionExplainability("codex");
+
+      expect(reserve?.reasons).toContain("reserve-standby");
+      expect(reserve?.reserve).toBe(true);
+      expect(normal?.reasons).toContain("lower-priority");
+      expect(preferred?.priority).toBe(10);
+      expect(preferred?.reasons).toEqual(["eligible"]);
+    });
+  });
+
+  describe("routing rules", () => {
+    const createManager = () => {
+      const now = Date.now();
+      return new AccountManager(undefined, {
+        version: 3 as const,
+        activeIndex: 0,
+        activeIndexByFamily: { "gpt-5.4-pro": 0, codex: 0 },
+        accounts: [
+          { refreshToken: "token-1", addedAt: now, lastUsed: now, accountTags: ["personal", "pro"] },
+          { refreshToken: "token-2", addedAt: now, lastUsed: now, accountTags: ["work"] },
+          { refreshToken: "token-3", addedAt: now, lastUsed: now, accountTags: ["pro", "work"] },
+        ],
+      } as never);
+    };
+
+    beforeEach(() => {
+      resetTrackers();
+      configureRoutingRules({
+        "gpt-5.4-pro": { requireTags: ["pro"], excludeTags: ["personal"] },
+      });
+    });
+
+    afterEach(() => {
+      configureRoutingRules({});
+      resetTrackers();
+    });
+
+    it("only selects accounts the rule allows for the matching family", () => {
+      const manager = createManager();
+
+      expect(manager.getCurrentOrNextForFamilyHybrid("gpt-5.4-pro", "gpt-5.4-pro")?.index).toBe(2);
+      expect(manager.getCurrentOrNextForFamily("gpt-5.4-pro")?.index).toBe(2);
+      expect(manager.getCurrentOrNextForFamilyHybrid("codex")?.index).toBe(0);
+    });
+
+    it("does not fall back to excluded accounts once allowed ones are limited", () => {
+      const manager = createManager();
+      manager.markRateLimited(manager.setActiveIndex(2)!, 60_000, "gpt-5.4-pro");
+
+      expect(manager.getCurrentOrNextForFamilyHybrid("gpt-5.4-pro")?.index).toBe(2);
+      expect(manager.getMinWaitTimeForFamily("gpt-5.4-pro")).toBeGreaterThan(0);
+    });
+
+    it("names the rule that excluded each account", () => {
+      const manager = createManager();
+
+      const [personal, work, pro] = manager.getSelectionExplainability("gpt-5.4-pro", "gpt-5.4-pro");
+
+      expect(personal?.eligible).toBe(false);
+      expect(personal?.reasons).toContain("routing-rule:gpt-5.4-pro:excluded-tag:personal");
+      expect(work?.eligible).toBe(false);
+      expect(work?.reasons).toContain("routing-rule:gpt-5.4-pro:missing-tag:pro");
+      expect(pro?.reasons).toEqual(["eligible"]);
+    });
+  });
+
+  describe("session affinity", () => {
+    const createManager = () => {
+      const now = Date.now();
+      return new AccountManager(undefined, {
+        version: 3 as const,
+        activeIndex: 0,
+        activeIndexByFamily: { codex: 0 },
+        accounts: [
+          { refreshToken: "token-1", addedAt: now, lastUsed: now },
+          { refreshToken: "token-2", addedAt: now, lastUsed: now - 60_000 },
+          { refreshToken: "token-3", addedAt: now, lastUsed: now - 120_000 },
+        ],
+      } as never);
+    };
+
+    beforeEach(() => {
+      resetTrackers();
+      configureAccountSelection({ strategy: "round-robin" });
+      getSessionAffinityTracker().clear();
+    });
+
+    afterEach(() => {
+      configureAccountSelection({});
+      getSessionAffinityTracker().clear();
+      resetTrackers();
+    });
+
+    it("keeps a session on its account while other sessions rotate", () => {
+      const manager = createManager();
+
+      const first = manager.getCurrentOrNextForFamilyHybrid("codex", null, { sessionKey: "s1" })!;
+      const other = manager.getCurrentOrNextForFamilyHybrid("codex", null, { sessionKey: "s2" })!;
+      const again = manager.getCurrentOrNextForFamilyHybrid("codex", null, { sessionKey: "s1" })!;
+
+      expect(other.index).not.toBe(first.index);
+      expect(again.index).toBe(first.index);
+      expect(getSessionAffinityTracker().getStats()).toMatchObject({
+        hits: 1,
+        misses: 2,
+        activeSessions: 2,
+      });
+    });
+
+    it("moves the session once its account is rate-limited and re-pins it", () => {
+      const manager = createManager();
+      const first = manager.getCurrentOrNextForFamilyHybrid("codex", null, { sessionKey: "s1" })!;
+      manager.markRateLimited(first, 60_000, "codex");
+
+      const moved = manager.getCurrentOrNextForFamilyHybrid("codex", null, { sessionKey: "s1" })!;
+      const again = manager.getCurrentOrNextForFamilyHybrid("codex", null, { sessionKey: "s1" })!;
+
+      expect(moved.index).not.toBe(first.index);
+      expect(again.index).toBe(moved.index);
+    });
+
+    it("keeps an active session pinned past the TTL and evicts idle ones first", () => {
+      vi.useFakeTimers();
+      try {
+        vi.setSystemTime(0);
+        getSessionAffinityTracker().configure({ ttlMs: 1_000, maxEntries: 2 });
+        const manager = createManager();
+        const first = manager.getCurrentOrNextForFamilyHybrid("codex", null, { sessionKey: "s1" })!;
+        manager.getCurrentOrNextForFamilyHybrid("codex", null, { sessionKey: "s2" });
+
+        for (const at of [600, 1_200, 1_800]) {
+          vi.setSystemTime(at);
+          expect(
+            manager.getCurrentOrNextForFamilyHybrid("codex", null, { sessionKey: "s1" })?.index,
+          ).toBe(first.index);
+        }
+        manager.getCurrentOrNextForFamilyHybrid("codex", null, { sessionKey: "s3" });
+
+        expect(getSessionAffinityTracker().lookup("s1")).toBeDefined();
+        expect(getSessionAffinityTracker().getStats()).toMatchObject({ hits: 3, activeSessions: 2 });
+      } finally {
+        getSessionAffinityTracker().configure({});
+        vi.useRealTimers();
+      }
+    });
+
+    it("abandons an unhealthy pinned account", () => {
+      const manager = createManager();
+      const first = manager.getCurrentOrNextForFamilyHybrid("codex", null, { sessionKey: "s1" })!;
+      for (let i = 0; i < 3; i++) manager.recordFailure(first, "codex");
+
+      expect(
+        manager.getCurrentOrNextForFamilyHybrid("codex", null, { sessionKey: "s1" })?.index,
+      ).not.toBe(first.index);
+    });
+
+    it("skips the pin when asked to, without counting a miss", () => {
+      const manager = createManager();
+      const first = manager.getCurrentOrNextForFamilyHybrid("codex", null, { sessionKey: "s1" })!;
+
+      const retry = manager.getCurrentOrNextForFamilyHybrid("codex", null, {
+        sessionKey: "s1",
+        ignoreSessionAffinity: true,
+      })!;
+
+      expect(retry.index).not.toBe(first.index);
+      expect(getSessionAffinityTracker().getStats().misses).toBe(1);
+    });
+  });
+
+  describe("availability schedules", () => {
+    // Monday 2026-10-19 18:00 UTC: after business hours, inside the evening window.
+    const mondayEvening = Date.UTC(2026, 9, 19, 18, 0);
+    const workHours = {
+      timezone: "UTC",
+      windows: [{ days: ["mon", "tue", "wed", "thu", "fri"], start: "09:00", end: "17:00" }],
+    };
+    const evenings = { timezone: "UTC", windows: [{ start: "17:00", end: "23:00" }] };
+
+    const createManager = (schedules: Array<object | undefined>) =>
+      new AccountManager(undefined, {
+        version: 3 as const,
+        activeIndex: 0,
+        activeIndexByFamily: { codex: 0 },
+        accounts: schedules.map((availability, index) => ({
+          refreshToken: `token-${index + 1}`,
+          addedAt: mondayEvening,
+          lastUsed: mondayEvening,
+          availability,
+        })),
+      } as never);
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(mondayEvening);
+      resetTrackers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      resetTrackers();
+    });
+
+    it("skips accounts outside their schedule", () => {
+      const manager = createManager([workHours, evenings]);
+
+      expect(manager.getCurrentOrNextForFamilyHybrid("codex")?.index).toBe(1);
+      expect(manager.getCurrentOrNextForFamily("codex")?.index).toBe(1);
+
+      vi.setSystemTime(Date.UTC(2026, 9, 20, 10, 0));
+      expect(manager.getCurrentOrNextForFamilyHybrid("codex")?.index).toBe(0);
+    });
+
+    it("returns no account while every schedule is closed", () => {
+      const manager = createManager([workHours, workHours]);
+
+      expect(manager.getCurrentOrNextForFamilyHybrid("codex")).toBeNull();
+      expect(manager.getCurrentOrNextForFamily("codex")).toBeNull();
+    });
+
+    it("explains off-schedule accounts with their next opening", () => {
+      const manager = createManager([workHours, undefined]);
+
+      const [offSchedule, unscheduled] = manager.getSelectionExplainability("codex");
+
+      expect(offSchedule?.eligible).toBe(false);
+      expect(offSchedule?.reasons).toContain("outside-schedule");
+      expect(offSchedule?.availableAt).toBe(Date.UTC(2026, 9, 20, 9, 0));
+      expect(unscheduled?.eligible).toBe(true);
+      expect(unscheduled?.availableAt).toBeUndefined();
+    });
+
+    it("formats the next availability for off-schedule accounts only", () => {
+      const [offSchedule, onSchedule] = createManager([workHours, evenings]).getAccountsSnapshot();
+
+      expect(formatAvailability(offSchedule!, mondayEvening)).toBe("Tue 09:00 UTC (in 15h 0m)");
+      expect(formatAvailability(onSchedule!, mondayEvening)).toBeNull();
+    });
+  });
+
+  describe("quota forecast rotation", () => {
+    const createManager = () => {
+      const now = Date.now();
+      return new AccountManager(undefined, {
+        version: 3 as const,
+        activeIndex: 0,
+        activeIndexByFamily: { codex: 0 },
+        accounts: [
+          { refreshToken: "token-1", addedAt: now, lastUsed: now },
+          { refreshToken: "token-2", addedAt: now, lastUsed: now },
+        ],
+      } as never);
+    };
+    // 40% -> 70% over ten minutes: the 5h window runs out in ~10m.
+    const burnFast = (index: number) => {
+      const now = Date.now();
+      getQuotaForecastTracker().record(index, [{ usedPercent: 40, windowMinutes: 300 }], now - 600_000);
+      getQuotaForecastTracker().record(index, [{ usedPercent: 70, windowMinutes: 300 }], now);
+    };
+
+    beforeEach(() => {
+      resetTrackers();
+      getQuotaForecastTracker().clear();
+      configureQuotaForecast({});
+    });
+
+    afterEach(() => {
+      configureAccountSelection({});
+      getQuotaForecastTracker().clear();
+      configureQuotaForecast({});
+      resetTrackers();
+    });
+
+    it("moves off an account forecast to run out within the horizon", () => {
+      configureAccountSelection({ strategy: "sticky-until-limited" });
+      const manager = createManager();
+      expect(manager.getCurrentOrNextForFamilyHybrid("codex")?.index).toBe(0);
+
+      burnFast(0);
+
+      expect(manager.getCurrentOrNextForFamilyHybrid("codex")?.index).toBe(1);
+      expect(manager.getSelectionExplainability("codex")[0]?.reasons).toContain("quota-forecast:~10m");
+    });
+
+    it("keeps the current account when every account is running out", () => {
+      const manager = createManager();
+      burnFast(0);
+      burnFast(1);
+
+      expect(manager.getCurrentOrNextForFamilyHybrid("codex")?.index).toBe(0);
+    });
+
+    it("does not rotate early when the horizon is disabled", () => {
+      configureQuotaForecast({ horizonMs: 0 });
+      const manager = createManager();
+      burnFast(0);
+
+      expect(manager.getCurrentOrNextForFamilyHybrid("codex")?.index).toBe(0);
+    });
+  });
+
+  describe("credits-aware routing", () => {
+    const createManager = (creditFloor?: number) => {
+      const now = Date.now();
+      return new AccountManager(undefined, {
+        version: 3 as const,
+        activeIndex: 0,
+        activeIndexByFamily: { codex: 0 },
+        accounts: [
+          { refreshToken: "token-1", addedAt: now, lastUsed: now, creditFloor },
+          { refreshToken: "token-2", addedAt: now, lastUsed: now },
+        ],
+      } as never);
+    };
+    const exhaustedHeaders = (credits: Record<string, string> = {}) =>
+      new Headers({
+        "x-codex-primary-used-percent": "100",
+        "x-codex-primary-window-minutes": "300",
+        "x-codex-primary-reset-after-seconds": "3600",
+        ...credits,
+      });
+
+    beforeEach(() => {
+      resetTrackers();
+      getCreditsTracker().clear();
+      configureCreditsRouting({ enabled: true });
+      configureAccountSelection({ strategy: "sticky-until-limited" });
+    });
+
+    afterEach(() => {
+      configureAccountSelection({});
+      configureCreditsRouting({});
+      getCreditsTracker().clear();
+      resetTrackers();
+    });
+
+    it("moves off an exhausted account that has no credits", () => {
+      const manager = createManager();
+      manager.recordQuotaUsage(manager.setActiveIndex(0)!, exhaustedHeaders());
+
+      expect(manager.getCurrentOrNextForFamilyHybrid("codex")?.index).toBe(1);
+      const [limited] = manager.getSelectionExplainability("codex");
+      expect(limited?.eligible).toBe(false);
+      expect(limited?.reasons).toContain("credits-below-floor");
+    });
+
+    it("keeps an exhausted account with credits above the floor", () => {
+      configureCreditsRouting({ enabled: true, floor: 5 });
+      const manager = createManager();
+      manager.recordQuotaUsage(
+        manager.setActiveIndex(0)!,
+        exhaustedHeaders({ "x-codex-credits-balance": "12" }),
+      );
+
+      expect(manager.getCurrentOrNextForFamilyHybrid("codex")?.index).toBe(0);
+    });
+
+    it("applies the account's own floor over the global one", () => {
+      const manager = createManager(20);
+      manager.recordQuotaUsage(
+        manager.setActiveIndex(0)!,
+        exhaustedHeaders({ "x-codex-credits-balance": "12" }),
+      );
+
+      expect(manager.getCurrentOrNextForFamilyHybrid("codex")?.index).toBe(1);
+    });
+
+    it("waits for the window reset when every account is out of credits", () => {
+      const manager = createManager();
+      manager.recordQuotaUsage(manager.setActiveIndex(0)!, exhaustedHeaders());
+      manager.recordQuotaUsage(manager.setActiveIndex(1)!, exhaustedHeaders());
+
+      expect(manager.getCurrentOrNextForFamilyHybrid("codex")).toBeNull();
+      const waitMs = manager.getMinWaitTimeForFamily("codex");
+      expect(waitMs).toBeGreaterThan(3_500_000);
+      expect(waitMs).toBeLessThanOrEqual(3_600_000);
+    });
+
+    it("does nothing while credits-aware routing is off", () => {
+      configureCreditsRouting({});
+      const manager = createManager();
+      manager.recordQuotaUsage(manager.setActiveIndex(0)!, exhaustedHeaders());
+
+      expect(manager.getCurrentOrNextForFamilyHybrid("codex")?.index).toBe(0);
+    });
+  });
+
+  describe("in-flight limit", () => {
+    const createManager = () => {
+      const now = Date.now();
+      return new AccountManager(undefined, {
+        version: 3 as const,
+        activeIndex: 0,
+        activeIndexByFamily: { codex: 0 },
+        accounts: [
+          { refreshToken: "token-1", addedAt: now, lastUsed: now },
+          { refreshToken: "token-2", addedAt: now, lastUsed: now },
+        ],
+      } as never);
+    };
+
+    beforeEach(() => {
+      resetTrackers();
+      getAccountConcurrencyLimiter().clear();
+      configureAccountConcurrency({ maxInFlight: 1 });
+      configureAccountSelection({ strategy: "sticky-until-limited" });
+    });
+
+    afterEach(() => {
+      configureAccountSelection({});
+      configureAccountConcurrency({});
+      getAccountConcurrencyLimiter().clear();
+      resetTrackers();
+    });
+
+    it("rotates off an account at its in-flight limit while another has a slot", () => {
+      const manager = createManager();
+      const release = getAccountConcurrencyLimiter().tryAcquire(0);
+
+      expect(manager.getCurrentOrNextForFamilyHybrid("codex")?.index).toBe(1);
+      const [saturated] = manager.getSelectionExplainability("codex");
+      expect(saturated?.eligible).toBe(true);
+      expect(saturated?.inFlight).toBe(1);
+      expect(saturated?.reasons).toContain("in-flight-limit:1/1");
+
+      release?.();
+      manager.setActiveIndex(0);
+      expect(manager.getCurrentOrNextForFamilyHybrid("codex")?.index).toBe(0);
+    });
+
+    it("keeps the current account when every account is saturated", () => {
+      const manager = createManager();
+      const limiter = getAccountConcurrencyLimiter();
+      limiter.tryAcquire(0);
+      limiter.tryAcquire(1);
+
+      expect(manager.getCurrentOrNextForFamilyHybrid("codex")?.index).toBe(0);
+    });
+
+    it("steers round-robin past saturated accounts", () => {
+      configureAccountSelection({ strategy: "round-robin" });
+      const manager = createManager();
+      const limiter = getAccountConcurrencyLimiter();
+      limiter.tryAcquire(0);
+
+      expect(manager.getCurrentOrNextForFamilyHybrid("codex")?.index).toBe(1);
+      expect(manager.getCurrentOrNextForFamilyHybrid("codex")?.index).toBe(1);
+
+      limiter.tryAcquire(1);
+      expect(manager.getCurrentOrNextForFamilyHybrid("codex")?.index).toBe(0);
+    });
+
+    it("does nothing while the limit is off", () => {
+      configureAccountConcurrency({});
+      const manager = createManager();
+      getAccountConcurrencyLimiter().tryAcquire(0);
+      getAccountConcurrencyLimiter().tryAcquire(0);
+
+      expect(manager.getCurrentOrNextForFamilyHybrid("codex")?.index).toBe(0);
+    });
+  });
+
+  describe("rotation strategies", () => {
+    const createManager = (lastUsedOffsets: number[]) => {
+      const now = Date.now();
+      return new AccountManager(undefined, {
+        version: 3 as const,
+        activeIndex: 0,
+        activeIndexByFamily: { codex: 0 },
+        accounts: lastUsedOffsets.map((offset, index) => ({
+          refreshToken: `token-${index + 1}`,
+          addedAt: now,
+          lastUsed: now - offset,
+        })),
+      } as never);
+    };
+
+    beforeEach(() => {
+      resetTrackers();
+    });
+
+    afterEach(() => {
+      configureAccountSelection({});
+      resetTrackers();
+    });
+
+    it("round-robin advances on every request", () => {
+      configureAccountSelection({ strategy: "round-robin" });
+      const manager = createManager([0, 0, 0]);
+
+      const picks = [1, 2, 3, 4].map(
+        () => manager.getCurrentOrNextForFamilyHybrid("codex")?.index,
+      );
+
+      expect(picks).toEqual([0, 1, 2, 0]);
+    });
+
+    it("sticky-until-limited stays put and then moves to the next account in order", () => {
+      configureAccountSelection({ strategy: "sticky-until-limited" });
+      // Account 3 is far staler, so hybrid scoring would prefer it.
+      const manager = createManager([0, 0, 86_400_000]);
+
+      expect(manager.getCurrentOrNextForFamilyHybrid("codex")?.index).toBe(0);
+      expect(manager.getCurrentOrNextForFamilyHybrid("codex")?.index).toBe(0);
+
+      manager.markRateLimited(manager.setActiveIndex(0)!, 60_000, "codex");
+      expect(manager.getCurrentOrNextForFamilyHybrid("codex")?.index).toBe(1);
+      expect(manager.getCurrentOrNextForFamilyHybrid("codex")?.index).toBe(1);
+    });
+
+    it("least-quota-used picks the account with the most tokens left", () => {
+      configureAccountSelection({ strategy: "least-quota-used" });
+      const manager = createManager([0, 0, 0]);
+      getTokenTracker().drain(0, "codex", 30);
+      getTokenTracker().drain(2, "codex", 10);
+
+      expect(manager.getCurrentOrNextForFamilyHybrid("codex")?.index).toBe(1);
+    });
+
+    it("least-quota-used prefers the lowest live quota usage over tokens", () => {
+      configureAccountSelection({ strategy: "least-quota-used" });
+      const manager = createManager([0, 0]);
+      getTokenTracker().drain(0, "codex", 30);
+      getQuotaUsageTracker().record(1, [{ usedPercent: 40 }]);
+
+      expect(manager.getCurrentOrNextForFamilyHybrid("codex")?.index).toBe(0);
+    });
+
+    it("applies user-tunable hybrid weights", () => {
+      const hybridPick = (weights?: { healthWeight: number; freshnessWeight: number }) => {
+        resetTrackers();
+        configureAccountSelection({ weights });
+        // Account 2 has been idle for an hour but recently failed twice.
+        const manager = createManager([0, 3_600_000, 0]);
+        manager.markRateLimited(manager.setActiveIndex(0)!, 60_000, "codex");
+        getHealthTracker().recordFailure(1, "codex");
+        getHealthTracker().recordFailure(1, "codex");
+        return manager.getCurrentOrNextForFamilyHybrid("codex")?.index;
+      };
+
+      expect(hybridPick()).toBe(2);
+      expect(hybridPick({ healthWeight: 0, freshnessWeight: 100 })).toBe(1);
+    });
+
+    it("reports the active strategy and score in explainability", () => {
+      configureAccountSelection({ strategy: "least-quota-used" });
+      const manager = createManager([0, 0]);
+      getQuotaUsageTracker().record(1, [{ usedPercent: 30 }]);
+
+      const explainability = manager.getSelectionExplainability("codex");
+
+      expect(explainability.map((entry) => entry.strategy)).toEqual([
+        "least-quota-used",
+        "least-quota-used",
+      ]);
+      expect(explainability[0]?.selectionScore).toBeGreaterThan(
+        explainability[1]?.selectionScore ?? Infinity,
+      );
+
+      configureAccountSelection({ strategy: "round-robin" });
+      expect(manager.getSelectionExplainability("codex")[0]?.selectionScore).toBeUndefined();
+    });
+  });
 });
 
 describe("incrementAuthFailures serialization (audit ledger 47)", () => {
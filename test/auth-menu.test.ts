@@ -1,5 +1,10 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
-import { showAuthMenu, showAccountDetails, type AccountInfo } from "../lib/ui/auth-menu.js";
+import {
+	showAuthMenu,
+	showAccountDetails,
+	promptAccountPriority,
+	type AccountInfo,
+} from "../lib/ui/auth-menu.js";
 import { setUiRuntimeOptions, resetUiRuntimeOptions } from "../lib/ui/runtime.js";
 import { select } from "../lib/ui/select.js";
 import { confirm } from "../lib/ui/confirm.js";
@@ -72,4 +77,33 @@ describe("auth-menu", () => {
 			expect.stringContaining("shared@example.com | workspace:Workspace A | id:org-aaaa...bb2222"),
 		);
 	});
+
+	it("offers priority and reserve actions with the current routing tier", async () => {
+		vi.mocked(select).mockResolvedValueOnce("reserve");
+
+		const action = await showAccountDetails({
+			index: 1,
+			email: "backup@example.com",
+			priority: 25,
+			reserve: true,
+		});
+
+		expect(action).toBe("reserve");
+		const [items, options] = vi.mocked(select).mock.calls[0] ?? [];
+		const labels = (items as Array<{ label: string }>).map((item) => item.label);
+		expect(labels).toContain("Set priority");
+		expect(labels).toContain("Remove reserve flag");
+		expect((options as { subtitle?: string }).subtitle).toContain("Priority: 25 (reserve)");
+	});
+
+	it("prompts for a priority tier and marks the current one", async () => {
+		vi.mocked(select).mockResolvedValueOnce(50);
+
+		const priority = await promptAccountPriority({ index: 0, priority: 10 });
+
+		expect(priority).toBe(50);
+		const items = vi.mocked(select).mock.calls[0]?.[0] as Array<{ value: number; hint?: string }>;
+		expect(items.map((item) => item.value)).toEqual([0, 10, 25, 50, 100]);
+		expect(items.find((item) => item.value === 10)?.hint).toBe("current");
+	});
 });
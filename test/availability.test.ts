@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import {
+	formatAvailabilitySchedule,
+	formatAvailabilityTime,
+	getNextAvailabilityTime,
+	isAccountAvailableAt,
+	normalizeAvailabilitySchedule,
+	type AccountAvailabilitySchedule,
+} from "../lib/availability.js";
+
+// 2026-10-19 is a Monday.
+const MONDAY_NOON_UTC = Date.UTC(2026, 9, 19, 12, 0);
+const HOUR_MS = 60 * 60_000;
+
+const businessHours: AccountAvailabilitySchedule = {
+	timezone: "UTC",
+	windows: [{ days: ["mon", "tue", "wed", "thu", "fri"], start: "09:00", end: "17:00" }],
+};
+
+describe("availability schedules", () => {
+	it("normalizes day names, day numbers, and times", () => {
+		expect(
+			normalizeAvailabilitySchedule({
+				timezone: " Europe/Berlin ",
+				windows: [
+					{ days: ["Monday", 2, "wed"], start: "9:00", end: "17:30" },
+					{ days: [0, 1, 2, 3, 4, 5, 6], start: "20:00", end: "24:00" },
+				],
+			}),
+		).toEqual({
+			timezone: "Europe/Berlin",
+			windows: [
+				{ days: ["mon", "tue", "wed"], start: "09:00", end: "17:30" },
+				{ start: "20:00", end: "24:00" },
+			],
+		});
+	});
+
+	it("drops malformed windows and unknown timezones", () => {
+		expect(
+			normalizeAvailabilitySchedule({
+				timezone: "Mars/Olympus",
+				windows: [
+					{ start: "25:00", end: "26:00" },
+					{ days: ["someday"], start: "09:00", end: "17:00" },
+					{ start: "18:00", end: "23:00" },
+				],
+			}),
+		).toEqual({ windows: [{ start: "18:00", end: "23:00" }] });
+		expect(normalizeAvailabilitySchedule({ windows: [{ start: "nine", end: "five" }] })).toBeUndefined();
+		expect(normalizeAvailabilitySchedule("weekdays")).toBeUndefined();
+	});
+
+	it("treats accounts without a schedule as always available", () => {
+		expect(isAccountAvailableAt(undefined, MONDAY_NOON_UTC)).toBe(true);
+		expect(getNextAvailabilityTime(undefined, MONDAY_NOON_UTC)).toBeNull();
+	});
+
+	it("checks the current wall-clock time against each window", () => {
+		expect(isAccountAvailableAt(businessHours, MONDAY_NOON_UTC)).toBe(true);
+		expect(isAccountAvailableAt(businessHours, MONDAY_NOON_UTC + 5 * HOUR_MS)).toBe(false);
+		expect(isAccountAvailableAt(businessHours, MONDAY_NOON_UTC + 5 * 24 * HOUR_MS)).toBe(false);
+		expect(getNextAvailabilityTime(businessHours, MONDAY_NOON_UTC)).toBe(MONDAY_NOON_UTC);
+	});
+
+	it("lets windows run past midnight from the day they open", () => {
+		const lateFriday: AccountAvailabilitySchedule = {
+			timezone: "UTC",
+			windows: [{ days: ["fri"], start: "22:00", end: "02:00" }],
+		};
+		const saturdayOneAm = Date.UTC(2026, 9, 24, 1, 0);
+
+		expect(isAccountAvailableAt(lateFriday, saturdayOneAm)).toBe(true);
+		expect(isAccountAvailableAt(lateFriday, saturdayOneAm + 2 * HOUR_MS)).toBe(false);
+	});
+
+	it("finds the next opening across the weekend", () => {
+		const fridayEvening = Date.UTC(2026, 9, 23, 18, 30, 15);
+
+		expect(getNextAvailabilityTime(businessHours, fridayEvening)).toBe(
+			Date.UTC(2026, 9, 26, 9, 0),
+		);
+	});
+
+	it("keeps the wall-clock opening time across a DST change", () => {
+		const newYorkMornings: AccountAvailabilitySchedule = {
+			timezone: "America/New_York",
+			windows: [{ days: ["mon"], start: "09:00", end: "12:00" }],
+		};
+		// US DST ends on 2026-11-01, so Monday 09:00 EST is 14:00 UTC.
+		const fridayBeforeChange = Date.UTC(2026, 9, 30, 18, 0);
+
+		expect(getNextAvailabilityTime(newYorkMornings, fridayBeforeChange)).toBe(
+			Date.UTC(2026, 10, 2, 14, 0),
+		);
+	});
+
+	it("formats schedules and opening times", () => {
+		expect(formatAvailabilitySchedule(businessHours)).toBe(
+			"mon,tue,wed,thu,fri 09:00-17:00 (UTC)",
+		);
+		expect(formatAvailabilitySchedule({ windows: [{ start: "18:00", end: "23:00" }] })).toBe(
+			"daily 18:00-23:00",
+		);
+		expect(formatAvailabilityTime(MONDAY_NOON_UTC, "UTC")).toBe("Mon 12:00 UTC");
+	});
+});
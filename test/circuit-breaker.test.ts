@@ -6,6 +6,10 @@ import {
   getCircuitBreaker,
   resetAllCircuitBreakers,
   clearCircuitBreakers,
+  configureCircuitBreakers,
+  getCircuitBreakerConfig,
+  getCircuitBreakerDetails,
+  resetCircuitBreaker,
 } from "../lib/circuit-breaker.js";
 
 describe("Circuit breaker", () => {
@@ -233,4 +237,92 @@ describe("Circuit breaker", () => {
     vi.setSystemTime(new Date(DEFAULT_CIRCUIT_BREAKER_CONFIG.resetTimeoutMs + 1000));
     expect(breaker.getTimeUntilReset()).toBe(0);
   });
+
+  it("releaseAttempt hands back an abandoned half-open probe slot", () => {
+    const breaker = new CircuitBreaker();
+    breaker.recordFailure();
+    breaker.recordFailure();
+    breaker.recordFailure();
+
+    vi.setSystemTime(new Date(DEFAULT_CIRCUIT_BREAKER_CONFIG.resetTimeoutMs + 1));
+    expect(breaker.canAttempt()).toEqual({ allowed: true, state: "half-open" });
+    expect(breaker.canAttempt().reason).toBe("probe-in-flight");
+
+    breaker.releaseAttempt();
+    expect(breaker.getState()).toBe("half-open");
+    expect(breaker.canAttempt().allowed).toBe(true);
+  });
+
+  it("releaseAttempt is a no-op while closed", () => {
+    const breaker = new CircuitBreaker();
+    breaker.releaseAttempt();
+    expect(breaker.canAttempt()).toEqual({ allowed: true, state: "closed" });
+  });
+
+  describe("registry configuration and details", () => {
+    afterEach(() => {
+      configureCircuitBreakers({});
+      clearCircuitBreakers();
+    });
+
+    it("configureCircuitBreakers applies to new and existing breakers", () => {
+      const existing = getCircuitBreaker("acc-1:codex");
+      configureCircuitBreakers({ failureThreshold: 1, resetTimeoutMs: 5_000 });
+      const created = getCircuitBreaker("acc-2:codex");
+
+      existing.recordFailure();
+      created.recordFailure();
+
+      expect(existing.getState()).toBe("open");
+      expect(created.getState()).toBe("open");
+      expect(created.getTimeUntilReset()).toBe(5_000);
+      expect(getCircuitBreakerConfig()).toEqual({
+        ...DEFAULT_CIRCUIT_BREAKER_CONFIG,
+        failureThreshold: 1,
+        resetTimeoutMs: 5_000,
+      });
+    });
+
+    it("getCircuitBreakerDetails lists keys, failures and time to half-open", () => {
+      const open = getCircuitBreaker("acc-2:codex");
+      getCircuitBreaker("acc-1:gpt-5.4").recordFailure();
+      vi.setSystemTime(new Date(1_000));
+      open.recordFailure();
+      open.recordFailure();
+      open.recordFailure();
+      vi.setSystemTime(new Date(11_000));
+
+      expect(getCircuitBreakerDetails()).toEqual([
+        {
+          key: "acc-1:gpt-5.4",
+          state: "closed",
+          failureTimestamps: [0],
+          timeUntilHalfOpenMs: 0,
+          lastStateChange: 0,
+        },
+        {
+          key: "acc-2:codex",
+          state: "open",
+          failureTimestamps: [1_000, 1_000, 1_000],
+          timeUntilHalfOpenMs: DEFAULT_CIRCUIT_BREAKER_CONFIG.resetTimeoutMs - 10_000,
+          lastStateChange: 1_000,
+        },
+      ]);
+    });
+
+    it("resetCircuitBreaker closes one breaker and reports unknown keys", () => {
+      const first = getCircuitBreaker("acc-1:codex");
+      const second = getCircuitBreaker("acc-2:codex");
+      for (let i = 0; i < 3; i++) {
+        first.recordFailure();
+        second.recordFailure();
+      }
+
+      expect(resetCircuitBreaker("acc-1:codex")).toBe(true);
+      expect(resetCircuitBreaker("missing:codex")).toBe(false);
+      expect(first.getState()).toBe("closed");
+      expect(first.getFailureCount()).toBe(0);
+      expect(second.getState()).toBe("open");
+    });
+  });
 });
@@ -3,7 +3,14 @@ import {
 	isContextOverflowError,
 	createContextOverflowResponse,
 	handleContextOverflow,
+	trimToolOutputsForRetry,
+	describeContextTrim,
 } from "../lib/context-overflow.js";
+import type { InputItem } from "../lib/types.js";
+
+function output(callId: string, text: string): InputItem {
+	return { type: "function_call_output", call_id: callId, output: text };
+}
 
 describe("Context Overflow Handler", () => {
 	describe("isContextOverflowError", () => {
@@ -73,21 +80,39 @@ describe("Context Overflow Handler", () => {
 			expect(response.headers.get("X-Codex-Plugin-Error-Type")).toBe("context_overflow");
 		});
 
-		it("includes SSE events with helpful message", async () => {
+		it("includes Responses API events with helpful message", async () => {
 			const response = createContextOverflowResponse("gpt-5.1-codex");
 			const text = await response.text();
 			
-			expect(text).toContain("event: message_start");
-			expect(text).toContain("event: content_block_start");
-			expect(text).toContain("event: content_block_delta");
-			expect(text).toContain("event: content_block_stop");
-			expect(text).toContain("event: message_delta");
-			expect(text).toContain("event: message_stop");
+			expect(text).toContain("event: response.created");
+			expect(text).toContain("event: response.output_text.delta");
+			expect(text).toContain("event: response.completed");
+			expect(text).not.toContain("message_start");
 			expect(text).toContain("/compact");
 			expect(text).toContain("/clear");
 			expect(text).toContain("/undo");
 		});
 
+		it("shows the caller's detail under the notice", async () => {
+			const response = createContextOverflowResponse(
+				"gpt-5.1-codex",
+				"Estimated 300000 input tokens exceed the 272000-token input window of gpt-5.1-codex",
+			);
+			const text = await response.text();
+
+			expect(text).toContain(
+				"Context is too long for this model.\\n\\nEstimated 300000 input tokens exceed the 272000-token input window of gpt-5.1-codex.\\n\\nPlease use",
+			);
+		});
+
+		it("returns a JSON response object for non-streaming requests", async () => {
+			const response = createContextOverflowResponse("gpt-5.1-codex", undefined, false);
+			const body = await response.json() as { output: Array<{ content: Array<{ text: string }> }> };
+
+			expect(response.headers.get("X-Codex-Plugin-Error-Type")).toBe("context_overflow");
+			expect(body.output[0]?.content[0]?.text).toContain("/compact");
+		});
+
 		it("includes model in response", async () => {
 			const response = createContextOverflowResponse("gpt-5.1-codex");
 			const text = await response.text();
@@ -136,4 +161,71 @@ describe("Context Overflow Handler", () => {
 			expect(result.handled).toBe(false);
 		});
 	});
+
+	describe("trimToolOutputsForRetry", () => {
+		it("removes the oldest half of older outputs and shortens large ones, keeping every pair", () => {
+			const input: InputItem[] = [
+				{ type: "message", role: "user", content: "first" },
+				{ type: "function_call", call_id: "c1", name: "read", arguments: "{}" },
+				output("c1", "a".repeat(500)),
+				{ type: "function_call", call_id: "c2", name: "read", arguments: "{}" },
+				output("c2", "b".repeat(10_000)),
+				{ type: "message", role: "user", content: "latest" },
+				{ type: "function_call", call_id: "c3", name: "read", arguments: "{}" },
+				output("c3", "c".repeat(50_000)),
+				{ type: "function_call", call_id: "c4", name: "read", arguments: "{}" },
+				output("c4", "d".repeat(50_000)),
+			];
+
+			const result = trimToolOutputsForRetry(input);
+
+			expect(result.input).toHaveLength(input.length);
+			expect(result.input.map((item) => item.call_id)).toEqual(input.map((item) => item.call_id));
+			expect(result.input[2]?.output).toBe(
+				"[Tool output removed to fit the context window (500 characters)]",
+			);
+			expect(result.input[4]?.output).toMatch(
+				/^b{1000}\n\[\.\.\. 9000 characters of tool output removed to fit the context window\]$/,
+			);
+			expect(result.input[7]).toBe(input[7]);
+			expect(result.input[9]).toBe(input[9]);
+			expect(result).toMatchObject({ dropped: 1, shortened: 1 });
+			expect(describeContextTrim(result)).toBe(
+				"removed 1 old tool output and shortened 1 large one (~9k characters)",
+			);
+		});
+
+		it("trims the current turn's outputs when the latest user message comes first", () => {
+			const input: InputItem[] = [{ type: "message", role: "user", content: "fix the build" }];
+			for (let i = 1; i <= 6; i++) {
+				input.push({ type: "function_call", call_id: `c${i}`, name: "bash", arguments: "{}" });
+				input.push(output(`c${i}`, String(i).repeat(20_000)));
+			}
+
+			const result = trimToolOutputsForRetry(input);
+
+			expect(result).toMatchObject({ dropped: 2, shortened: 2 });
+			expect(result.input[2]?.output).toBe(
+				"[Tool output removed to fit the context window (20000 characters)]",
+			);
+			expect(result.input[4]?.output).toBe(
+				"[Tool output removed to fit the context window (20000 characters)]",
+			);
+			expect(String(result.input[6]?.output)).toMatch(/^3{1000}\n\[\.\.\. 19000 characters/);
+			expect(String(result.input[8]?.output)).toMatch(/^4{1000}\n\[\.\.\. 19000 characters/);
+			expect(result.input[10]).toBe(input[10]);
+			expect(result.input[12]).toBe(input[12]);
+			expect(result.input.map((item) => item.call_id)).toEqual(input.map((item) => item.call_id));
+		});
+
+		it("leaves the most recent tool outputs untouched", () => {
+			const input: InputItem[] = [
+				{ type: "message", role: "user", content: "latest" },
+				output("c1", "z".repeat(50_000)),
+				output("c2", "y".repeat(50_000)),
+			];
+
+			expect(trimToolOutputsForRetry(input)).toMatchObject({ input, dropped: 0, shortened: 0 });
+		});
+	});
 });
@@ -0,0 +1,104 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+	configureCreditsRouting,
+	CreditsTracker,
+	formatCreditsStatus,
+	getCreditLimitedUntil,
+	getCreditsTracker,
+	normalizeUsageCredits,
+	parseCreditsFromHeaders,
+} from "../lib/credits.js";
+import { getQuotaUsageTracker, resetTrackers } from "../lib/rotation.js";
+
+const NOW = 1_800_000_000_000;
+const RESET_AT = NOW + 60 * 60_000;
+
+describe("credits parsing", () => {
+	it("normalizes usage payload credits", () => {
+		expect(normalizeUsageCredits({ has_credits: true, balance: "1,250.5" })).toEqual({
+			hasCredits: true,
+			unlimited: false,
+			balance: 1250.5,
+		});
+		expect(normalizeUsageCredits({ unlimited: true })).toEqual({
+			hasCredits: false,
+			unlimited: true,
+			balance: undefined,
+		});
+		expect(normalizeUsageCredits(null)).toBeNull();
+	});
+
+	it("reads x-codex-credits-* headers and ignores responses without them", () => {
+		const credits = parseCreditsFromHeaders(
+			new Headers({ "x-codex-credits-balance": "7", "x-codex-credits-unlimited": "false" }),
+		);
+		expect(credits).toEqual({ hasCredits: true, unlimited: false, balance: 7 });
+		expect(parseCreditsFromHeaders(new Headers({ "x-codex-credits-balance": "n/a" }))).toBeNull();
+	});
+});
+
+describe("CreditsTracker", () => {
+	it("treats balances at or below the floor as not spendable", () => {
+		const tracker = new CreditsTracker({ enabled: true, floor: 5 });
+		tracker.record(0, { hasCredits: true, unlimited: false, balance: 5 });
+		tracker.record(1, { hasCredits: true, unlimited: false, balance: 6 });
+		tracker.record(2, { hasCredits: false, unlimited: true });
+		tracker.record(3, { hasCredits: true, unlimited: false });
+
+		expect(tracker.hasSpendableCredits(0)).toBe(false);
+		expect(tracker.hasSpendableCredits(1)).toBe(true);
+		expect(tracker.hasSpendableCredits(2)).toBe(true);
+		expect(tracker.hasSpendableCredits(3)).toBe(false);
+		expect(tracker.hasSpendableCredits(3, 0)).toBe(true);
+		expect(tracker.hasSpendableCredits(4)).toBe(false);
+	});
+});
+
+describe("getCreditLimitedUntil", () => {
+	afterEach(() => {
+		configureCreditsRouting({});
+		getCreditsTracker().clear();
+		resetTrackers();
+	});
+
+	const exhaust = (index: number) =>
+		getQuotaUsageTracker().record(
+			index,
+			[{ usedPercent: 100, windowMinutes: 300, resetAtMs: RESET_AT }],
+			NOW,
+		);
+
+	it("limits an exhausted account until its window resets", () => {
+		configureCreditsRouting({ enabled: true, floor: 10 });
+		exhaust(0);
+		getCreditsTracker().record(0, { hasCredits: true, unlimited: false, balance: 8 });
+
+		expect(getCreditLimitedUntil({ index: 0 }, NOW)).toBe(RESET_AT);
+		expect(getCreditLimitedUntil({ index: 0, creditFloor: 2 }, NOW)).toBeUndefined();
+		expect(getCreditLimitedUntil({ index: 0 }, RESET_AT)).toBeUndefined();
+	});
+
+	it("ignores accounts with plan headroom and the disabled mode", () => {
+		configureCreditsRouting({ enabled: true });
+		getQuotaUsageTracker().record(1, [{ usedPercent: 80, windowMinutes: 300 }], NOW);
+		expect(getCreditLimitedUntil({ index: 1 }, NOW)).toBeUndefined();
+
+		configureCreditsRouting({ enabled: false });
+		exhaust(0);
+		expect(getCreditLimitedUntil({ index: 0 }, NOW)).toBeUndefined();
+	});
+});
+
+describe("formatCreditsStatus", () => {
+	it("describes the balance relative to the floor", () => {
+		expect(formatCreditsStatus(undefined)).toBe("unknown");
+		expect(formatCreditsStatus({ hasCredits: false, unlimited: true })).toBe("unlimited");
+		expect(formatCreditsStatus({ hasCredits: true, unlimited: false, balance: 12.5 }, 5)).toBe(
+			"12.5 (floor 5)",
+		);
+		expect(formatCreditsStatus({ hasCredits: true, unlimited: false, balance: 3 }, 5)).toBe(
+			"3 (at or below floor 5)",
+		);
+		expect(formatCreditsStatus({ hasCredits: false, unlimited: false })).toBe("none");
+	});
+});
@@ -13,6 +13,8 @@ import {
     createEntitlementErrorResponse,
 	getUnsupportedCodexModelInfo,
 	resolveUnsupportedCodexFallbackModel,
+	resolveUnsupportedCodexFallbackChain,
+	resolveQuotaExhaustionFallbackModel,
 	extractUnsupportedCodexModelFromText,
 	shouldFallbackToGpt52OnUnsupportedGpt53,
 } from '../lib/request/fetch-helpers.js';
@@ -221,7 +223,7 @@ describe('Fetch Helpers Module', () => {
 			expect(headers.get(OPENAI_HEADERS.SESSION_ID)).toBeNull();
 		});
 
-		it('maps usage_not_included 404 to 403 entitlement error, not rate limit', async () => {
+		it('maps usage_not_included 404 to an entitlement notice, not rate limit', async () => {
 			const body = {
 				error: {
 					code: 'usage_not_included',
@@ -229,12 +231,16 @@ describe('Fetch Helpers Module', () => {
 				},
 			};
 			const resp = new Response(JSON.stringify(body), { status: 404 });
-			const { response: result, rateLimit } = await handleErrorResponse(resp);
-			expect(result.status).toBe(403);
+			const { response: result, rateLimit } = await handleErrorResponse(resp, {
+				model: 'gpt-5.4',
+				stream: false,
+			});
+			expect(result.status).toBe(200);
+			expect(result.headers.get('X-Codex-Plugin-Error-Type')).toBe('entitlement_error');
 			expect(rateLimit).toBeUndefined();
 			const json = await result.json() as any;
-			expect(json.error.type).toBe('entitlement_error');
-			expect(json.error.message).toContain('not included in your ChatGPT subscription');
+			expect(json.model).toBe('gpt-5.4');
+			expect(json.output[0].content[0].text).toContain('not included in your ChatGPT subscription');
 		});
     });
 
@@ -261,14 +267,14 @@ describe('Fetch Helpers Module', () => {
 	});
 
 	describe('createEntitlementErrorResponse', () => {
-		it('returns 403 status with user-friendly message', async () => {
+		it('returns a synthetic notice with user-friendly message', async () => {
 			const resp = createEntitlementErrorResponse('original body');
-			expect(resp.status).toBe(403);
-			expect(resp.statusText).toBe('Forbidden');
-			const json = await resp.json() as any;
-			expect(json.error.type).toBe('entitlement_error');
-			expect(json.error.code).toBe('usage_not_included');
-			expect(json.error.message).toContain('ChatGPT subscription');
+			expect(resp.status).toBe(200);
+			expect(resp.headers.get('X-Codex-Plugin-Synthetic')).toBe('true');
+			expect(resp.headers.get('X-Codex-Plugin-Error-Type')).toBe('entitlement_error');
+			const text = await resp.text();
+			expect(text).toContain('event: response.output_text.delta');
+			expect(text).toContain('ChatGPT subscription');
 		});
 	});
 
@@ -530,6 +536,67 @@ describe('Fetch Helpers Module', () => {
 			});
 			expect(fallback).toBeUndefined();
 		});
+
+		it('walks the full fallback chain a request would follow', () => {
+			expect(
+				resolveUnsupportedCodexFallbackChain({
+					requestedModel: 'gpt-5.3-codex',
+					fallbackOnUnsupportedCodexModel: true,
+					fallbackToGpt52OnUnsupportedGpt53: true,
+				}),
+			).toEqual(['gpt-5-codex']);
+			expect(
+				resolveUnsupportedCodexFallbackChain({
+					requestedModel: 'gpt-5.4-pro',
+					fallbackOnUnsupportedCodexModel: true,
+					fallbackToGpt52OnUnsupportedGpt53: true,
+					customChain: { 'gpt-5.4': ['gpt-5.4-mini'] },
+				}),
+			).toEqual(['gpt-5.4', 'gpt-5.4-mini']);
+			expect(
+				resolveUnsupportedCodexFallbackChain({
+					requestedModel: 'gpt-5.3-codex',
+					fallbackOnUnsupportedCodexModel: false,
+					fallbackToGpt52OnUnsupportedGpt53: true,
+				}),
+			).toEqual([]);
+		});
+	});
+
+	describe('resolveQuotaExhaustionFallbackModel', () => {
+		const chain = { 'gpt-5.4-pro': ['gpt-5.4', 'gpt-5.4-mini'] };
+
+		it('walks the requested model chain past attempted and exhausted models', () => {
+			expect(
+				resolveQuotaExhaustionFallbackModel({ requestedModel: 'openai/gpt-5.4-pro-high', chain }),
+			).toBe('gpt-5.4');
+			expect(
+				resolveQuotaExhaustionFallbackModel({
+					requestedModel: 'gpt-5.4-pro',
+					chain,
+					attemptedModels: ['gpt-5.4-pro', 'gpt-5.4'],
+				}),
+			).toBe('gpt-5.4-mini');
+			expect(
+				resolveQuotaExhaustionFallbackModel({
+					requestedModel: 'gpt-5.4-pro',
+					chain,
+					isExhausted: (model) => model === 'gpt-5.4',
+				}),
+			).toBe('gpt-5.4-mini');
+		});
+
+		it('returns undefined when the chain is exhausted or missing', () => {
+			expect(
+				resolveQuotaExhaustionFallbackModel({
+					requestedModel: 'gpt-5.4-pro',
+					chain,
+					attemptedModels: ['gpt-5.4', 'gpt-5.4-mini'],
+				}),
+			).toBeUndefined();
+			expect(resolveQuotaExhaustionFallbackModel({ requestedModel: 'gpt-5.4', chain })).toBeUndefined();
+			expect(resolveQuotaExhaustionFallbackModel({ requestedModel: undefined, chain })).toBeUndefined();
+		});
 	});
 
 	describe('handleSuccessResponse', () => {
@@ -1006,6 +1073,30 @@ describe('Fetch Helpers Module', () => {
 				expect(getInstructionsSpy).not.toHaveBeenCalled();
 			});
 
+			it('clips oversized tool outputs and reports the bytes saved', async () => {
+				const { transformRequestForCodex } = await import('../lib/request/fetch-helpers.js');
+				const requestBody = {
+					model: 'gpt-5.4',
+					input: [
+						{ type: 'function_call_output', call_id: 'c1', output: 'x'.repeat(10_000) },
+						{ type: 'message', role: 'user', content: 'Hello' },
+					],
+				};
+
+				const result = await transformRequestForCodex(
+					{ body: JSON.stringify(requestBody) },
+					'https://example.com',
+					{ global: {}, models: {} },
+					true,
+					undefined,
+					{ requestTransformMode: 'native', toolOutputClip: { maxBytes: 1_000, keepRecent: 0 } },
+				);
+
+				expect(result?.toolOutputClip).toEqual({ clippedOutputs: 1, bytesSaved: expect.any(Number) });
+				expect(result?.toolOutputClip.bytesSaved).toBeGreaterThan(8_000);
+				expect(JSON.stringify(result?.body.input)).toContain('[clipped 9000 bytes]');
+			});
+
 			it('normalizes GPT-5.5 preset ids to the canonical model id in native mode', async () => {
 				const { transformRequestForCodex } = await import('../lib/request/fetch-helpers.js');
 				const getInstructionsSpy = vi.spyOn(codexPrompts, 'getCodexInstructions');
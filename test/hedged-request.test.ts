@@ -0,0 +1,162 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { raceWithHedge, type HedgeAttempt } from "../lib/hedged-request.js";
+
+function deferred<T>() {
+	let resolve!: (value: T) => void;
+	let reject!: (error: unknown) => void;
+	const promise = new Promise<T>((res, rej) => {
+		resolve = res;
+		reject = rej;
+	});
+	return { promise, resolve, reject };
+}
+
+function attempt<T>(result: Promise<T>): HedgeAttempt<T> & { abort: ReturnType<typeof vi.fn> } {
+	return { result, abort: vi.fn() };
+}
+
+describe("raceWithHedge", () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("does not launch a hedge when the primary answers within the delay", async () => {
+		const launch = vi.fn(() => null);
+		const race = raceWithHedge(attempt(Promise.resolve("primary")), {
+			delayMs: 1_000,
+			launch,
+			accept: () => true,
+			onDiscard: vi.fn(),
+		});
+
+		await expect(race).resolves.toEqual({ source: "primary", value: "primary", hedged: false });
+		expect(launch).not.toHaveBeenCalled();
+	});
+
+	it("keeps the hedge when it answers first and aborts the primary", async () => {
+		const primary = deferred<string>();
+		const primaryAttempt = attempt(primary.promise);
+		const hedgeAttempt = attempt(Promise.resolve("hedge"));
+		const onDiscard = vi.fn();
+		const race = raceWithHedge(primaryAttempt, {
+			delayMs: 1_000,
+			launch: () => hedgeAttempt,
+			accept: () => true,
+			onDiscard,
+		});
+
+		await vi.advanceTimersByTimeAsync(1_000);
+		await expect(race).resolves.toEqual({ source: "hedge", value: "hedge", hedged: true });
+		expect(primaryAttempt.abort).toHaveBeenCalledTimes(1);
+		expect(hedgeAttempt.abort).not.toHaveBeenCalled();
+
+		primary.resolve("late primary");
+		await vi.advanceTimersByTimeAsync(0);
+		expect(onDiscard).toHaveBeenCalledWith("late primary", "primary");
+	});
+
+	it("keeps the primary when it answers after the hedge launched", async () => {
+		const primary = deferred<string>();
+		const hedge = deferred<string>();
+		const hedgeAttempt = attempt(hedge.promise);
+		const onDiscard = vi.fn();
+		const race = raceWithHedge(attempt(primary.promise), {
+			delayMs: 500,
+			launch: () => hedgeAttempt,
+			accept: () => true,
+			onDiscard,
+		});
+
+		await vi.advanceTimersByTimeAsync(500);
+		primary.resolve("primary");
+		await expect(race).resolves.toEqual({ source: "primary", value: "primary", hedged: true });
+		expect(hedgeAttempt.abort).toHaveBeenCalledTimes(1);
+
+		hedge.resolve("late hedge");
+		await vi.advanceTimersByTimeAsync(0);
+		expect(onDiscard).toHaveBeenCalledWith("late hedge", "hedge");
+	});
+
+	it("waits for the hedge when the primary fails after the hedge launched", async () => {
+		const primary = deferred<string>();
+		const hedge = deferred<string>();
+		const race = raceWithHedge(attempt(primary.promise), {
+			delayMs: 500,
+			launch: () => attempt(hedge.promise),
+			accept: () => true,
+			onDiscard: vi.fn(),
+		});
+
+		await vi.advanceTimersByTimeAsync(500);
+		primary.reject(new Error("socket hang up"));
+		await vi.advanceTimersByTimeAsync(0);
+		hedge.resolve("hedge");
+		await expect(race).resolves.toEqual({ source: "hedge", value: "hedge", hedged: true });
+	});
+
+	it("returns the primary outcome when the hedge fails", async () => {
+		const primary = deferred<string>();
+		const race = raceWithHedge(attempt(primary.promise), {
+			delayMs: 500,
+			launch: () => attempt(Promise.reject(new Error("HTTP 429"))),
+			accept: () => true,
+			onDiscard: vi.fn(),
+		});
+
+		await vi.advanceTimersByTimeAsync(500);
+		primary.resolve("primary");
+		await expect(race).resolves.toEqual({ source: "primary", value: "primary", hedged: true });
+	});
+
+	it("rethrows the primary error when neither attempt succeeds", async () => {
+		const primary = deferred<string>();
+		const race = raceWithHedge(attempt(primary.promise), {
+			delayMs: 500,
+			launch: () => attempt(Promise.reject(new Error("hedge failed"))),
+			accept: () => true,
+			onDiscard: vi.fn(),
+		});
+		const assertion = expect(race).rejects.toThrow("primary failed");
+
+		await vi.advanceTimersByTimeAsync(500);
+		primary.reject(new Error("primary failed"));
+		await assertion;
+	});
+
+	it("discards an unacceptable first answer in favour of an acceptable one", async () => {
+		const primary = deferred<number>();
+		const hedge = deferred<number>();
+		const onDiscard = vi.fn();
+		const race = raceWithHedge(attempt(primary.promise), {
+			delayMs: 500,
+			launch: () => attempt(hedge.promise),
+			accept: (status) => status === 200,
+			onDiscard,
+		});
+
+		await vi.advanceTimersByTimeAsync(500);
+		hedge.resolve(503);
+		await vi.advanceTimersByTimeAsync(0);
+		primary.resolve(200);
+		await expect(race).resolves.toEqual({ source: "primary", value: 200, hedged: true });
+		expect(onDiscard).toHaveBeenCalledWith(503, "hedge");
+	});
+
+	it("falls back to the primary when no hedge can be launched", async () => {
+		const primary = deferred<string>();
+		const race = raceWithHedge(attempt(primary.promise), {
+			delayMs: 500,
+			launch: () => null,
+			accept: () => true,
+			onDiscard: vi.fn(),
+		});
+
+		await vi.advanceTimersByTimeAsync(500);
+		primary.resolve("primary");
+		await expect(race).resolves.toEqual({ source: "primary", value: "primary", hedged: false });
+	});
+});
@@ -46,6 +46,7 @@ vi.mock("../lib/request/fetch-helpers.js", () => ({
 	},
 	isDeactivatedWorkspaceError: () => false,
 	resolveUnsupportedCodexFallbackModel: () => undefined,
+	resolveQuotaExhaustionFallbackModel: () => undefined,
 	getUnsupportedCodexModelInfo: () => ({
 		isUnsupported: false,
 		unsupportedModel: undefined,
@@ -124,6 +125,8 @@ vi.mock("../lib/accounts.js", () => {
 		consumeToken() { return true; }
 
 		refundToken() {}
+		beginRequest() { return () => {}; }
+		recordQuotaUsage() {}
 
 		markSwitched() {}
 
@@ -178,6 +181,7 @@ describe("OpenAIAuthPlugin rate-limit retry", () => {
 		"CODEX_AUTH_TOKEN_REFRESH_SKEW_MS",
 		"CODEX_AUTH_RATE_LIMIT_TOAST_DEBOUNCE_MS",
 		"CODEX_AUTH_PREWARM",
+		"CODEX_AUTH_PROACTIVE_REFRESH",
 	] as const;
 
 	const originalEnv: Record<string, string | undefined> = {};
@@ -192,6 +196,7 @@ describe("OpenAIAuthPlugin rate-limit retry", () => {
 		process.env.CODEX_AUTH_TOKEN_REFRESH_SKEW_MS = "0";
 		process.env.CODEX_AUTH_RATE_LIMIT_TOAST_DEBOUNCE_MS = "0";
 		process.env.CODEX_AUTH_PREWARM = "0";
+		process.env.CODEX_AUTH_PROACTIVE_REFRESH = "0";
 
 		vi.useFakeTimers();
 		originalFetch = globalThis.fetch;
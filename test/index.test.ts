@@ -122,6 +122,7 @@ vi.mock("../lib/config.js", () => ({
 	getFallbackOnUnsupportedCodexModel: vi.fn(() => true),
 	getFallbackToGpt52OnUnsupportedGpt53: vi.fn(() => false),
 	getUnsupportedCodexFallbackChain: () => ({}),
+	getQuotaExhaustionFallbackChain: vi.fn(() => ({})),
 	getTokenRefreshSkewMs: () => 60000,
 	getSessionRecovery: () => false,
 	getAutoResume: () => false,
@@ -131,8 +132,38 @@ vi.mock("../lib/config.js", () => ({
 	getEmptyResponseMaxRetries: () => 2,
 	getEmptyResponseRetryDelayMs: () => 1000,
 	getPidOffsetEnabled: () => false,
+	getCrossProcessRotation: () => false,
+	getRotationStrategy: () => "hybrid",
+	getHybridSelectionWeights: () => ({}),
+	getRoutingRules: () => ({}),
+	getModelAliases: () => ({}),
+	getSessionAffinity: () => true,
+	getSessionAffinityTtlMs: () => 1_800_000,
+	getSessionAffinityMaxEntries: () => 512,
+	getQuotaForecastHorizonMs: () => 900_000,
+	getCreditsAwareRouting: () => false,
+	getCreditFloor: () => 0,
+	getTokenBucketCalibration: () => true,
+	getTokenBucketOverrides: () => ({}),
+	getMaxInFlightPerAccount: () => 0,
+	getInFlightQueueTimeoutMs: () => 30_000,
+	getProactiveRefresh: () => false,
+	getProactiveRefreshIntervalMs: () => 300_000,
 	getFetchTimeoutMs: () => 60000,
 	getStreamStallTimeoutMs: () => 45000,
+	getParallelProbing: vi.fn(() => false),
+	getParallelProbingMaxConcurrency: () => 2,
+	getHedgedRequests: vi.fn(() => false),
+	getHedgeDelayMs: vi.fn(() => 2_000),
+	getRequestDeadlineMs: vi.fn(() => 0),
+	getCircuitBreakerFailureThreshold: () => 3,
+	getCircuitBreakerFailureWindowMs: () => 60_000,
+	getCircuitBreakerResetTimeoutMs: () => 30_000,
+	getCircuitBreakerHalfOpenMaxAttempts: () => 1,
+	getPreflightContextGuard: vi.fn(() => "off"),
+	getContextOverflowStrategy: vi.fn(() => "notice"),
+	getToolOutputClipBytes: vi.fn(() => 0),
+	getToolOutputClipKeepRecent: () => 3,
 	getCodexTuiV2: () => false,
 	getCodexTuiColorProfile: () => "ansi16",
 	getCodexTuiGlyphMode: () => "ascii",
@@ -168,12 +199,25 @@ vi.mock("../lib/auto-update-checker.js", () => ({
 	checkAndNotify: vi.fn(async () => {}),
 }));
 
-vi.mock("../lib/context-overflow.js", () => ({
-	handleContextOverflow: vi.fn(async () => ({ handled: false })),
-}));
+vi.mock("../lib/context-overflow.js", async () => {
+	const actual = await vi.importActual<typeof import("../lib/context-overflow.js")>(
+		"../lib/context-overflow.js",
+	);
+	return {
+		...actual,
+		handleContextOverflow: vi.fn(async () => ({ handled: false })),
+	};
+});
 
-vi.mock("../lib/rotation.js", () => ({
+vi.mock("../lib/rotation.js", async (importOriginal) => ({
 	addJitter: (ms: number) => ms,
+	configureAccountSelection: vi.fn(),
+	configureTokenBuckets: vi.fn(),
+	filterToPreferredTier: (await importOriginal<typeof import("../lib/rotation.js")>())
+		.filterToPreferredTier,
+	getAccountSelectionConfig: () => ({ strategy: "hybrid", weights: {} }),
+	getHealthTracker: () => ({ getScore: () => 100 }),
+	getTokenTracker: () => ({ getTokens: () => 50 }),
 }));
 
 vi.mock("../lib/prompts/codex.js", () => ({
@@ -199,7 +243,7 @@ vi.mock("../lib/recovery.js", () => ({
 }));
 
 vi.mock("../lib/request/rate-limit-backoff.js", () => ({
-	getRateLimitBackoff: () => ({ attempt: 1, delayMs: 1000 }),
+	getRateLimitBackoff: vi.fn(() => ({ attempt: 1, delayMs: 1000 })),
 	RATE_LIMIT_SHORT_RETRY_THRESHOLD_MS: 5000,
 	resetRateLimitBackoff: vi.fn(),
 }));
@@ -232,6 +276,7 @@ vi.mock("../lib/request/rate-limit-backoff.js", () => ({
 		}),
 	getUnsupportedCodexModelInfo: vi.fn(() => ({ isUnsupported: false })),
 	resolveUnsupportedCodexFallbackModel: vi.fn(() => undefined),
+	resolveQuotaExhaustionFallbackModel: vi.fn(() => undefined),
 	shouldFallbackToGpt52OnUnsupportedGpt53: vi.fn(() => false),
 	handleSuccessResponse: vi.fn(async (response: Response) => response),
 }));
@@ -370,6 +415,9 @@ vi.mock("../lib/storage.js", async () => {
 		}
 	},
 	formatStorageErrorHint: () => "Check file permissions",
+	appendQuotaHistory: vi.fn(async () => {}),
+	loadQuotaHistory: vi.fn(async () => null),
+	QUOTA_HISTORY_RETENTION_MS: actual.QUOTA_HISTORY_RETENTION_MS,
 	};
 });
 
@@ -441,6 +489,8 @@ vi.mock("../lib/accounts.js", () => {
 		markRateLimitedWithReason() {}
 		consumeToken() { return true; }
 		refundToken() {}
+		beginRequest() { return () => {}; }
+		recordQuotaUsage() {}
 		markSwitched() {}
 		removeAccount() {}
 		removeAccountsWithSameRefreshToken() { return 1; }
@@ -462,6 +512,10 @@ vi.mock("../lib/accounts.js", () => {
 		getAccountsSnapshot() {
 			return this.accounts;
 		}
+
+		getAccountByIndex(index: number) {
+			return this.accounts[index] ?? null;
+		}
 	}
 
 	return {
@@ -480,6 +534,7 @@ vi.mock("../lib/accounts.js", () => {
 		),
 		formatAccountLabel: (_account: unknown, index: number) => `Account ${index + 1}`,
 		formatCooldown: () => null,
+		formatAvailability: () => null,
 		formatWaitTime: (ms: number) => `${Math.round(ms / 1000)}s`,
 		sanitizeEmail: (email: string) => email,
 		shouldUpdateAccountIdFromToken: vi.fn(() => true),
@@ -710,7 +765,8 @@ describe("OpenAIOAuthPlugin", () => {
 				method: "POST",
 				body: "{}",
 			});
-			expect(response.status).toBe(503);
+			expect(response.status).toBe(200);
+			expect(response.headers.get("X-Codex-Plugin-Error-Type")).toBe("no_accounts");
 			const body = await response.text();
 			expect(body).toContain("No Codex accounts configured");
 		});
@@ -1715,10 +1771,12 @@ describe("OpenAIOAuthPlugin", () => {
 					selectedAccountIndex: number | null;
 					zeroBasedSelectedAccountIndex: number | null;
 				};
+				sessionAffinity: { enabled: boolean; hits: number; misses: number };
 			}>(await plugin.tool["codex-metrics"].execute({ format: "json" }));
 
 			expect(result.totalRequests).toBe(0);
 			expect(result.retryProfile).toBe("balanced");
+			expect(result.sessionAffinity).toMatchObject({ enabled: true, hits: 0, misses: 0 });
 			expect(result.routingVisibility.fallbackApplied).toBe(false);
 			expect(result.routingVisibility.selectedAccountIndex).toBeNull();
 			expect(result.routingVisibility.zeroBasedSelectedAccountIndex).toBeNull();
@@ -2426,9 +2484,13 @@ describe("OpenAIOAuthPlugin fetch handler", () => {
 		originalFetch = globalThis.fetch;
 	});
 
-	afterEach(() => {
+	afterEach(async () => {
 		globalThis.fetch = originalFetch;
 		vi.restoreAllMocks();
+		// Breakers are module state; a failure recorded in one test must not
+		// open the circuit for the same account in the next.
+		const { clearCircuitBreakers } = await import("../lib/circuit-breaker.js");
+		clearCircuitBreakers();
 	});
 
 	const setupPlugin = async () => {
@@ -2584,6 +2646,8 @@ describe("OpenAIOAuthPlugin fetch handler", () => {
 			recordRateLimit: vi.fn(),
 			consumeToken: vi.fn(() => true),
 			refundToken: vi.fn(),
+			beginRequest: () => () => {},
+			recordQuotaUsage: () => {},
 			markSwitched: vi.fn(),
 			removeAccount: vi.fn(() => false),
 			removeAccountsWithSameRefreshToken: vi.fn(() => 0),
@@ -2653,10 +2717,635 @@ describe("OpenAIOAuthPlugin fetch handler", () => {
 			body: JSON.stringify({ model: "gpt-5.1" }),
 		});
 
-		expect(response.status).toBe(503);
+		expect(response.status).toBe(200);
+		expect(response.headers.get("X-Codex-Plugin-Error-Type")).toBe("account_failure");
 		expect(await response.text()).toContain("server errors or auth issues");
 	});
 
+	it("hands back a half-open probe slot when the in-flight slot wait times out", async () => {
+		const { CircuitBreaker } = await import("../lib/circuit-breaker.js");
+		const { getAccountConcurrencyLimiter } = await import("../lib/account-concurrency.js");
+		vi.spyOn(CircuitBreaker.prototype, "canAttempt").mockReturnValue({
+			allowed: true,
+			state: "half-open",
+		});
+		const releaseAttempt = vi.spyOn(CircuitBreaker.prototype, "releaseAttempt");
+		globalThis.fetch = vi.fn();
+
+		const { sdk } = await setupPlugin();
+		const limiter = getAccountConcurrencyLimiter();
+		limiter.configure({ maxInFlight: 1, queueTimeoutMs: 20 });
+		const hold = limiter.tryAcquire(0);
+		try {
+			const response = await sdk.fetch!("https://api.openai.com/v1/chat", {
+				method: "POST",
+				body: JSON.stringify({ model: "gpt-5.1" }),
+			});
+
+			expect(response.status).toBe(200);
+			expect(response.headers.get("X-Codex-Plugin-Error-Type")).toBe("in_flight_limit");
+			expect(globalThis.fetch).not.toHaveBeenCalled();
+			expect(releaseAttempt).toHaveBeenCalledTimes(1);
+		} finally {
+			hold?.();
+			limiter.configure({ maxInFlight: 0 });
+		}
+	});
+
+	it("returns a 504 with a time breakdown when the request deadline passes", async () => {
+		const configModule = await import("../lib/config.js");
+		vi.mocked(configModule.getRequestDeadlineMs).mockReturnValueOnce(50);
+		globalThis.fetch = vi.fn(
+			(_url, init?: RequestInit) =>
+				new Promise<Response>((_resolve, reject) => {
+					init?.signal?.addEventListener("abort", () => reject(new Error("Request timeout")));
+				}),
+		) as typeof fetch;
+
+		const { plugin, sdk } = await setupPlugin();
+		const response = await sdk.fetch!("https://api.openai.com/v1/chat", {
+			method: "POST",
+			body: JSON.stringify({ model: "gpt-5.1" }),
+		});
+
+		expect(response.status).toBe(504);
+		const body = (await response.json()) as {
+			error: {
+				code: string;
+				message: string;
+				deadline: {
+					budgetMs: number;
+					exceededIn: string;
+					attempts: number;
+					phases: Record<string, number>;
+				};
+			};
+		};
+		expect(body.error.code).toBe("request_deadline_exceeded");
+		expect(body.error.message).toContain("upstream=");
+		expect(body.error.deadline).toMatchObject({ budgetMs: 50, exceededIn: "upstream", attempts: 1 });
+		expect(body.error.deadline.phases.upstream).toBeGreaterThan(0);
+		expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+
+		const metrics = parseJsonOutput<{ lastErrorCategory: string }>(
+			await plugin.tool["codex-metrics"].execute({ format: "json" }),
+		);
+		expect(metrics.lastErrorCategory).toBe("deadline");
+	});
+
+	it("hands back a half-open probe slot when the request deadline passes upstream", async () => {
+		const configModule = await import("../lib/config.js");
+		const { CircuitBreaker } = await import("../lib/circuit-breaker.js");
+		vi.mocked(configModule.getRequestDeadlineMs).mockReturnValueOnce(250);
+		vi.spyOn(CircuitBreaker.prototype, "canAttempt").mockReturnValue({
+			allowed: true,
+			state: "half-open",
+		});
+		const releaseAttempt = vi.spyOn(CircuitBreaker.prototype, "releaseAttempt");
+		const recordFailure = vi.spyOn(CircuitBreaker.prototype, "recordFailure");
+		globalThis.fetch = vi.fn(
+			(_url, init?: RequestInit) =>
+				new Promise<Response>((_resolve, reject) => {
+					init?.signal?.addEventListener("abort", () => reject(new Error("Request timeout")));
+				}),
+		) as typeof fetch;
+
+		const { sdk } = await setupPlugin();
+		const response = await sdk.fetch!("https://api.openai.com/v1/chat", {
+			method: "POST",
+			body: JSON.stringify({ model: "gpt-5.1" }),
+		});
+
+		expect(response.status).toBe(504);
+		expect(releaseAttempt).toHaveBeenCalledTimes(1);
+		expect(recordFailure).not.toHaveBeenCalled();
+	});
+
+	it("answers a request the pre-flight guard rejects without contacting upstream", async () => {
+		const configModule = await import("../lib/config.js");
+		const fetchHelpers = await import("../lib/request/fetch-helpers.js");
+		const { ContextWindowExceededError } = await import("../lib/errors.js");
+		vi.mocked(configModule.getPreflightContextGuard).mockReturnValueOnce("reject");
+		vi.mocked(fetchHelpers.transformRequestForCodex).mockRejectedValueOnce(
+			new ContextWindowExceededError("gpt-5.4", 1_000_000, 922_000),
+		);
+		globalThis.fetch = vi.fn() as typeof fetch;
+
+		const { plugin, sdk } = await setupPlugin();
+		const response = await sdk.fetch!("https://api.openai.com/v1/chat", {
+			method: "POST",
+			body: JSON.stringify({ model: "gpt-5.4" }),
+		});
+
+		expect(response.status).toBe(200);
+		expect(response.headers.get("X-Codex-Plugin-Error-Type")).toBe("context_overflow");
+		expect(await response.text()).toContain(
+			"Estimated 1000000 input tokens exceed the 922000-token input window of gpt-5.4",
+		);
+		expect(vi.mocked(fetchHelpers.transformRequestForCodex).mock.calls.at(-1)?.[5]).toMatchObject({
+			contextGuard: "reject",
+		});
+		expect(globalThis.fetch).not.toHaveBeenCalled();
+
+		const metrics = parseJsonOutput<{ lastErrorCategory: string }>(
+			await plugin.tool["codex-metrics"].execute({ format: "json" }),
+		);
+		expect(metrics.lastErrorCategory).toBe("context-preflight");
+	});
+
+	it("trims old tool outputs and retries once on overflow with trim-and-retry", async () => {
+		const configModule = await import("../lib/config.js");
+		const fetchHelpers = await import("../lib/request/fetch-helpers.js");
+		const contextOverflow = await import("../lib/context-overflow.js");
+		vi.mocked(configModule.getContextOverflowStrategy).mockReturnValueOnce("trim-and-retry");
+		const input = [
+			{ type: "message", role: "user", content: "fix the build" },
+			{ type: "function_call", call_id: "c1", name: "read", arguments: "{}" },
+			{ type: "function_call_output", call_id: "c1", output: "x".repeat(20_000) },
+			{ type: "function_call", call_id: "c2", name: "bash", arguments: "{}" },
+			{ type: "function_call_output", call_id: "c2", output: "ok" },
+			{ type: "function_call", call_id: "c3", name: "bash", arguments: "{}" },
+			{ type: "function_call_output", call_id: "c3", output: "ok" },
+		];
+		vi.mocked(fetchHelpers.transformRequestForCodex).mockResolvedValueOnce({
+			updatedInit: { method: "POST", body: JSON.stringify({ model: "gpt-5.4", input }) },
+			body: { model: "gpt-5.4", input },
+		});
+		vi.mocked(contextOverflow.handleContextOverflow).mockResolvedValueOnce({
+			handled: true,
+			response: contextOverflow.createContextOverflowResponse("gpt-5.4"),
+		});
+		globalThis.fetch = vi
+			.fn()
+			.mockResolvedValueOnce(new Response("prompt is too long", { status: 400 }))
+			.mockResolvedValueOnce(new Response(JSON.stringify({ content: "ok" }), { status: 200 }));
+
+		const { sdk, mockClient } = await setupPlugin();
+		const response = await sdk.fetch!("https://api.openai.com/v1/chat", {
+			method: "POST",
+			body: JSON.stringify({ model: "gpt-5.4" }),
+		});
+
+		expect(response.status).toBe(200);
+		expect(globalThis.fetch).toHaveBeenCalledTimes(2);
+		const retryInit = vi.mocked(globalThis.fetch).mock.calls[1]?.[1] as RequestInit;
+		const retryInput = JSON.parse(retryInit.body as string).input;
+		expect(retryInput).toHaveLength(7);
+		expect(retryInput[2]).toMatchObject({
+			call_id: "c1",
+			output: "[Tool output removed to fit the context window (20000 characters)]",
+		});
+		expect(mockClient.tui.showToast).toHaveBeenCalledWith(
+			expect.objectContaining({
+				body: expect.objectContaining({
+					message: "Context too long: removed 1 old tool output (~20k characters). Retrying once.",
+				}),
+			}),
+		);
+	});
+
+	it("frees a half-open probe slot before the trim-and-retry resend", async () => {
+		const configModule = await import("../lib/config.js");
+		const fetchHelpers = await import("../lib/request/fetch-helpers.js");
+		const contextOverflow = await import("../lib/context-overflow.js");
+		const { CircuitBreaker } = await import("../lib/circuit-breaker.js");
+		vi.mocked(configModule.getContextOverflowStrategy).mockReturnValueOnce("trim-and-retry");
+		vi.spyOn(CircuitBreaker.prototype, "canAttempt").mockReturnValue({
+			allowed: true,
+			state: "half-open",
+		});
+		const recordSuccess = vi.spyOn(CircuitBreaker.prototype, "recordSuccess");
+		const input = [
+			{ type: "message", role: "user", content: "fix the build" },
+			{ type: "function_call", call_id: "c1", name: "read", arguments: "{}" },
+			{ type: "function_call_output", call_id: "c1", output: "x".repeat(20_000) },
+			{ type: "function_call", call_id: "c2", name: "bash", arguments: "{}" },
+			{ type: "function_call_output", call_id: "c2", output: "ok" },
+			{ type: "function_call", call_id: "c3", name: "bash", arguments: "{}" },
+			{ type: "function_call_output", call_id: "c3", output: "ok" },
+		];
+		vi.mocked(fetchHelpers.transformRequestForCodex).mockResolvedValueOnce({
+			updatedInit: { method: "POST", body: JSON.stringify({ model: "gpt-5.4", input }) },
+			body: { model: "gpt-5.4", input },
+		});
+		vi.mocked(contextOverflow.handleContextOverflow).mockResolvedValueOnce({
+			handled: true,
+			response: contextOverflow.createContextOverflowResponse("gpt-5.4"),
+		});
+		globalThis.fetch = vi
+			.fn()
+			.mockResolvedValueOnce(new Response("prompt is too long", { status: 400 }))
+			.mockResolvedValueOnce(new Response(JSON.stringify({ content: "ok" }), { status: 200 }));
+
+		const { sdk } = await setupPlugin();
+		const response = await sdk.fetch!("https://api.openai.com/v1/chat", {
+			method: "POST",
+			body: JSON.stringify({ model: "gpt-5.4" }),
+		});
+
+		expect(response.status).toBe(200);
+		expect(globalThis.fetch).toHaveBeenCalledTimes(2);
+		expect(recordSuccess.mock.invocationCallOrder[0]).toBeLessThan(
+			vi.mocked(globalThis.fetch).mock.invocationCallOrder[1] ?? 0,
+		);
+	});
+
+	it("passes the tool output clip policy to the transform and reports bytes saved", async () => {
+		const configModule = await import("../lib/config.js");
+		const fetchHelpers = await import("../lib/request/fetch-helpers.js");
+		vi.mocked(configModule.getToolOutputClipBytes).mockReturnValueOnce(32_768);
+		vi.mocked(fetchHelpers.transformRequestForCodex).mockResolvedValueOnce({
+			updatedInit: { method: "POST", body: JSON.stringify({ model: "gpt-5.4" }) },
+			body: { model: "gpt-5.4" },
+			tokenEstimate: { instructions: 0, input: 0, tools: 0, total: 0 },
+			toolOutputClip: { clippedOutputs: 2, bytesSaved: 90_000 },
+		});
+		globalThis.fetch = vi.fn(async () => new Response(JSON.stringify({ content: "ok" }), { status: 200 }));
+
+		const { plugin, sdk } = await setupPlugin();
+		await sdk.fetch!("https://api.openai.com/v1/chat", {
+			method: "POST",
+			body: JSON.stringify({ model: "gpt-5.4" }),
+		});
+
+		expect(vi.mocked(fetchHelpers.transformRequestForCodex).mock.calls.at(-1)?.[5]).toMatchObject({
+			toolOutputClip: { maxBytes: 32_768, keepRecent: 3 },
+		});
+		const metrics = parseJsonOutput<{ toolOutputClipping: Record<string, number | null> }>(
+			await plugin.tool["codex-metrics"].execute({ format: "json" }),
+		);
+		expect(metrics.toolOutputClipping).toEqual({
+			maxBytes: 32_768,
+			clippedRequests: 1,
+			clippedOutputs: 2,
+			bytesSaved: 90_000,
+			lastRequestBytesSaved: 90_000,
+		});
+		expect(await plugin.tool["codex-metrics"].execute()).toContain(
+			"Tool output clipping: >32768 bytes: 2 outputs in 1 request, 90000 bytes saved (last request 90000)",
+		);
+	});
+
+	it("races the top accounts after a 429 rotation when parallel probing is on", async () => {
+		const configModule = await import("../lib/config.js");
+		const fetchHelpers = await import("../lib/request/fetch-helpers.js");
+		const backoffModule = await import("../lib/request/rate-limit-backoff.js");
+		const { AccountManager } = await import("../lib/accounts.js");
+
+		const accounts = [1, 2, 3].map((n) => ({
+			index: n - 1,
+			accountId: `acc-${n}`,
+			email: `user${n}@example.com`,
+			refreshToken: `refresh-${n}`,
+			lastUsed: Date.now() - n * 60_000,
+			rateLimitResetTimes: {},
+		}));
+		const customManager = {
+			getAccountCount: () => 3,
+			getCurrentOrNextForFamilyHybrid: () => accounts[0],
+			getSelectionExplainability: () =>
+				accounts.map((account) => ({
+					index: account.index,
+					enabled: true,
+					isCurrentForFamily: account.index === 0,
+					eligible: account.index !== 0,
+					reasons: ["eligible"],
+					healthScore: 100,
+					tokensAvailable: 50,
+					lastUsed: account.lastUsed,
+				})),
+			toAuthDetails: (account: { accountId: string }) => ({
+				type: "oauth" as const,
+				access: `access-${account.accountId}`,
+				refresh: "refresh-token",
+				expires: Date.now() + 60_000,
+			}),
+			hasRefreshToken: () => true,
+			saveToDiskDebounced: vi.fn(),
+			updateFromAuth: vi.fn(),
+			clearAuthFailures: vi.fn(),
+			incrementAuthFailures: vi.fn(() => 1),
+			markAccountCoolingDown: vi.fn(),
+			markRateLimitedWithReason: vi.fn(),
+			recordRateLimit: vi.fn(),
+			consumeToken: vi.fn(() => true),
+			refundToken: vi.fn(),
+			beginRequest: () => () => {},
+			recordQuotaUsage: () => {},
+			markSwitched: vi.fn(),
+			removeAccount: vi.fn(() => false),
+			removeAccountsWithSameRefreshToken: vi.fn(() => 0),
+			recordFailure: vi.fn(),
+			recordSuccess: vi.fn(),
+			getMinWaitTimeForFamily: vi.fn(() => 0),
+			shouldShowAccountToast: vi.fn(() => false),
+			markToastShown: vi.fn(),
+			setActiveIndex: vi.fn(() => accounts[0]),
+			getAccountsSnapshot: () => accounts,
+			getAccountByIndex: (index: number) => accounts[index] ?? null,
+		};
+		vi.spyOn(AccountManager, "loadFromDisk").mockResolvedValueOnce(customManager as never);
+		vi.mocked(configModule.getParallelProbing).mockReturnValueOnce(true);
+		vi.mocked(backoffModule.getRateLimitBackoff).mockReturnValueOnce({
+			attempt: 1,
+			delayMs: 60_000,
+		});
+		vi.mocked(fetchHelpers.createCodexHeaders).mockImplementation(
+			(_init, _accountId, accessToken) =>
+				new Headers({ "x-test-access-token": String(accessToken) }),
+		);
+		vi.mocked(fetchHelpers.handleErrorResponse).mockImplementation(async (response) => ({
+			response,
+			rateLimit: { retryAfterMs: 60_000, code: "rate_limit_exceeded" },
+			errorBody: {},
+		}));
+
+		let loserSignal: AbortSignal | undefined;
+		globalThis.fetch = vi.fn(async (_url, init?: RequestInit) => {
+			const accessToken = new Headers(init?.headers).get("x-test-access-token");
+			if (accessToken === "access-acc-1") {
+				return new Response("{}", { status: 429 });
+			}
+			if (accessToken === "access-acc-2") {
+				return new Response("data: ok\n\n", { status: 200 });
+			}
+			loserSignal = init?.signal ?? undefined;
+			return new Promise<Response>((_resolve, reject) => {
+				init?.signal?.addEventListener("abort", () => reject(new Error("aborted")));
+			});
+		}) as typeof fetch;
+
+		const { plugin, sdk } = await setupPlugin();
+		const response = await sdk.fetch!("https://api.openai.com/v1/chat", {
+			method: "POST",
+			body: JSON.stringify({ model: "gpt-5.1", stream: true }),
+		});
+
+		expect(response.status).toBe(200);
+		expect(globalThis.fetch).toHaveBeenCalledTimes(3);
+		expect(loserSignal?.aborted).toBe(true);
+		expect(customManager.refundToken).toHaveBeenCalledWith(accounts[2], "gpt-5.1", "gpt-5.1");
+		expect(customManager.recordSuccess).toHaveBeenCalledWith(accounts[1], "gpt-5.1", "gpt-5.1");
+
+		const metrics = parseJsonOutput<{
+			parallelProbes: { races: number; wins: number; cancelled: number };
+		}>(await plugin.tool["codex-metrics"].execute({ format: "json" }));
+		expect(metrics.parallelProbes).toEqual({ races: 1, wins: 1, cancelled: 1 });
+	});
+
+	const createHedgeAccountManager = () => {
+		const accounts = [1, 2].map((n) => ({
+			index: n - 1,
+			accountId: `acc-${n}`,
+			email: `user${n}@example.com`,
+			refreshToken: `refresh-${n}`,
+			lastUsed: Date.now() - n * 60_000,
+			rateLimitResetTimes: {},
+		}));
+		const customManager = {
+			getAccountCount: () => 2,
+			getCurrentOrNextForFamilyHybrid: () => accounts[0],
+			getSelectionExplainability: () =>
+				accounts.map((account) => ({
+					index: account.index,
+					enabled: true,
+					isCurrentForFamily: account.index === 0,
+					eligible: true,
+					reasons: ["eligible"],
+					healthScore: 100,
+					tokensAvailable: 50,
+					lastUsed: account.lastUsed,
+				})),
+			toAuthDetails: (account: { accountId: string }) => ({
+				type: "oauth" as const,
+				access: `access-${account.accountId}`,
+				refresh: "refresh-token",
+				expires: Date.now() + 60_000,
+			}),
+			hasRefreshToken: () => true,
+			saveToDiskDebounced: vi.fn(),
+			updateFromAuth: vi.fn(),
+			clearAuthFailures: vi.fn(),
+			incrementAuthFailures: vi.fn(() => 1),
+			markAccountCoolingDown: vi.fn(),
+			markRateLimitedWithReason: vi.fn(),
+			recordRateLimit: vi.fn(),
+			consumeToken: vi.fn(() => true),
+			refundToken: vi.fn(),
+			beginRequest: () => () => {},
+			recordQuotaUsage: () => {},
+			markSwitched: vi.fn(),
+			removeAccount: vi.fn(() => false),
+			removeAccountsWithSameRefreshToken: vi.fn(() => 0),
+			recordFailure: vi.fn(),
+			recordSuccess: vi.fn(),
+			getMinWaitTimeForFamily: vi.fn(() => 0),
+			shouldShowAccountToast: vi.fn(() => false),
+			markToastShown: vi.fn(),
+			setActiveIndex: vi.fn(() => accounts[0]),
+			getAccountsSnapshot: () => accounts,
+			getAccountByIndex: (index: number) => accounts[index] ?? null,
+		};
+		return { accounts, customManager };
+	};
+
+	it("hedges a slow streaming request onto a second account and keeps the first answer", async () => {
+		const configModule = await import("../lib/config.js");
+		const fetchHelpers = await import("../lib/request/fetch-helpers.js");
+		const { AccountManager } = await import("../lib/accounts.js");
+
+		const { accounts, customManager } = createHedgeAccountManager();
+		vi.spyOn(AccountManager, "loadFromDisk").mockResolvedValueOnce(customManager as never);
+		vi.mocked(configModule.getHedgedRequests).mockReturnValueOnce(true);
+		vi.mocked(configModule.getHedgeDelayMs).mockReturnValueOnce(10);
+		vi.mocked(fetchHelpers.createCodexHeaders).mockImplementation(
+			(_init, _accountId, accessToken) =>
+				new Headers({ "x-test-access-token": String(accessToken) }),
+		);
+
+		let primarySignal: AbortSignal | undefined;
+		globalThis.fetch = vi.fn(async (_url, init?: RequestInit) => {
+			const accessToken = new Headers(init?.headers).get("x-test-access-token");
+			if (accessToken === "access-acc-2") {
+				return new Response("data: ok\n\n", { status: 200 });
+			}
+			primarySignal = init?.signal ?? undefined;
+			return new Promise<Response>((_resolve, reject) => {
+				init?.signal?.addEventListener("abort", () => reject(new Error("aborted")));
+			});
+		}) as typeof fetch;
+
+		const { plugin, sdk } = await setupPlugin();
+		const response = await sdk.fetch!("https://api.openai.com/v1/chat", {
+			method: "POST",
+			body: JSON.stringify({ model: "gpt-5.1", stream: true }),
+		});
+
+		expect(response.status).toBe(200);
+		expect(globalThis.fetch).toHaveBeenCalledTimes(2);
+		expect(primarySignal?.aborted).toBe(true);
+		expect(customManager.consumeToken).toHaveBeenCalledTimes(2);
+		expect(customManager.refundToken).toHaveBeenCalledTimes(1);
+		expect(customManager.refundToken).toHaveBeenCalledWith(accounts[0], "gpt-5.1", "gpt-5.1");
+		expect(customManager.recordSuccess).toHaveBeenCalledTimes(1);
+		expect(customManager.recordSuccess).toHaveBeenCalledWith(accounts[1], "gpt-5.1", "gpt-5.1");
+		expect(customManager.recordFailure).not.toHaveBeenCalled();
+
+		const metrics = parseJsonOutput<{
+			hedgedRequests: { sent: number; wins: number; cancelled: number };
+			retryBudgetUsage: Record<string, number>;
+		}>(await plugin.tool["codex-metrics"].execute({ format: "json" }));
+		expect(metrics.hedgedRequests).toEqual({ sent: 1, wins: 1, cancelled: 1 });
+		expect(Object.values(metrics.retryBudgetUsage).every((used) => used === 0)).toBe(true);
+	});
+
+	it("never hedges onto a reserve account while the primary's tier is in use", async () => {
+		const configModule = await import("../lib/config.js");
+		const fetchHelpers = await import("../lib/request/fetch-helpers.js");
+		const { AccountManager } = await import("../lib/accounts.js");
+
+		const { accounts, customManager } = createHedgeAccountManager();
+		customManager.getSelectionExplainability = () =>
+			accounts.map((account) => ({
+				index: account.index,
+				enabled: true,
+				isCurrentForFamily: account.index === 0,
+				eligible: true,
+				reasons: account.index === 1 ? ["eligible", "reserve-standby"] : ["eligible"],
+				healthScore: 100,
+				tokensAvailable: 50,
+				lastUsed: account.lastUsed,
+				priority: 0,
+				reserve: account.index === 1,
+			}));
+		vi.spyOn(AccountManager, "loadFromDisk").mockResolvedValueOnce(customManager as never);
+		vi.mocked(configModule.getHedgedRequests).mockReturnValueOnce(true);
+		vi.mocked(configModule.getHedgeDelayMs).mockReturnValueOnce(10);
+		vi.mocked(fetchHelpers.createCodexHeaders).mockImplementation(
+			(_init, _accountId, accessToken) =>
+				new Headers({ "x-test-access-token": String(accessToken) }),
+		);
+
+		globalThis.fetch = vi.fn(async () => {
+			await new Promise((resolve) => setTimeout(resolve, 40));
+			return new Response("data: ok\n\n", { status: 200 });
+		}) as typeof fetch;
+
+		const { plugin, sdk } = await setupPlugin();
+		const response = await sdk.fetch!("https://api.openai.com/v1/chat", {
+			method: "POST",
+			body: JSON.stringify({ model: "gpt-5.1", stream: true }),
+		});
+
+		expect(response.status).toBe(200);
+		expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+		const metrics = parseJsonOutput<{
+			hedgedRequests: { sent: number; wins: number; cancelled: number };
+		}>(await plugin.tool["codex-metrics"].execute({ format: "json" }));
+		expect(metrics.hedgedRequests.sent).toBe(0);
+	});
+
+	it("waits for a running hedge when the primary answers late with a retryable error", async () => {
+		const configModule = await import("../lib/config.js");
+		const fetchHelpers = await import("../lib/request/fetch-helpers.js");
+		const { AccountManager } = await import("../lib/accounts.js");
+
+		const { accounts, customManager } = createHedgeAccountManager();
+		vi.spyOn(AccountManager, "loadFromDisk").mockResolvedValueOnce(customManager as never);
+		vi.mocked(configModule.getHedgedRequests).mockReturnValueOnce(true);
+		vi.mocked(configModule.getHedgeDelayMs).mockReturnValueOnce(10);
+		vi.mocked(fetchHelpers.createCodexHeaders).mockImplementation(
+			(_init, _accountId, accessToken) =>
+				new Headers({ "x-test-access-token": String(accessToken) }),
+		);
+
+		vi.mocked(fetchHelpers.handleErrorResponse).mockImplementationOnce(async (response) => ({
+			response,
+		}));
+
+		let hedgeSignal: AbortSignal | undefined;
+		globalThis.fetch = vi.fn(async (_url, init?: RequestInit) => {
+			const accessToken = new Headers(init?.headers).get("x-test-access-token");
+			if (accessToken === "access-acc-2") {
+				hedgeSignal = init?.signal ?? undefined;
+				await new Promise((resolve) => setTimeout(resolve, 60));
+				return new Response("data: ok\n\n", { status: 200 });
+			}
+			await new Promise((resolve) => setTimeout(resolve, 30));
+			return new Response(JSON.stringify({ error: { message: "busy" } }), { status: 503 });
+		}) as typeof fetch;
+
+		const { plugin, sdk } = await setupPlugin();
+		const response = await sdk.fetch!("https://api.openai.com/v1/chat", {
+			method: "POST",
+			body: JSON.stringify({ model: "gpt-5.1", stream: true }),
+		});
+
+		expect(response.status).toBe(200);
+		expect(globalThis.fetch).toHaveBeenCalledTimes(2);
+		expect(hedgeSignal?.aborted).toBe(false);
+		expect(customManager.recordSuccess).toHaveBeenCalledWith(accounts[1], "gpt-5.1", "gpt-5.1");
+		expect(customManager.refundToken).toHaveBeenCalledWith(accounts[0], "gpt-5.1", "gpt-5.1");
+		expect(customManager.recordFailure).toHaveBeenCalledWith(accounts[0], "gpt-5.1", "gpt-5.1");
+
+		const metrics = parseJsonOutput<{
+			hedgedRequests: { sent: number; wins: number; cancelled: number };
+		}>(await plugin.tool["codex-metrics"].execute({ format: "json" }));
+		expect(metrics.hedgedRequests).toEqual({ sent: 1, wins: 1, cancelled: 0 });
+	});
+
+	it("rate-limits a primary that answered 429 before its hedge won", async () => {
+		const configModule = await import("../lib/config.js");
+		const fetchHelpers = await import("../lib/request/fetch-helpers.js");
+		const { AccountManager } = await import("../lib/accounts.js");
+
+		const { accounts, customManager } = createHedgeAccountManager();
+		vi.spyOn(AccountManager, "loadFromDisk").mockResolvedValueOnce(customManager as never);
+		vi.mocked(configModule.getHedgedRequests).mockReturnValueOnce(true);
+		vi.mocked(configModule.getHedgeDelayMs).mockReturnValueOnce(10);
+		vi.mocked(fetchHelpers.createCodexHeaders).mockImplementation(
+			(_init, _accountId, accessToken) =>
+				new Headers({ "x-test-access-token": String(accessToken) }),
+		);
+		vi.mocked(fetchHelpers.handleErrorResponse).mockImplementationOnce(async (response) => ({
+			response,
+			rateLimit: { retryAfterMs: 60_000, code: "rate_limit_exceeded" },
+			errorBody: {},
+		}));
+
+		globalThis.fetch = vi.fn(async (_url, init?: RequestInit) => {
+			const accessToken = new Headers(init?.headers).get("x-test-access-token");
+			if (accessToken === "access-acc-2") {
+				await new Promise((resolve) => setTimeout(resolve, 60));
+				return new Response("data: ok\n\n", { status: 200 });
+			}
+			await new Promise((resolve) => setTimeout(resolve, 30));
+			return new Response(JSON.stringify({ error: { message: "slow down" } }), { status: 429 });
+		}) as typeof fetch;
+
+		const { plugin, sdk } = await setupPlugin();
+		const response = await sdk.fetch!("https://api.openai.com/v1/chat", {
+			method: "POST",
+			body: JSON.stringify({ model: "gpt-5.1", stream: true }),
+		});
+
+		expect(response.status).toBe(200);
+		expect(customManager.markRateLimitedWithReason).toHaveBeenCalledWith(
+			accounts[0],
+			expect.any(Number),
+			"gpt-5.1",
+			expect.any(String),
+			"gpt-5.1",
+		);
+		expect(customManager.recordRateLimit).toHaveBeenCalledWith(accounts[0], "gpt-5.1", "gpt-5.1");
+		expect(customManager.recordSuccess).toHaveBeenCalledWith(accounts[1], "gpt-5.1", "gpt-5.1");
+
+		const metrics = parseJsonOutput<{
+			hedgedRequests: { sent: number; wins: number; cancelled: number };
+		}>(await plugin.tool["codex-metrics"].execute({ format: "json" }));
+		expect(metrics.hedgedRequests).toEqual({ sent: 1, wins: 1, cancelled: 0 });
+	});
+
 	it("retries single-account overloads when retry-after is preserved on server overloads", async () => {
 		const fetchHelpers = await import("../lib/request/fetch-helpers.js");
 		const accountsModule = await import("../lib/accounts.js");
@@ -2709,6 +3398,8 @@ describe("OpenAIOAuthPlugin fetch handler", () => {
 				recordRateLimit: vi.fn(),
 				consumeToken: vi.fn(() => true),
 				refundToken: vi.fn(),
+				beginRequest: () => () => {},
+				recordQuotaUsage: () => {},
 				markSwitched: vi.fn(),
 				removeAccount: vi.fn(() => false),
 				removeAccountsWithSameRefreshToken: vi.fn(() => 0),
@@ -2821,7 +3512,8 @@ describe("OpenAIOAuthPlugin fetch handler", () => {
 			body: JSON.stringify({ model: "gpt-5.1" }),
 		});
 
-		expect(response.status).toBe(503);
+		expect(response.status).toBe(200);
+		expect(response.headers.get("X-Codex-Plugin-Error-Type")).toBe("account_failure");
 		expect(globalThis.fetch).not.toHaveBeenCalled();
 		expect(incrementAuthFailuresSpy).toHaveBeenCalledTimes(1);
 		expect(removeGroupedAccountsSpy).toHaveBeenCalledTimes(1);
@@ -2846,7 +3538,7 @@ describe("OpenAIOAuthPlugin fetch handler", () => {
 		});
 
 		expect(globalThis.fetch).not.toHaveBeenCalled();
-		expect(response.status).toBe(503);
+		expect(response.status).toBe(200);
 		expect(await response.text()).toContain("server errors or auth issues");
 		consumeSpy.mockRestore();
 	});
@@ -2905,6 +3597,83 @@ describe("OpenAIOAuthPlugin fetch handler", () => {
 		expect(JSON.parse(secondInit.body as string).model).toBe("gpt-5.4");
 	});
 
+	it("falls back along quotaExhaustionFallbackChain when every account is rate-limited", async () => {
+		const configModule = await import("../lib/config.js");
+		const fetchHelpers = await import("../lib/request/fetch-helpers.js");
+		const actualFetchHelpers = await vi.importActual<typeof import("../lib/request/fetch-helpers.js")>(
+			"../lib/request/fetch-helpers.js",
+		);
+		const { AccountManager } = await import("../lib/accounts.js");
+
+		vi.mocked(configModule.getQuotaExhaustionFallbackChain).mockReturnValueOnce({
+			"gpt-5.4-pro": ["gpt-5.4", "gpt-5.4-mini"],
+		});
+		vi.mocked(fetchHelpers.resolveQuotaExhaustionFallbackModel).mockImplementationOnce(
+			actualFetchHelpers.resolveQuotaExhaustionFallbackModel,
+		);
+		vi.mocked(fetchHelpers.transformRequestForCodex).mockResolvedValueOnce({
+			updatedInit: {
+				method: "POST",
+				body: JSON.stringify({ model: "gpt-5.4-pro" }),
+			},
+			body: { model: "gpt-5.4-pro" },
+		});
+		const limitedModels = new Set(["gpt-5.4-pro", "gpt-5.4"]);
+		const originalSelect = AccountManager.prototype.getCurrentOrNextForFamilyHybrid;
+		vi.spyOn(AccountManager.prototype, "getCurrentOrNextForFamilyHybrid").mockImplementation(
+			function (this: InstanceType<typeof AccountManager>, ...args: unknown[]) {
+				const model = args[1] as string | undefined;
+				return model && limitedModels.has(model) ? null : originalSelect.call(this);
+			},
+		);
+		vi.spyOn(AccountManager.prototype, "getMinWaitTimeForFamily").mockImplementation(
+			(...args: unknown[]) => (limitedModels.has(args[1] as string) ? 60_000 : 0),
+		);
+
+		globalThis.fetch = vi
+			.fn()
+			.mockResolvedValueOnce(new Response(JSON.stringify({ content: "ok" }), { status: 200 }));
+
+		const { plugin, sdk, mockClient } = await setupPlugin();
+		const response = await sdk.fetch!("https://api.openai.com/v1/chat", {
+			method: "POST",
+			body: JSON.stringify({ model: "gpt-5.4-pro" }),
+		});
+
+		expect(response.status).toBe(200);
+		expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+		const init = vi.mocked(globalThis.fetch).mock.calls[0]?.[1] as RequestInit;
+		expect(JSON.parse(init.body as string).model).toBe("gpt-5.4-mini");
+		expect(mockClient.tui.showToast).toHaveBeenCalledWith(
+			expect.objectContaining({
+				body: expect.objectContaining({
+					message: expect.stringContaining(
+						"All accounts are rate-limited for gpt-5.4-pro. Retrying with gpt-5.4-mini.",
+					),
+				}),
+			}),
+		);
+
+		const metrics = parseJsonOutput<{
+			routingVisibility: {
+				requestedModel: string | null;
+				effectiveModel: string | null;
+				fallbackApplied: boolean;
+				fallbackFrom: string | null;
+				fallbackTo: string | null;
+				fallbackReason: string | null;
+			};
+		}>(await plugin.tool["codex-metrics"].execute({ format: "json" }));
+		expect(metrics.routingVisibility).toMatchObject({
+			requestedModel: "gpt-5.4-pro",
+			effectiveModel: "gpt-5.4-mini",
+			fallbackApplied: true,
+			fallbackFrom: "gpt-5.4-pro",
+			fallbackTo: "gpt-5.4-mini",
+			fallbackReason: "fallback-quota-exhausted",
+		});
+	});
+
 	it("surfaces fallback routing visibility through json ops tools", async () => {
 		const configModule = await import("../lib/config.js");
 		const fetchHelpers = await import("../lib/request/fetch-helpers.js");
@@ -3376,6 +4145,8 @@ describe("OpenAIOAuthPlugin fetch handler", () => {
 				recordRateLimit: () => {},
 				consumeToken: () => true,
 				refundToken: () => {},
+				beginRequest: () => () => {},
+				recordQuotaUsage: () => {},
 				markSwitched: () => {},
 				removeAccount: () => {},
 				recordFailure: () => {},
@@ -3569,6 +4340,8 @@ describe("OpenAIOAuthPlugin fetch handler", () => {
 				recordRateLimit: vi.fn(),
 				consumeToken: vi.fn(() => true),
 				refundToken: vi.fn(),
+				beginRequest: () => () => {},
+				recordQuotaUsage: () => {},
 				markSwitched: vi.fn(),
 				removeAccount,
 				removeAccountsWithSameRefreshToken,
@@ -3684,6 +4457,8 @@ describe("OpenAIOAuthPlugin fetch handler", () => {
 				recordRateLimit: vi.fn(),
 				consumeToken: vi.fn(() => true),
 				refundToken: vi.fn(),
+				beginRequest: () => () => {},
+				recordQuotaUsage: () => {},
 				markSwitched: vi.fn(),
 				removeAccount: vi.fn(() => false),
 				removeAccountsWithSameRefreshToken,
@@ -3722,7 +4497,8 @@ describe("OpenAIOAuthPlugin fetch handler", () => {
 			});
 			const body = await response.json();
 
-			expect(response.status).toBe(503);
+			expect(response.status).toBe(200);
+			expect(response.headers.get("X-Codex-Plugin-Error-Type")).toBe("account_failure");
 			expect(globalThis.fetch).toHaveBeenCalledTimes(1);
 			expect(removeAccountsWithSameRefreshToken).toHaveBeenCalledTimes(1);
 			expect(markAccountCoolingDown).toHaveBeenCalledWith(
@@ -3731,11 +4507,9 @@ describe("OpenAIOAuthPlugin fetch handler", () => {
 				"auth-failure",
 			);
 			expect(saveToDiskDebounced).toHaveBeenCalledTimes(2);
-			expect(body).toEqual({
-				error: {
-					message: "All 1 account(s) failed (server errors or auth issues). Check account health with `codex-health`.",
-				},
-			});
+			expect(body.output[0].content[0].text).toBe(
+				"[Plugin Notice] All 1 account(s) failed (server errors or auth issues). Check account health with `codex-health`.",
+			);
 		});
 
 		it("handles empty body in request", async () => {
@@ -1,8 +1,14 @@
 import { readFileSync } from "node:fs";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
-import { describe, it, expect } from "vitest";
-import { MODEL_MAP, getNormalizedModel, isKnownModel } from "../lib/request/helpers/model-map.js";
+import { afterEach, describe, it, expect } from "vitest";
+import {
+  MODEL_MAP,
+  configureModelAliases,
+  getModelAliasOptions,
+  getNormalizedModel,
+  isKnownModel,
+} from "../lib/request/helpers/model-map.js";
 
 const testDir = path.dirname(fileURLToPath(import.meta.url));
 
@@ -314,4 +320,55 @@ describe("Model Map Module", () => {
       expect(keys.length).toBe(uniqueKeys.size);
     });
   });
+
+  describe("user-defined aliases", () => {
+    afterEach(() => {
+      configureModelAliases({});
+    });
+
+    it("resolves aliases case-insensitively after built-in IDs", () => {
+      const conflicts = configureModelAliases({
+        "my-fast": { model: "gpt-5.4-mini", options: { reasoningEffort: "low" } },
+      });
+
+      expect(conflicts).toEqual([]);
+      expect(getNormalizedModel("my-fast")).toBe("gpt-5.4-mini");
+      expect(getNormalizedModel("MY-FAST")).toBe("gpt-5.4-mini");
+      expect(isKnownModel("my-fast")).toBe(true);
+      expect(getModelAliasOptions("My-Fast")).toEqual({ reasoningEffort: "low" });
+    });
+
+    it("follows built-in IDs in the target and keeps unknown targets as given", () => {
+      configureModelAliases({
+        legacy: { model: "gpt-5-codex-high" },
+        preview: { model: "gpt-6-preview" },
+      });
+
+      expect(getNormalizedModel("legacy")).toBe(MODEL_MAP["gpt-5-codex-high"]);
+      expect(getNormalizedModel("preview")).toBe("gpt-6-preview");
+      expect(getModelAliasOptions("legacy")).toBeUndefined();
+    });
+
+    it("reports and skips aliases that shadow built-in IDs or repeat", () => {
+      const conflicts = configureModelAliases({
+        "GPT-5.4": { model: "gpt-5.4-mini" },
+        quick: { model: "gpt-5.4-mini" },
+        QUICK: { model: "gpt-5.4-nano" },
+      });
+
+      expect(conflicts).toHaveLength(2);
+      expect(conflicts[0]).toContain('"GPT-5.4" conflicts with the built-in model ID');
+      expect(conflicts[1]).toContain('"QUICK" is defined more than once');
+      expect(getNormalizedModel("gpt-5.4")).toBe("gpt-5.4");
+      expect(getNormalizedModel("quick")).toBe("gpt-5.4-mini");
+    });
+
+    it("replaces earlier aliases on reconfiguration", () => {
+      configureModelAliases({ "my-fast": { model: "gpt-5.4-mini" } });
+      configureModelAliases({});
+
+      expect(getNormalizedModel("my-fast")).toBeUndefined();
+      expect(isKnownModel("my-fast")).toBe(false);
+    });
+  });
 });
@@ -140,6 +140,27 @@ describe("parallel-probe", () => {
 			expect(successOrder).toContain(0);
 		});
 
+		it("hands late successes to onDiscard", async () => {
+			const accounts = [createMockAccount(0), createMockAccount(1)];
+			const candidates = createProbeCandidates(accounts);
+			const onDiscard = vi.fn();
+
+			const result = await probeAccountsInParallel(
+				candidates,
+				async (account) => {
+					if (account.index === 0) return "winner";
+					await new Promise((r) => setTimeout(r, 20));
+					return "late-success";
+				},
+				{ onDiscard },
+			);
+
+			await new Promise((r) => setTimeout(r, 50));
+
+			expect(result?.response).toBe("winner");
+			expect(onDiscard).toHaveBeenCalledWith(accounts[1], "late-success");
+		});
+
 		it("ignores late failure after winner is already declared", async () => {
 			const accounts = [createMockAccount(0), createMockAccount(1)];
 			const candidates = createProbeCandidates(accounts);
@@ -219,6 +240,24 @@ describe("parallel-probe", () => {
 			expect(candidates[0].index).toBe(1);
 		});
 
+		it("filters out disabled accounts", () => {
+			const disabledAccount = createMockAccount(0, { enabled: false });
+			const availableAccount = createMockAccount(1);
+
+			const mockManager = {
+				getAccountsSnapshot: vi.fn().mockReturnValue([disabledAccount, availableAccount]),
+			};
+
+			const candidates = getTopCandidates(
+				mockManager as unknown as Parameters<typeof getTopCandidates>[0],
+				"codex",
+				null,
+				3,
+			);
+
+			expect(candidates.map((account) => account.index)).toEqual([1]);
+		});
+
 		it("filters out cooling down accounts", () => {
 			const coolingAccount = createMockAccount(0, {
 				coolingDownUntil: Date.now() + 60000,
@@ -17,10 +17,38 @@ import {
 	getRetryAllAccountsMaxRetries,
 	getFallbackToGpt52OnUnsupportedGpt53,
 	getUnsupportedCodexFallbackChain,
+	getQuotaExhaustionFallbackChain,
 	getRequestTransformMode,
 	getFetchTimeoutMs,
 	getStreamStallTimeoutMs,
 	getAutoUpdate,
+	getRotationStrategy,
+	getHybridSelectionWeights,
+	getRoutingRules,
+	getSessionAffinity,
+	getSessionAffinityTtlMs,
+	getSessionAffinityMaxEntries,
+	getQuotaForecastHorizonMs,
+	getCreditsAwareRouting,
+	getCreditFloor,
+	getTokenBucketCalibration,
+	getTokenBucketOverrides,
+	getMaxInFlightPerAccount,
+	getInFlightQueueTimeoutMs,
+	getProactiveRefresh,
+	getProactiveRefreshIntervalMs,
+	getHedgedRequests,
+	getHedgeDelayMs,
+	getRequestDeadlineMs,
+	getCircuitBreakerFailureThreshold,
+	getCircuitBreakerFailureWindowMs,
+	getCircuitBreakerResetTimeoutMs,
+	getCircuitBreakerHalfOpenMaxAttempts,
+	getPreflightContextGuard,
+	getContextOverflowStrategy,
+	getToolOutputClipBytes,
+	getToolOutputClipKeepRecent,
+	getModelAliases,
 } from '../lib/config.js';
 import type { PluginConfig } from '../lib/types.js';
 import * as fs from 'node:fs';
@@ -65,6 +93,7 @@ describe('Plugin Configuration', () => {
 		'CODEX_AUTH_FALLBACK_UNSUPPORTED_MODEL',
 		'CODEX_AUTH_FALLBACK_GPT53_TO_GPT52',
 		'CODEX_AUTH_AUTO_UPDATE',
+		'CODEX_AUTH_ROTATION_STRATEGY',
 	] as const;
 	const originalEnv: Partial<Record<(typeof envKeys)[number], string | undefined>> = {};
 
@@ -111,6 +140,7 @@ describe('Plugin Configuration', () => {
 				fallbackOnUnsupportedCodexModel: false,
 				fallbackToGpt52OnUnsupportedGpt53: true,
 				unsupportedCodexFallbackChain: {},
+				quotaExhaustionFallbackChain: {},
 				tokenRefreshSkewMs: 60_000,
 				rateLimitToastDebounceMs: 60_000,
 				toastDurationMs: 5_000,
@@ -123,6 +153,34 @@ describe('Plugin Configuration', () => {
 				emptyResponseMaxRetries: 2,
 				emptyResponseRetryDelayMs: 1_000,
 				pidOffsetEnabled: false,
+				crossProcessRotation: false,
+				rotationStrategy: "hybrid",
+				hybridSelectionWeights: {},
+				routingRules: {},
+				sessionAffinity: true,
+				sessionAffinityTtlMs: 1_800_000,
+				sessionAffinityMaxEntries: 512,
+				quotaForecastHorizonMs: 900_000,
+				creditsAwareRouting: false,
+				creditFloor: 0,
+				tokenBucketCalibration: true,
+				tokenBucketOverrides: {},
+				maxInFlightPerAccount: 0,
+				inFlightQueueTimeoutMs: 30_000,
+				proactiveRefresh: true,
+				proactiveRefreshIntervalMs: 300_000,
+				hedgedRequests: false,
+				hedgeDelayMs: 2_000,
+				requestDeadlineMs: 0,
+				circuitBreakerFailureThreshold: 3,
+				circuitBreakerFailureWindowMs: 60_000,
+				circuitBreakerResetTimeoutMs: 30_000,
+				circuitBreakerHalfOpenMaxAttempts: 1,
+				preflightContextGuard: 'off',
+				contextOverflowStrategy: 'notice',
+				toolOutputClipBytes: 0,
+				toolOutputClipKeepRecent: 3,
+				modelAliases: {},
 				fetchTimeoutMs: 60_000,
 				streamStallTimeoutMs: 45_000,
 			});
@@ -156,6 +214,7 @@ describe('Plugin Configuration', () => {
 				fallbackOnUnsupportedCodexModel: false,
 				fallbackToGpt52OnUnsupportedGpt53: true,
 				unsupportedCodexFallbackChain: {},
+				quotaExhaustionFallbackChain: {},
 				tokenRefreshSkewMs: 60_000,
 				rateLimitToastDebounceMs: 60_000,
 				toastDurationMs: 5_000,
@@ -168,6 +227,34 @@ describe('Plugin Configuration', () => {
 				emptyResponseMaxRetries: 2,
 				emptyResponseRetryDelayMs: 1_000,
 				pidOffsetEnabled: false,
+				crossProcessRotation: false,
+				rotationStrategy: "hybrid",
+				hybridSelectionWeights: {},
+				routingRules: {},
+				sessionAffinity: true,
+				sessionAffinityTtlMs: 1_800_000,
+				sessionAffinityMaxEntries: 512,
+				quotaForecastHorizonMs: 900_000,
+				creditsAwareRouting: false,
+				creditFloor: 0,
+				tokenBucketCalibration: true,
+				tokenBucketOverrides: {},
+				maxInFlightPerAccount: 0,
+				inFlightQueueTimeoutMs: 30_000,
+				proactiveRefresh: true,
+				proactiveRefreshIntervalMs: 300_000,
+				hedgedRequests: false,
+				hedgeDelayMs: 2_000,
+				requestDeadlineMs: 0,
+				circuitBreakerFailureThreshold: 3,
+				circuitBreakerFailureWindowMs: 60_000,
+				circuitBreakerResetTimeoutMs: 30_000,
+				circuitBreakerHalfOpenMaxAttempts: 1,
+				preflightContextGuard: 'off',
+				contextOverflowStrategy: 'notice',
+				toolOutputClipBytes: 0,
+				toolOutputClipKeepRecent: 3,
+				modelAliases: {},
 				fetchTimeoutMs: 60_000,
 				streamStallTimeoutMs: 45_000,
 			});
@@ -198,6 +285,7 @@ describe('Plugin Configuration', () => {
 				fallbackOnUnsupportedCodexModel: false,
 				fallbackToGpt52OnUnsupportedGpt53: true,
 				unsupportedCodexFallbackChain: {},
+				quotaExhaustionFallbackChain: {},
 				tokenRefreshSkewMs: 60_000,
 				rateLimitToastDebounceMs: 60_000,
 				toastDurationMs: 5_000,
@@ -210,6 +298,34 @@ describe('Plugin Configuration', () => {
 				emptyResponseMaxRetries: 2,
 				emptyResponseRetryDelayMs: 1_000,
 				pidOffsetEnabled: false,
+				crossProcessRotation: false,
+				rotationStrategy: "hybrid",
+				hybridSelectionWeights: {},
+				routingRules: {},
+				sessionAffinity: true,
+				sessionAffinityTtlMs: 1_800_000,
+				sessionAffinityMaxEntries: 512,
+				quotaForecastHorizonMs: 900_000,
+				creditsAwareRouting: false,
+				creditFloor: 0,
+				tokenBucketCalibration: true,
+				tokenBucketOverrides: {},
+				maxInFlightPerAccount: 0,
+				inFlightQueueTimeoutMs: 30_000,
+				proactiveRefresh: true,
+				proactiveRefreshIntervalMs: 300_000,
+				hedgedRequests: false,
+				hedgeDelayMs: 2_000,
+				requestDeadlineMs: 0,
+				circuitBreakerFailureThreshold: 3,
+				circuitBreakerFailureWindowMs: 60_000,
+				circuitBreakerResetTimeoutMs: 30_000,
+				circuitBreakerHalfOpenMaxAttempts: 1,
+				preflightContextGuard: 'off',
+				contextOverflowStrategy: 'notice',
+				toolOutputClipBytes: 0,
+				toolOutputClipKeepRecent: 3,
+				modelAliases: {},
 				fetchTimeoutMs: 60_000,
 				streamStallTimeoutMs: 45_000,
 			});
@@ -251,6 +367,7 @@ describe('Plugin Configuration', () => {
 		fallbackOnUnsupportedCodexModel: false,
 		fallbackToGpt52OnUnsupportedGpt53: true,
 		unsupportedCodexFallbackChain: {},
+		quotaExhaustionFallbackChain: {},
 		tokenRefreshSkewMs: 60_000,
 		rateLimitToastDebounceMs: 60_000,
 		toastDurationMs: 5_000,
@@ -263,6 +380,34 @@ describe('Plugin Configuration', () => {
 		emptyResponseMaxRetries: 2,
 		emptyResponseRetryDelayMs: 1_000,
 		pidOffsetEnabled: false,
+		crossProcessRotation: false,
+		rotationStrategy: "hybrid",
+		hybridSelectionWeights: {},
+		routingRules: {},
+		sessionAffinity: true,
+		sessionAffinityTtlMs: 1_800_000,
+		sessionAffinityMaxEntries: 512,
+		quotaForecastHorizonMs: 900_000,
+		creditsAwareRouting: false,
+		creditFloor: 0,
+		tokenBucketCalibration: true,
+		tokenBucketOverrides: {},
+		maxInFlightPerAccount: 0,
+		inFlightQueueTimeoutMs: 30_000,
+		proactiveRefresh: true,
+		proactiveRefreshIntervalMs: 300_000,
+		hedgedRequests: false,
+		hedgeDelayMs: 2_000,
+		requestDeadlineMs: 0,
+		circuitBreakerFailureThreshold: 3,
+		circuitBreakerFailureWindowMs: 60_000,
+		circuitBreakerResetTimeoutMs: 30_000,
+		circuitBreakerHalfOpenMaxAttempts: 1,
+		preflightContextGuard: 'off',
+		contextOverflowStrategy: 'notice',
+		toolOutputClipBytes: 0,
+		toolOutputClipKeepRecent: 3,
+		modelAliases: {},
 		fetchTimeoutMs: 60_000,
 		streamStallTimeoutMs: 45_000,
 	});
@@ -298,6 +443,7 @@ describe('Plugin Configuration', () => {
 			fallbackOnUnsupportedCodexModel: false,
 			fallbackToGpt52OnUnsupportedGpt53: true,
 			unsupportedCodexFallbackChain: {},
+			quotaExhaustionFallbackChain: {},
 			tokenRefreshSkewMs: 60_000,
 			rateLimitToastDebounceMs: 60_000,
 			toastDurationMs: 5_000,
@@ -310,6 +456,34 @@ describe('Plugin Configuration', () => {
 			emptyResponseMaxRetries: 2,
 			emptyResponseRetryDelayMs: 1_000,
 			pidOffsetEnabled: false,
+			crossProcessRotation: false,
+			rotationStrategy: "hybrid",
+			hybridSelectionWeights: {},
+			routingRules: {},
+			sessionAffinity: true,
+			sessionAffinityTtlMs: 1_800_000,
+			sessionAffinityMaxEntries: 512,
+			quotaForecastHorizonMs: 900_000,
+			creditsAwareRouting: false,
+			creditFloor: 0,
+			tokenBucketCalibration: true,
+			tokenBucketOverrides: {},
+			maxInFlightPerAccount: 0,
+			inFlightQueueTimeoutMs: 30_000,
+			proactiveRefresh: true,
+			proactiveRefreshIntervalMs: 300_000,
+			hedgedRequests: false,
+			hedgeDelayMs: 2_000,
+			requestDeadlineMs: 0,
+			circuitBreakerFailureThreshold: 3,
+			circuitBreakerFailureWindowMs: 60_000,
+			circuitBreakerResetTimeoutMs: 30_000,
+			circuitBreakerHalfOpenMaxAttempts: 1,
+			preflightContextGuard: 'off',
+			contextOverflowStrategy: 'notice',
+			toolOutputClipBytes: 0,
+			toolOutputClipKeepRecent: 3,
+			modelAliases: {},
 			fetchTimeoutMs: 60_000,
 			streamStallTimeoutMs: 45_000,
 		});
@@ -597,6 +771,20 @@ describe('Plugin Configuration', () => {
 		});
 	});
 
+	describe('getQuotaExhaustionFallbackChain', () => {
+		it('normalizes chain entries and defaults to empty', () => {
+			expect(getQuotaExhaustionFallbackChain({})).toEqual({});
+			expect(
+				getQuotaExhaustionFallbackChain({
+					quotaExhaustionFallbackChain: {
+						'openai/gpt-5.4-pro-high': ['gpt-5.4', ' GPT-5.4-MINI '],
+						'gpt-5.4': ['  '],
+					},
+				}),
+			).toEqual({ 'gpt-5.4-pro': ['gpt-5.4', 'gpt-5.4-mini'] });
+		});
+	});
+
 	describe('getFastSessionMaxInputItems', () => {
 		it('should default to 30', () => {
 			delete process.env.CODEX_AUTH_FAST_SESSION_MAX_INPUT_ITEMS;
@@ -684,6 +872,303 @@ describe('Plugin Configuration', () => {
 		});
 	});
 
+	describe('rotation strategy and hybrid weights', () => {
+		it('should default rotation strategy to hybrid', () => {
+			delete process.env.CODEX_AUTH_ROTATION_STRATEGY;
+			expect(getRotationStrategy({})).toBe('hybrid');
+		});
+
+		it('should prioritize valid env strategy over config', () => {
+			process.env.CODEX_AUTH_ROTATION_STRATEGY = 'round-robin';
+			expect(getRotationStrategy({ rotationStrategy: 'weighted' })).toBe('round-robin');
+			process.env.CODEX_AUTH_ROTATION_STRATEGY = 'fastest';
+			expect(getRotationStrategy({ rotationStrategy: 'weighted' })).toBe('weighted');
+		});
+
+		it('should keep only finite non-negative hybrid weights', () => {
+			const weights = getHybridSelectionWeights({
+				hybridSelectionWeights: {
+					healthWeight: 4,
+					tokenWeight: -1,
+					freshnessWeight: 0,
+				},
+			});
+			expect(weights).toEqual({ healthWeight: 4, freshnessWeight: 0 });
+		});
+	});
+
+	describe('getRoutingRules', () => {
+		it('should default to no rules', () => {
+			expect(getRoutingRules({})).toEqual({});
+		});
+
+		it('should normalize keys and tags and drop empty rules', () => {
+			const rules = getRoutingRules({
+				routingRules: {
+					' GPT-5.4-Pro ': { requireTags: ['Pro', ' pro ', ''], excludeTags: ['Personal'] },
+					codex: { requireTags: [], excludeTags: [] },
+				},
+			});
+			expect(rules).toEqual({
+				'gpt-5.4-pro': { requireTags: ['pro'], excludeTags: ['personal'] },
+			});
+		});
+	});
+
+	describe('session affinity settings', () => {
+		it('should enable affinity with a 30 minute TTL by default', () => {
+			delete process.env.CODEX_AUTH_SESSION_AFFINITY;
+			delete process.env.CODEX_AUTH_SESSION_AFFINITY_TTL_MS;
+			delete process.env.CODEX_AUTH_SESSION_AFFINITY_MAX_ENTRIES;
+			expect(getSessionAffinity({})).toBe(true);
+			expect(getSessionAffinityTtlMs({})).toBe(1_800_000);
+			expect(getSessionAffinityMaxEntries({})).toBe(512);
+		});
+
+		it('should prioritize env values', () => {
+			process.env.CODEX_AUTH_SESSION_AFFINITY = '0';
+			process.env.CODEX_AUTH_SESSION_AFFINITY_TTL_MS = '120000';
+			expect(getSessionAffinity({ sessionAffinity: true })).toBe(false);
+			expect(getSessionAffinityTtlMs({ sessionAffinityTtlMs: 600_000 })).toBe(120_000);
+			delete process.env.CODEX_AUTH_SESSION_AFFINITY;
+			delete process.env.CODEX_AUTH_SESSION_AFFINITY_TTL_MS;
+		});
+	});
+
+	describe('getQuotaForecastHorizonMs', () => {
+		it('should default to 15 minutes', () => {
+			delete process.env.CODEX_AUTH_QUOTA_FORECAST_HORIZON_MS;
+			expect(getQuotaForecastHorizonMs({})).toBe(900_000);
+		});
+
+		it('should allow 0 to disable pre-emptive rotation and prefer env', () => {
+			expect(getQuotaForecastHorizonMs({ quotaForecastHorizonMs: 0 })).toBe(0);
+			process.env.CODEX_AUTH_QUOTA_FORECAST_HORIZON_MS = '300000';
+			expect(getQuotaForecastHorizonMs({ quotaForecastHorizonMs: 0 })).toBe(300_000);
+			delete process.env.CODEX_AUTH_QUOTA_FORECAST_HORIZON_MS;
+		});
+	});
+
+	describe('credits-aware routing settings', () => {
+		it('should default to off with a zero floor', () => {
+			delete process.env.CODEX_AUTH_CREDITS_AWARE_ROUTING;
+			delete process.env.CODEX_AUTH_CREDIT_FLOOR;
+			expect(getCreditsAwareRouting({})).toBe(false);
+			expect(getCreditFloor({})).toBe(0);
+		});
+
+		it('should prefer env overrides', () => {
+			process.env.CODEX_AUTH_CREDITS_AWARE_ROUTING = '1';
+			process.env.CODEX_AUTH_CREDIT_FLOOR = '5';
+			expect(getCreditsAwareRouting({ creditsAwareRouting: false })).toBe(true);
+			expect(getCreditFloor({ creditFloor: 1 })).toBe(5);
+			delete process.env.CODEX_AUTH_CREDITS_AWARE_ROUTING;
+			delete process.env.CODEX_AUTH_CREDIT_FLOOR;
+		});
+	});
+
+	describe('token bucket settings', () => {
+		it('should calibrate by default and honor the env override', () => {
+			delete process.env.CODEX_AUTH_TOKEN_BUCKET_CALIBRATION;
+			expect(getTokenBucketCalibration({})).toBe(true);
+			process.env.CODEX_AUTH_TOKEN_BUCKET_CALIBRATION = '0';
+			expect(getTokenBucketCalibration({ tokenBucketCalibration: true })).toBe(false);
+			delete process.env.CODEX_AUTH_TOKEN_BUCKET_CALIBRATION;
+		});
+
+		it('should normalize per-family overrides', () => {
+			expect(
+				getTokenBucketOverrides({
+					tokenBucketOverrides: {
+						' Codex ': { maxTokens: 20, tokensPerMinute: 2 },
+						'gpt-5.4': { maxTokens: 0 },
+					},
+				}),
+			).toEqual({ codex: { maxTokens: 20, tokensPerMinute: 2 } });
+			expect(getTokenBucketOverrides({})).toEqual({});
+		});
+	});
+
+	describe('in-flight limit settings', () => {
+		it('should default to no limit with a 30s queue timeout', () => {
+			delete process.env.CODEX_AUTH_MAX_IN_FLIGHT_PER_ACCOUNT;
+			delete process.env.CODEX_AUTH_IN_FLIGHT_QUEUE_TIMEOUT_MS;
+			expect(getMaxInFlightPerAccount({})).toBe(0);
+			expect(getInFlightQueueTimeoutMs({})).toBe(30_000);
+		});
+
+		it('should prefer env overrides and floor fractional limits', () => {
+			process.env.CODEX_AUTH_MAX_IN_FLIGHT_PER_ACCOUNT = '3';
+			process.env.CODEX_AUTH_IN_FLIGHT_QUEUE_TIMEOUT_MS = '5000';
+			expect(getMaxInFlightPerAccount({ maxInFlightPerAccount: 1 })).toBe(3);
+			expect(getInFlightQueueTimeoutMs({ inFlightQueueTimeoutMs: 0 })).toBe(5_000);
+			delete process.env.CODEX_AUTH_MAX_IN_FLIGHT_PER_ACCOUNT;
+			delete process.env.CODEX_AUTH_IN_FLIGHT_QUEUE_TIMEOUT_MS;
+			expect(getMaxInFlightPerAccount({ maxInFlightPerAccount: 2.5 })).toBe(2);
+		});
+	});
+
+	describe('background refresh settings', () => {
+		it('should default to on with a 5 minute interval', () => {
+			delete process.env.CODEX_AUTH_PROACTIVE_REFRESH;
+			delete process.env.CODEX_AUTH_PROACTIVE_REFRESH_INTERVAL_MS;
+			expect(getProactiveRefresh({})).toBe(true);
+			expect(getProactiveRefreshIntervalMs({})).toBe(300_000);
+		});
+
+		it('should prefer env overrides and clamp short intervals', () => {
+			process.env.CODEX_AUTH_PROACTIVE_REFRESH = '0';
+			process.env.CODEX_AUTH_PROACTIVE_REFRESH_INTERVAL_MS = '60000';
+			expect(getProactiveRefresh({ proactiveRefresh: true })).toBe(false);
+			expect(getProactiveRefreshIntervalMs({ proactiveRefreshIntervalMs: 120_000 })).toBe(60_000);
+			delete process.env.CODEX_AUTH_PROACTIVE_REFRESH;
+			delete process.env.CODEX_AUTH_PROACTIVE_REFRESH_INTERVAL_MS;
+			expect(getProactiveRefreshIntervalMs({ proactiveRefreshIntervalMs: 1_000 })).toBe(10_000);
+		});
+	});
+
+	describe('hedged request settings', () => {
+		it('should default to off with a 2s hedge delay', () => {
+			delete process.env.CODEX_AUTH_HEDGED_REQUESTS;
+			delete process.env.CODEX_AUTH_HEDGE_DELAY_MS;
+			expect(getHedgedRequests({})).toBe(false);
+			expect(getHedgeDelayMs({})).toBe(2_000);
+		});
+
+		it('should prefer env overrides and clamp very short delays', () => {
+			process.env.CODEX_AUTH_HEDGED_REQUESTS = '1';
+			process.env.CODEX_AUTH_HEDGE_DELAY_MS = '1500';
+			expect(getHedgedRequests({ hedgedRequests: false })).toBe(true);
+			expect(getHedgeDelayMs({ hedgeDelayMs: 4_000 })).toBe(1_500);
+			delete process.env.CODEX_AUTH_HEDGED_REQUESTS;
+			delete process.env.CODEX_AUTH_HEDGE_DELAY_MS;
+			expect(getHedgeDelayMs({ hedgeDelayMs: 0 })).toBe(250);
+		});
+	});
+
+	describe('getRequestDeadlineMs', () => {
+		it('should default to no deadline', () => {
+			delete process.env.CODEX_AUTH_REQUEST_DEADLINE_MS;
+			expect(getRequestDeadlineMs({})).toBe(0);
+			expect(getRequestDeadlineMs({ requestDeadlineMs: 120_000 })).toBe(120_000);
+		});
+
+		it('should prefer the env override', () => {
+			process.env.CODEX_AUTH_REQUEST_DEADLINE_MS = '90000';
+			expect(getRequestDeadlineMs({ requestDeadlineMs: 120_000 })).toBe(90_000);
+			delete process.env.CODEX_AUTH_REQUEST_DEADLINE_MS;
+		});
+	});
+
+	describe('circuit breaker thresholds', () => {
+		it('should default to the built-in breaker config', () => {
+			delete process.env.CODEX_AUTH_CIRCUIT_BREAKER_FAILURE_THRESHOLD;
+			delete process.env.CODEX_AUTH_CIRCUIT_BREAKER_FAILURE_WINDOW_MS;
+			delete process.env.CODEX_AUTH_CIRCUIT_BREAKER_RESET_TIMEOUT_MS;
+			delete process.env.CODEX_AUTH_CIRCUIT_BREAKER_HALF_OPEN_MAX_ATTEMPTS;
+			expect(getCircuitBreakerFailureThreshold({})).toBe(3);
+			expect(getCircuitBreakerFailureWindowMs({})).toBe(60_000);
+			expect(getCircuitBreakerResetTimeoutMs({})).toBe(30_000);
+			expect(getCircuitBreakerHalfOpenMaxAttempts({})).toBe(1);
+		});
+
+		it('should read config values and clamp them', () => {
+			expect(getCircuitBreakerFailureThreshold({ circuitBreakerFailureThreshold: 5 })).toBe(5);
+			expect(getCircuitBreakerFailureThreshold({ circuitBreakerFailureThreshold: 0 })).toBe(1);
+			expect(getCircuitBreakerFailureWindowMs({ circuitBreakerFailureWindowMs: 10 })).toBe(1_000);
+			expect(getCircuitBreakerResetTimeoutMs({ circuitBreakerResetTimeoutMs: 90_000 })).toBe(90_000);
+			expect(getCircuitBreakerHalfOpenMaxAttempts({ circuitBreakerHalfOpenMaxAttempts: 2 })).toBe(2);
+		});
+
+		it('should prefer env overrides', () => {
+			process.env.CODEX_AUTH_CIRCUIT_BREAKER_FAILURE_THRESHOLD = '7';
+			process.env.CODEX_AUTH_CIRCUIT_BREAKER_RESET_TIMEOUT_MS = '5000';
+			expect(getCircuitBreakerFailureThreshold({ circuitBreakerFailureThreshold: 5 })).toBe(7);
+			expect(getCircuitBreakerResetTimeoutMs({})).toBe(5_000);
+			delete process.env.CODEX_AUTH_CIRCUIT_BREAKER_FAILURE_THRESHOLD;
+			delete process.env.CODEX_AUTH_CIRCUIT_BREAKER_RESET_TIMEOUT_MS;
+		});
+	});
+
+	describe('getPreflightContextGuard', () => {
+		it('should default to off', () => {
+			delete process.env.CODEX_AUTH_PREFLIGHT_CONTEXT_GUARD;
+			expect(getPreflightContextGuard({})).toBe('off');
+			expect(getPreflightContextGuard({ preflightContextGuard: 'trim' })).toBe('trim');
+		});
+
+		it('should prefer a valid env override and ignore unknown values', () => {
+			process.env.CODEX_AUTH_PREFLIGHT_CONTEXT_GUARD = 'reject';
+			expect(getPreflightContextGuard({ preflightContextGuard: 'trim' })).toBe('reject');
+			process.env.CODEX_AUTH_PREFLIGHT_CONTEXT_GUARD = 'drop';
+			expect(getPreflightContextGuard({ preflightContextGuard: 'trim' })).toBe('trim');
+			delete process.env.CODEX_AUTH_PREFLIGHT_CONTEXT_GUARD;
+		});
+	});
+
+	describe('getContextOverflowStrategy', () => {
+		it('should default to notice', () => {
+			delete process.env.CODEX_AUTH_CONTEXT_OVERFLOW_STRATEGY;
+			expect(getContextOverflowStrategy({})).toBe('notice');
+			expect(getContextOverflowStrategy({ contextOverflowStrategy: 'trim-and-retry' })).toBe('trim-and-retry');
+		});
+
+		it('should prefer a valid env override and ignore unknown values', () => {
+			process.env.CODEX_AUTH_CONTEXT_OVERFLOW_STRATEGY = 'notice';
+			expect(getContextOverflowStrategy({ contextOverflowStrategy: 'trim-and-retry' })).toBe('notice');
+			process.env.CODEX_AUTH_CONTEXT_OVERFLOW_STRATEGY = 'summarize';
+			expect(getContextOverflowStrategy({ contextOverflowStrategy: 'trim-and-retry' })).toBe('trim-and-retry');
+			delete process.env.CODEX_AUTH_CONTEXT_OVERFLOW_STRATEGY;
+		});
+	});
+
+	describe('tool output clipping', () => {
+		it('should default to off, keeping the three latest outputs', () => {
+			delete process.env.CODEX_AUTH_TOOL_OUTPUT_CLIP_BYTES;
+			delete process.env.CODEX_AUTH_TOOL_OUTPUT_CLIP_KEEP_RECENT;
+			expect(getToolOutputClipBytes({})).toBe(0);
+			expect(getToolOutputClipKeepRecent({})).toBe(3);
+			expect(getToolOutputClipBytes({ toolOutputClipBytes: 32_768 })).toBe(32_768);
+			expect(getToolOutputClipKeepRecent({ toolOutputClipKeepRecent: 0 })).toBe(0);
+		});
+
+		it('should prefer the env overrides', () => {
+			process.env.CODEX_AUTH_TOOL_OUTPUT_CLIP_BYTES = '16384';
+			process.env.CODEX_AUTH_TOOL_OUTPUT_CLIP_KEEP_RECENT = '5';
+			expect(getToolOutputClipBytes({ toolOutputClipBytes: 32_768 })).toBe(16_384);
+			expect(getToolOutputClipKeepRecent({ toolOutputClipKeepRecent: 1 })).toBe(5);
+			delete process.env.CODEX_AUTH_TOOL_OUTPUT_CLIP_BYTES;
+			delete process.env.CODEX_AUTH_TOOL_OUTPUT_CLIP_KEEP_RECENT;
+		});
+	});
+
+	describe('getModelAliases', () => {
+		it('should default to no aliases', () => {
+			expect(getModelAliases({})).toEqual({});
+		});
+
+		it('should trim keys and targets and drop invalid entries and options', () => {
+			const aliases = getModelAliases({
+				modelAliases: {
+					' my-fast ': {
+						model: ' gpt-5.4-mini ',
+						options: { reasoningEffort: 'low', textVerbosity: 'loud', include: ['reasoning.encrypted_content', 1] },
+					},
+					'no-target': { model: '  ' },
+					'plain': { model: 'gpt-5.4', options: { reasoningSummary: 'sometimes' } },
+				},
+			} as unknown as PluginConfig);
+
+			expect(aliases).toEqual({
+				'my-fast': {
+					model: 'gpt-5.4-mini',
+					options: { reasoningEffort: 'low', include: ['reasoning.encrypted_content'] },
+				},
+				plain: { model: 'gpt-5.4' },
+			});
+		});
+	});
+
 	describe('getRequestTransformMode', () => {
 		it('should default to native', () => {
 			delete process.env.CODEX_AUTH_REQUEST_TRANSFORM_MODE;
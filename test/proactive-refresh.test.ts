@@ -5,16 +5,26 @@ import {
 	proactiveRefreshAccount,
 	refreshExpiringAccounts,
 	applyRefreshResult,
+	configureProactiveRefresh,
+	formatProactiveRefreshStats,
+	getProactiveRefreshScheduler,
+	ProactiveRefreshScheduler,
 	DEFAULT_PROACTIVE_BUFFER_MS,
 	MIN_PROACTIVE_BUFFER_MS,
 } from "../lib/proactive-refresh.js";
-import type { ManagedAccount } from "../lib/accounts.js";
+import type { AccountManager, ManagedAccount } from "../lib/accounts.js";
 import * as refreshQueue from "../lib/refresh-queue.js";
+import * as storage from "../lib/storage.js";
+import { runCleanup } from "../lib/shutdown.js";
 
 vi.mock("../lib/refresh-queue.js", () => ({
 	queuedRefresh: vi.fn(),
 }));
 
+vi.mock("../lib/storage.js", () => ({
+	withAccountStorageTransaction: vi.fn(),
+}));
+
 function createMockAccount(overrides: Partial<ManagedAccount> = {}): ManagedAccount {
 	return {
 		index: 0,
@@ -438,6 +448,204 @@ describe("proactive-refresh", () => {
 		});
 	});
 
+	describe("ProactiveRefreshScheduler", () => {
+		const createPool = (accounts: ManagedAccount[]) =>
+			({
+				getAccountsSnapshot: () => accounts.map((account) => ({ ...account })),
+				getAccountByIndex: (index: number) =>
+					accounts.find((account) => account.index === index) ?? null,
+			}) as unknown as AccountManager;
+
+		const mockStorage = (refreshTokens: string[]) => {
+			const persist = vi.fn(async () => {});
+			vi.mocked(storage.withAccountStorageTransaction).mockImplementation(
+				async (handler) =>
+					handler(
+						{
+							version: 3,
+							activeIndex: 0,
+							accounts: refreshTokens.map((refreshToken) => ({
+								refreshToken,
+								addedAt: 0,
+								lastUsed: 0,
+							})),
+						},
+						persist,
+					),
+			);
+			return persist;
+		};
+
+		afterEach(() => {
+			configureProactiveRefresh({
+				enabled: false,
+				intervalMs: 60_000,
+				skewMs: 0,
+				getAccountManager: () => null,
+			});
+		});
+
+		it("refreshes accounts expiring before the next run and persists them", async () => {
+			const expiring = createMockAccount({
+				index: 0,
+				refreshToken: "old-refresh",
+				access: "old-access",
+				expires: Date.now() + 2 * 60_000,
+			});
+			const fresh = createMockAccount({
+				index: 1,
+				refreshToken: "fresh-refresh",
+				access: "fresh-access",
+				expires: Date.now() + 60 * 60_000,
+			});
+			const persist = mockStorage(["old-refresh", "fresh-refresh"]);
+			const newExpires = Date.now() + 3_600_000;
+			vi.mocked(refreshQueue.queuedRefresh).mockResolvedValue({
+				type: "success",
+				access: "new-access",
+				refresh: "new-refresh",
+				expires: newExpires,
+			});
+
+			const scheduler = new ProactiveRefreshScheduler({
+				enabled: true,
+				intervalMs: 60_000,
+				skewMs: 60_000,
+				getAccountManager: () => createPool([expiring, fresh]),
+			});
+			const stats = await scheduler.runOnce();
+
+			expect(refreshQueue.queuedRefresh).toHaveBeenCalledTimes(1);
+			expect(refreshQueue.queuedRefresh).toHaveBeenCalledWith("old-refresh");
+			expect(expiring.access).toBe("new-access");
+			expect(expiring.refreshToken).toBe("new-refresh");
+			expect(fresh.access).toBe("fresh-access");
+			expect(persist).toHaveBeenCalledTimes(1);
+			const saved = persist.mock.calls[0]?.[0] as { accounts: Array<Record<string, unknown>> };
+			expect(saved.accounts[0]).toMatchObject({
+				refreshToken: "new-refresh",
+				accessToken: "new-access",
+				expiresAt: newExpires,
+			});
+			expect(saved.accounts[1]).toEqual({ refreshToken: "fresh-refresh", addedAt: 0, lastUsed: 0 });
+			expect(stats).toMatchObject({ checked: 2, due: 1, refreshed: 1, failed: 0, persisted: 1 });
+			expect(scheduler.getStats()).toMatchObject({ runs: 1, totalRefreshed: 1 });
+		});
+
+		it("leaves accounts alone when the token changed during the run", async () => {
+			const live = createMockAccount({
+				index: 0,
+				refreshToken: "old-refresh",
+				expires: Date.now() + 60_000,
+				access: "old-access",
+			});
+			const failing = createMockAccount({
+				index: 1,
+				refreshToken: "revoked-refresh",
+				expires: Date.now() + 60_000,
+				access: "stale-access",
+			});
+			const persist = mockStorage(["old-refresh", "revoked-refresh"]);
+			vi.mocked(refreshQueue.queuedRefresh).mockImplementation(async (token) => {
+				if (token === "revoked-refresh") {
+					return { type: "failed", reason: "http_error", statusCode: 400 };
+				}
+				// The request path refreshed the same account inline meanwhile.
+				live.refreshToken = "inline-refresh";
+				return {
+					type: "success",
+					access: "background-access",
+					refresh: "background-refresh",
+					expires: Date.now() + 3_600_000,
+				};
+			});
+
+			const scheduler = new ProactiveRefreshScheduler({
+				enabled: true,
+				intervalMs: 60_000,
+				skewMs: 60_000,
+				getAccountManager: () => createPool([live, failing]),
+			});
+			const stats = await scheduler.runOnce();
+
+			expect(live.access).toBe("old-access");
+			expect(live.refreshToken).toBe("inline-refresh");
+			expect(persist).not.toHaveBeenCalled();
+			expect(stats).toMatchObject({ due: 2, refreshed: 0, failed: 1, persisted: 0 });
+		});
+
+		it("skips runs until the loader has an account manager", async () => {
+			const scheduler = new ProactiveRefreshScheduler({
+				enabled: true,
+				intervalMs: 60_000,
+				skewMs: 0,
+				getAccountManager: () => null,
+			});
+
+			expect(await scheduler.runOnce()).toBeNull();
+			expect(scheduler.getStats().runs).toBe(0);
+		});
+
+		it("runs on a jittered interval and stops on shutdown", async () => {
+			const account = createMockAccount({
+				index: 0,
+				refreshToken: "old-refresh",
+				access: "old-access",
+				expires: Date.now() + 24 * 60 * 60_000,
+			});
+			mockStorage(["old-refresh"]);
+			configureProactiveRefresh({
+				enabled: true,
+				intervalMs: 60_000,
+				skewMs: 0,
+				getAccountManager: () => createPool([account]),
+			});
+			const scheduler = getProactiveRefreshScheduler();
+			expect(scheduler).not.toBeNull();
+			const nextRunAt = scheduler?.getStats().nextRunAt ?? 0;
+			expect(nextRunAt - Date.now()).toBeGreaterThanOrEqual(48_000);
+			expect(nextRunAt - Date.now()).toBeLessThanOrEqual(72_000);
+
+			await vi.advanceTimersByTimeAsync(72_000);
+			expect(scheduler?.getStats().runs).toBe(1);
+			expect(scheduler?.getStats().lastRun).toMatchObject({ checked: 1, due: 0 });
+			expect(refreshQueue.queuedRefresh).not.toHaveBeenCalled();
+
+			await runCleanup();
+			expect(getProactiveRefreshScheduler()).toBeNull();
+			await vi.advanceTimersByTimeAsync(5 * 72_000);
+			expect(scheduler?.getStats().runs).toBe(1);
+			expect(scheduler?.getStats().nextRunAt).toBeNull();
+		});
+
+		it("formats last-run stats for the dashboard", () => {
+			const now = Date.now();
+			expect(formatProactiveRefreshStats(null, now)).toBe("off");
+			expect(
+				formatProactiveRefreshStats(
+					{
+						intervalMs: 300_000,
+						bufferMs: 420_000,
+						runs: 3,
+						totalRefreshed: 2,
+						totalFailed: 0,
+						nextRunAt: now + 4 * 60_000,
+						lastRun: {
+							ranAt: now - 60_000,
+							durationMs: 120,
+							checked: 4,
+							due: 1,
+							refreshed: 1,
+							failed: 0,
+							persisted: 1,
+						},
+					},
+					now,
+				),
+			).toBe("runs=3 last=1m ago checked=4 refreshed=1 failed=0 next=in 4m");
+		});
+	});
+
 	describe("constants", () => {
 		it("DEFAULT_PROACTIVE_BUFFER_MS is 5 minutes", () => {
 			expect(DEFAULT_PROACTIVE_BUFFER_MS).toBe(5 * 60 * 1000);
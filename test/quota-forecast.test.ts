@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import {
+	formatForecastDuration,
+	formatQuotaForecast,
+	QuotaForecastTracker,
+} from "../lib/quota-forecast.js";
+
+const START = 1_800_000_000_000;
+const MINUTE_MS = 60_000;
+const fiveHour = (usedPercent: number, resetAtMs = START + 4 * 60 * MINUTE_MS) => ({
+	usedPercent,
+	windowMinutes: 300,
+	resetAtMs,
+});
+
+describe("quota forecast", () => {
+	it("projects exhaustion from the recent burn rate", () => {
+		const tracker = new QuotaForecastTracker();
+		tracker.record(0, [fiveHour(40)], START);
+		tracker.record(0, [fiveHour(50)], START + 10 * MINUTE_MS);
+
+		const [forecast] = tracker.getForecast(0, START + 10 * MINUTE_MS);
+
+		expect(forecast?.window).toBe("5h");
+		expect(forecast?.percentPerHour).toBeCloseTo(60);
+		expect(forecast?.exhaustsAt).toBe(START + 60 * MINUTE_MS);
+		expect(tracker.getTimeToExhaustion(0, START + 10 * MINUTE_MS)).toBe(50 * MINUTE_MS);
+	});
+
+	it("needs readings spanning a couple of minutes before reporting a pace", () => {
+		const tracker = new QuotaForecastTracker();
+		tracker.record(0, [fiveHour(40)], START);
+		tracker.record(0, [fiveHour(41)], START + 30_000);
+
+		expect(tracker.getForecast(0, START + 30_000)).toEqual([]);
+		expect(tracker.getTimeToExhaustion(0, START + 30_000)).toBeUndefined();
+	});
+
+	it("reports no exhaustion when the window resets first", () => {
+		const tracker = new QuotaForecastTracker();
+		const resetSoon = START + 20 * MINUTE_MS;
+		tracker.record(1, [fiveHour(10, resetSoon)], START);
+		tracker.record(1, [fiveHour(12, resetSoon)], START + 10 * MINUTE_MS);
+
+		const [forecast] = tracker.getForecast(1, START + 10 * MINUTE_MS);
+
+		expect(forecast?.exhaustsAt).toBeUndefined();
+		expect(formatQuotaForecast(forecast!, START + 10 * MINUTE_MS)).toBe(
+			"5h: resets before running out (12.0%/h)",
+		);
+	});
+
+	it("starts a new series when the window resets", () => {
+		const tracker = new QuotaForecastTracker();
+		tracker.record(0, [fiveHour(80)], START);
+		tracker.record(0, [fiveHour(90)], START + 5 * MINUTE_MS);
+		tracker.record(0, [fiveHour(1)], START + 6 * MINUTE_MS);
+
+		expect(tracker.getForecast(0, START + 6 * MINUTE_MS)).toEqual([]);
+	});
+
+	it("only flags accounts inside the configured horizon", () => {
+		const tracker = new QuotaForecastTracker({ horizonMs: 45 * MINUTE_MS });
+		tracker.record(0, [fiveHour(40)], START);
+		tracker.record(0, [fiveHour(50)], START + 10 * MINUTE_MS);
+
+		expect(tracker.isExhaustingSoon(0, START + 10 * MINUTE_MS)).toBe(false);
+		expect(tracker.isExhaustingSoon(0, START + 20 * MINUTE_MS)).toBe(true);
+
+		tracker.configure({ horizonMs: 0 });
+		expect(tracker.isExhaustingSoon(0, START + 20 * MINUTE_MS)).toBe(false);
+	});
+
+	it("tracks the 5h and weekly windows separately", () => {
+		const tracker = new QuotaForecastTracker();
+		const weekly = (usedPercent: number) => ({ usedPercent, windowMinutes: 10080 });
+		tracker.record(0, [fiveHour(10), weekly(70)], START);
+		tracker.record(0, [fiveHour(12), weekly(80)], START + 20 * MINUTE_MS);
+
+		const forecasts = tracker.getForecast(0, START + 20 * MINUTE_MS);
+
+		expect(forecasts.map((forecast) => forecast.window)).toEqual(["5h", "weekly"]);
+		expect(tracker.getTimeToExhaustion(0, START + 20 * MINUTE_MS)).toBe(40 * MINUTE_MS);
+		expect(formatQuotaForecast(forecasts[1]!, START + 20 * MINUTE_MS)).toBe(
+			"weekly: runs out in ~40m at the current pace (30.0%/h)",
+		);
+	});
+
+	it("formats forecast durations", () => {
+		expect(formatForecastDuration(10_000)).toBe("~1m");
+		expect(formatForecastDuration(40 * MINUTE_MS)).toBe("~40m");
+		expect(formatForecastDuration(125 * MINUTE_MS)).toBe("~2h 5m");
+		expect(formatForecastDuration(180 * MINUTE_MS)).toBe("~3h");
+	});
+});
@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { promises as fs } from "node:fs";
+import { dirname, join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+	appendQuotaHistory,
+	getQuotaHistoryDir,
+	getQuotaHistoryPath,
+	getRotationStateAccountKey,
+	loadQuotaHistory,
+	QUOTA_HISTORY_RETENTION_MS,
+	setStoragePathDirect,
+} from "../lib/storage.js";
+
+const START = 1_800_000_000_000;
+const MINUTE_MS = 60_000;
+const account = { accountId: "acct-1", refreshToken: "secret-refresh-token" };
+const reading = (at: number, primary: number, secondary = 10) => ({
+	fetchedAt: at,
+	source: "headers" as const,
+	planType: "plus",
+	limits: [
+		{ usedPercent: primary, windowMinutes: 300, resetAtMs: at + 60 * MINUTE_MS },
+		{ usedPercent: secondary, windowMinutes: 10080 },
+	],
+});
+
+describe("quota history ledger", () => {
+	const testWorkDir = join(tmpdir(), "codex-quota-history-" + Math.random().toString(36).slice(2));
+
+	beforeEach(async () => {
+		await fs.mkdir(testWorkDir, { recursive: true });
+		setStoragePathDirect(join(testWorkDir, "accounts.json"));
+	});
+
+	afterEach(async () => {
+		setStoragePathDirect(null);
+		await fs.rm(testWorkDir, { recursive: true, force: true });
+	});
+
+	it("stores one file per account next to the accounts file, named by hashed identity", async () => {
+		await appendQuotaHistory(account, reading(START, 20));
+
+		const path = getQuotaHistoryPath(account);
+		expect(dirname(getQuotaHistoryDir())).toBe(testWorkDir);
+		expect(path).toBe(join(getQuotaHistoryDir(), `${getRotationStateAccountKey(account)}.json`));
+		const raw = await fs.readFile(path, "utf-8");
+		expect(raw).not.toContain("secret-refresh-token");
+		expect(JSON.parse(raw)).toMatchObject({
+			version: 1,
+			account: getRotationStateAccountKey(account),
+			entries: [{ at: START, source: "headers", planType: "plus" }],
+		});
+	});
+
+	it("skips repeated readings within the minimum interval but keeps changes", async () => {
+		await appendQuotaHistory(account, reading(START, 20));
+		await appendQuotaHistory(account, reading(START + MINUTE_MS, 20));
+		await appendQuotaHistory(account, reading(START + 2 * MINUTE_MS, 25));
+		await appendQuotaHistory(account, reading(START + 10 * MINUTE_MS, 25));
+
+		const history = await loadQuotaHistory(account);
+		expect(history?.entries.map((entry) => entry.at)).toEqual([
+			START,
+			START + 2 * MINUTE_MS,
+			START + 10 * MINUTE_MS,
+		]);
+	});
+
+	it("drops entries older than the retention window", async () => {
+		await appendQuotaHistory(account, reading(START, 20));
+		await appendQuotaHistory(account, reading(START + QUOTA_HISTORY_RETENTION_MS + MINUTE_MS, 30));
+
+		const history = await loadQuotaHistory(account);
+		expect(history?.entries).toHaveLength(1);
+		expect(history?.entries[0]?.windows[0]?.usedPercent).toBe(30);
+	});
+
+	it("keeps every entry when appends race", async () => {
+		await Promise.all(
+			[10, 20, 30, 40].map((used, offset) =>
+				appendQuotaHistory(account, reading(START + offset * 10 * MINUTE_MS, used)),
+			),
+		);
+
+		const history = await loadQuotaHistory(account);
+		expect(history?.entries).toHaveLength(4);
+	});
+
+	it("ignores snapshots without usable windows and malformed stored entries", async () => {
+		await appendQuotaHistory(account, { source: "usage", limits: [{ windowMinutes: 300 }] });
+		expect(await loadQuotaHistory(account)).toBeNull();
+
+		await fs.mkdir(getQuotaHistoryDir(), { recursive: true });
+		await fs.writeFile(
+			getQuotaHistoryPath(account),
+			JSON.stringify({
+				version: 1,
+				account: "abc",
+				entries: [
+					{ at: START + 1, source: "usage", windows: [{ usedPercent: 150, windowMinutes: 300 }] },
+					{ at: "later", source: "usage", windows: [{ usedPercent: 5 }] },
+					{ at: START, source: "guess", windows: [{ usedPercent: 5 }] },
+					{ at: START, source: "headers", windows: [] },
+				],
+			}),
+			"utf-8",
+		);
+
+		const history = await loadQuotaHistory(account);
+		expect(history?.entries).toEqual([
+			{
+				at: START + 1,
+				source: "usage",
+				planType: undefined,
+				windows: [{ usedPercent: 100, windowMinutes: 300, resetAtMs: undefined }],
+			},
+		]);
+	});
+
+	it("never throws when the history cannot be written", async () => {
+		await fs.writeFile(getQuotaHistoryDir(), "not a directory", "utf-8");
+
+		await expect(appendQuotaHistory(account, reading(START, 20))).resolves.toBeUndefined();
+	});
+});
@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	RequestDeadline,
+	createDeadlineExceededResponse,
+	formatDeadlineBreakdown,
+} from "../lib/request/request-deadline.js";
+import { ErrorCode, RequestDeadlineError } from "../lib/errors.js";
+
+describe("request-deadline", () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date("2026-03-01T12:00:00Z"));
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("never expires or clamps when disabled", () => {
+		const deadline = new RequestDeadline(0);
+		vi.advanceTimersByTime(10 * 60_000);
+
+		expect(deadline.enabled).toBe(false);
+		expect(deadline.expired()).toBe(false);
+		expect(deadline.clampTimeout(60_000)).toBe(60_000);
+		expect(() => deadline.assertCanWait(60_000, "backoff")).not.toThrow();
+		expect(() => deadline.check()).not.toThrow();
+	});
+
+	it("clamps attempt timeouts to the time left", () => {
+		const deadline = new RequestDeadline(10_000);
+		vi.advanceTimersByTime(4_000);
+
+		expect(deadline.remainingMs()).toBe(6_000);
+		expect(deadline.clampTimeout(60_000)).toBe(6_000);
+		expect(deadline.clampTimeout(1_000)).toBe(1_000);
+	});
+
+	it("throws once the deadline has passed", () => {
+		const deadline = new RequestDeadline(1_000);
+		expect(() => deadline.check()).not.toThrow();
+
+		vi.advanceTimersByTime(1_000);
+		expect(deadline.expired()).toBe(true);
+		expect(() => deadline.check("queue")).toThrow(RequestDeadlineError);
+	});
+
+	it("refuses a wait that would end past the deadline", () => {
+		const deadline = new RequestDeadline(5_000);
+		vi.advanceTimersByTime(1_000);
+
+		expect(() => deadline.assertCanWait(3_000, "backoff")).not.toThrow();
+		try {
+			deadline.assertCanWait(4_000, "rateLimitWait");
+			expect.unreachable();
+		} catch (error) {
+			expect(error).toBeInstanceOf(RequestDeadlineError);
+			const deadlineError = error as RequestDeadlineError;
+			expect(deadlineError.code).toBe(ErrorCode.TIMEOUT);
+			expect(deadlineError.breakdown).toMatchObject({
+				budgetMs: 5_000,
+				elapsedMs: 1_000,
+				exceededIn: "rateLimitWait",
+				refusedWaitMs: 4_000,
+			});
+		}
+	});
+
+	it("breaks elapsed time down by phase", async () => {
+		const deadline = new RequestDeadline(60_000);
+		await deadline.track("upstream", async () => {
+			vi.advanceTimersByTime(2_000);
+		});
+		await expect(
+			deadline.track("tokenRefresh", async () => {
+				vi.advanceTimersByTime(500);
+				throw new Error("refresh failed");
+			}),
+		).rejects.toThrow("refresh failed");
+		deadline.record("backoff", 1_500);
+		vi.advanceTimersByTime(1_750);
+
+		const breakdown = deadline.getBreakdown("rotation");
+		expect(breakdown).toEqual({
+			budgetMs: 60_000,
+			elapsedMs: 4_250,
+			exceededIn: "rotation",
+			attempts: 1,
+			phases: {
+				upstream: 2_000,
+				tokenRefresh: 500,
+				queue: 0,
+				backoff: 1_500,
+				rateLimitWait: 0,
+			},
+			otherMs: 250,
+		});
+		expect(formatDeadlineBreakdown(breakdown)).toBe(
+			"upstream=2000ms tokenRefresh=500ms backoff=1500ms other=250ms",
+		);
+	});
+
+	it("renders a 504 with the breakdown", async () => {
+		const deadline = new RequestDeadline(1_000);
+		deadline.record("upstream", 1_000);
+		vi.advanceTimersByTime(1_000);
+
+		const response = createDeadlineExceededResponse(deadline.exceeded("upstream"));
+		expect(response.status).toBe(504);
+		const body = (await response.json()) as {
+			error: { code: string; message: string; deadline: { attempts: number } };
+		};
+		expect(body.error.code).toBe("request_deadline_exceeded");
+		expect(body.error.message).toContain("Request deadline of 1000ms exceeded after 1000ms (upstream)");
+		expect(body.error.message).toContain("upstream=1000ms other=0ms");
+		expect(body.error.deadline.attempts).toBe(1);
+	});
+});
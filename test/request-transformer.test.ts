@@ -4,6 +4,7 @@ import {
     getModelConfig,
     getReasoningConfig,
     filterInput,
+    clipToolOutputs,
     addToolRemapMessage,
     isOpenCodeSystemPrompt,
     filterOpenCodeSystemPrompts,
@@ -14,6 +15,7 @@ import {
 } from '../lib/request/request-transformer.js';
 import { TOOL_REMAP_MESSAGE } from '../lib/prompts/codex.js';
 import { CODEX_OPENCODE_BRIDGE } from '../lib/prompts/codex-opencode-bridge.js';
+import { configureModelAliases } from '../lib/request/helpers/model-map.js';
 import type { RequestBody, UserConfig, InputItem } from '../lib/types.js';
 
 describe('Request Transformer Module', () => {
@@ -284,6 +286,41 @@ describe('Request Transformer Module', () => {
 				expect(result.reasoningSummary).toBe('detailed');
 			});
 
+			describe('plugin-config model aliases', () => {
+				afterEach(() => {
+					configureModelAliases({});
+				});
+
+				it('should apply alias defaults over global options', () => {
+					configureModelAliases({
+						'my-fast': { model: 'gpt-5.4-mini', options: { reasoningEffort: 'low', textVerbosity: 'low' } },
+					});
+					const userConfig: UserConfig = {
+						global: { reasoningEffort: 'high', reasoningSummary: 'detailed' },
+						models: {},
+					};
+
+					const result = getModelConfig('openai/my-fast', userConfig);
+					expect(result).toEqual({ reasoningEffort: 'low', textVerbosity: 'low', reasoningSummary: 'detailed' });
+					expect(normalizeModel('openai/my-fast')).toBe('gpt-5.4-mini');
+				});
+
+				it('should let per-model options override alias defaults', () => {
+					configureModelAliases({
+						'my-fast': { model: 'gpt-5.4-mini', options: { reasoningEffort: 'low', textVerbosity: 'low' } },
+					});
+					const userConfig: UserConfig = {
+						global: {},
+						models: {
+							'my-fast': { options: { reasoningEffort: 'medium' } },
+							'gpt-5.4-mini': { options: { textVerbosity: 'high' } },
+						},
+					};
+
+					expect(getModelConfig('my-fast', userConfig)).toEqual({ reasoningEffort: 'medium', textVerbosity: 'low' });
+				});
+			});
+
 			it('should apply variants from modern base-model config when variant suffix is used', () => {
 				const userConfig: UserConfig = {
 					global: { reasoningEffort: 'medium', reasoningSummary: 'auto' },
@@ -577,6 +614,54 @@ describe('Request Transformer Module', () => {
 		});
 	});
 
+	describe('clipToolOutputs', () => {
+		const output = (callId: string, text: string): InputItem => ({
+			type: 'function_call_output',
+			call_id: callId,
+			output: text,
+		});
+
+		it('keeps head and tail of oversized outputs, exempting the most recent ones', () => {
+			const input: InputItem[] = [
+				{ type: 'function_call', call_id: 'c1', name: 'bash', arguments: '{}' },
+				output('c1', 'H'.repeat(50) + 'x'.repeat(1_000) + 'T'.repeat(50)),
+				{ type: 'function_call', call_id: 'c2', name: 'bash', arguments: '{}' },
+				output('c2', 'y'.repeat(2_000)),
+				{ type: 'message', role: 'user', content: 'next' },
+			];
+
+			const result = clipToolOutputs(input, { maxBytes: 100, keepRecent: 1 });
+
+			expect(result.input[1]).toEqual(
+				output('c1', `${'H'.repeat(50)}\n[clipped 1000 bytes]\n${'T'.repeat(50)}`),
+			);
+			expect(result.input[3]).toBe(input[3]);
+			expect(result.clippedOutputs).toBe(1);
+			expect(result.bytesSaved).toBe(1_100 - (100 + '\n[clipped 1000 bytes]\n'.length));
+		});
+
+		it('cuts on UTF-8 character boundaries', () => {
+			const text = 'é'.repeat(500);
+
+			const result = clipToolOutputs([output('c1', text)], { maxBytes: 11, keepRecent: 0 });
+			const clipped = result.input[0]?.output as string;
+
+			expect(clipped).not.toContain('�');
+			expect(clipped).toMatch(/^é{2,3}\n\[clipped \d+ bytes\]\né{2,3}$/);
+		});
+
+		it('leaves input untouched when clipping is off or nothing is large', () => {
+			const input = [output('c1', 'z'.repeat(5_000))];
+
+			expect(clipToolOutputs(input, { maxBytes: 0, keepRecent: 0 })).toEqual({
+				input,
+				clippedOutputs: 0,
+				bytesSaved: 0,
+			});
+			expect(clipToolOutputs(input, { maxBytes: 10_000, keepRecent: 0 }).input).toBe(input);
+		});
+	});
+
 	describe('addToolRemapMessage', () => {
 		it('should prepend tool remap message when tools present', () => {
 			const input: InputItem[] = [
@@ -1,5 +1,10 @@
 import { describe, it, expect, vi } from 'vitest';
-import { ensureContentType, convertSseToJson, isEmptyResponse } from '../lib/request/response-handler.js';
+import {
+	ensureContentType,
+	convertSseToJson,
+	isEmptyResponse,
+	observeInputTokenUsage,
+} from '../lib/request/response-handler.js';
 
 describe('Response Handler Module', () => {
 	describe('ensureContentType', () => {
@@ -282,4 +287,45 @@ data: {"type":"response.done","response":{"id":"resp_789"}}
 			expect(isEmptyResponse({ data: [1, 2, 3] })).toBe(false);
 		});
 	});
+
+	describe('observeInputTokenUsage', () => {
+		const encoder = new TextEncoder();
+		const streamOf = (chunks: string[]) =>
+			new ReadableStream<Uint8Array>({
+				start(controller) {
+					for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+					controller.close();
+				},
+			});
+
+		it('should pass the stream through and report input tokens split across chunks', async () => {
+			const completed = `data: ${JSON.stringify({
+				type: 'response.completed',
+				response: { id: 'resp_1', usage: { input_tokens: 1234, output_tokens: 5 } },
+			})}\n\n`;
+			const chunks = ['data: {"type":"response.output_text.delta","delta":"hi"}\n\n', completed.slice(0, 40), completed.slice(40)];
+			const onInputTokens = vi.fn();
+
+			const observed = observeInputTokenUsage(
+				new Response(streamOf(chunks), { status: 200, headers: { 'x-test': '1' } }),
+				onInputTokens,
+			);
+
+			expect(await observed.text()).toBe(chunks.join(''));
+			expect(observed.headers.get('x-test')).toBe('1');
+			expect(onInputTokens).toHaveBeenCalledTimes(1);
+			expect(onInputTokens).toHaveBeenCalledWith(1234);
+		});
+
+		it('should not report when the stream carries no usage', async () => {
+			const onInputTokens = vi.fn();
+			const observed = observeInputTokenUsage(
+				new Response(streamOf(['data: {"type":"response.completed","response":{"id":"r"}}'])),
+				onInputTokens,
+			);
+
+			await observed.text();
+			expect(onInputTokens).not.toHaveBeenCalled();
+		});
+	});
 });
@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+	RotationCoordinator,
+	PEER_STALE_MS,
+	configureRotationCoordinator,
+	getPeerStateDirectory,
+	getRotationCoordinator,
+	releaseWhenBodySettles,
+} from "../lib/rotation-coordinator.js";
+import { AccountManager } from "../lib/accounts.js";
+import { getRotationStateAccountKey, setStoragePathDirect } from "../lib/storage.js";
+import { resetTrackers } from "../lib/rotation.js";
+import type { AccountStorageV3 } from "../lib/storage.js";
+
+describe("rotation coordinator", () => {
+	const testWorkDir = join(tmpdir(), "codex-coordinator-" + Math.random().toString(36).slice(2));
+	const accountA = { accountId: "acct-a", refreshToken: "rt-a" };
+	const accountB = { accountId: "acct-b", refreshToken: "rt-b" };
+
+	// The parent process is alive and on this host, so it passes the liveness
+	// probe the same way a real sibling OpenCode session would.
+	const writePeerFile = async (
+		accounts: Record<string, unknown>,
+		overrides: { updatedAt?: number; pid?: number } = {},
+	) => {
+		const directory = getPeerStateDirectory();
+		await fs.mkdir(directory, { recursive: true });
+		const pid = overrides.pid ?? process.ppid;
+		await fs.writeFile(
+			join(directory, `${os.hostname()}-${pid}.json`),
+			JSON.stringify({
+				version: 1,
+				pid,
+				hostname: os.hostname(),
+				updatedAt: overrides.updatedAt ?? Date.now(),
+				accounts,
+			}),
+			"utf-8",
+		);
+	};
+
+	const createManager = () => {
+		const now = Date.now();
+		const stored: AccountStorageV3 = {
+			version: 3,
+			activeIndex: 0,
+			accounts: [accountA, accountB].map((account) => ({
+				...account,
+				addedAt: now,
+				lastUsed: now,
+			})),
+		};
+		return new AccountManager(undefined, stored);
+	};
+
+	beforeEach(async () => {
+		await fs.mkdir(testWorkDir, { recursive: true });
+		setStoragePathDirect(join(testWorkDir, "accounts.json"));
+		resetTrackers();
+	});
+
+	afterEach(async () => {
+		await configureRotationCoordinator(false);
+		resetTrackers();
+		setStoragePathDirect(null);
+		await fs.rm(testWorkDir, { recursive: true, force: true });
+	});
+
+	it("aggregates live peer files and ignores stale ones", async () => {
+		const key = getRotationStateAccountKey(accountA);
+		const resetAt = Date.now() + 60_000;
+		await writePeerFile({ [key]: { inFlight: 2, rateLimitResetTimes: { codex: resetAt } } });
+		await writePeerFile(
+			{ [key]: { inFlight: 5, rateLimitResetTimes: {} } },
+			{ pid: 1, updatedAt: Date.now() - PEER_STALE_MS - 1_000 },
+		);
+
+		const coordinator = new RotationCoordinator();
+		await coordinator.refresh();
+
+		expect(coordinator.getPeerInFlight(key)).toBe(2);
+		expect(coordinator.getPeerState(key)?.rateLimitResetTimes).toEqual({ codex: resetAt });
+		expect(coordinator.getPeerInFlight(getRotationStateAccountKey(accountB))).toBe(0);
+	});
+
+	it("publishes in-flight counts and observations to its own peer file", async () => {
+		const coordinator = new RotationCoordinator();
+		const key = getRotationStateAccountKey(accountA);
+		const release = coordinator.beginRequest(key);
+		coordinator.noteCooldown(key, Date.now() + 30_000, "network-error");
+		await coordinator.publish();
+
+		const file = join(getPeerStateDirectory(), `${os.hostname()}-${process.pid}.json`);
+		const published = JSON.parse(await fs.readFile(file, "utf-8"));
+		expect(published.accounts[key]).toMatchObject({ inFlight: 1, cooldownReason: "network-error" });
+
+		release();
+		release();
+		await coordinator.publish();
+		const afterRelease = JSON.parse(await fs.readFile(file, "utf-8"));
+		expect(afterRelease.accounts[key].inFlight).toBe(0);
+
+		await coordinator.stop();
+		await expect(fs.access(file)).rejects.toThrow();
+	});
+
+	it("does not recreate its peer file when a publish is in flight during stop", async () => {
+		const coordinator = new RotationCoordinator();
+		coordinator.beginRequest(getRotationStateAccountKey(accountA));
+
+		const publishing = coordinator.publish();
+		await new Promise((resolve) => setImmediate(resolve));
+		await coordinator.stop();
+		await publishing;
+
+		const directory = getPeerStateDirectory();
+		const remaining = await fs.readdir(directory).catch(() => [] as string[]);
+		expect(remaining).toEqual([]);
+	});
+
+	it("deletes peer files left by stale or dead processes", async () => {
+		const key = getRotationStateAccountKey(accountA);
+		await writePeerFile({ [key]: { inFlight: 1, rateLimitResetTimes: {} } });
+		await writePeerFile(
+			{ [key]: { inFlight: 5, rateLimitResetTimes: {} } },
+			{ pid: 1, updatedAt: Date.now() - PEER_STALE_MS - 1_000 },
+		);
+		await writePeerFile({ [key]: { inFlight: 7, rateLimitResetTimes: {} } }, { pid: 2 ** 30 });
+
+		const coordinator = new RotationCoordinator();
+		await coordinator.refresh();
+
+		expect(coordinator.getPeerInFlight(key)).toBe(1);
+		expect(await fs.readdir(getPeerStateDirectory())).toEqual([`${os.hostname()}-${process.ppid}.json`]);
+	});
+
+	it("skips accounts a peer has seen rate-limited", async () => {
+		await configureRotationCoordinator(true);
+		await writePeerFile({
+			[getRotationStateAccountKey(accountA)]: {
+				inFlight: 0,
+				rateLimitResetTimes: { codex: Date.now() + 60_000 },
+			},
+		});
+		await getRotationCoordinator()?.refresh();
+
+		const manager = createManager();
+		const selected = manager.getCurrentOrNextForFamilyHybrid("codex");
+
+		expect(selected?.index).toBe(1);
+		expect(manager.getAccountsSnapshot()[0]?.rateLimitResetTimes.codex).toBeGreaterThan(Date.now());
+	});
+
+	it("steers away from the current account while a peer is using it", async () => {
+		await configureRotationCoordinator(true);
+		await writePeerFile({
+			[getRotationStateAccountKey(accountA)]: { inFlight: 3, rateLimitResetTimes: {} },
+		});
+		await getRotationCoordinator()?.refresh();
+
+		const selected = createManager().getCurrentOrNextForFamilyHybrid("codex");
+
+		expect(selected?.index).toBe(1);
+	});
+
+	it("keeps the sticky current account when coordination is disabled", async () => {
+		await writePeerFile({
+			[getRotationStateAccountKey(accountA)]: { inFlight: 3, rateLimitResetTimes: {} },
+		});
+
+		const selected = createManager().getCurrentOrNextForFamilyHybrid("codex");
+
+		expect(selected?.index).toBe(0);
+	});
+
+	it("releases once a wrapped stream is fully consumed", async () => {
+		let releases = 0;
+		const wrapped = releaseWhenBodySettles(new Response("data: done\n\n"), () => {
+			releases += 1;
+		});
+
+		expect(releases).toBe(0);
+		expect(await wrapped.text()).toBe("data: done\n\n");
+		expect(releases).toBe(1);
+	});
+});
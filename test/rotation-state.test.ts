@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { promises as fs, existsSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+	clearRotationState,
+	getRotationStateAccountKey,
+	getRotationStatePath,
+	loadRotationState,
+	saveRotationState,
+	setStoragePathDirect,
+} from "../lib/storage.js";
+import { AccountManager } from "../lib/accounts.js";
+import { getHealthTracker, getTokenTracker, resetTrackers } from "../lib/rotation.js";
+import { runCleanup } from "../lib/shutdown.js";
+
+describe("rotation state persistence", () => {
+	const testWorkDir = join(tmpdir(), "codex-rotation-state-" + Math.random().toString(36).slice(2));
+	let testStoragePath: string;
+
+	const writeAccounts = async (accounts: Array<{ accountId: string; refreshToken: string }>) => {
+		const now = Date.now();
+		await fs.writeFile(
+			testStoragePath,
+			JSON.stringify({
+				version: 3,
+				activeIndex: 0,
+				accounts: accounts.map((account) => ({ ...account, addedAt: now, lastUsed: now })),
+			}),
+			"utf-8",
+		);
+	};
+
+	beforeEach(async () => {
+		await fs.mkdir(testWorkDir, { recursive: true });
+		testStoragePath = join(testWorkDir, "accounts.json");
+		setStoragePathDirect(testStoragePath);
+		resetTrackers();
+	});
+
+	afterEach(async () => {
+		await runCleanup();
+		resetTrackers();
+		setStoragePathDirect(null);
+		await fs.rm(testWorkDir, { recursive: true, force: true });
+	});
+
+	it("stores the sidecar next to the accounts file", () => {
+		expect(dirname(getRotationStatePath())).toBe(testWorkDir);
+	});
+
+	it("round-trips and drops malformed entries", async () => {
+		await saveRotationState({
+			version: 1,
+			savedAt: 1_000,
+			health: [{ account: "abc", quotaKey: "codex", score: 40, lastUpdated: 900, consecutiveFailures: 2 }],
+			tokenBuckets: [{ account: "abc", tokens: 3, lastRefill: 900 }],
+		});
+		const raw = JSON.parse(await fs.readFile(getRotationStatePath(), "utf-8"));
+		raw.health.push({ account: "", score: 1, lastUpdated: 1 });
+		raw.tokenBuckets.push({ account: "abc", tokens: "nope", lastRefill: 1 });
+		await fs.writeFile(getRotationStatePath(), JSON.stringify(raw), "utf-8");
+
+		const loaded = await loadRotationState();
+		expect(loaded?.health).toEqual([
+			{ account: "abc", quotaKey: "codex", score: 40, lastUpdated: 900, consecutiveFailures: 2 },
+		]);
+		expect(loaded?.tokenBuckets).toEqual([{ account: "abc", quotaKey: undefined, tokens: 3, lastRefill: 900 }]);
+
+		await clearRotationState();
+		expect(existsSync(getRotationStatePath())).toBe(false);
+		expect(await loadRotationState()).toBeNull();
+	});
+
+	it("never writes refresh tokens into the sidecar", () => {
+		const key = getRotationStateAccountKey({ refreshToken: "secret-refresh-token" });
+		expect(key).toMatch(/^[0-9a-f]{16}$/);
+		expect(key).not.toContain("secret");
+	});
+
+	it("restores tracker state by account identity on loadFromDisk", async () => {
+		const accountA = { accountId: "acct-a", refreshToken: "rt-a" };
+		const accountB = { accountId: "acct-b", refreshToken: "rt-b" };
+		const lastUpdated = Date.now() - 60 * 60 * 1000;
+		await saveRotationState({
+			version: 1,
+			savedAt: lastUpdated,
+			health: [
+				{
+					account: getRotationStateAccountKey(accountB),
+					quotaKey: "codex",
+					score: 50,
+					lastUpdated,
+					consecutiveFailures: 3,
+				},
+			],
+			tokenBuckets: [
+				{ account: getRotationStateAccountKey(accountB), quotaKey: "codex", tokens: 0, lastRefill: lastUpdated },
+			],
+		});
+		// Account order changed since the snapshot was written: B is now index 0.
+		await writeAccounts([accountB, accountA]);
+
+		await AccountManager.loadFromDisk();
+
+		const health = getHealthTracker();
+		// One hour of downtime at the default 2 points/hour of passive recovery.
+		expect(health.getScore(0, "codex")).toBeCloseTo(52, 1);
+		expect(health.getConsecutiveFailures(0, "codex")).toBe(3);
+		expect(health.getScore(1, "codex")).toBe(100);
+		// Sixty minutes at the default six tokens/minute, capped at maxTokens.
+		expect(getTokenTracker().getTokens(0, "codex")).toBe(50);
+	});
+
+	it("does not overwrite live tracker state on reload", async () => {
+		const account = { accountId: "acct-a", refreshToken: "rt-a" };
+		await writeAccounts([account]);
+		await saveRotationState({
+			version: 1,
+			savedAt: Date.now(),
+			health: [
+				{
+					account: getRotationStateAccountKey(account),
+					quotaKey: "codex",
+					score: 10,
+					lastUpdated: Date.now(),
+					consecutiveFailures: 5,
+				},
+			],
+			tokenBuckets: [],
+		});
+		getHealthTracker().recordSuccess(0, "codex");
+
+		await AccountManager.loadFromDisk();
+
+		expect(getHealthTracker().getScore(0, "codex")).toBe(100);
+		expect(getHealthTracker().getConsecutiveFailures(0, "codex")).toBe(0);
+	});
+
+	it("flushes tracker state through the shutdown cleanup", async () => {
+		const account = { accountId: "acct-a", refreshToken: "rt-a" };
+		await writeAccounts([account]);
+		await AccountManager.loadFromDisk();
+		getHealthTracker().recordRateLimit(0, "codex");
+		getTokenTracker().drain(0, "codex", 20);
+
+		await runCleanup();
+
+		const persisted = await loadRotationState();
+		expect(persisted?.health).toEqual([
+			expect.objectContaining({
+				account: getRotationStateAccountKey(account),
+				quotaKey: "codex",
+				score: 90,
+				consecutiveFailures: 1,
+			}),
+		]);
+		expect(persisted?.tokenBuckets).toEqual([
+			expect.objectContaining({ account: getRotationStateAccountKey(account), quotaKey: "codex", tokens: 30 }),
+		]);
+	});
+
+	it("persists learned token bucket sizes across reloads", async () => {
+		const account = { accountId: "acct-a", refreshToken: "rt-a" };
+		await writeAccounts([account]);
+		await AccountManager.loadFromDisk();
+		for (let i = 0; i < 10; i++) getTokenTracker().tryConsume(0, "codex");
+		getTokenTracker().recordRateLimitObserved(0, "codex");
+
+		await runCleanup();
+		const persisted = await loadRotationState();
+		expect(persisted?.tokenBucketCalibrations).toEqual([
+			expect.objectContaining({ account: getRotationStateAccountKey(account), quotaKey: "codex", samples: 1 }),
+		]);
+
+		getTokenTracker().clear();
+		await AccountManager.loadFromDisk();
+		expect(getTokenTracker().getBucketConfig(0, "codex").maxTokens).toBeCloseTo(38);
+	});
+});
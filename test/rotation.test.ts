@@ -2,7 +2,12 @@ import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import {
 	HealthScoreTracker,
 	TokenBucketTracker,
+	QuotaUsageTracker,
 	selectHybridAccount,
+	selectLeastQuotaUsedAccount,
+	selectWeightedAccount,
+	compareSelectionTier,
+	filterToPreferredTier,
 	addJitter,
 	randomDelay,
 	exponentialBackoff,
@@ -300,6 +305,158 @@ describe("TokenBucketTracker", () => {
 			expect(tracker.getTokens(1)).toBe(DEFAULT_TOKEN_BUCKET_CONFIG.maxTokens);
 		});
 	});
+
+	describe("calibration", () => {
+		const consume = (count: number, quotaKey = "codex") => {
+			for (let i = 0; i < count; i++) tracker.tryConsume(0, quotaKey);
+		};
+
+		it("shrinks capacity towards the requests sent before a 429", () => {
+			consume(10);
+			tracker.recordRateLimitObserved(0, "codex");
+
+			expect(tracker.getBucketConfig(0, "codex").maxTokens).toBeCloseTo(38);
+			expect(tracker.getTokens(0, "codex")).toBeCloseTo(38);
+			expect(tracker.getCalibration(0, "codex")?.samples).toBe(1);
+			expect(tracker.getBucketConfig(0, "codex-mini")).toEqual(DEFAULT_TOKEN_BUCKET_CONFIG);
+		});
+
+		it("learns the refill rate from the time between 429s", () => {
+			consume(10);
+			tracker.recordRateLimitObserved(0, "codex");
+			vi.advanceTimersByTime(4 * 60_000);
+			consume(12);
+			tracker.recordRateLimitObserved(0, "codex");
+
+			// 12 requests in 4 minutes: 6 + (3 - 6) * 0.3
+			expect(tracker.getBucketConfig(0, "codex").tokensPerMinute).toBeCloseTo(5.1);
+		});
+
+		it("learns from used-percent deltas and rebases when the window resets", () => {
+			tracker.recordUsageObserved(0, "codex", { usedPercent: 10, windowMinutes: 300 });
+			consume(5);
+			tracker.recordUsageObserved(0, "codex", { usedPercent: 15, windowMinutes: 300 });
+
+			// 1% per request: 85 requests left. The refill rate is not touched.
+			const learned = tracker.getBucketConfig(0, "codex");
+			expect(learned.maxTokens).toBeCloseTo(60.5);
+			expect(learned.tokensPerMinute).toBe(DEFAULT_TOKEN_BUCKET_CONFIG.tokensPerMinute);
+
+			consume(5);
+			tracker.recordUsageObserved(0, "codex", { usedPercent: 2, windowMinutes: 300 });
+			expect(tracker.getCalibration(0, "codex")?.samples).toBe(1);
+		});
+
+		it("keeps sustained request rates flowing under 5h and weekly usage readings", () => {
+			const windows = [
+				{ quotaKey: "codex:5h", windowMinutes: 300, basePercent: 10, requestsPerPercent: 15 },
+				{ quotaKey: "codex:weekly", windowMinutes: 10_080, basePercent: 3, requestsPerPercent: 60 },
+			];
+			const sent = new Map(windows.map((window) => [window.quotaKey, 0]));
+			let rejected = 0;
+
+			// An agent session at 5 requests a minute for an hour, with a usage
+			// reading after every minute.
+			for (let minute = 0; minute < 60; minute++) {
+				for (const window of windows) {
+					for (let i = 0; i < 5; i++) {
+						if (tracker.tryConsume(0, window.quotaKey)) {
+							sent.set(window.quotaKey, (sent.get(window.quotaKey) ?? 0) + 1);
+						} else {
+							rejected++;
+						}
+					}
+					const usedPercent =
+						window.basePercent +
+						Math.floor((sent.get(window.quotaKey) ?? 0) / window.requestsPerPercent);
+					tracker.recordUsageObserved(0, window.quotaKey, {
+						usedPercent,
+						windowMinutes: window.windowMinutes,
+					});
+				}
+				vi.advanceTimersByTime(60_000);
+			}
+
+			expect(rejected).toBe(0);
+			for (const window of windows) {
+				expect(tracker.getCalibration(0, window.quotaKey)?.samples).toBeGreaterThan(0);
+				expect(tracker.getBucketConfig(0, window.quotaKey).tokensPerMinute).toBe(
+					DEFAULT_TOKEN_BUCKET_CONFIG.tokensPerMinute,
+				);
+			}
+		});
+
+		it("uses pinned family sizes instead of learning", () => {
+			tracker.configure({ overrides: { codex: { maxTokens: 5 } } });
+			consume(2, "codex:gpt-5-codex");
+			tracker.recordRateLimitObserved(0, "codex:gpt-5-codex");
+
+			expect(tracker.getBucketConfig(0, "codex:gpt-5-codex")).toEqual({
+				maxTokens: 5,
+				tokensPerMinute: DEFAULT_TOKEN_BUCKET_CONFIG.tokensPerMinute,
+			});
+			expect(tracker.getCalibration(0, "codex:gpt-5-codex")).toBeUndefined();
+		});
+
+		it("keeps the defaults when calibration is off", () => {
+			tracker.configure({ calibrate: false });
+			consume(10);
+			tracker.recordRateLimitObserved(0, "codex");
+
+			expect(tracker.getBucketConfig(0, "codex")).toEqual(DEFAULT_TOKEN_BUCKET_CONFIG);
+		});
+
+		it("round-trips learned sizes through snapshots", () => {
+			consume(10);
+			tracker.recordRateLimitObserved(0, "codex");
+			const restored = new TokenBucketTracker();
+
+			expect(restored.restoreCalibrations(tracker.snapshotCalibrations())).toBe(1);
+			expect(restored.getBucketConfig(0, "codex").maxTokens).toBeCloseTo(38);
+		});
+	});
+});
+
+describe("QuotaUsageTracker", () => {
+	let tracker: QuotaUsageTracker;
+	const now = 1_700_000_000_000;
+
+	beforeEach(() => {
+		tracker = new QuotaUsageTracker();
+	});
+
+	it("reports the highest used percent across live windows", () => {
+		tracker.record(0, [
+			{ usedPercent: 20, resetAtMs: now + 60_000 },
+			{ usedPercent: 85, resetAtMs: now + 86_400_000 },
+		], now);
+
+		expect(tracker.getUsedPercent(0, now)).toBe(85);
+		expect(tracker.getUsedPercent(1, now)).toBeUndefined();
+	});
+
+	it("drops windows once they reset", () => {
+		tracker.record(0, [
+			{ usedPercent: 95, resetAtMs: now + 1_000 },
+			{ usedPercent: 10, resetAtMs: now + 86_400_000 },
+		], now);
+
+		expect(tracker.getUsedPercent(0, now + 2_000)).toBe(10);
+	});
+
+	it("expires readings without a reset time after an hour", () => {
+		tracker.record(0, [{ usedPercent: 70 }], now);
+
+		expect(tracker.getUsedPercent(0, now + 30 * 60_000)).toBe(70);
+		expect(tracker.getUsedPercent(0, now + 61 * 60_000)).toBeUndefined();
+	});
+
+	it("keeps the previous reading when a response has no used percent", () => {
+		tracker.record(0, [{ usedPercent: 40 }], now);
+		tracker.record(0, [{ windowMinutes: 300 }], now);
+
+		expect(tracker.getUsedPercent(0, now)).toBe(40);
+	});
 });
 
 describe("selectHybridAccount", () => {
@@ -376,6 +533,17 @@ describe("selectHybridAccount", () => {
 		expect(result?.index).toBe(1);
 	});
 
+	it("deprioritizes accounts close to their quota window", () => {
+		const accounts: AccountWithMetrics[] = [
+			{ index: 0, isAvailable: true, lastUsed: Date.now(), quotaUsedPercent: 96 },
+			{ index: 1, isAvailable: true, lastUsed: Date.now(), quotaUsedPercent: 50 },
+		];
+		healthTracker.recordFailure(1);
+
+		const result = selectHybridAccount(accounts, healthTracker, tokenTracker);
+		expect(result?.index).toBe(1);
+	});
+
 	it("pidOffsetEnabled false does not change selection", () => {
 		const accounts: AccountWithMetrics[] = [
 			{ index: 0, isAvailable: true, lastUsed: Date.now() },
@@ -440,6 +608,128 @@ describe("selectHybridAccount", () => {
 	});
 });
 
+describe("selectLeastQuotaUsedAccount", () => {
+	let tokenTracker: TokenBucketTracker;
+
+	beforeEach(() => {
+		tokenTracker = new TokenBucketTracker();
+	});
+
+	it("picks the available account with the most tokens left", () => {
+		const accounts: AccountWithMetrics[] = [
+			{ index: 0, isAvailable: true, lastUsed: 0 },
+			{ index: 1, isAvailable: true, lastUsed: 0 },
+			{ index: 2, isAvailable: false, lastUsed: 0 },
+		];
+		tokenTracker.drain(0, undefined, 20);
+
+		expect(selectLeastQuotaUsedAccount(accounts, tokenTracker)?.index).toBe(1);
+	});
+
+	it("breaks ties by least recently used", () => {
+		const accounts: AccountWithMetrics[] = [
+			{ index: 0, isAvailable: true, lastUsed: 200 },
+			{ index: 1, isAvailable: true, lastUsed: 100 },
+		];
+
+		expect(selectLeastQuotaUsedAccount(accounts, tokenTracker)?.index).toBe(1);
+	});
+
+	it("falls back to least recently used when nothing is available", () => {
+		const accounts: AccountWithMetrics[] = [
+			{ index: 0, isAvailable: false, lastUsed: 200 },
+			{ index: 1, isAvailable: false, lastUsed: 100 },
+		];
+
+		expect(selectLeastQuotaUsedAccount(accounts, tokenTracker)?.index).toBe(1);
+	});
+});
+
+describe("selectWeightedAccount", () => {
+	let healthTracker: HealthScoreTracker;
+	let tokenTracker: TokenBucketTracker;
+	const accounts: AccountWithMetrics[] = [
+		{ index: 0, isAvailable: true, lastUsed: Date.now() },
+		{ index: 1, isAvailable: true, lastUsed: Date.now() },
+	];
+
+	beforeEach(() => {
+		healthTracker = new HealthScoreTracker();
+		tokenTracker = new TokenBucketTracker();
+	});
+
+	it("maps the random draw onto score-weighted ranges", () => {
+		expect(
+			selectWeightedAccount(accounts, healthTracker, tokenTracker, undefined, {}, () => 0)?.index,
+		).toBe(0);
+		expect(
+			selectWeightedAccount(accounts, healthTracker, tokenTracker, undefined, {}, () => 0.99)?.index,
+		).toBe(1);
+	});
+
+	it("gives healthier accounts a larger share", () => {
+		for (let i = 0; i < 5; i++) healthTracker.recordFailure(0);
+
+		// Equal scores would split at 0.5; account 0 is now well under that.
+		expect(
+			selectWeightedAccount(accounts, healthTracker, tokenTracker, undefined, {}, () => 0.45)?.index,
+		).toBe(1);
+	});
+
+	it("ignores unavailable accounts", () => {
+		const mixed: AccountWithMetrics[] = [
+			{ index: 0, isAvailable: false, lastUsed: 0 },
+			{ index: 1, isAvailable: true, lastUsed: 0 },
+		];
+
+		expect(
+			selectWeightedAccount(mixed, healthTracker, tokenTracker, undefined, {}, () => 0)?.index,
+		).toBe(1);
+	});
+});
+
+describe("selection tiers", () => {
+	it("ranks non-reserve accounts above reserves regardless of priority", () => {
+		expect(compareSelectionTier({ priority: 0 }, { priority: 100, reserve: true })).toBeGreaterThan(0);
+		expect(compareSelectionTier({ priority: 10 }, { priority: 5 })).toBeGreaterThan(0);
+		expect(compareSelectionTier({}, { priority: 0, reserve: false })).toBe(0);
+	});
+
+	it("keeps only the most preferred tier present", () => {
+		const tiered = filterToPreferredTier([
+			{ index: 0, priority: 10 },
+			{ index: 1, priority: 50, reserve: true },
+			{ index: 2, priority: 10 },
+			{ index: 3 },
+		]);
+		expect(tiered.map((account) => account.index)).toEqual([0, 2]);
+	});
+
+	it("steers hybrid selection away from reserves and lower tiers", () => {
+		const healthTracker = new HealthScoreTracker();
+		const tokenTracker = new TokenBucketTracker();
+		const accounts: AccountWithMetrics[] = [
+			{ index: 0, isAvailable: true, lastUsed: 0, reserve: true },
+			{ index: 1, isAvailable: true, lastUsed: Date.now(), priority: 5 },
+			{ index: 2, isAvailable: true, lastUsed: 0 },
+		];
+
+		expect(selectHybridAccount(accounts, healthTracker, tokenTracker)?.index).toBe(1);
+		expect(selectLeastQuotaUsedAccount(accounts, tokenTracker)?.index).toBe(1);
+	});
+
+	it("falls back to a reserve once it is the only available account", () => {
+		const healthTracker = new HealthScoreTracker();
+		const tokenTracker = new TokenBucketTracker();
+		const accounts: AccountWithMetrics[] = [
+			{ index: 0, isAvailable: true, lastUsed: 0, reserve: true },
+			{ index: 1, isAvailable: false, lastUsed: 0, priority: 5 },
+		];
+
+		expect(selectHybridAccount(accounts, healthTracker, tokenTracker)?.index).toBe(0);
+	});
+});
+
 describe("utility functions", () => {
 	describe("addJitter", () => {
 		it("returns value within jitter range", () => {
@@ -0,0 +1,50 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+	configureRoutingRules,
+	getConfiguredRoutingRules,
+	getRoutingRuleExclusion,
+} from "../lib/routing-rules.js";
+
+describe("routing rules", () => {
+	afterEach(() => {
+		configureRoutingRules({});
+	});
+
+	it("allows every account when no rules are configured", () => {
+		expect(getRoutingRuleExclusion(undefined, "gpt-5.4-pro", "gpt-5.4-pro")).toBeNull();
+		expect(getConfiguredRoutingRules()).toEqual({});
+	});
+
+	it("applies both the model rule and the family rule", () => {
+		configureRoutingRules({
+			"gpt-5.4": { excludeTags: ["trial"] },
+			"gpt-5.4-mini": { requireTags: ["cheap"] },
+		});
+
+		expect(getRoutingRuleExclusion(["cheap"], "gpt-5.4-mini", "gpt-5.4-mini")).toBeNull();
+		expect(getRoutingRuleExclusion([], "gpt-5.4-mini", "gpt-5.4-mini")).toBe(
+			"routing-rule:gpt-5.4-mini:missing-tag:cheap",
+		);
+		expect(getRoutingRuleExclusion(["trial"], "gpt-5.4", "gpt-5.4")).toBe(
+			"routing-rule:gpt-5.4:excluded-tag:trial",
+		);
+	});
+
+	it("matches normalized model IDs before their family", () => {
+		configureRoutingRules({
+			"gpt-5.3-codex": { requireTags: ["pro"] },
+			codex: { excludeTags: ["personal"] },
+		});
+
+		expect(getRoutingRuleExclusion(["personal"], "codex", "gpt-5.3-codex")).toBe(
+			"routing-rule:gpt-5.3-codex:missing-tag:pro",
+		);
+		expect(getRoutingRuleExclusion(["personal", "pro"], "codex", "gpt-5.3-codex")).toBe(
+			"routing-rule:codex:excluded-tag:personal",
+		);
+	});
+
+	it("ignores inherited object keys", () => {
+		expect(getRoutingRuleExclusion([], "codex", "constructor")).toBeNull();
+	});
+});
@@ -104,6 +104,24 @@ describe("PluginConfigSchema", () => {
 		});
 		expect(result.success).toBe(false);
 	});
+
+	it("rejects hedgeDelayMs below 250ms", () => {
+		expect(PluginConfigSchema.safeParse({ hedgeDelayMs: 249 }).success).toBe(false);
+		expect(PluginConfigSchema.safeParse({ hedgeDelayMs: 250 }).success).toBe(true);
+	});
+
+	it("validates model alias targets and option presets", () => {
+		const valid = PluginConfigSchema.safeParse({
+			modelAliases: { "my-fast": { model: "gpt-5.4-mini", options: { reasoningEffort: "low" } } },
+		});
+		const missingModel = PluginConfigSchema.safeParse({ modelAliases: { "my-fast": {} } });
+		const badEffort = PluginConfigSchema.safeParse({
+			modelAliases: { "my-fast": { model: "gpt-5.4-mini", options: { reasoningEffort: "turbo" } } },
+		});
+		expect(valid.success).toBe(true);
+		expect(missingModel.success).toBe(false);
+		expect(badEffort.success).toBe(false);
+	});
 });
 
 describe("AccountMetadataV3Schema", () => {
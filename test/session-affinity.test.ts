@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { SessionAffinityTracker } from "../lib/session-affinity.js";
+
+describe("SessionAffinityTracker", () => {
+	it("returns the pinned account until the TTL passes", () => {
+		const tracker = new SessionAffinityTracker({ ttlMs: 1_000 });
+		tracker.remember("session-a", "account-1", 0);
+
+		expect(tracker.lookup("session-a", 999)).toBe("account-1");
+		expect(tracker.lookup("session-a", 1_000)).toBeUndefined();
+		expect(tracker.getStats(1_000).activeSessions).toBe(0);
+	});
+
+	it("refreshes the TTL when a session is remembered again", () => {
+		const tracker = new SessionAffinityTracker({ ttlMs: 1_000 });
+		tracker.remember("session-a", "account-1", 0);
+		tracker.remember("session-a", "account-2", 800);
+
+		expect(tracker.lookup("session-a", 1_500)).toBe("account-2");
+	});
+
+	it("evicts the least recently used session when full", () => {
+		const tracker = new SessionAffinityTracker({ maxEntries: 2 });
+		tracker.remember("session-a", "account-1", 0);
+		tracker.remember("session-b", "account-2", 0);
+		tracker.remember("session-a", "account-1", 1);
+		tracker.remember("session-c", "account-3", 2);
+
+		expect(tracker.lookup("session-a", 3)).toBe("account-1");
+		expect(tracker.lookup("session-b", 3)).toBeUndefined();
+		expect(tracker.lookup("session-c", 3)).toBe("account-3");
+	});
+
+	it("drops pins and ignores new ones when disabled", () => {
+		const tracker = new SessionAffinityTracker();
+		tracker.remember("session-a", "account-1", 0);
+		tracker.configure({ enabled: false });
+		tracker.remember("session-b", "account-2", 0);
+
+		expect(tracker.getStats(0)).toEqual({
+			enabled: false,
+			hits: 0,
+			misses: 0,
+			activeSessions: 0,
+		});
+	});
+});
@@ -77,6 +77,45 @@ describe("Storage Module - Async Operations", () => {
       expect(result?.accounts.length).toBe(2);
     });
 
+    it("clamps account priority and drops non-boolean reserve flags", () => {
+      const result = normalizeAccountStorage({
+        version: 3,
+        accounts: [
+          { refreshToken: "token1", addedAt: 1000, lastUsed: 2000, priority: 150, reserve: true },
+          { refreshToken: "token2", addedAt: 1500, lastUsed: 2500, priority: 7.6, reserve: "yes" },
+          { refreshToken: "token3", addedAt: 1500, lastUsed: 2500, priority: 0 },
+        ],
+        activeIndex: 0,
+      });
+
+      expect(result?.accounts[0]).toMatchObject({ priority: 100, reserve: true });
+      expect(result?.accounts[1]?.priority).toBe(8);
+      expect(result?.accounts[1]).not.toHaveProperty("reserve");
+      expect(result?.accounts[2]).not.toHaveProperty("priority");
+    });
+
+    it("normalizes availability schedules and drops unusable ones", () => {
+      const result = normalizeAccountStorage({
+        version: 3,
+        accounts: [
+          {
+            refreshToken: "token1",
+            addedAt: 1000,
+            lastUsed: 2000,
+            availability: { timezone: "UTC", windows: [{ days: ["Saturday"], start: "8:00", end: "12:00" }] },
+          },
+          { refreshToken: "token2", addedAt: 1500, lastUsed: 2500, availability: { windows: [] } },
+        ],
+        activeIndex: 0,
+      });
+
+      expect(result?.accounts[0]?.availability).toEqual({
+        timezone: "UTC",
+        windows: [{ days: ["sat"], start: "08:00", end: "12:00" }],
+      });
+      expect(result?.accounts[1]).not.toHaveProperty("availability");
+    });
+
     it("migrates v1 storage to v3", () => {
       const v1Input = {
         version: 1,
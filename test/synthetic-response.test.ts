@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+
+import { convertSseToJson } from "../lib/request/response-handler.js";
+import {
+	buildSyntheticResponseEvents,
+	createSyntheticResponse,
+	isSyntheticResponse,
+} from "../lib/synthetic-response.js";
+
+function parseEvents(sse: string): Array<{ event: string; data: Record<string, unknown> }> {
+	return sse
+		.trim()
+		.split("\n\n")
+		.map((block) => {
+			const [eventLine, dataLine] = block.split("\n");
+			return {
+				event: (eventLine ?? "").replace("event: ", ""),
+				data: JSON.parse((dataLine ?? "").replace("data: ", "")) as Record<string, unknown>,
+			};
+		});
+}
+
+describe("synthetic responses", () => {
+	it("streams one assistant message as Responses API events", () => {
+		const events = parseEvents(buildSyntheticResponseEvents("Hello", "gpt-5.4"));
+
+		expect(events.map((event) => event.event)).toEqual([
+			"response.created",
+			"response.output_item.added",
+			"response.content_part.added",
+			"response.output_text.delta",
+			"response.output_text.done",
+			"response.content_part.done",
+			"response.output_item.done",
+			"response.completed",
+		]);
+		expect(events.map((event) => event.data.sequence_number)).toEqual([0, 1, 2, 3, 4, 5, 6, 7]);
+		expect(events[3]?.data).toMatchObject({ type: "response.output_text.delta", delta: "Hello" });
+		expect(events[7]?.data.response).toMatchObject({
+			object: "response",
+			status: "completed",
+			model: "gpt-5.4",
+			output: [
+				{
+					type: "message",
+					role: "assistant",
+					content: [{ type: "output_text", text: "Hello" }],
+				},
+			],
+		});
+	});
+
+	it("marks the response as synthetic with a 200 status and error type", async () => {
+		const response = createSyntheticResponse("Notice", { errorType: "retry_budget_exhausted" });
+
+		expect(response.status).toBe(200);
+		expect(response.headers.get("Content-Type")).toBe("text/event-stream");
+		expect(response.headers.get("X-Codex-Plugin-Error-Type")).toBe("retry_budget_exhausted");
+		expect(isSyntheticResponse(response)).toBe(true);
+		expect(isSyntheticResponse(new Response("ok"))).toBe(false);
+		expect(await response.text()).toContain('"model":"unknown"');
+	});
+
+	it("returns the completed response object for non-streaming callers", async () => {
+		const response = createSyntheticResponse("Notice", { model: "gpt-5.4", stream: false });
+
+		expect(response.headers.get("Content-Type")).toBe("application/json; charset=utf-8");
+		expect(await response.json()).toMatchObject({
+			object: "response",
+			status: "completed",
+			model: "gpt-5.4",
+			output: [{ content: [{ type: "output_text", text: "Notice" }] }],
+		});
+	});
+
+	it("converts to the same object a real stream would", async () => {
+		const streamed = createSyntheticResponse("Notice", { model: "gpt-5.4" });
+
+		const converted = await convertSseToJson(streamed, new Headers());
+
+		expect(await converted.json()).toMatchObject({
+			status: "completed",
+			output: [{ content: [{ type: "output_text", text: "Notice" }] }],
+		});
+	});
+});
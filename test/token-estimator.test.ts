@@ -0,0 +1,166 @@
+import { afterEach, describe, expect, it } from "vitest";
+
+import { ContextWindowExceededError } from "../lib/errors.js";
+import {
+	TokenEstimateCalibration,
+	applyContextWindowGuard,
+	estimateInputItemTokens,
+	estimateRequestTokens,
+	formatTokenCalibrationStats,
+	getModelInputTokenLimit,
+	getTokenEstimateCalibration,
+	trimInputToTokenBudget,
+} from "../lib/request/token-estimator.js";
+import type { InputItem, RequestBody } from "../lib/types.js";
+
+function message(role: string, text: string): InputItem {
+	return { type: "message", role, content: [{ type: "input_text", text }] };
+}
+
+function call(callId: string, args: string): InputItem {
+	return { type: "function_call", role: "assistant", call_id: callId, name: "read", arguments: args };
+}
+
+function output(callId: string, text: string): InputItem {
+	return { type: "function_call_output", role: "tool", call_id: callId, output: text };
+}
+
+describe("token estimator", () => {
+	afterEach(() => {
+		getTokenEstimateCalibration().clear();
+	});
+
+	it("estimates instructions, input items and tool schemas separately", () => {
+		const body: RequestBody = {
+			model: "gpt-5.4",
+			instructions: "x".repeat(400),
+			input: [message("user", "y".repeat(80)), { ...message("user", ""), content: [{ type: "input_image", image_url: "data:" }] }],
+			tools: [{ type: "function", name: "read" }],
+		};
+
+		const estimate = estimateRequestTokens(body);
+
+		expect(estimate.instructions).toBe(100);
+		expect(estimate.input).toBe(4 + 20 + 4 + 765);
+		expect(estimate.tools).toBe(Math.ceil(JSON.stringify(body.tools).length / 4));
+		expect(estimate.total).toBe(estimate.instructions + estimate.input + estimate.tools);
+	});
+
+	it("counts function call arguments and outputs", () => {
+		expect(estimateInputItemTokens(call("c1", "a".repeat(40)))).toBe(4 + 1 + 10);
+		expect(estimateInputItemTokens(output("c1", "b".repeat(400)))).toBe(4 + 100);
+	});
+
+	it("looks up per-model input budgets with a GPT-5 default", () => {
+		expect(getModelInputTokenLimit("gpt-5.4")).toBe(922_000);
+		expect(getModelInputTokenLimit("gpt-5.3-codex")).toBe(272_000);
+		expect(getModelInputTokenLimit(undefined)).toBe(272_000);
+	});
+
+	describe("trimInputToTokenBudget", () => {
+		it("drops the oldest items, keeping pinned messages and call/output pairs together", () => {
+			const input = [
+				message("developer", "rules"),
+				message("user", "first question"),
+				call("c1", "{}"),
+				output("c1", "z".repeat(4_000)),
+				message("assistant", "answer"),
+				message("user", "latest question"),
+			];
+
+			const trimmed = trimInputToTokenBudget(input, 500);
+
+			expect(trimmed.input).toEqual([
+				message("developer", "rules"),
+				message("assistant", "answer"),
+				message("user", "latest question"),
+			]);
+			expect(trimmed.removed).toBe(3);
+			expect(trimmed.freedTokens).toBeGreaterThanOrEqual(500);
+		});
+
+		it("never drops the latest user message or what follows it", () => {
+			const input = [message("user", "z".repeat(4_000)), call("c1", "{}"), output("c1", "ok")];
+
+			expect(trimInputToTokenBudget(input, 10_000)).toMatchObject({ input, removed: 0 });
+		});
+	});
+
+	describe("applyContextWindowGuard", () => {
+		const oversized = (): RequestBody => ({
+			model: "gpt-5.3-codex",
+			input: [
+				message("user", "old question"),
+				output("c0", "z".repeat(1_200_000)),
+				message("user", "latest question"),
+			],
+		});
+
+		it("only estimates when off", () => {
+			const body = oversized();
+			expect(applyContextWindowGuard(body, "off").total).toBeGreaterThan(272_000);
+			expect(body.input).toHaveLength(3);
+		});
+
+		it("rejects an oversized body with the estimate and limit", () => {
+			expect(() => applyContextWindowGuard(oversized(), "reject")).toThrow(ContextWindowExceededError);
+			try {
+				applyContextWindowGuard(oversized(), "reject");
+			} catch (error) {
+				expect(error).toMatchObject({ model: "gpt-5.3-codex", limitTokens: 272_000 });
+			}
+		});
+
+		it("trims old items until the body fits", () => {
+			const body = oversized();
+
+			const estimate = applyContextWindowGuard(body, "trim");
+
+			expect(body.input).toEqual([message("user", "latest question")]);
+			expect(estimate.total).toBeLessThan(272_000);
+		});
+
+		it("rejects in trim mode when the latest turn alone is too large", () => {
+			const body: RequestBody = { model: "gpt-5.3-codex", input: [message("user", "z".repeat(1_200_000))] };
+
+			expect(() => applyContextWindowGuard(body, "trim")).toThrow(ContextWindowExceededError);
+		});
+
+		it("scales estimates by the calibrated ratio", () => {
+			const body: RequestBody = { model: "gpt-5.3-codex", input: [message("user", "z".repeat(800_000))] };
+			expect(() => applyContextWindowGuard(body, "reject")).not.toThrow();
+
+			for (let i = 0; i < 5; i++) getTokenEstimateCalibration().record("gpt-5.3-codex", 1_000, 1_500);
+
+			expect(() => applyContextWindowGuard(body, "reject")).toThrow(ContextWindowExceededError);
+		});
+	});
+
+	describe("TokenEstimateCalibration", () => {
+		it("smooths the actual/estimated ratio and applies it after five samples", () => {
+			const calibration = new TokenEstimateCalibration();
+			calibration.record("gpt-5.4", 1_000, 1_200);
+			expect(calibration.getStats()).toEqual({
+				samples: 1,
+				ratio: 1.2,
+				factor: 1,
+				last: { model: "gpt-5.4", estimated: 1_000, actual: 1_200 },
+			});
+
+			for (let i = 0; i < 4; i++) calibration.record("gpt-5.4", 1_000, 1_200);
+			expect(calibration.factor).toBeCloseTo(1.2);
+			expect(formatTokenCalibrationStats(calibration.getStats())).toBe(
+				"actual/estimated=1.20 over 5 requests (last 1000 est, 1200 actual)",
+			);
+		});
+
+		it("ignores empty samples and clamps the factor", () => {
+			const calibration = new TokenEstimateCalibration();
+			calibration.record(null, 0, 100);
+			expect(formatTokenCalibrationStats(calibration.getStats())).toBe("no samples");
+
+			for (let i = 0; i < 5; i++) calibration.record(null, 100, 1_000);
+			expect(calibration.factor).toBe(2);
+		});
+	});
+});
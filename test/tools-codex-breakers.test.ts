@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { AccountManager } from "../lib/accounts.js";
+import {
+	clearCircuitBreakers,
+	configureCircuitBreakers,
+	getCircuitBreaker,
+} from "../lib/circuit-breaker.js";
+import type { ToolContext } from "../lib/tools/index.js";
+import { createCodexBreakersTool } from "../lib/tools/codex-breakers.js";
+
+function buildManager(): AccountManager {
+	const now = Date.now();
+	return new AccountManager(undefined, {
+		version: 3 as const,
+		activeIndex: 0,
+		accounts: [
+			{ refreshToken: "token-1", accountId: "acc-1", addedAt: now, lastUsed: now },
+			{ refreshToken: "token-2", accountId: "acc-2", addedAt: now, lastUsed: now },
+		],
+	} as never);
+}
+
+function buildCtx(manager: AccountManager): ToolContext {
+	const ctx = {
+		cachedAccountManagerRef: { current: manager },
+		accountManagerPromiseRef: { current: null },
+		resolveUiRuntime: () => ({ v2Enabled: false }),
+		formatCommandAccountLabel: (_account: unknown, index: number) =>
+			`Account ${index + 1}`,
+		buildJsonAccountIdentity: (index: number) => ({
+			index: index + 1,
+			zeroBasedIndex: index,
+		}),
+	};
+	return ctx as unknown as ToolContext;
+}
+
+function tripBreaker(key: string): void {
+	const breaker = getCircuitBreaker(key);
+	for (let i = 0; i < 3; i++) breaker.recordFailure();
+}
+
+describe("codex-breakers tool", () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date(100_000));
+		clearCircuitBreakers();
+	});
+
+	afterEach(() => {
+		configureCircuitBreakers({});
+		clearCircuitBreakers();
+		vi.useRealTimers();
+	});
+
+	it("lists each breaker with its account, state and time to half-open", async () => {
+		tripBreaker("acc-2:codex");
+		getCircuitBreaker("acc-1:codex").recordFailure();
+		vi.setSystemTime(new Date(110_000));
+		const tool = createCodexBreakersTool(buildCtx(buildManager()));
+
+		const text = await tool.execute({}, {} as never);
+
+		expect(text).toContain("Circuit breakers (3 failures in 1m 0s, half-open after 30s, 1 probe):");
+		expect(text).toContain("Account 1 · codex: closed");
+		expect(text).toContain("Account 2 · codex: open, half-open in 20s");
+		expect(text).not.toContain("acc-2:codex");
+		expect(text).toContain("3 recent failures, last 10s ago");
+	});
+
+	it("lists breaker keys in text only when includeSensitive is set", async () => {
+		tripBreaker("acc-2:codex");
+		const tool = createCodexBreakersTool(buildCtx(buildManager()));
+
+		const text = await tool.execute({ includeSensitive: true }, {} as never);
+
+		expect(text).toContain("key: acc-2:codex");
+	});
+
+	it("keeps breaker keys out of JSON unless includeSensitive is set", async () => {
+		tripBreaker("acc-2:codex");
+		const tool = createCodexBreakersTool(buildCtx(buildManager()));
+
+		const redacted = JSON.parse(await tool.execute({ format: "json" }, {} as never));
+		const sensitive = JSON.parse(
+			await tool.execute({ format: "json", includeSensitive: true }, {} as never),
+		);
+
+		expect(redacted.breakers[0]).toMatchObject({
+			account: { index: 2 },
+			family: "codex",
+			state: "open",
+			failureCount: 3,
+			failureTimestamps: [100_000, 100_000, 100_000],
+			timeUntilHalfOpenMs: 30_000,
+		});
+		expect(redacted.breakers[0]).not.toHaveProperty("key");
+		expect(sensitive.breakers[0].key).toBe("acc-2:codex");
+	});
+
+	it("resets every breaker of one account by account number", async () => {
+		tripBreaker("acc-1:codex");
+		tripBreaker("acc-1:gpt-5.4");
+		tripBreaker("acc-2:codex");
+		const tool = createCodexBreakersTool(buildCtx(buildManager()));
+
+		const text = await tool.execute({ reset: "1" }, {} as never);
+
+		expect(text).toContain("Reset 2 circuit breakers for Account 1.");
+		expect(getCircuitBreaker("acc-1:codex").getState()).toBe("closed");
+		expect(getCircuitBreaker("acc-1:gpt-5.4").getState()).toBe("closed");
+		expect(getCircuitBreaker("acc-2:codex").getState()).toBe("open");
+	});
+
+	it("resets all breakers or a single key", async () => {
+		tripBreaker("acc-1:codex");
+		tripBreaker("acc-2:codex");
+		const tool = createCodexBreakersTool(buildCtx(buildManager()));
+
+		expect(await tool.execute({ reset: "acc-2:codex" }, {} as never)).toContain(
+			"Reset circuit breaker acc-2:codex.",
+		);
+		expect(getCircuitBreaker("acc-1:codex").getState()).toBe("open");
+
+		expect(await tool.execute({ reset: "all" }, {} as never)).toContain(
+			"Reset 2 circuit breakers.",
+		);
+		expect(getCircuitBreaker("acc-1:codex").getState()).toBe("closed");
+	});
+
+	it("rejects unknown keys and account numbers", async () => {
+		const tool = createCodexBreakersTool(buildCtx(buildManager()));
+
+		expect(await tool.execute({ reset: "missing:codex" }, {} as never)).toContain(
+			"No circuit breaker with key: missing:codex",
+		);
+		expect(await tool.execute({ reset: "9" }, {} as never)).toContain(
+			"Invalid account number: 9",
+		);
+	});
+});
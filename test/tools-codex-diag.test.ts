@@ -22,6 +22,17 @@ function buildRuntimeMetrics(
 		authRefreshFailures: 0,
 		emptyResponseRetries: 0,
 		accountRotations: 1,
+		parallelProbeRaces: 0,
+		parallelProbeWins: 0,
+		parallelProbeCancelled: 0,
+		hedgedRequests: 0,
+		hedgeWins: 0,
+		hedgeCancelled: 0,
+		toolOutputClipMaxBytes: 0,
+		toolOutputClippedRequests: 0,
+		toolOutputClippedOutputs: 0,
+		toolOutputBytesSaved: 0,
+		lastToolOutputBytesSaved: null,
 		cumulativeLatencyMs: 2500,
 		retryBudgetExhaustions: 0,
 		retryBudgetUsage: {
@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { AccountManager } from "../lib/accounts.js";
+import { configureAccountSelection, resetTrackers } from "../lib/rotation.js";
+import type { ToolContext } from "../lib/tools/index.js";
+import { createCodexRouteTool } from "../lib/tools/codex-route.js";
+
+function buildManager(): AccountManager {
+	const now = Date.now();
+	return new AccountManager(undefined, {
+		version: 3 as const,
+		activeIndex: 0,
+		activeIndexByFamily: { codex: 0 },
+		accounts: [
+			{ refreshToken: "token-1", addedAt: now, lastUsed: now, enabled: false },
+			{ refreshToken: "token-2", addedAt: now, lastUsed: now - 1_000 },
+			{ refreshToken: "token-3", addedAt: now, lastUsed: now - 2_000 },
+		],
+	} as never);
+}
+
+function buildCtx(
+	manager: AccountManager,
+	policy: "strict" | "fallback" = "fallback",
+): ToolContext {
+	const ctx = {
+		cachedAccountManagerRef: { current: manager },
+		accountManagerPromiseRef: { current: null },
+		resolveUiRuntime: () => ({ v2Enabled: false }),
+		formatCommandAccountLabel: (_account: unknown, index: number) =>
+			`Account ${index + 1}`,
+		buildJsonAccountIdentity: (index: number) => ({
+			index: index + 1,
+			zeroBasedIndex: index,
+		}),
+		resolveUnsupportedFallbackSettings: () => ({
+			unsupportedCodexPolicy: policy,
+			fallbackOnUnsupportedCodexModel: policy === "fallback",
+			fallbackToGpt52OnUnsupportedGpt53: true,
+			customChain: {},
+		}),
+	};
+	return ctx as unknown as ToolContext;
+}
+
+describe("codex-route tool", () => {
+	beforeEach(() => {
+		resetTrackers();
+		configureAccountSelection({ strategy: "round-robin" });
+	});
+
+	afterEach(() => {
+		configureAccountSelection({});
+		resetTrackers();
+	});
+
+	it("previews the selection for a normalized model without moving the cursor", async () => {
+		const manager = buildManager();
+		const tool = createCodexRouteTool(buildCtx(manager));
+
+		const first = JSON.parse(
+			await tool.execute({ model: "openai/gpt-5.4-pro", format: "json" }, {} as never),
+		);
+		const second = JSON.parse(
+			await tool.execute({ model: "openai/gpt-5.4-pro", format: "json" }, {} as never),
+		);
+
+		expect(first).toMatchObject({
+			dryRun: true,
+			normalizedModel: "gpt-5.4-pro",
+			modelFamily: "gpt-5.4-pro",
+			quotaKey: "gpt-5.4-pro:gpt-5.4-pro",
+			strategy: "round-robin",
+			selectedAccount: { index: 2 },
+			fallbackChain: ["gpt-5.4"],
+		});
+		expect(second.selectedAccount).toEqual(first.selectedAccount);
+		expect(first.selectionExplainability).toHaveLength(3);
+		expect(first.selectionExplainability[0].reasons).toContain("disabled");
+		expect(manager.getCurrentOrNextForFamily("gpt-5.4-pro")?.index).toBe(1);
+	});
+
+	it("reports no fallback chain under the strict policy", async () => {
+		const tool = createCodexRouteTool(buildCtx(buildManager(), "strict"));
+
+		const output = await tool.execute({ model: "gpt-5.4-pro" }, {} as never);
+
+		expect(output).toContain("Would select: Account 2");
+		expect(output).toContain("Fallback chain: none (policy: strict)");
+		expect(output).toContain("Account 1: blocked");
+		expect(output).toContain("Dry run: no request sent");
+	});
+});
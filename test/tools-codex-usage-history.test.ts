@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { promises as fs } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+
+import { appendQuotaHistory, setStoragePathDirect } from "../lib/storage.js";
+import type { ToolContext } from "../lib/tools/index.js";
+import { createCodexUsageHistoryTool } from "../lib/tools/codex-usage-history.js";
+
+const HOUR_MS = 60 * 60_000;
+
+function buildCtx(): ToolContext {
+	const ctx = {
+		resolveUiRuntime: () => ({ v2Enabled: false }),
+		resolveActiveIndex: () => 0,
+		formatCommandAccountLabel: (_account: unknown, index: number) =>
+			`Account ${index + 1}`,
+		buildJsonAccountIdentity: (index: number) => ({
+			index: index + 1,
+			zeroBasedIndex: index,
+		}),
+	};
+	return ctx as unknown as ToolContext;
+}
+
+describe("codex-usage-history tool", () => {
+	const testWorkDir = join(tmpdir(), "codex-usage-history-" + Math.random().toString(36).slice(2));
+	const accounts = [
+		{ accountId: "acct-1", refreshToken: "token-1" },
+		{ accountId: "acct-2", refreshToken: "token-2" },
+	];
+
+	beforeEach(async () => {
+		await fs.mkdir(testWorkDir, { recursive: true });
+		const storagePath = join(testWorkDir, "accounts.json");
+		setStoragePathDirect(storagePath);
+		const now = Date.now();
+		await fs.writeFile(
+			storagePath,
+			JSON.stringify({
+				version: 3,
+				activeIndex: 0,
+				accounts: accounts.map((account) => ({ ...account, addedAt: now, lastUsed: now })),
+			}),
+			"utf-8",
+		);
+		for (const [offset, used] of [[20, 10], [6, 40], [1, 80]] as const) {
+			const at = now - offset * HOUR_MS;
+			await appendQuotaHistory(accounts[0]!, {
+				fetchedAt: at,
+				source: "headers",
+				limits: [
+					{ usedPercent: used, windowMinutes: 300 },
+					{ usedPercent: used / 4, windowMinutes: 10080 },
+				],
+			});
+		}
+		await appendQuotaHistory(accounts[0]!, {
+			fetchedAt: now - 3 * 24 * HOUR_MS,
+			source: "usage",
+			limits: [{ usedPercent: 5, windowMinutes: 300 }],
+		});
+	});
+
+	afterEach(async () => {
+		setStoragePathDirect(null);
+		await fs.rm(testWorkDir, { recursive: true, force: true });
+	});
+
+	it("renders per-account sparklines for the default 24h range", async () => {
+		const tool = createCodexUsageHistoryTool(buildCtx());
+
+		const result = await tool.execute({}, {} as never);
+
+		expect(result).toContain("Codex usage history (last 24h, 2 accounts):");
+		expect(result).toContain("1. Account 1 [active]");
+		expect(result).toMatch(/5h limit: [▁▂▃▄▅▆▇█·]{24} now 80%, peak 80%, 3 readings/);
+		expect(result).toMatch(/Weekly limit: [▁▂▃▄▅▆▇█·]{24} now 20%, peak 20%, 3 readings/);
+		expect(result).toContain("2. Account 2\n  No readings in this range.");
+	});
+
+	it("returns the raw series in JSON mode for the chosen range and account", async () => {
+		const tool = createCodexUsageHistoryTool(buildCtx());
+
+		const parsed = JSON.parse(
+			await tool.execute({ range: "7d", index: 1, format: "json" }, {} as never),
+		);
+
+		expect(parsed.range).toBe("7d");
+		expect(parsed.until - parsed.since).toBe(7 * 24 * HOUR_MS);
+		expect(parsed.accounts).toHaveLength(1);
+		expect(parsed.accounts[0]).toMatchObject({ index: 1, isActive: true, readings: 4 });
+		const fiveHour = parsed.accounts[0].windows.find(
+			(window: { windowMinutes: number }) => window.windowMinutes === 300,
+		);
+		expect(fiveHour.series.map((point: { usedPercent: number }) => point.usedPercent)).toEqual([
+			5, 10, 40, 80,
+		]);
+	});
+
+	it("rejects unknown ranges and account numbers", async () => {
+		const tool = createCodexUsageHistoryTool(buildCtx());
+
+		expect(await tool.execute({ range: "30d" }, {} as never)).toContain("Invalid range: 30d");
+		expect(await tool.execute({ range: "soon" }, {} as never)).toContain("Invalid range: soon");
+		expect(await tool.execute({ index: 5 }, {} as never)).toContain("Invalid account number: 5");
+	});
+});